@@ -5,6 +5,8 @@ const BUILD_OUTPUT = process.env.NEXT_STANDALONE_OUTPUT
   ? "standalone"
   : undefined;
 
+const PYODIDE_FILES = ["./node_modules/pyodide/**/*"];
+
 export default () => {
   const nextConfig: NextConfig = {
     output: BUILD_OUTPUT,
@@ -18,6 +20,14 @@ export default () => {
     experimental: {
       taint: true,
     },
+    // Loaded at runtime by the Code node sandbox, so tracing does not find it.
+    // Only the routes that run workflows need it.
+    outputFileTracingIncludes: {
+      "/api/chat": PYODIDE_FILES,
+      "/api/workflow/[id]/execute": PYODIDE_FILES,
+      "/api/workflow/[id]/webhook/[token]": PYODIDE_FILES,
+      "/api/workflow/[id]/runs/[runId]/approval": PYODIDE_FILES,
+    },
   };
   const withNextIntl = createNextIntlPlugin();
   return withNextIntl(nextConfig);
@@ -4,7 +4,7 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { useTranslations } from "next-intl";
 import { Button } from "ui/button";
-import { Settings2, Trash2 } from "lucide-react";
+import { Download, Settings2, Trash2 } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -13,10 +13,18 @@ import {
   DialogHeader,
   DialogTitle,
 } from "ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "ui/dropdown-menu";
 import { ArchiveDialog } from "@/components/archive-dialog";
 
 import { toast } from "sonner";
 import { Archive } from "app-types/archive";
+import { ChatExportFormatSchema } from "app-types/chat";
 import { deleteArchiveAction } from "@/app/api/archive/actions";
 import { mutate } from "swr";
 
@@ -54,6 +62,28 @@ export function ArchiveActionsClient({ archive }: ArchiveActionsClientProps) {
   return (
     <>
       <div className="flex items-center gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 px-2">
+              <Download className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel className="text-xs text-muted-foreground">
+              {t("Chat.Export.exportArchive")}
+            </DropdownMenuLabel>
+            {ChatExportFormatSchema.options.map((format) => (
+              <DropdownMenuItem key={format} asChild className="cursor-pointer">
+                <a
+                  href={`/api/archive/${archive.id}/export?format=${format}`}
+                  download
+                >
+                  {t(`Chat.Export.formats.${format}`)}
+                </a>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
         <Button
           variant="ghost"
           size="sm"
@@ -1,23 +1,45 @@
 import { selectThreadWithMessagesAction } from "@/app/api/chat/actions";
 import ChatBot from "@/components/chat-bot";
 
-import { ChatMessage, ChatThread } from "app-types/chat";
+import { ChatMessage, ChatThread, MessageBranches } from "app-types/chat";
 import { redirect, RedirectType } from "next/navigation";
 
 const fetchThread = async (
   threadId: string,
-): Promise<(ChatThread & { messages: ChatMessage[] }) | null> => {
-  return await selectThreadWithMessagesAction(threadId);
+  focusMessageId?: string,
+): Promise<
+  | (ChatThread & {
+      messages: ChatMessage[];
+      branches: MessageBranches;
+      forkedFrom?: { id: string; title: string };
+    })
+  | null
+> => {
+  return await selectThreadWithMessagesAction(threadId, focusMessageId);
 };
 
 export default async function Page({
   params,
-}: { params: Promise<{ thread: string }> }) {
+  searchParams,
+}: {
+  params: Promise<{ thread: string }>;
+  searchParams: Promise<{ message?: string }>;
+}) {
   const { thread: threadId } = await params;
+  const { message: focusMessageId } = await searchParams;
 
-  const thread = await fetchThread(threadId);
+  const thread = await fetchThread(threadId, focusMessageId);
 
   if (!thread) redirect("/", RedirectType.replace);
 
-  return <ChatBot threadId={threadId} initialMessages={thread.messages} />;
+  return (
+    <ChatBot
+      key={focusMessageId ?? threadId}
+      threadId={threadId}
+      initialMessages={thread.messages}
+      initialBranches={thread.branches}
+      forkedFrom={thread.forkedFrom}
+      focusMessageId={focusMessageId}
+    />
+  );
 }
@@ -2,64 +2,50 @@
 import { EditWorkflowPopup } from "@/components/workflow/edit-workflow-popup";
 import { authClient } from "auth/client";
 
-import { ArrowUpRight, ChevronDown, MousePointer2 } from "lucide-react";
+import {
+  ArrowUpRight,
+  DownloadIcon,
+  LayoutTemplateIcon,
+  MousePointer2,
+  UploadIcon,
+} from "lucide-react";
 
 import { Card, CardDescription, CardHeader, CardTitle } from "ui/card";
 import { Button } from "ui/button";
 import useSWR, { mutate } from "swr";
-import { fetcher } from "lib/utils";
+import { cn, fetcher } from "lib/utils";
 import { Skeleton } from "ui/skeleton";
 import { BackgroundPaths } from "ui/background-paths";
 import { ShareableCard } from "@/components/shareable-card";
-import {
-  DBEdge,
-  DBNode,
-  DBWorkflow,
-  WorkflowSummary,
-} from "app-types/workflow";
+import { DBWorkflow, WorkflowSummary } from "app-types/workflow";
 import { useTranslations } from "next-intl";
-import {
-  DropdownMenu,
-  DropdownMenuContent,
-  DropdownMenuItem,
-  DropdownMenuTrigger,
-} from "ui/dropdown-menu";
-import { BabyResearch, GetWeather } from "lib/ai/workflow/examples";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
 import { Dialog, DialogContent, DialogTitle, DialogTrigger } from "ui/dialog";
 import { WorkflowGreeting } from "@/components/workflow/workflow-greeting";
 import { notify } from "lib/notify";
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { safe } from "ts-safe";
+import { WorkflowImportWarning } from "lib/ai/workflow/workflow-bundle";
+import {
+  WORKFLOW_TEMPLATES_KEY,
+  WorkflowTemplateGallery,
+} from "@/components/workflow/workflow-template-gallery";
 
-const createWithExample = async (exampleWorkflow: {
-  workflow: Partial<DBWorkflow>;
-  nodes: Partial<DBNode>[];
-  edges: Partial<DBEdge>[];
-}) => {
-  const response = await fetch("/api/workflow", {
-    method: "POST",
-    body: JSON.stringify({
-      ...exampleWorkflow.workflow,
-      noGenerateInputNode: true,
-      isPublished: true,
-    }),
-  });
+const IMPORT_WARNING_KEYS = {
+  "mcp-server": "Workflow.importMissingMcpServer",
+  model: "Workflow.importMissingModel",
+  workflow: "Workflow.importMissingWorkflow",
+} as const;
 
-  if (!response.ok) return toast.error("Error creating workflow");
-  const workflow = await response.json();
-  const structureResponse = await fetch(
-    `/api/workflow/${workflow.id}/structure`,
-    {
-      method: "POST",
-      body: JSON.stringify({
-        nodes: exampleWorkflow.nodes,
-        edges: exampleWorkflow.edges,
-      }),
-    },
-  );
-  if (!structureResponse.ok) return toast.error("Error creating workflow");
-  return workflow.id as string;
+const exportWorkflow = (workflowId: string) => {
+  // The server names the file after the workflow
+  const link = document.createElement("a");
+  link.href = `/api/workflow/${workflowId}/export`;
+  link.download = "";
+  link.click();
 };
 
 export default function WorkflowPage() {
@@ -70,6 +56,8 @@ export default function WorkflowPage() {
   const [isVisibilityChangeLoading, setIsVisibilityChangeLoading] =
     useState(false);
   const [isDeleteLoading, setIsDeleteLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const { data: workflows, isLoading } = useSWR<WorkflowSummary[]>(
     "/api/workflow",
@@ -85,14 +73,57 @@ export default function WorkflowPage() {
   const sharedWorkflows =
     workflows?.filter((w) => w.userId !== currentUserId) || [];
 
-  const createExample = async (exampleWorkflow: {
-    workflow: Partial<DBWorkflow>;
-    nodes: Partial<DBNode>[];
-    edges: Partial<DBEdge>[];
+  const { data: templateGallery } = useSWR<{ canPublish: boolean }>(
+    WORKFLOW_TEMPLATES_KEY,
+    fetcher,
+  );
+
+  // Imports and template copies warn about what is missing on this server
+  const openCreatedWorkflow = async ({
+    workflow,
+    warnings,
+  }: {
+    workflow: DBWorkflow;
+    warnings: WorkflowImportWarning[];
   }) => {
-    const workflowId = await createWithExample(exampleWorkflow);
     mutate("/api/workflow");
-    router.push(`/workflow/${workflowId}`);
+    if (warnings.length) {
+      await notify.alert({
+        title: t("Workflow.importWarnings"),
+        description: (
+          <span className="flex flex-col gap-1">
+            {warnings.map((warning, i) => (
+              <span key={i}>
+                {t(IMPORT_WARNING_KEYS[warning.type], warning)}
+              </span>
+            ))}
+          </span>
+        ),
+      });
+    }
+    router.push(`/workflow/${workflow.id}`);
+  };
+
+  const importWorkflow = (file: File) => {
+    setIsImporting(true);
+    safe(async () => {
+      const response = await fetch("/api/workflow/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text(),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => undefined);
+        throw new Error(data?.details ?? response.statusText);
+      }
+      return response.json() as Promise<{
+        workflow: DBWorkflow;
+        warnings: WorkflowImportWarning[];
+      }>;
+    })
+      .ifOk(openCreatedWorkflow)
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsImporting(false));
   };
 
   const updateVisibility = async (
@@ -119,6 +150,29 @@ export default function WorkflowPage() {
     }
   };
 
+  const updateTemplate = (workflow: WorkflowSummary) => {
+    const isTemplate = !workflow.isTemplate;
+    safe(async () => {
+      const response = await fetch(`/api/workflow/${workflow.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isTemplate }),
+      });
+      if (!response.ok) throw new Error(await response.text());
+    })
+      .ifOk(() => {
+        mutate("/api/workflow");
+        mutate(WORKFLOW_TEMPLATES_KEY);
+        if (!isTemplate) return toast.success(t("Workflow.templateRemoved"));
+        // Templates follow the visibility of their workflow
+        if (workflow.visibility == "private") {
+          return toast.warning(t("Workflow.templatePrivateHint"));
+        }
+        toast.success(t("Workflow.templatePublished"));
+      })
+      .ifFail(handleErrorWithToast);
+  };
+
   const deleteWorkflow = async (workflowId: string) => {
     const ok = await notify.confirm({
       description: t("Workflow.deleteConfirm"),
@@ -160,25 +214,27 @@ export default function WorkflowPage() {
           </DialogContent>
         </Dialog>
 
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button
-              variant="secondary"
-              className="min-w-54 justify-between data-[state=open]:bg-input"
-            >
-              {t("Common.createWithExample")}
-              <ChevronDown className="size-4" />
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent className="w-54">
-            <DropdownMenuItem onClick={() => createExample(BabyResearch())}>
-              👨🏻‍🔬 {t("Workflow.example.babyResearch")}
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => createExample(GetWeather())}>
-              🌤️ {t("Workflow.example.getWeather")}
-            </DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
+        <WorkflowTemplateGallery onCreated={openCreatedWorkflow} />
+
+        <Button
+          variant="secondary"
+          disabled={isImporting}
+          onClick={() => importInputRef.current?.click()}
+        >
+          <UploadIcon className="size-4" />
+          {t("Workflow.importWorkflow")}
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) importWorkflow(file);
+          }}
+        />
       </div>
 
       <div className="flex flex-col gap-4">
@@ -227,6 +283,55 @@ export default function WorkflowPage() {
                   onDelete={deleteWorkflow}
                   isVisibilityChangeLoading={isVisibilityChangeLoading}
                   isDeleteLoading={isDeleteLoading}
+                  renderActions={() => (
+                    <>
+                      {templateGallery?.canPublish && workflow.isPublished && (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className={cn(
+                                "size-8 text-muted-foreground hover:text-foreground",
+                                workflow.isTemplate && "text-primary",
+                              )}
+                              onClick={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                updateTemplate(workflow);
+                              }}
+                            >
+                              <LayoutTemplateIcon className="size-4" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {workflow.isTemplate
+                              ? t("Workflow.removeFromTemplates")
+                              : t("Workflow.publishAsTemplate")}
+                          </TooltipContent>
+                        </Tooltip>
+                      )}
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="size-8 text-muted-foreground hover:text-foreground"
+                            onClick={(e) => {
+                              e.preventDefault();
+                              e.stopPropagation();
+                              exportWorkflow(workflow.id);
+                            }}
+                          >
+                            <DownloadIcon className="size-4" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          {t("Workflow.exportWorkflow")}
+                        </TooltipContent>
+                      </Tooltip>
+                    </>
+                  )}
                 />
               ))}
         </div>
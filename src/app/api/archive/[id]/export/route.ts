@@ -0,0 +1,69 @@
+import { getSession } from "auth/server";
+import { ChatExportFormatSchema } from "app-types/chat";
+import { strToU8, zipSync, type Zippable } from "fflate";
+import {
+  CHAT_EXPORT_FILE_TYPES,
+  exportThread,
+  getAttachmentHeaders,
+  getExportFileName,
+  threadTitle,
+} from "lib/chat-export";
+import { archiveRepository, chatRepository } from "lib/db/repository";
+
+// Exports every chat of the archive as one zip file
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession();
+
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { id } = await params;
+  const format = ChatExportFormatSchema.safeParse(
+    new URL(request.url).searchParams.get("format") ?? "markdown",
+  );
+  if (!format.success) {
+    return new Response("Invalid export format", { status: 400 });
+  }
+
+  try {
+    const archive = await archiveRepository.getArchiveById(id);
+
+    if (!archive) {
+      return Response.json({ error: "Archive not found" }, { status: 404 });
+    }
+
+    if (archive.userId !== session.user.id) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const { extension } = CHAT_EXPORT_FILE_TYPES[format.data];
+    const items = await archiveRepository.getArchiveItems(id);
+    const files: Zippable = {};
+    for (const item of items) {
+      const thread = await chatRepository.selectThread(item.itemId);
+      if (thread?.userId !== session.user.id) continue;
+      const messages = await chatRepository.selectMessagesByThreadId(thread.id);
+      // Chats with the same title get a numbered file each
+      const title = threadTitle(thread);
+      let fileName = getExportFileName(title, extension);
+      for (let count = 2; files[fileName]; count++) {
+        fileName = getExportFileName(`${title} ${count}`, extension);
+      }
+      files[fileName] = strToU8(exportThread(thread, messages, format.data));
+    }
+
+    return new Response(zipSync(files), {
+      headers: getAttachmentHeaders(
+        getExportFileName(archive.name, "zip"),
+        "application/zip",
+      ),
+    });
+  } catch (error) {
+    console.error("Failed to export archive:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -13,7 +13,11 @@ import {
   generateExampleToolSchemaPrompt,
 } from "lib/ai/prompts";
 
-import type { ChatModel, ChatThread } from "app-types/chat";
+import {
+  type ChatModel,
+  type ChatThread,
+  ChatThreadExportSchema,
+} from "app-types/chat";
 
 import {
   agentRepository,
@@ -22,7 +26,7 @@ import {
   mcpServerCustomizationRepository,
 } from "lib/db/repository";
 import { customModelProvider } from "lib/ai/models";
-import { toAny } from "lib/utils";
+import { generateUUID, toAny } from "lib/utils";
 import { McpServerCustomizationsPrompt, MCPToolInfo } from "app-types/mcp";
 import { serverCache } from "lib/cache";
 import { CacheKeys } from "lib/cache/cache-keys";
@@ -33,6 +37,7 @@ import { JSONSchema7 } from "json-schema";
 import { ObjectJsonSchema7 } from "app-types/util";
 import { jsonSchemaToZod } from "lib/json-schema-to-zod";
 import { Agent } from "app-types/agent";
+import { copyMessageTree } from "lib/chat-branch";
 
 export async function getUserId() {
   const session = await getSession();
@@ -59,7 +64,10 @@ export async function generateTitleFromUserMessageAction({
   return title.trim();
 }
 
-export async function selectThreadWithMessagesAction(threadId: string) {
+export async function selectThreadWithMessagesAction(
+  threadId: string,
+  focusMessageId?: string,
+) {
   const session = await getSession();
   const thread = await chatRepository.selectThread(threadId);
 
@@ -70,8 +78,107 @@ export async function selectThreadWithMessagesAction(threadId: string) {
   if (thread.userId !== session?.user.id) {
     return null;
   }
-  const messages = await chatRepository.selectMessagesByThreadId(threadId);
-  return { ...thread, messages: messages ?? [] };
+  let { messages, branches } = await chatRepository.selectActivePath(threadId);
+  // A message of another branch is shown by switching to its branch
+  if (focusMessageId && !messages.some(({ id }) => id == focusMessageId)) {
+    const focused = await chatRepository.switchBranch(threadId, focusMessageId);
+    if (focused.messages.some(({ id }) => id == focusMessageId)) {
+      ({ messages, branches } = focused);
+    }
+  }
+  const forkedFrom = thread.forkedFromThreadId
+    ? await chatRepository.selectThread(thread.forkedFromThreadId)
+    : null;
+  return {
+    ...thread,
+    messages,
+    branches,
+    // Only linked while the source thread still exists
+    forkedFrom:
+      forkedFrom?.userId === thread.userId
+        ? { id: forkedFrom.id, title: forkedFrom.title }
+        : undefined,
+  };
+}
+
+async function checkThreadOwner(threadId: string) {
+  const userId = await getUserId();
+  const thread = await chatRepository.selectThread(threadId);
+  if (thread?.userId !== userId) {
+    throw new Error("Thread not found");
+  }
+}
+
+export async function selectMessageBranchesAction(threadId: string) {
+  await checkThreadOwner(threadId);
+  const { branches } = await chatRepository.selectActivePath(threadId);
+  return branches;
+}
+
+export async function switchBranchAction(threadId: string, messageId: string) {
+  await checkThreadOwner(threadId);
+  return chatRepository.switchBranch(threadId, messageId);
+}
+
+/**
+ * Copies the messages up to and including `messageId` into a new thread
+ * that links back to the source thread.
+ */
+export async function forkThreadAction(threadId: string, messageId: string) {
+  const userId = await getUserId();
+  const thread = await chatRepository.selectThread(threadId);
+  if (thread?.userId !== userId) {
+    throw new Error("Thread not found");
+  }
+  const path = await chatRepository.selectMessagePath(threadId, messageId);
+  if (path.at(-1)?.id !== messageId) {
+    throw new Error("Message not found");
+  }
+  const fork = await chatRepository.insertThread({
+    id: generateUUID(),
+    title: thread.title,
+    userId,
+    forkedFromThreadId: threadId,
+  });
+  const copy = copyMessageTree(path, generateUUID);
+  // Fresh timestamps keep the order and list the fork as the latest chat
+  const now = Date.now();
+  await chatRepository.insertMessages(
+    copy.messages.map((message, index) => ({
+      ...message,
+      threadId: fork.id,
+      createdAt: new Date(now + index),
+    })),
+  );
+  await chatRepository.updateActiveLeaf(fork.id, copy.ids.get(messageId)!);
+  return fork;
+}
+
+/**
+ * Restores a JSON export as a new thread of the current user, with every branch.
+ */
+export async function importThreadAction(data: unknown) {
+  const userId = await getUserId();
+  const { thread, messages } = ChatThreadExportSchema.parse(data);
+  const imported = await chatRepository.insertThread({
+    id: generateUUID(),
+    title: thread.title,
+    userId,
+  });
+  const copy = copyMessageTree(messages, generateUUID);
+  if (copy.messages.length) {
+    await chatRepository.insertMessages(
+      copy.messages.map((message) => ({
+        ...message,
+        threadId: imported.id,
+      })),
+    );
+  }
+  const activeLeafId = thread.activeLeafId && copy.ids.get(thread.activeLeafId);
+  if (activeLeafId) {
+    await chatRepository.updateActiveLeaf(imported.id, activeLeafId);
+  }
+  return imported;
 }
 
 export async function deleteMessageAction(messageId: string) {
@@ -82,13 +189,6 @@ export async function deleteThreadAction(threadId: string) {
   await chatRepository.deleteThread(threadId);
 }
 
-export async function deleteMessagesByChatIdAfterTimestampAction(
-  messageId: string,
-) {
-  "use server";
-  await chatRepository.deleteMessagesByChatIdAfterTimestamp(messageId);
-}
-
 export async function updateThreadAction(
   id: string,
   thread: Partial<Omit<ChatThread, "createdAt" | "updatedAt" | "userId">>,
@@ -29,6 +29,8 @@ import {
   manualToolExecuteByLastMessage,
   mergeSystemPrompt,
   extractInProgressToolPart,
+  extractWorkflowApprovalToolPart,
+  resumeWorkflowToolByLastMessage,
   filterMcpServerCustomizations,
   loadMcpTools,
   loadWorkFlowTools,
@@ -43,6 +45,7 @@ import {
 import { getSession } from "auth/server";
 import { colorize } from "consola/utils";
 import { generateUUID } from "lib/utils";
+import { HttpFetchToolContext } from "lib/ai/tools/http/fetch";
 
 const logger = globalLogger.withDefaults({
   message: colorize("blackBright", `Chat API: `),
@@ -60,6 +63,7 @@ export async function POST(request: Request) {
     const {
       id,
       message,
+      parentMessageId,
       chatModel,
       toolChoice,
       allowedAppDefaultToolkit,
@@ -85,7 +89,19 @@ export async function POST(request: Request) {
       return new Response("Forbidden", { status: 403 });
     }
 
-    const messages: UIMessage[] = (thread?.messages ?? []).map((m) => {
+    // A message sent again, to regenerate its answer or after tool calls, keeps its place.
+    // A new message starts a branch after its parent, so edits never replace history.
+    let path = await chatRepository.selectMessagePath(thread!.id, message.id);
+    const isNewMessage = !path.length;
+    if (isNewMessage && parentMessageId) {
+      path = await chatRepository.selectMessagePath(
+        thread!.id,
+        parentMessageId,
+      );
+    }
+    const parentId = isNewMessage ? (path.at(-1)?.id ?? null) : undefined;
+
+    const messages: UIMessage[] = path.map((m) => {
       return {
         id: m.id,
         role: m.role,
@@ -94,7 +110,7 @@ export async function POST(request: Request) {
       };
     });
 
-    if (messages.at(-1)?.id == message.id) {
+    if (!isNewMessage) {
       messages.pop();
     }
     messages.push(message);
@@ -142,6 +158,7 @@ export async function POST(request: Request) {
             loadWorkFlowTools({
               mentions,
               dataStream,
+              userId: session.user.id,
             }),
           )
           .orElse({});
@@ -174,6 +191,26 @@ export async function POST(request: Request) {
             }),
           );
         }
+        const approvedWorkflowToolParts =
+          extractWorkflowApprovalToolPart(message);
+        if (approvedWorkflowToolParts.length) {
+          await Promise.all(
+            approvedWorkflowToolParts.map(async (part) => {
+              const output = await resumeWorkflowToolByLastMessage(part, {
+                userId: session.user.id,
+                dataStream,
+                abortSignal: request.signal,
+              });
+              part.output = output;
+
+              dataStream.write({
+                type: "tool-output-available",
+                toolCallId: part.toolCallId,
+                output,
+              });
+            }),
+          );
+        }
 
         const userPreferences = thread?.userPreferences || undefined;
 
@@ -470,6 +507,9 @@ export async function POST(request: Request) {
           stopWhen: stepCountIs(10),
           toolChoice: "auto",
           abortSignal: request.signal,
+          experimental_context: {
+            userId: session.user.id,
+          } satisfies HttpFetchToolContext,
         });
         result.consumeStream();
         dataStream.merge(
@@ -499,6 +539,7 @@ export async function POST(request: Request) {
             role: message.role,
             parts: message.parts.map(convertToSavePart),
             id: message.id,
+            parentId,
           });
           await chatRepository.upsertMessage({
             threadId: thread!.id,
@@ -506,8 +547,10 @@ export async function POST(request: Request) {
             id: responseMessage.id,
             parts: responseMessage.parts.map(convertToSavePart),
             metadata,
+            parentId: message.id,
           });
         }
+        await chatRepository.updateActiveLeaf(thread!.id, responseMessage.id);
 
         if (agent) {
           agentRepository.updateAgent(agent.id, session.user.id, {
@@ -0,0 +1,25 @@
+import { getSession } from "auth/server";
+import { ChatSearchQuerySchema } from "app-types/chat";
+import { chatRepository } from "lib/db/repository";
+
+export async function GET(request: Request) {
+  const session = await getSession();
+
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const query = ChatSearchQuerySchema.safeParse(
+    Object.fromEntries(url.searchParams),
+  );
+  if (!query.success) {
+    return new Response("Invalid search query", { status: 400 });
+  }
+
+  const results = await chatRepository.searchMessages(
+    session.user.id,
+    query.data,
+  );
+  return Response.json(results);
+}
@@ -31,12 +31,21 @@ import { safe } from "ts-safe";
 import { workflowRepository } from "lib/db/repository";
 
 import {
+  DBNode,
   VercelAIWorkflowTool,
   VercelAIWorkflowToolStreaming,
+  VercelAIWorkflowToolStreamingResult,
   VercelAIWorkflowToolStreamingResultTag,
   VercelAIWorkflowToolTag,
 } from "app-types/workflow";
 import { createWorkflowExecutor } from "lib/ai/workflow/executor/workflow-executor";
+import {
+  recordWorkflowRun,
+  resumeWorkflowRun,
+} from "lib/ai/workflow/executor/workflow-run-history";
+import { WorkflowRuntimeState } from "lib/ai/workflow/executor/graph-store";
+import { isApprovalRequiredError } from "lib/ai/workflow/approval";
+import { isWorkflowCancelledError } from "lib/ai/workflow/cancellation";
 import { NodeKind } from "lib/ai/workflow/workflow.interface";
 import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
 import { APP_DEFAULT_TOOL_KIT } from "lib/ai/tools/tool-kit";
@@ -219,18 +228,146 @@ export function filterMcpServerCustomizations(
   );
 }
 
+/**
+ * Runs a workflow executor for a chat tool call and streams node progress into the tool result.
+ * Used for new calls, and for runs resumed after an approval.
+ */
+async function streamWorkflowToolRun({
+  app,
+  abortController,
+  nodes,
+  workflowId,
+  runId,
+  toolResult,
+  toolCallId,
+  dataStream,
+  abortSignal,
+  state,
+}: {
+  app: ReturnType<typeof createWorkflowExecutor>;
+  abortController: AbortController;
+  nodes: DBNode[];
+  workflowId: string;
+  runId: string;
+  toolResult: VercelAIWorkflowToolStreamingResult;
+  toolCallId: string;
+  dataStream: UIMessageStreamWriter;
+  abortSignal?: AbortSignal;
+  state: Partial<WorkflowRuntimeState>;
+}) {
+  const history = toolResult.history;
+
+  // Stopping the chat cancels the run, aborting its in-flight calls
+  abortSignal?.addEventListener("abort", () => abortController.abort());
+  app.subscribe((e) => {
+    if (e.eventType == "WORKFLOW_START" || e.eventType == "WORKFLOW_END")
+      return;
+    if (e.node.name == "SKIP") return;
+    if (e.eventType == "NODE_START") {
+      const node = nodes.find((node) => node.id == e.node.name)!;
+      if (!node) return;
+      history.push({
+        id: e.nodeExecutionId,
+        name: node.name,
+        status: "running",
+        startedAt: e.startedAt,
+        kind: node.kind as NodeKind,
+      });
+    } else if (e.eventType == "NODE_END") {
+      const result = history.find((r) => r.id == e.nodeExecutionId);
+      if (result) {
+        const state = (e.isOk ? e.node.output : e.node.input) as
+          | WorkflowRuntimeState
+          | undefined;
+        result.usage = state?.usage?.[e.node.name];
+        if (e.isOk) {
+          result.status = "success";
+          result.result = {
+            input: e.node.output.getInput(e.node.name),
+            output: e.node.output.getOutput({
+              nodeId: e.node.name,
+              path: [],
+            }),
+          };
+        } else if (isApprovalRequiredError(e.error)) {
+          result.status = "waiting";
+        } else if (isWorkflowCancelledError(e.error)) {
+          result.status = "cancelled";
+        } else {
+          result.status = "fail";
+          result.error = {
+            name: e.error?.name || "ERROR",
+            message: errorToString(e.error),
+          };
+        }
+        result.endedAt = e.endedAt;
+      }
+    }
+
+    dataStream.write({
+      type: "tool-output-available",
+      toolCallId,
+      output: toolResult,
+    });
+  });
+
+  const result = await app.run(state, {
+    disableHistory: true,
+  });
+
+  toolResult.endedAt = Date.now();
+  const { error } = result;
+  if (isApprovalRequiredError(error)) {
+    toolResult.status = "waiting";
+    toolResult.error = undefined;
+    toolResult.approval = {
+      workflowId,
+      runId,
+      nodeId: error.nodeId,
+      nodeName: nodes.find((node) => node.id == error.nodeId)?.name ?? "",
+      message: error.approvalMessage,
+    };
+  } else {
+    toolResult.status = result.isOk
+      ? "success"
+      : isWorkflowCancelledError(error)
+        ? "cancelled"
+        : "fail";
+    toolResult.approval = undefined;
+    toolResult.error = result.error
+      ? {
+          name: result.error.name || "ERROR",
+          message: errorToString(result.error) || "Unknown Error",
+        }
+      : undefined;
+  }
+  const outputNodeResults = history
+    .filter((h) => h.kind == NodeKind.Output)
+    .map((v) => v.result?.output)
+    .filter(Boolean);
+  toolResult.history = history.map((h) => ({
+    ...h,
+    result: undefined, // save tokens.
+  }));
+  toolResult.result =
+    outputNodeResults.length == 1 ? outputNodeResults[0] : outputNodeResults;
+  return toolResult;
+}
+
 export const workflowToVercelAITool = ({
   id,
   description,
   schema,
   dataStream,
   name,
+  userId,
 }: {
   id: string;
   name: string;
   description?: string;
   schema: ObjectJsonSchema7;
   dataStream: UIMessageStreamWriter;
+  userId: string;
 }): VercelAIWorkflowTool => {
   const toolName = name
     .replace(/[^a-zA-Z0-9\s]/g, "")
@@ -257,96 +394,45 @@ export const workflowToVercelAITool = ({
         .map((id) =>
           workflowRepository.selectStructureById(id, {
             ignoreNote: true,
+            snapshot: "latest",
           }),
         )
-        .map((workflow) => {
+        .map(async (workflow) => {
           if (!workflow) throw new Error("Not Found Workflow");
+          const abortController = new AbortController();
           const executor = createWorkflowExecutor({
             nodes: workflow.nodes,
             edges: workflow.edges,
+            signal: abortController.signal,
+            userId,
+            callerIds: [workflow.id],
           });
           toolResult.workflowIcon = workflow.icon;
 
-          abortSignal?.addEventListener("abort", () => executor.exit());
-          executor.subscribe((e) => {
-            if (
-              e.eventType == "WORKFLOW_START" ||
-              e.eventType == "WORKFLOW_END"
-            )
-              return;
-            if (e.node.name == "SKIP") return;
-            if (e.eventType == "NODE_START") {
-              const node = workflow.nodes.find(
-                (node) => node.id == e.node.name,
-              )!;
-              if (!node) return;
-              history.push({
-                id: e.nodeExecutionId,
-                name: node.name,
-                status: "running",
-                startedAt: e.startedAt,
-                kind: node.kind as NodeKind,
-              });
-            } else if (e.eventType == "NODE_END") {
-              const result = history.find((r) => r.id == e.nodeExecutionId);
-              if (result) {
-                if (e.isOk) {
-                  result.status = "success";
-                  result.result = {
-                    input: e.node.output.getInput(e.node.name),
-                    output: e.node.output.getOutput({
-                      nodeId: e.node.name,
-                      path: [],
-                    }),
-                  };
-                } else {
-                  result.status = "fail";
-                  result.error = {
-                    name: e.error?.name || "ERROR",
-                    message: errorToString(e.error),
-                  };
-                }
-                result.endedAt = e.endedAt;
-              }
-            }
-
-            dataStream.write({
-              type: "tool-output-available",
-              toolCallId,
-              output: toolResult,
-            });
+          // Runs are saved so an Approval node can resume them later
+          const run = await recordWorkflowRun(executor, {
+            workflowId: id,
+            userId,
+            input: query ?? {},
+            nodes: workflow.nodes,
+            trigger: "chat",
+            version: workflow.snapshot,
+            abortController,
           });
-          return executor.run(
-            {
+          return streamWorkflowToolRun({
+            app: executor,
+            abortController,
+            nodes: workflow.nodes,
+            workflowId: id,
+            runId: run.id,
+            toolResult,
+            toolCallId,
+            dataStream,
+            abortSignal,
+            state: {
               query: query ?? ({} as any),
             },
-            {
-              disableHistory: true,
-            },
-          );
-        })
-        .map((result) => {
-          toolResult.endedAt = Date.now();
-          toolResult.status = result.isOk ? "success" : "fail";
-          toolResult.error = result.error
-            ? {
-                name: result.error.name || "ERROR",
-                message: errorToString(result.error) || "Unknown Error",
-              }
-            : undefined;
-          const outputNodeResults = history
-            .filter((h) => h.kind == NodeKind.Output)
-            .map((v) => v.result?.output)
-            .filter(Boolean);
-          toolResult.history = history.map((h) => ({
-            ...h,
-            result: undefined, // save tokens.
-          }));
-          toolResult.result =
-            outputNodeResults.length == 1
-              ? outputNodeResults[0]
-              : outputNodeResults;
-          return toolResult;
+          });
         })
         .ifFail((err) => {
           return {
@@ -368,6 +454,87 @@ export const workflowToVercelAITool = ({
   return VercelAIWorkflowToolTag.create(tool);
 };
 
+export function extractWorkflowApprovalToolPart(
+  message: UIMessage,
+): ToolUIPart[] {
+  if (message.role != "assistant") return [];
+  return message.parts.filter(
+    (part) =>
+      isToolUIPart(part) &&
+      part.state == "output-available" &&
+      VercelAIWorkflowToolStreamingResultTag.isMaybe(part.output) &&
+      part.output.status == "waiting" &&
+      !!part.output.approval?.decision,
+  ) as ToolUIPart[];
+}
+
+/**
+ * Resumes the workflow run of a tool call that the user approved or rejected.
+ * The waiting node runs again with the decision and continues on the matching branch.
+ */
+export function resumeWorkflowToolByLastMessage(
+  part: ToolUIPart,
+  options: {
+    userId: string;
+    dataStream: UIMessageStreamWriter;
+    abortSignal?: AbortSignal;
+  },
+) {
+  const prevResult = part.output as VercelAIWorkflowToolStreamingResult;
+  const { workflowId, runId, decision } = prevResult.approval!;
+  // The waiting node runs again, so its history entry is replaced
+  const toolResult: VercelAIWorkflowToolStreamingResult = {
+    ...prevResult,
+    status: "running",
+    approval: undefined,
+    history: prevResult.history.filter((h) => h.status != "waiting"),
+  };
+  return safe(async () => {
+    const hasAccess = await workflowRepository.checkAccess(
+      workflowId,
+      options.userId,
+    );
+    if (!hasAccess) throw new Error("Not Found Workflow");
+    const workflow = await workflowRepository.selectStructureById(workflowId, {
+      ignoreNote: true,
+    });
+    if (!workflow) throw new Error("Not Found Workflow");
+    const {
+      app,
+      abortController,
+      state,
+      workflow: resumed,
+    } = await resumeWorkflowRun({
+      workflow,
+      runId,
+      userId: options.userId,
+      decision: decision!,
+    });
+    return streamWorkflowToolRun({
+      app,
+      abortController,
+      nodes: resumed.nodes,
+      workflowId,
+      runId,
+      toolResult,
+      toolCallId: part.toolCallId,
+      dataStream: options.dataStream,
+      abortSignal: options.abortSignal,
+      state,
+    });
+  })
+    .ifFail((err) => {
+      toolResult.endedAt = Date.now();
+      toolResult.status = "fail";
+      toolResult.error = {
+        name: err?.name || "ERROR",
+        message: errorToString(err),
+      };
+      return toolResult;
+    })
+    .unwrap();
+}
+
 export const workflowToVercelAITools = (
   workflows: {
     id: string;
@@ -376,12 +543,14 @@ export const workflowToVercelAITools = (
     schema: ObjectJsonSchema7;
   }[],
   dataStream: UIMessageStreamWriter,
+  userId: string,
 ) => {
   return workflows
     .map((v) =>
       workflowToVercelAITool({
         ...v,
         dataStream,
+        userId,
       }),
     )
     .reduce(
@@ -409,6 +578,7 @@ export const loadMcpTools = (opt?: {
 export const loadWorkFlowTools = (opt: {
   mentions?: ChatMention[];
   dataStream: UIMessageStreamWriter;
+  userId: string;
 }) =>
   safe(() =>
     opt?.mentions?.length
@@ -416,10 +586,11 @@ export const loadWorkFlowTools = (opt: {
           opt?.mentions
             ?.filter((m) => m.type == "workflow")
             .map((v) => v.workflowId),
+          opt.userId,
         )
       : [],
   )
-    .map((tools) => workflowToVercelAITools(tools, opt.dataStream))
+    .map((tools) => workflowToVercelAITools(tools, opt.dataStream, opt.userId))
     .orElse({} as Record<string, VercelAIWorkflowTool>);
 
 export const loadAppDefaultTools = (opt?: {
@@ -0,0 +1,39 @@
+import { getSession } from "auth/server";
+import { ChatExportFormatSchema } from "app-types/chat";
+import {
+  CHAT_EXPORT_FILE_TYPES,
+  exportThread,
+  getAttachmentHeaders,
+  getExportFileName,
+  threadTitle,
+} from "lib/chat-export";
+import { chatRepository } from "lib/db/repository";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession();
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const { id } = await params;
+  const format = ChatExportFormatSchema.safeParse(
+    new URL(request.url).searchParams.get("format") ?? "markdown",
+  );
+  if (!format.success) {
+    return new Response("Invalid export format", { status: 400 });
+  }
+  const thread = await chatRepository.selectThread(id);
+  if (thread?.userId !== session.user.id) {
+    return new Response("Thread not found", { status: 404 });
+  }
+  const messages = await chatRepository.selectMessagesByThreadId(id);
+  const { extension, contentType } = CHAT_EXPORT_FILE_TYPES[format.data];
+  return new Response(exportThread(thread, messages, format.data), {
+    headers: getAttachmentHeaders(
+      getExportFileName(threadTitle(thread), extension),
+      contentType,
+    ),
+  });
+}
@@ -0,0 +1,61 @@
+import { randomBytes } from "node:crypto";
+import { getSession } from "auth/server";
+import { ChatThreadShareUpdateSchema } from "app-types/chat";
+import { chatRepository, chatThreadShareRepository } from "lib/db/repository";
+
+async function checkThreadOwner(id: string) {
+  const session = await getSession();
+  const thread = await chatRepository.selectThread(id);
+  if (!session?.user.id || thread?.userId !== session.user.id) return null;
+  return session.user.id;
+}
+
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  if (!(await checkThreadOwner(id))) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const share = await chatThreadShareRepository.selectByThreadId(id);
+  return Response.json(share);
+}
+
+// Creates the share link, or updates its options without changing the URL
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const userId = await checkThreadOwner(id);
+  if (!userId) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const body = ChatThreadShareUpdateSchema.safeParse(
+    await request.json().catch(() => ({})),
+  );
+  if (!body.success) {
+    return new Response("Invalid share options", { status: 400 });
+  }
+  const share = await chatThreadShareRepository.upsert({
+    threadId: id,
+    userId,
+    token: randomBytes(24).toString("base64url"),
+    redactToolInputs: body.data.redactToolInputs,
+  });
+  return Response.json(share);
+}
+
+// Revokes the share link
+export async function DELETE(
+  _: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  if (!(await checkThreadOwner(id))) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  await chatThreadShareRepository.delete(id);
+  return Response.json({ message: "Share link revoked" });
+}
@@ -0,0 +1,61 @@
+import { getSession } from "auth/server";
+import { HttpAuthProfileSaveSchema } from "app-types/secret";
+import { httpAuthProfileRepository } from "lib/db/repository";
+import { z } from "zod";
+
+async function selectOwnProfile(profileId: string) {
+  const session = await getSession();
+  const profile = await httpAuthProfileRepository.selectById(profileId);
+  if (!profile || profile.userId !== session.user.id) return null;
+  return profile;
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ profileId: string }> },
+) {
+  const { profileId } = await params;
+  const profile = await selectOwnProfile(profileId);
+  if (!profile) {
+    return new Response("Auth profile not found", { status: 404 });
+  }
+  try {
+    const data = HttpAuthProfileSaveSchema.parse(await request.json());
+    const existing = await httpAuthProfileRepository.selectByName(
+      profile.userId,
+      data.name,
+    );
+    if (existing && existing.id !== profile.id) {
+      return Response.json(
+        { error: `Auth profile '${data.name}' already exists` },
+        { status: 409 },
+      );
+    }
+    const updated = await httpAuthProfileRepository.save({
+      ...profile,
+      ...data,
+    });
+    return Response.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json(
+        { error: "Invalid input", details: error.message },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(
+  _: Request,
+  { params }: { params: Promise<{ profileId: string }> },
+) {
+  const { profileId } = await params;
+  const profile = await selectOwnProfile(profileId);
+  if (!profile) {
+    return new Response("Auth profile not found", { status: 404 });
+  }
+  await httpAuthProfileRepository.delete(profileId);
+  return Response.json({ message: "Auth profile deleted" });
+}
@@ -0,0 +1,42 @@
+import { getSession } from "auth/server";
+import { HttpAuthProfileSaveSchema } from "app-types/secret";
+import { httpAuthProfileRepository } from "lib/db/repository";
+import { z } from "zod";
+
+export async function GET() {
+  const session = await getSession();
+  const profiles = await httpAuthProfileRepository.selectByUserId(
+    session.user.id,
+  );
+  return Response.json(profiles);
+}
+
+export async function POST(request: Request) {
+  const session = await getSession();
+  try {
+    const data = HttpAuthProfileSaveSchema.parse(await request.json());
+    const existing = await httpAuthProfileRepository.selectByName(
+      session.user.id,
+      data.name,
+    );
+    if (existing) {
+      return Response.json(
+        { error: `Auth profile '${data.name}' already exists` },
+        { status: 409 },
+      );
+    }
+    const profile = await httpAuthProfileRepository.save({
+      ...data,
+      userId: session.user.id,
+    });
+    return Response.json(profile);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json(
+        { error: "Invalid input", details: error.message },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,12 @@
+import { getSession } from "auth/server";
+import { secretRepository } from "lib/db/repository";
+
+export async function DELETE(
+  _: Request,
+  { params }: { params: Promise<{ name: string }> },
+) {
+  const { name } = await params;
+  const session = await getSession();
+  await secretRepository.delete(session.user.id, name);
+  return Response.json({ message: "Secret deleted" });
+}
@@ -0,0 +1,35 @@
+import { getSession } from "auth/server";
+import { SecretSaveSchema } from "app-types/secret";
+import { secretRepository } from "lib/db/repository";
+import { encryptSecret } from "lib/secrets/encryption";
+import { z } from "zod";
+
+export async function GET() {
+  const session = await getSession();
+  const secrets = await secretRepository.selectByUserId(session.user.id);
+  return Response.json(secrets);
+}
+
+/**
+ * Creates a secret, or replaces the value of the secret with the same name.
+ */
+export async function POST(request: Request) {
+  const session = await getSession();
+  try {
+    const { name, value } = SecretSaveSchema.parse(await request.json());
+    await secretRepository.save({
+      userId: session.user.id,
+      name,
+      value: encryptSecret(value),
+    });
+    return Response.json({ message: "Secret saved" });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json(
+        { error: "Invalid input", details: error.message },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
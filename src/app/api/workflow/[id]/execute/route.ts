@@ -1,17 +1,36 @@
 import { getSession } from "auth/server";
-import { createWorkflowExecutor } from "lib/ai/workflow/executor/workflow-executor";
-import { workflowRepository } from "lib/db/repository";
+import {
+  createWorkflowExecutor,
+  findDownstreamNodeIds,
+} from "lib/ai/workflow/executor/workflow-executor";
+import {
+  recordWorkflowRun,
+  resumeWorkflowRun,
+  selectRunOutputs,
+} from "lib/ai/workflow/executor/workflow-run-history";
+import {
+  ApprovalDecision,
+  isApprovalRequiredError,
+} from "lib/ai/workflow/approval";
+import { isWorkflowCancelledError } from "lib/ai/workflow/cancellation";
+import { collectMockOutputs } from "lib/ai/workflow/node-mock";
+import { workflowRepository, workflowRunRepository } from "lib/db/repository";
 import { encodeWorkflowEvent } from "lib/ai/workflow/shared.workflow";
 import logger from "logger";
 import { colorize } from "consola/utils";
-import { safeJSONParse, toAny } from "lib/utils";
+import { objectFlow, safeJSONParse, toAny } from "lib/utils";
 
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> },
 ) {
   const { id } = await params;
-  const { query } = await request.json();
+  const { query, replay, resume, dryRun } = (await request.json()) as {
+    query?: Record<string, any>;
+    replay?: { runId: string; nodeId: string };
+    resume?: { runId: string; decision: ApprovalDecision };
+    dryRun?: boolean;
+  };
   const session = await getSession();
   const hasAccess = await workflowRepository.checkAccess(id, session.user.id);
   if (!hasAccess) {
@@ -22,14 +41,77 @@ export async function POST(
     return new Response("Workflow not found", { status: 404 });
   }
 
-  const wfLogger = logger.withDefaults({
-    message: colorize("cyan", `WORKFLOW '${workflow.name}' `),
-  });
-  const app = createWorkflowExecutor({
-    edges: workflow.edges,
-    nodes: workflow.nodes,
-    logger: wfLogger,
-  });
+  // Replays start from a node of a previous run and reuse its upstream outputs
+  let input = query;
+  let outputs: Record<string, any> = {};
+  if (replay) {
+    const sourceRun = await workflowRunRepository.selectRunById(replay.runId);
+    if (
+      !sourceRun ||
+      sourceRun.workflowId !== id ||
+      sourceRun.userId !== session.user.id
+    ) {
+      return new Response("Run not found", { status: 404 });
+    }
+    if (!workflow.nodes.some((node) => node.id === replay.nodeId)) {
+      return new Response("Node not found", { status: 404 });
+    }
+    const rerunNodeIds = findDownstreamNodeIds(replay.nodeId, workflow.edges);
+    outputs = objectFlow(await selectRunOutputs(sourceRun.id)).filter(
+      (_, nodeId) => !rerunNodeIds.includes(nodeId as string),
+    );
+    input = sourceRun.input;
+  }
+
+  let app: ReturnType<typeof createWorkflowExecutor>;
+  let abortController: AbortController;
+  let runId: string;
+  let state: Record<string, any>;
+  if (resume) {
+    // Continues a run that waits at an Approval node
+    const resumed = await resumeWorkflowRun({
+      workflow,
+      runId: resume.runId,
+      userId: session.user.id,
+      decision: resume.decision,
+    }).catch((error: Error) => error);
+    if (resumed instanceof Error) {
+      return new Response(resumed.message, { status: 400 });
+    }
+    app = resumed.app;
+    abortController = resumed.abortController;
+    runId = resumed.run.id;
+    state = resumed.state;
+  } else {
+    const wfLogger = logger.withDefaults({
+      message: colorize("cyan", `WORKFLOW '${workflow.name}' `),
+    });
+    abortController = new AbortController();
+    app = createWorkflowExecutor({
+      edges: workflow.edges,
+      nodes: workflow.nodes,
+      logger: wfLogger,
+      startNodeId: replay?.nodeId,
+      // Dry runs use the outputs pinned on nodes instead of executing them
+      mockOutputs: dryRun ? collectMockOutputs(workflow.nodes) : undefined,
+      signal: abortController.signal,
+      userId: session.user.id,
+      callerIds: [workflow.id],
+    });
+
+    const run = await recordWorkflowRun(app, {
+      workflowId: id,
+      userId: session.user.id,
+      input,
+      nodes: workflow.nodes,
+      startNodeId: replay?.nodeId,
+      replayOfRunId: replay?.runId,
+      dryRun,
+      abortController,
+    });
+    runId = run.id;
+    state = { query: input ?? {}, outputs };
+  }
 
   const encoder = new TextEncoder();
 
@@ -66,24 +148,25 @@ export async function POST(
         }
       });
 
-      // Handle client disconnection
+      // A client that disconnects cancels the run, aborting its in-flight calls
       request.signal.addEventListener("abort", async () => {
         isAborted = true;
-        void app.exit();
+        abortController.abort();
         controller.close();
       });
 
       // Start the workflow
       app
-        .run(
-          { query },
-          {
-            disableHistory: true,
-            timeout: 1000 * 60 * 5,
-          },
-        )
+        .run(state, {
+          disableHistory: true,
+          timeout: 1000 * 60 * 5,
+        })
         .then((result) => {
-          if (!result.isOk) {
+          if (
+            !result.isOk &&
+            !isApprovalRequiredError(result.error) &&
+            !isWorkflowCancelledError(result.error)
+          ) {
             logger.error("Workflow execution error:", result.error);
           }
         });
@@ -94,6 +177,7 @@ export async function POST(
     headers: {
       "Content-Type": "application/octet-stream",
       "Cache-Control": "no-cache",
+      "X-Workflow-Run-Id": runId,
       Connection: "keep-alive",
       "Access-Control-Allow-Origin": "*",
       "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
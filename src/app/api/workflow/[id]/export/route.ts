@@ -0,0 +1,25 @@
+import { getSession } from "auth/server";
+import { workflowRepository } from "lib/db/repository";
+import { createWorkflowBundle } from "lib/ai/workflow/workflow-bundle";
+
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(id, session.user.id);
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const workflow = await workflowRepository.selectStructureById(id);
+  if (!workflow) {
+    return new Response("Workflow not found", { status: 404 });
+  }
+  const fileName = `${workflow.name.replace(/[^\w-]+/g, "_") || "workflow"}.json`;
+  return Response.json(createWorkflowBundle(workflow), {
+    headers: {
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+    },
+  });
+}
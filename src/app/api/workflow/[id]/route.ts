@@ -1,5 +1,7 @@
 import { getSession } from "auth/server";
+import { canChangeTemplate } from "auth/config";
 import { workflowRepository } from "lib/db/repository";
+import { checkSubWorkflows } from "lib/ai/workflow/sub-workflow-check";
 
 export async function GET(
   _: Request,
@@ -20,7 +22,7 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> },
 ) {
   const { id } = await params;
-  const { visibility, isPublished } = await request.json();
+  const { visibility, isPublished, isTemplate } = await request.json();
 
   const session = await getSession();
   const hasAccess = await workflowRepository.checkAccess(
@@ -38,11 +40,37 @@ export async function PUT(
     return new Response("Workflow not found", { status: 404 });
   }
 
+  if (
+    !canChangeTemplate(
+      session.user.email,
+      isTemplate,
+      existingWorkflow.isTemplate,
+    )
+  ) {
+    return new Response("Only admins can publish templates", { status: 403 });
+  }
+
+  // Publishing freezes the current draft as a new version
+  if (isPublished === true) {
+    // Callers run published versions, so the draft is checked before it becomes one
+    const draft = await workflowRepository.selectStructureById(id);
+    const subWorkflowError = await checkSubWorkflows(
+      id,
+      draft?.nodes ?? [],
+      session.user.id,
+    );
+    if (subWorkflowError) {
+      return new Response(subWorkflowError, { status: 400 });
+    }
+    await workflowRepository.publish(id, session.user.id);
+  }
+
   // Update only the specified fields
   const updatedWorkflow = await workflowRepository.save({
     ...existingWorkflow,
     visibility: visibility ?? existingWorkflow.visibility,
     isPublished: isPublished ?? existingWorkflow.isPublished,
+    isTemplate: isTemplate ?? existingWorkflow.isTemplate,
     updatedAt: new Date(),
   });
 
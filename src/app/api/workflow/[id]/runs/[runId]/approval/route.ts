@@ -0,0 +1,63 @@
+import { getSession } from "auth/server";
+import { resumeWorkflowRun } from "lib/ai/workflow/executor/workflow-run-history";
+import { isApprovalRequiredError } from "lib/ai/workflow/approval";
+import { isWorkflowCancelledError } from "lib/ai/workflow/cancellation";
+import { workflowRepository } from "lib/db/repository";
+import { errorToString } from "lib/utils";
+import logger from "logger";
+import { z } from "zod";
+
+const ApprovalDecisionSchema = z.object({
+  approved: z.boolean(),
+  comment: z.string().optional(),
+});
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; runId: string }> },
+) {
+  const { id, runId } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(id, session.user.id);
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const decision = ApprovalDecisionSchema.safeParse(await request.json());
+  if (!decision.success) {
+    return Response.json(
+      { error: "Invalid decision", details: decision.error.message },
+      { status: 400 },
+    );
+  }
+  const workflow = await workflowRepository.selectStructureById(id);
+  if (!workflow) {
+    return new Response("Workflow not found", { status: 404 });
+  }
+
+  try {
+    const { app, state } = await resumeWorkflowRun({
+      workflow,
+      runId,
+      userId: session.user.id,
+      decision: decision.data,
+    });
+    // The rest of the run continues in the background, like async webhook runs
+    app
+      .run(state, { disableHistory: true, timeout: 1000 * 60 * 5 })
+      .then(({ isOk, error }) => {
+        if (
+          !isOk &&
+          !isApprovalRequiredError(error) &&
+          !isWorkflowCancelledError(error)
+        ) {
+          logger.error(`Resumed run '${runId}' failed:`, error);
+        }
+      });
+  } catch (error) {
+    return Response.json(
+      { error: "Cannot resume run", details: errorToString(error) },
+      { status: 400 },
+    );
+  }
+  return Response.json({ runId, status: "running" }, { status: 202 });
+}
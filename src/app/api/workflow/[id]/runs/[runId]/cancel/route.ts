@@ -0,0 +1,28 @@
+import { getSession } from "auth/server";
+import { abortWorkflowRun } from "lib/ai/workflow/executor/workflow-run-abort";
+import { workflowRepository, workflowRunRepository } from "lib/db/repository";
+
+export async function POST(
+  _: Request,
+  { params }: { params: Promise<{ id: string; runId: string }> },
+) {
+  const { id, runId } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(id, session.user.id);
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const run = await workflowRunRepository.selectRunById(runId);
+  if (!run || run.workflowId !== id || run.userId !== session.user.id) {
+    return new Response("Run not found", { status: 404 });
+  }
+
+  // Saved first, so the run stays cancelled even if its nodes finish afterwards
+  if (!(await workflowRunRepository.cancelRun(runId))) {
+    return new Response("Run is not running", { status: 409 });
+  }
+  // Only runs executing in this process have in-flight calls to abort
+  abortWorkflowRun(runId);
+
+  return Response.json({ runId, status: "cancelled" }, { status: 202 });
+}
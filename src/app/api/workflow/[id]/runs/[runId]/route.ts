@@ -0,0 +1,19 @@
+import { getSession } from "auth/server";
+import { workflowRepository, workflowRunRepository } from "lib/db/repository";
+
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ id: string; runId: string }> },
+) {
+  const { id, runId } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(id, session.user.id);
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const run = await workflowRunRepository.selectRunById(runId);
+  if (!run || run.workflowId !== id || run.userId !== session.user.id) {
+    return new Response("Run not found", { status: 404 });
+  }
+  return Response.json(run);
+}
@@ -0,0 +1,60 @@
+import { getSession } from "auth/server";
+import { WorkflowScheduleUpdateSchema } from "app-types/workflow";
+import {
+  workflowRepository,
+  workflowScheduleRepository,
+} from "lib/db/repository";
+import { z } from "zod";
+
+async function selectEditableSchedule(id: string, scheduleId: string) {
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(
+    id,
+    session.user.id,
+    false,
+  );
+  if (!hasAccess) return null;
+  const schedule = await workflowScheduleRepository.selectById(scheduleId);
+  if (!schedule || schedule.workflowId !== id) return null;
+  return schedule;
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; scheduleId: string }> },
+) {
+  const { id, scheduleId } = await params;
+  const schedule = await selectEditableSchedule(id, scheduleId);
+  if (!schedule) {
+    return new Response("Schedule not found", { status: 404 });
+  }
+  try {
+    const data = WorkflowScheduleUpdateSchema.parse(await request.json());
+    const updated = await workflowScheduleRepository.save({
+      ...schedule,
+      ...data,
+    });
+    return Response.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json(
+        { error: "Invalid input", details: error.message },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(
+  _: Request,
+  { params }: { params: Promise<{ id: string; scheduleId: string }> },
+) {
+  const { id, scheduleId } = await params;
+  const schedule = await selectEditableSchedule(id, scheduleId);
+  if (!schedule) {
+    return new Response("Schedule not found", { status: 404 });
+  }
+  await workflowScheduleRepository.delete(scheduleId);
+  return Response.json({ message: "Schedule deleted" });
+}
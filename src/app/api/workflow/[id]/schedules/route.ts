@@ -0,0 +1,58 @@
+import { getSession } from "auth/server";
+import { WorkflowScheduleCreateSchema } from "app-types/workflow";
+import {
+  workflowRepository,
+  workflowScheduleRepository,
+} from "lib/db/repository";
+import { z } from "zod";
+
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(
+    id,
+    session.user.id,
+    false,
+  );
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const schedules = await workflowScheduleRepository.selectByWorkflowId(id);
+  return Response.json(schedules);
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(
+    id,
+    session.user.id,
+    false,
+  );
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  try {
+    const data = WorkflowScheduleCreateSchema.parse(await request.json());
+    const schedule = await workflowScheduleRepository.save({
+      ...data,
+      workflowId: id,
+      userId: session.user.id,
+    });
+    return Response.json(schedule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json(
+        { error: "Invalid input", details: error.message },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
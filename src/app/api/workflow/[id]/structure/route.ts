@@ -1,5 +1,7 @@
 import { getSession } from "auth/server";
 import { workflowRepository } from "lib/db/repository";
+import { checkSubWorkflows } from "lib/ai/workflow/sub-workflow-check";
+import { DBNode } from "app-types/workflow";
 
 export async function GET(
   _: Request,
@@ -31,6 +33,26 @@ export async function POST(
   if (!hasAccess) {
     return new Response("Unauthorized", { status: 401 });
   }
+
+  // Sub-workflow targets are checked against the structure as it will be saved
+  const current = await workflowRepository.selectStructureById(id);
+  const savedNodes: Pick<DBNode, "kind" | "nodeConfig">[] = [
+    ...(current?.nodes ?? []).filter(
+      (node) =>
+        !deleteNodes?.includes(node.id) &&
+        !nodes.some((v: DBNode) => v.id === node.id),
+    ),
+    ...nodes,
+  ];
+  const subWorkflowError = await checkSubWorkflows(
+    id,
+    savedNodes,
+    session.user.id,
+  );
+  if (subWorkflowError) {
+    return new Response(subWorkflowError, { status: 400 });
+  }
+
   await workflowRepository.saveStructure({
     workflowId: id,
     nodes: nodes.map((v) => ({
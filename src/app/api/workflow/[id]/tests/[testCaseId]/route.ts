@@ -0,0 +1,60 @@
+import { getSession } from "auth/server";
+import { WorkflowTestCaseUpdateSchema } from "app-types/workflow";
+import {
+  workflowRepository,
+  workflowTestCaseRepository,
+} from "lib/db/repository";
+import { z } from "zod";
+
+async function selectEditableTestCase(id: string, testCaseId: string) {
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(
+    id,
+    session.user.id,
+    false,
+  );
+  if (!hasAccess) return null;
+  const testCase = await workflowTestCaseRepository.selectById(testCaseId);
+  if (!testCase || testCase.workflowId !== id) return null;
+  return testCase;
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; testCaseId: string }> },
+) {
+  const { id, testCaseId } = await params;
+  const testCase = await selectEditableTestCase(id, testCaseId);
+  if (!testCase) {
+    return new Response("Test case not found", { status: 404 });
+  }
+  try {
+    const data = WorkflowTestCaseUpdateSchema.parse(await request.json());
+    const updated = await workflowTestCaseRepository.save({
+      ...testCase,
+      ...data,
+    });
+    return Response.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json(
+        { error: "Invalid input", details: error.message },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(
+  _: Request,
+  { params }: { params: Promise<{ id: string; testCaseId: string }> },
+) {
+  const { id, testCaseId } = await params;
+  const testCase = await selectEditableTestCase(id, testCaseId);
+  if (!testCase) {
+    return new Response("Test case not found", { status: 404 });
+  }
+  await workflowTestCaseRepository.delete(testCaseId);
+  return Response.json({ message: "Test case deleted" });
+}
@@ -0,0 +1,54 @@
+import { getSession } from "auth/server";
+import { WorkflowTestCaseCreateSchema } from "app-types/workflow";
+import {
+  workflowRepository,
+  workflowTestCaseRepository,
+} from "lib/db/repository";
+import { z } from "zod";
+
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(id, session.user.id);
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const testCases = await workflowTestCaseRepository.selectByWorkflowId(id);
+  return Response.json(testCases);
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(
+    id,
+    session.user.id,
+    false,
+  );
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  try {
+    const data = WorkflowTestCaseCreateSchema.parse(await request.json());
+    const testCase = await workflowTestCaseRepository.save({
+      ...data,
+      workflowId: id,
+      userId: session.user.id,
+    });
+    return Response.json(testCase);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json(
+        { error: "Invalid input", details: error.message },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,41 @@
+import { getSession } from "auth/server";
+import { runWorkflowTestCase } from "lib/ai/workflow/executor/workflow-test-runner";
+import { WorkflowTestCaseResult } from "lib/ai/workflow/workflow-test";
+import {
+  workflowRepository,
+  workflowTestCaseRepository,
+} from "lib/db/repository";
+
+/**
+ * Runs the test cases of a workflow one after another against its saved draft.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const { testCaseIds } = (await request.json().catch(() => ({}))) as {
+    testCaseIds?: string[];
+  };
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(id, session.user.id);
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const workflow = await workflowRepository.selectStructureById(id, {
+    ignoreNote: true,
+  });
+  if (!workflow) {
+    return new Response("Workflow not found", { status: 404 });
+  }
+
+  const testCases = (
+    await workflowTestCaseRepository.selectByWorkflowId(id)
+  ).filter((testCase) => !testCaseIds || testCaseIds.includes(testCase.id));
+
+  const results: WorkflowTestCaseResult[] = [];
+  for (const testCase of testCases) {
+    results.push(await runWorkflowTestCase(workflow, testCase));
+  }
+  return Response.json(results);
+}
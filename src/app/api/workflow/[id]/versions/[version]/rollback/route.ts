@@ -0,0 +1,38 @@
+import { getSession } from "auth/server";
+import { workflowRepository } from "lib/db/repository";
+import { checkSubWorkflows } from "lib/ai/workflow/sub-workflow-check";
+
+/**
+ * Restores the draft to a published version.
+ * The workflow keeps running its latest version until the draft is published again.
+ */
+export async function POST(
+  _: Request,
+  { params }: { params: Promise<{ id: string; version: string }> },
+) {
+  const { id, version } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(
+    id,
+    session.user.id,
+    false,
+  );
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const snapshot = await workflowRepository.selectVersion(id, Number(version));
+  if (!snapshot) {
+    return new Response("Version not found", { status: 404 });
+  }
+  // Workflows it calls may have been published since, closing a cycle
+  const subWorkflowError = await checkSubWorkflows(
+    id,
+    snapshot.nodes,
+    session.user.id,
+  );
+  if (subWorkflowError) {
+    return new Response(subWorkflowError, { status: 400 });
+  }
+  await workflowRepository.rollback(id, snapshot.version);
+  return Response.json({ success: true });
+}
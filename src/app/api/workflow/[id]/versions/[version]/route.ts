@@ -0,0 +1,19 @@
+import { getSession } from "auth/server";
+import { workflowRepository } from "lib/db/repository";
+
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ id: string; version: string }> },
+) {
+  const { id, version } = await params;
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(id, session.user.id);
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const snapshot = await workflowRepository.selectVersion(id, Number(version));
+  if (!snapshot) {
+    return new Response("Version not found", { status: 404 });
+  }
+  return Response.json(snapshot);
+}
@@ -0,0 +1,95 @@
+import {
+  extractRunOutput,
+  startWorkflowRun,
+} from "lib/ai/workflow/executor/workflow-run-history";
+import { WorkflowRuntimeState } from "lib/ai/workflow/executor/graph-store";
+import { NodeKind } from "lib/ai/workflow/workflow.interface";
+import { workflowRepository } from "lib/db/repository";
+import { jsonSchemaToZod } from "lib/json-schema-to-zod";
+import { errorToString, safeJSONParse } from "lib/utils";
+import logger from "logger";
+import { isApprovalRequiredError } from "lib/ai/workflow/approval";
+import { verifyWebhookToken } from "../shared.webhook";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; token: string }> },
+) {
+  const { id, token } = await params;
+  const webhook = await verifyWebhookToken(id, token);
+  if (!webhook) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const workflow = await workflowRepository.selectStructureById(id, {
+    snapshot: "latest",
+  });
+  if (!workflow) {
+    return new Response("Workflow not found", { status: 404 });
+  }
+  if (!workflow.isPublished) {
+    return new Response("Workflow is not published", { status: 403 });
+  }
+
+  const body = safeJSONParse<Record<string, any>>(
+    (await request.text()) || "{}",
+  );
+  if (!body.success) {
+    return Response.json(
+      { error: "Invalid JSON body", details: errorToString(body.error) },
+      { status: 400 },
+    );
+  }
+
+  const inputNode = workflow.nodes.find((node) => node.kind == NodeKind.Input);
+  const inputSchema = inputNode?.nodeConfig.outputSchema;
+  const input = inputSchema
+    ? jsonSchemaToZod(inputSchema).safeParse(body.value)
+    : { success: true as const, data: body.value };
+  if (!input.success) {
+    return Response.json(
+      { error: "Invalid input", details: input.error.message },
+      { status: 400 },
+    );
+  }
+
+  const { run, result } = await startWorkflowRun({
+    workflow,
+    userId: webhook.userId,
+    input: input.data,
+    trigger: "webhook",
+  });
+
+  // Async callers poll `./runs/{runId}` for the result
+  if (new URL(request.url).searchParams.get("async") === "true") {
+    result.then(({ isOk, error }) => {
+      if (!isOk && !isApprovalRequiredError(error))
+        logger.error(`Webhook run '${run.id}' failed:`, error);
+    });
+    return Response.json({ runId: run.id, status: "running" }, { status: 202 });
+  }
+
+  const { isOk, error, output } = await result;
+  // Paused runs continue once approved from the run history
+  if (isApprovalRequiredError(error)) {
+    return Response.json({ runId: run.id, status: "waiting" }, { status: 202 });
+  }
+  if (!isOk) {
+    return Response.json(
+      {
+        runId: run.id,
+        status: "fail",
+        error: { name: error?.name || "ERROR", message: errorToString(error) },
+      },
+      { status: 500 },
+    );
+  }
+  return Response.json({
+    runId: run.id,
+    status: "success",
+    output: extractRunOutput(
+      workflow.nodes,
+      output as WorkflowRuntimeState | undefined,
+    ),
+  });
+}
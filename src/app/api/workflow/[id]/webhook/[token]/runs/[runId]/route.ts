@@ -0,0 +1,24 @@
+import { workflowRunRepository } from "lib/db/repository";
+import { verifyWebhookToken } from "../../../shared.webhook";
+
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ id: string; token: string; runId: string }> },
+) {
+  const { id, token, runId } = await params;
+  if (!(await verifyWebhookToken(id, token))) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const run = await workflowRunRepository.selectRunById(runId);
+  if (!run || run.workflowId !== id || run.trigger !== "webhook") {
+    return new Response("Run not found", { status: 404 });
+  }
+  return Response.json({
+    runId: run.id,
+    status: run.status,
+    output: run.output,
+    error: run.error,
+    startedAt: run.startedAt,
+    endedAt: run.endedAt,
+  });
+}
@@ -0,0 +1,58 @@
+import { randomBytes } from "node:crypto";
+import { getSession } from "auth/server";
+import {
+  workflowRepository,
+  workflowWebhookRepository,
+} from "lib/db/repository";
+
+async function checkEditAccess(id: string) {
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(
+    id,
+    session.user.id,
+    false,
+  );
+  return hasAccess ? session.user.id : null;
+}
+
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  if (!(await checkEditAccess(id))) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const webhook = await workflowWebhookRepository.selectByWorkflowId(id);
+  return Response.json(webhook);
+}
+
+// Creates the webhook, or rotates its token so the previous URL stops working
+export async function POST(
+  _: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const userId = await checkEditAccess(id);
+  if (!userId) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const webhook = await workflowWebhookRepository.rotateToken(
+    id,
+    userId,
+    randomBytes(24).toString("base64url"),
+  );
+  return Response.json(webhook);
+}
+
+export async function DELETE(
+  _: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  if (!(await checkEditAccess(id))) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  await workflowWebhookRepository.delete(id);
+  return Response.json({ message: "Webhook deleted" });
+}
@@ -0,0 +1,19 @@
+import { timingSafeEqual } from "node:crypto";
+import { workflowWebhookRepository } from "lib/db/repository";
+
+/**
+ * Checks a webhook token against the one stored for the workflow.
+ * Webhook routes are reachable without a session, so the token is the only credential.
+ *
+ * @returns The webhook, when the token matches it
+ */
+export async function verifyWebhookToken(workflowId: string, token: string) {
+  const webhook =
+    await workflowWebhookRepository.selectByWorkflowId(workflowId);
+  if (!webhook) return undefined;
+  const expected = Buffer.from(webhook.token);
+  const actual = Buffer.from(token);
+  const matches =
+    expected.length === actual.length && timingSafeEqual(expected, actual);
+  return matches ? webhook : undefined;
+}
@@ -1,5 +1,11 @@
 "use server";
 import { getSession } from "auth/server";
+import {
+  convertDBNodeToUINode,
+  defaultObjectJsonSchema,
+  getWorkflowOutputSchema,
+} from "lib/ai/workflow/shared.workflow";
+import { NodeKind } from "lib/ai/workflow/workflow.interface";
 import { workflowRepository } from "lib/db/repository";
 
 export async function selectExecuteAbilityWorkflowsAction() {
@@ -9,3 +15,26 @@ export async function selectExecuteAbilityWorkflowsAction() {
   );
   return workflows;
 }
+
+export async function selectSubWorkflowSchemaAction(workflowId: string) {
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(
+    workflowId,
+    session.user.id,
+  );
+  if (!hasAccess) throw new Error("Unauthorized");
+  const workflow = await workflowRepository.selectStructureById(workflowId, {
+    ignoreNote: true,
+    snapshot: "latest",
+  });
+  if (!workflow?.isPublished) throw new Error("Workflow is not published");
+  const nodes = workflow.nodes.map((node) => convertDBNodeToUINode(node).data);
+  const inputNode = nodes.find((node) => node.kind === NodeKind.Input);
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    inputSchema:
+      inputNode?.outputSchema ?? structuredClone(defaultObjectJsonSchema),
+    outputSchema: getWorkflowOutputSchema(nodes),
+  };
+}
@@ -0,0 +1,20 @@
+import { getSession } from "auth/server";
+import { WorkflowBundleSchema } from "lib/ai/workflow/workflow-bundle";
+import { importWorkflowBundle } from "lib/ai/workflow/workflow-import";
+
+export async function POST(request: Request) {
+  const session = await getSession();
+  const bundle = WorkflowBundleSchema.safeParse(
+    await request.json().catch(() => undefined),
+  );
+  if (!bundle.success) {
+    return Response.json(
+      { error: "Invalid workflow file", details: bundle.error.message },
+      { status: 400 },
+    );
+  }
+
+  // Imported workflows start as private drafts of the importing user
+  const result = await importWorkflowBundle(bundle.data, session.user.id);
+  return Response.json(result);
+}
@@ -0,0 +1,43 @@
+import { getSession } from "auth/server";
+import { isAdminEmail } from "auth/config";
+import { importWorkflowBundle } from "lib/ai/workflow/workflow-import";
+import {
+  loadWorkflowTemplateBundle,
+  selectWorkflowTemplates,
+} from "lib/ai/workflow/workflow-templates";
+import { z } from "zod";
+
+const CopyTemplateSchema = z.object({
+  source: z.enum(["example", "workflow"]),
+  id: z.string().min(1),
+});
+
+export async function GET() {
+  const session = await getSession();
+  const templates = await selectWorkflowTemplates(session.user.id);
+  return Response.json({
+    templates,
+    canPublish: isAdminEmail(session.user.email),
+  });
+}
+
+// Creates a personal copy of a template
+export async function POST(request: Request) {
+  const session = await getSession();
+  const body = CopyTemplateSchema.safeParse(
+    await request.json().catch(() => undefined),
+  );
+  if (!body.success) {
+    return new Response("Invalid template", { status: 400 });
+  }
+  const bundle = await loadWorkflowTemplateBundle(
+    body.data.source,
+    body.data.id,
+    session.user.id,
+  );
+  if (!bundle) {
+    return new Response("Template not found", { status: 404 });
+  }
+  const result = await importWorkflowBundle(bundle, session.user.id);
+  return Response.json(result);
+}
@@ -0,0 +1,38 @@
+import { SharedThread } from "@/components/shared-thread";
+import { UIMessage } from "ai";
+import { redactToolInputs } from "lib/chat-share";
+import { chatRepository, chatThreadShareRepository } from "lib/db/repository";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+export const metadata: Metadata = {
+  robots: { index: false },
+};
+
+export default async function SharedThreadPage({
+  params,
+}: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  const share = await chatThreadShareRepository.selectByToken(token);
+  const thread = share && (await chatRepository.selectThread(share.threadId));
+  if (!share || !thread) notFound();
+
+  const { messages } = await chatRepository.selectActivePath(thread.id);
+  // Only the fields the page renders leave the server
+  const shared = messages.map(
+    ({ id, role, parts, metadata }): UIMessage => ({
+      id,
+      role,
+      parts,
+      metadata,
+    }),
+  );
+
+  return (
+    <SharedThread
+      title={thread.title}
+      messages={share.redactToolInputs ? redactToolInputs(shared) : shared}
+    />
+  );
+}
@@ -30,6 +30,7 @@ export interface AppState {
   chatModel?: ChatModel;
   openShortcutsPopup: boolean;
   openChatPreferences: boolean;
+  openChatSearch: boolean;
   mcpCustomizationPopup?: MCPServerInfo & { id: string };
   temporaryChat: {
     isOpen: boolean;
@@ -70,6 +71,7 @@ const initialState: AppState = {
   chatModel: undefined,
   openShortcutsPopup: false,
   openChatPreferences: false,
+  openChatSearch: false,
   mcpCustomizationPopup: undefined,
   temporaryChat: {
     isOpen: false,
@@ -20,13 +20,25 @@ import {
 
 import { safe } from "ts-safe";
 import { mutate } from "swr";
-import { ChatApiSchemaRequestBody, ChatModel } from "app-types/chat";
+import {
+  ChatApiSchemaRequestBody,
+  ChatModel,
+  MessageBranches,
+} from "app-types/chat";
+import { VercelAIWorkflowToolStreamingResultTag } from "app-types/workflow";
 import { useToRef } from "@/hooks/use-latest";
 import { isShortcutEvent, Shortcuts } from "lib/keyboard-shortcuts";
 import { Button } from "ui/button";
-import { deleteThreadAction } from "@/app/api/chat/actions";
+import {
+  deleteThreadAction,
+  forkThreadAction,
+  selectMessageBranchesAction,
+  switchBranchAction,
+} from "@/app/api/chat/actions";
+import { handleErrorWithToast } from "ui/shared-toast";
 import { useRouter } from "next/navigation";
-import { ArrowDown, Loader } from "lucide-react";
+import { ArrowDown, GitForkIcon, Loader } from "lucide-react";
+import Link from "next/link";
 import {
   Dialog,
   DialogContent,
@@ -46,6 +58,9 @@ import { AnimatePresence, motion } from "framer-motion";
 type Props = {
   threadId: string;
   initialMessages: Array<UIMessage>;
+  initialBranches?: MessageBranches;
+  forkedFrom?: { id: string; title: string };
+  focusMessageId?: string; // Message scrolled into view when the thread opens
   selectedChatModel?: string;
 };
 
@@ -59,12 +74,40 @@ const Particles = dynamic(() => import("ui/particles"), {
 
 const debounce = createDebounce();
 
+/**
+ * Workflow tool calls waiting at an Approval node already have an output,
+ * so they are only resubmitted once the user has approved or rejected them.
+ */
+const sendAutomaticallyWhen: typeof lastAssistantMessageIsCompleteWithToolCalls =
+  (options) => {
+    const lastMessage = options.messages.at(-1);
+    const approvals = (lastMessage?.parts ?? [])
+      .filter(isToolUIPart)
+      .map((part) => part.output)
+      .filter(VercelAIWorkflowToolStreamingResultTag.isMaybe)
+      .filter((output) => output.status == "waiting")
+      .map((output) => output.approval?.decision);
+    if (approvals.length) return approvals.every(Boolean);
+    return lastAssistantMessageIsCompleteWithToolCalls(options);
+  };
+
 const firstTimeStorage = getStorageManager("IS_FIRST");
 const isFirstTime = firstTimeStorage.get() ?? true;
 firstTimeStorage.set(false);
 
-export default function ChatBot({ threadId, initialMessages }: Props) {
+export default function ChatBot({
+  threadId,
+  initialMessages,
+  initialBranches,
+  forkedFrom,
+  focusMessageId,
+}: Props) {
+  const t = useTranslations();
+  const router = useRouter();
   const containerRef = useRef<HTMLDivElement>(null);
+  const [branches, setBranches] = useState<MessageBranches>(
+    initialBranches ?? {},
+  );
   const [isAtBottom, setIsAtBottom] = useState(true);
 
   const [
@@ -96,6 +139,10 @@ export default function ChatBot({ threadId, initialMessages }: Props) {
   const [showParticles, setShowParticles] = useState(isFirstTime);
 
   const onFinish = useCallback(() => {
+    // The answer was saved before the stream ended, so new branches are already known
+    selectMessageBranchesAction(threadId)
+      .then(setBranches)
+      .catch(handleErrorWithToast);
     const messages = latestRef.current.messages;
     const prevThread = latestRef.current.threadList.find(
       (v) => v.id === threadId,
@@ -132,7 +179,7 @@ export default function ChatBot({ threadId, initialMessages }: Props) {
     stop,
   } = useChat({
     id: threadId,
-    sendAutomaticallyWhen: lastAssistantMessageIsCompleteWithToolCalls,
+    sendAutomaticallyWhen,
     transport: new DefaultChatTransport({
       prepareSendMessagesRequest: ({ messages, body, id }) => {
         if (window.location.pathname !== `/chat/${threadId}`) {
@@ -155,6 +202,7 @@ export default function ChatBot({ threadId, initialMessages }: Props) {
             : latestRef.current.allowedMcpServers,
           mentions: latestRef.current.mentions,
           message: lastMessage,
+          parentMessageId: messages.at(-2)?.id,
         };
         return { body: requestBody };
       },
@@ -187,6 +235,31 @@ export default function ChatBot({ threadId, initialMessages }: Props) {
     mentions: threadMentions[threadId],
   });
 
+  const switchBranch = useCallback(
+    (messageId: string) => {
+      safe(() => switchBranchAction(threadId, messageId))
+        .ifOk(({ messages, branches }) => {
+          setMessages(messages as UIMessage[]);
+          setBranches(branches);
+        })
+        .ifFail(handleErrorWithToast);
+    },
+    [threadId],
+  );
+
+  const forkThread = useCallback(
+    async (messageId: string) => {
+      await safe(() => forkThreadAction(threadId, messageId))
+        .ifOk((fork) => {
+          mutate("/api/thread");
+          router.push(`/chat/${fork.id}`);
+        })
+        .ifFail(handleErrorWithToast)
+        .orElse(undefined);
+    },
+    [threadId, router],
+  );
+
   const isLoading = useMemo(
     () => status === "streaming" || status === "submitted",
     [status],
@@ -305,11 +378,20 @@ export default function ChatBot({ threadId, initialMessages }: Props) {
   }, [pendingThreadMention, threadId, appStoreMutate]);
 
   useEffect(() => {
-    if (isInitialThreadEntry)
-      containerRef.current?.scrollTo({
-        top: containerRef.current?.scrollHeight,
-        behavior: "instant",
-      });
+    if (!isInitialThreadEntry) return;
+    const focused =
+      focusMessageId &&
+      containerRef.current?.querySelector(
+        `[data-message-id="${focusMessageId}"]`,
+      );
+    if (focused) {
+      focused.scrollIntoView({ block: "center", behavior: "instant" });
+      return;
+    }
+    containerRef.current?.scrollTo({
+      top: containerRef.current?.scrollHeight,
+      behavior: "instant",
+    });
   }, [isInitialThreadEntry]);
 
   useEffect(() => {
@@ -362,11 +444,23 @@ export default function ChatBot({ threadId, initialMessages }: Props) {
               ref={containerRef}
               onScroll={handleScroll}
             >
+              {forkedFrom && (
+                <div className="w-full mx-auto max-w-3xl px-6">
+                  <Link
+                    href={`/chat/${forkedFrom.id}`}
+                    className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors w-fit"
+                  >
+                    <GitForkIcon className="size-3" />
+                    {t("Chat.Thread.forkedFrom", {
+                      title: forkedFrom.title || "New Chat",
+                    })}
+                  </Link>
+                </div>
+              )}
               {messages.map((message, index) => {
                 const isLastMessage = messages.length - 1 === index;
                 return (
                   <PreviewMessage
-                    threadId={threadId}
                     messageIndex={index}
                     prevMessage={messages[index - 1]}
                     key={message.id}
@@ -377,6 +471,9 @@ export default function ChatBot({ threadId, initialMessages }: Props) {
                     isLastMessage={isLastMessage}
                     setMessages={setMessages}
                     sendMessage={sendMessage}
+                    branches={branches[message.id]}
+                    onSwitchBranch={switchBranch}
+                    onFork={forkThread}
                     className={
                       isLastMessage &&
                       message.role != "user" &&
@@ -17,10 +17,11 @@ import {
   MCPInstructionsContent,
   UserInstructionsContent,
 } from "./chat-preferences-content";
-import { UserIcon, X } from "lucide-react";
+import { KeyRoundIcon, UserIcon, X } from "lucide-react";
 import { Button } from "ui/button";
 import { useTranslations } from "next-intl";
 import { MCPIcon } from "ui/mcp-icon";
+import { CredentialsContent } from "./credentials-content";
 
 export function ChatPreferencesPopup() {
   const [openChatPreferences, appStoreMutate] = appStore(
@@ -39,6 +40,10 @@ export function ChatPreferencesPopup() {
         label: t("Chat.ChatPreferences.mcpInstructions"),
         icon: <MCPIcon className="w-4 h-4 fill-muted-foreground" />,
       },
+      {
+        label: t("Chat.ChatPreferences.credentials"),
+        icon: <KeyRoundIcon className="w-4 h-4" />,
+      },
     ];
   }, []);
 
@@ -150,6 +155,8 @@ export function ChatPreferencesPopup() {
                           <UserInstructionsContent />
                         ) : tab == 1 ? (
                           <MCPInstructionsContent />
+                        ) : tab == 2 ? (
+                          <CredentialsContent />
                         ) : null}
                       </>
                     )}
@@ -0,0 +1,265 @@
+"use client";
+
+import { appStore } from "@/app/store";
+import { useChatModels } from "@/hooks/queries/use-chat-models";
+import { ChatSearchResult } from "app-types/chat";
+import { isShortcutEvent, Shortcuts } from "lib/keyboard-shortcuts";
+import { cn, createDebounce, fetcher } from "lib/utils";
+import { Loader, MessageSquareTextIcon, UserIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import useSWR from "swr";
+import { useShallow } from "zustand/shallow";
+import {
+  Command,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "ui/command";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+
+const ANY = "any";
+
+const DATE_RANGES = {
+  week: 7,
+  month: 30,
+  year: 365,
+} as const;
+
+type DateRange = keyof typeof DATE_RANGES | typeof ANY;
+
+const debounce = createDebounce();
+
+function SearchResultItem({
+  result,
+  onSelect,
+}: {
+  result: ChatSearchResult;
+  onSelect: (result: ChatSearchResult) => void;
+}) {
+  const agentList = appStore((state) => state.agentList);
+  const agent = agentList.find(
+    (agent) => agent.id === result.metadata?.agentId,
+  );
+
+  return (
+    <CommandItem
+      value={result.messageId}
+      onSelect={() => onSelect(result)}
+      className="flex flex-col items-start gap-1 cursor-pointer"
+    >
+      <div className="flex items-center gap-2 w-full min-w-0 text-xs text-muted-foreground">
+        {result.role == "user" ? (
+          <UserIcon className="size-3!" />
+        ) : (
+          <MessageSquareTextIcon className="size-3!" />
+        )}
+        <span className="font-medium text-foreground truncate">
+          {result.threadTitle || "New Chat"}
+        </span>
+        {agent && <span className="truncate">@{agent.name}</span>}
+        {result.metadata?.chatModel && (
+          <span className="truncate">{result.metadata.chatModel.model}</span>
+        )}
+        <span className="ml-auto shrink-0">
+          {new Date(result.createdAt).toLocaleDateString()}
+        </span>
+      </div>
+      <p className="text-sm line-clamp-2 break-all">
+        {result.snippet.map((segment, index) =>
+          segment.highlight ? (
+            <mark
+              key={index}
+              className="bg-yellow-500/30 text-foreground rounded-sm"
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          ),
+        )}
+      </p>
+    </CommandItem>
+  );
+}
+
+export function ChatSearchPopup() {
+  const [openChatSearch, agentList, appStoreMutate] = appStore(
+    useShallow((state) => [
+      state.openChatSearch,
+      state.agentList,
+      state.mutate,
+    ]),
+  );
+  const t = useTranslations("Chat.Search");
+  const router = useRouter();
+  const { data: providers } = useChatModels();
+
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+  const [agentId, setAgentId] = useState<string>(ANY);
+  const [model, setModel] = useState<string>(ANY);
+  const [dateRange, setDateRange] = useState<DateRange>(ANY);
+
+  const searchKey = useMemo(() => {
+    if (!openChatSearch || !query.trim()) return null;
+    const params = new URLSearchParams({ q: query.trim() });
+    if (agentId != ANY) params.set("agentId", agentId);
+    if (model != ANY) {
+      const [provider, ...name] = model.split("/");
+      params.set("provider", provider);
+      params.set("model", name.join("/"));
+    }
+    if (dateRange != ANY) {
+      const from = new Date();
+      from.setDate(from.getDate() - DATE_RANGES[dateRange]);
+      from.setHours(0, 0, 0, 0);
+      params.set("from", from.toISOString());
+    }
+    return `/api/chat/search?${params.toString()}`;
+  }, [openChatSearch, query, agentId, model, dateRange]);
+
+  const { data: results = [], isLoading } = useSWR<ChatSearchResult[]>(
+    searchKey,
+    fetcher,
+    {
+      keepPreviousData: true,
+      revalidateOnFocus: false,
+    },
+  );
+
+  const handleClose = () => {
+    appStoreMutate({ openChatSearch: false });
+  };
+
+  const handleSelect = (result: ChatSearchResult) => {
+    handleClose();
+    router.push(`/chat/${result.threadId}?message=${result.messageId}`);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isShortcutEvent(e, Shortcuts.openChatSearch)) {
+        e.preventDefault();
+        e.stopPropagation();
+        appStoreMutate((prev) => ({
+          openChatSearch: !prev.openChatSearch,
+        }));
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    debounce(() => setQuery(input), 300);
+  }, [input]);
+
+  return (
+    <Dialog
+      open={openChatSearch}
+      onOpenChange={(open) => appStoreMutate({ openChatSearch: open })}
+    >
+      <DialogContent className="overflow-hidden p-0 md:max-w-2xl! gap-0">
+        <DialogTitle className="sr-only">{t("title")}</DialogTitle>
+        <DialogDescription className="sr-only">
+          {t("description")}
+        </DialogDescription>
+        <Command
+          shouldFilter={false}
+          className="**:data-[slot=command-input-wrapper]:h-12"
+        >
+          <CommandInput
+            value={input}
+            onValueChange={setInput}
+            placeholder={t("placeholder")}
+          />
+          <div className="flex items-center gap-2 px-3 py-2 border-b">
+            <Select value={agentId} onValueChange={setAgentId}>
+              <SelectTrigger size="sm" className="text-xs max-w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{t("anyAgent")}</SelectItem>
+                {agentList.map((agent) => (
+                  <SelectItem key={agent.id} value={agent.id}>
+                    {agent.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={model} onValueChange={setModel}>
+              <SelectTrigger size="sm" className="text-xs max-w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{t("anyModel")}</SelectItem>
+                {providers?.map((provider) => (
+                  <SelectGroup key={provider.provider}>
+                    <SelectLabel>{provider.provider}</SelectLabel>
+                    {provider.models.map((item) => (
+                      <SelectItem
+                        key={item.name}
+                        value={`${provider.provider}/${item.name}`}
+                      >
+                        {item.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={dateRange}
+              onValueChange={(value) => setDateRange(value as DateRange)}
+            >
+              <SelectTrigger size="sm" className="text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{t("anyTime")}</SelectItem>
+                {Object.keys(DATE_RANGES).map((range) => (
+                  <SelectItem key={range} value={range}>
+                    {t(`dateRanges.${range}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isLoading && (
+              <Loader className="size-3.5 ml-auto animate-spin text-muted-foreground" />
+            )}
+          </div>
+          <CommandList className={cn("max-h-[60vh] p-2", !searchKey && "p-0")}>
+            {searchKey && !isLoading && (
+              <CommandEmpty>{t("noResults")}</CommandEmpty>
+            )}
+            {searchKey &&
+              results.map((result) => (
+                <SearchResultItem
+                  key={result.messageId}
+                  result={result}
+                  onSelect={handleSelect}
+                />
+              ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,490 @@
+"use client";
+
+import {
+  DBHttpAuthProfile,
+  HttpAuthConfig,
+  SecretSummary,
+} from "app-types/secret";
+import { fetcher } from "lib/utils";
+import { notify } from "lib/notify";
+import {
+  KeyRoundIcon,
+  Loader,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+} from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useState } from "react";
+import { toast } from "sonner";
+import useSWR, { mutate } from "swr";
+import { safe } from "ts-safe";
+import { Badge } from "ui/badge";
+import { Button } from "ui/button";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { Separator } from "ui/separator";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { Skeleton } from "ui/skeleton";
+
+const SECRETS_KEY = "/api/user/secrets";
+const AUTH_PROFILES_KEY = "/api/user/auth-profiles";
+
+const AUTH_TYPES: HttpAuthConfig["type"][] = [
+  "bearer",
+  "basic",
+  "api-key",
+  "oauth2",
+];
+
+const requestJson = (url: string, method: string, body?: unknown) =>
+  fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  }).then(async (res) => {
+    if (!res.ok) {
+      const data = await res.json().catch(() => undefined);
+      throw new Error(data?.details ?? data?.error ?? res.statusText);
+    }
+  });
+
+const createAuthConfig = (
+  type: HttpAuthConfig["type"],
+  secret = "",
+  allowedHosts: string[] = [],
+): HttpAuthConfig => {
+  switch (type) {
+    case "bearer":
+      return { type, secret, allowedHosts };
+    case "basic":
+      return { type, username: "", secret, allowedHosts };
+    case "api-key":
+      return { type, in: "header", key: "X-API-Key", secret, allowedHosts };
+    case "oauth2":
+      return { type, tokenUrl: "", clientId: "", secret, allowedHosts };
+  }
+};
+
+const parseHosts = (value: string) =>
+  value
+    .split(",")
+    .map((host) => host.trim())
+    .filter(Boolean);
+
+/**
+ * Secrets and the HTTP auth profiles that reference them by name.
+ * Secret values are write-only: they are encrypted on save and never sent back.
+ */
+export function CredentialsContent() {
+  const t = useTranslations("Chat.ChatPreferences");
+  return (
+    <div className="flex flex-col">
+      <h3 className="text-xl font-semibold">{t("credentials")}</h3>
+      <p className="text-sm text-muted-foreground py-2 pb-6">
+        {t("credentialsDescription")}
+      </p>
+      <SecretsSection />
+      <Separator className="my-8" />
+      <AuthProfilesSection />
+    </div>
+  );
+}
+
+function SecretsSection() {
+  const t = useTranslations("Chat.ChatPreferences");
+  const { data: secrets = [], isLoading } = useSWR<SecretSummary[]>(
+    SECRETS_KEY,
+    fetcher,
+  );
+  const [name, setName] = useState("");
+  const [value, setValue] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = () => {
+    setIsSaving(true);
+    safe(() => requestJson(SECRETS_KEY, "POST", { name, value }))
+      .ifOk(() => {
+        toast.success(t("secretSaved"));
+        setName("");
+        setValue("");
+        mutate(SECRETS_KEY);
+      })
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsSaving(false));
+  };
+
+  const remove = async (secretName: string) => {
+    const ok = await notify.confirm({
+      description: t("deleteSecretConfirm", { name: secretName }),
+    });
+    if (!ok) return;
+    safe(() =>
+      requestJson(`${SECRETS_KEY}/${encodeURIComponent(secretName)}`, "DELETE"),
+    )
+      .ifOk(() => mutate(SECRETS_KEY))
+      .ifFail(handleErrorWithToast);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div>
+        <Label className="text-base">{t("secrets")}</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          {t("secretsDescription")}
+        </p>
+      </div>
+      {isLoading ? (
+        <Skeleton className="h-10" />
+      ) : secrets.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t("noSecrets")}</p>
+      ) : (
+        <div className="flex flex-col gap-1">
+          {secrets.map((secret) => (
+            <div
+              key={secret.id}
+              className="flex items-center gap-2 text-sm rounded-md border px-3 py-1.5"
+            >
+              <KeyRoundIcon className="size-3.5 text-muted-foreground" />
+              <span className="font-mono">{secret.name}</span>
+              <span className="text-xs text-muted-foreground ml-auto">
+                {new Date(secret.updatedAt).toLocaleDateString()}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7"
+                onClick={() => remove(secret.name)}
+              >
+                <TrashIcon className="size-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t("secretName")}
+          className="w-48 font-mono"
+        />
+        <Input
+          type="password"
+          autoComplete="new-password"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={t("secretValue")}
+        />
+        <Button disabled={!name || !value || isSaving} onClick={save}>
+          {isSaving && <Loader className="size-3.5 animate-spin" />}
+          {t("saveSecret")}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function AuthProfilesSection() {
+  const t = useTranslations("Chat.ChatPreferences");
+  const { data: profiles = [], isLoading } = useSWR<DBHttpAuthProfile[]>(
+    AUTH_PROFILES_KEY,
+    fetcher,
+  );
+  const { data: secrets = [] } = useSWR<SecretSummary[]>(SECRETS_KEY, fetcher);
+  const [editing, setEditing] = useState<
+    Pick<DBHttpAuthProfile, "name" | "config"> & { id?: string }
+  >();
+  // Edited as text so commas can be typed, parsed on save
+  const [allowedHosts, setAllowedHosts] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const edit = (profile: NonNullable<typeof editing>) => {
+    setEditing(profile);
+    setAllowedHosts((profile.config.allowedHosts ?? []).join(", "));
+  };
+
+  const save = () => {
+    if (!editing) return;
+    setIsSaving(true);
+    const config = {
+      ...editing.config,
+      allowedHosts: parseHosts(allowedHosts),
+    };
+    safe(() =>
+      editing.id
+        ? requestJson(`${AUTH_PROFILES_KEY}/${editing.id}`, "PUT", {
+            name: editing.name,
+            config,
+          })
+        : requestJson(AUTH_PROFILES_KEY, "POST", {
+            name: editing.name,
+            config,
+          }),
+    )
+      .ifOk(() => {
+        toast.success(t("authProfileSaved"));
+        setEditing(undefined);
+        mutate(AUTH_PROFILES_KEY);
+      })
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsSaving(false));
+  };
+
+  const remove = async (profile: DBHttpAuthProfile) => {
+    const ok = await notify.confirm({
+      description: t("deleteAuthProfileConfirm", { name: profile.name }),
+    });
+    if (!ok) return;
+    safe(() => requestJson(`${AUTH_PROFILES_KEY}/${profile.id}`, "DELETE"))
+      .ifOk(() => mutate(AUTH_PROFILES_KEY))
+      .ifFail(handleErrorWithToast);
+  };
+
+  const updateConfig = (config: Partial<HttpAuthConfig>) =>
+    setEditing(
+      (prev) =>
+        prev && {
+          ...prev,
+          config: { ...prev.config, ...config } as HttpAuthConfig,
+        },
+    );
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-start">
+        <div>
+          <Label className="text-base">{t("authProfiles")}</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            {t("authProfilesDescription")}
+          </p>
+        </div>
+        {!editing && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto"
+            onClick={() =>
+              edit({ name: "", config: createAuthConfig("bearer") })
+            }
+          >
+            <PlusIcon /> {t("addAuthProfile")}
+          </Button>
+        )}
+      </div>
+      {isLoading ? (
+        <Skeleton className="h-10" />
+      ) : profiles.length === 0 && !editing ? (
+        <p className="text-sm text-muted-foreground">{t("noAuthProfiles")}</p>
+      ) : (
+        <div className="flex flex-col gap-1">
+          {profiles.map((profile) => (
+            <div
+              key={profile.id}
+              className="flex items-center gap-2 text-sm rounded-md border px-3 py-1.5"
+            >
+              <span className="font-mono">{profile.name}</span>
+              <Badge variant="secondary">{profile.config.type}</Badge>
+              <span className="text-xs text-muted-foreground truncate">
+                {profile.config.secret}
+              </span>
+              <div className="ml-auto flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => edit(profile)}
+                >
+                  <PencilIcon className="size-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => remove(profile)}
+                >
+                  <TrashIcon className="size-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {editing && (
+        <div className="flex flex-col gap-3 rounded-md border p-4 bg-secondary/40">
+          <div className="flex gap-2">
+            <div className="flex flex-col gap-1 flex-1">
+              <Label className="text-xs">{t("authProfileName")}</Label>
+              <Input
+                value={editing.name}
+                className="font-mono"
+                onChange={(e) =>
+                  setEditing({ ...editing, name: e.target.value })
+                }
+              />
+            </div>
+            <div className="flex flex-col gap-1 w-40">
+              <Label className="text-xs">{t("authType")}</Label>
+              <Select
+                value={editing.config.type}
+                onValueChange={(type) =>
+                  setEditing({
+                    ...editing,
+                    config: createAuthConfig(
+                      type as HttpAuthConfig["type"],
+                      editing.config.secret,
+                      editing.config.allowedHosts,
+                    ),
+                  })
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTH_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {t(`authTypes.${type}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {editing.config.type == "basic" && (
+            <div className="flex flex-col gap-1">
+              <Label className="text-xs">{t("authUsername")}</Label>
+              <Input
+                value={editing.config.username}
+                onChange={(e) => updateConfig({ username: e.target.value })}
+              />
+            </div>
+          )}
+          {editing.config.type == "api-key" && (
+            <div className="flex gap-2">
+              <div className="flex flex-col gap-1 w-40">
+                <Label className="text-xs">{t("authApiKeyIn")}</Label>
+                <Select
+                  value={editing.config.in}
+                  onValueChange={(value) =>
+                    updateConfig({ in: value as "header" | "query" })
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="header">
+                      {t("authApiKeyHeader")}
+                    </SelectItem>
+                    <SelectItem value="query">
+                      {t("authApiKeyQuery")}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex flex-col gap-1 flex-1">
+                <Label className="text-xs">{t("authApiKeyName")}</Label>
+                <Input
+                  value={editing.config.key}
+                  className="font-mono"
+                  onChange={(e) => updateConfig({ key: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          {editing.config.type == "oauth2" && (
+            <>
+              <div className="flex flex-col gap-1">
+                <Label className="text-xs">{t("authTokenUrl")}</Label>
+                <Input
+                  value={editing.config.tokenUrl}
+                  placeholder="https://auth.example.com/oauth/token"
+                  onChange={(e) => updateConfig({ tokenUrl: e.target.value })}
+                />
+              </div>
+              <div className="flex gap-2">
+                <div className="flex flex-col gap-1 flex-1">
+                  <Label className="text-xs">{t("authClientId")}</Label>
+                  <Input
+                    value={editing.config.clientId}
+                    onChange={(e) => updateConfig({ clientId: e.target.value })}
+                  />
+                </div>
+                <div className="flex flex-col gap-1 flex-1">
+                  <Label className="text-xs">{t("authScope")}</Label>
+                  <Input
+                    value={editing.config.scope ?? ""}
+                    onChange={(e) =>
+                      updateConfig({ scope: e.target.value || undefined })
+                    }
+                  />
+                </div>
+              </div>
+            </>
+          )}
+          <div className="flex flex-col gap-1">
+            <Label className="text-xs">
+              {t(`authSecretLabels.${editing.config.type}`)}
+            </Label>
+            <Select
+              value={editing.config.secret || undefined}
+              onValueChange={(secret) => updateConfig({ secret })}
+            >
+              <SelectTrigger className="w-full font-mono">
+                <SelectValue placeholder={t("selectSecret")} />
+              </SelectTrigger>
+              <SelectContent>
+                {secrets.map((secret) => (
+                  <SelectItem
+                    key={secret.id}
+                    value={secret.name}
+                    className="font-mono"
+                  >
+                    {secret.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label className="text-xs">{t("authAllowedHosts")}</Label>
+            <Input
+              value={allowedHosts}
+              className="font-mono"
+              placeholder="api.example.com, *.example.org"
+              onChange={(e) => setAllowedHosts(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t("authAllowedHostsDescription")}
+            </p>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setEditing(undefined)}>
+              {t("cancel")}
+            </Button>
+            <Button
+              disabled={
+                !editing.name ||
+                !editing.config.secret ||
+                !parseHosts(allowedHosts).length ||
+                isSaving
+              }
+              onClick={save}
+            >
+              {isSaving && <Loader className="size-3.5 animate-spin" />}
+              {t("saveAuthProfile")}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -22,6 +22,14 @@ const ChatPreferencesPopup = dynamic(
   },
 );
 
+const ChatSearchPopup = dynamic(
+  () =>
+    import("@/components/chat-search-popup").then((mod) => mod.ChatSearchPopup),
+  {
+    ssr: false,
+  },
+);
+
 const ChatBotVoice = dynamic(
   () => import("@/components/chat-bot-voice").then((mod) => mod.ChatBotVoice),
   {
@@ -53,6 +61,7 @@ export function AppPopupProvider() {
     <>
       <KeyboardShortcutsPopup />
       <ChatPreferencesPopup />
+      <ChatSearchPopup />
       <ChatBotVoice />
       <ChatBotTemporary />
       <McpCustomizationPopup />
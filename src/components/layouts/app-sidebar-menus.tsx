@@ -22,17 +22,20 @@ import {
   FolderOpenIcon,
   FolderSearchIcon,
   PlusIcon,
+  SearchIcon,
   Waypoints,
 } from "lucide-react";
 import { useCallback, useState } from "react";
 import { Skeleton } from "ui/skeleton";
 import { useArchives } from "@/hooks/queries/use-archives";
 import { ArchiveDialog } from "../archive-dialog";
+import { appStore } from "@/app/store";
 
 export function AppSidebarMenus() {
   const router = useRouter();
   const t = useTranslations("");
   const { setOpenMobile } = useSidebar();
+  const appStoreMutate = appStore((state) => state.mutate);
   const [expandedArchive, setExpandedArchive] = useState(false);
   const [addArchiveDialogOpen, setAddArchiveDialogOpen] = useState(false);
 
@@ -74,6 +77,32 @@ export function AppSidebarMenus() {
             </SidebarMenuItem>
           </Tooltip>
         </SidebarMenu>
+        <SidebarMenu>
+          <Tooltip>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                className="font-semibold group/search"
+                onClick={() => {
+                  setOpenMobile(false);
+                  appStoreMutate({ openChatSearch: true });
+                }}
+              >
+                <SearchIcon className="size-4" />
+                {t("Layout.searchChats")}
+                <div className="flex items-center gap-1 text-xs font-medium ml-auto opacity-0 group-hover/search:opacity-100 transition-opacity">
+                  {getShortcutKeyList(Shortcuts.openChatSearch).map((key) => (
+                    <span
+                      key={key}
+                      className="border w-5 h-5 flex items-center justify-center bg-accent rounded"
+                    >
+                      {key}
+                    </span>
+                  ))}
+                </div>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          </Tooltip>
+        </SidebarMenu>
         <SidebarMenu>
           <Tooltip>
             <SidebarMenuItem>
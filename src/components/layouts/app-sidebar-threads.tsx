@@ -11,7 +11,14 @@ import {
 import { SidebarGroupContent, SidebarMenu, SidebarMenuItem } from "ui/sidebar";
 import { SidebarGroup } from "ui/sidebar";
 import { ThreadDropdown } from "../thread-dropdown";
-import { ChevronDown, ChevronUp, MoreHorizontal, Trash } from "lucide-react";
+import {
+  ChevronDown,
+  ChevronUp,
+  GitForkIcon,
+  MoreHorizontal,
+  Trash,
+  Upload,
+} from "lucide-react";
 import { useMounted } from "@/hooks/use-mounted";
 import { appStore } from "@/app/store";
 import { Button } from "ui/button";
@@ -24,6 +31,7 @@ import {
 import {
   deleteThreadsAction,
   deleteUnarchivedThreadsAction,
+  importThreadAction,
 } from "@/app/api/chat/actions";
 import { fetcher } from "lib/utils";
 import { toast } from "sonner";
@@ -31,7 +39,7 @@ import { useShallow } from "zustand/shallow";
 import { useRouter } from "next/navigation";
 import useSWR, { mutate } from "swr";
 import { handleErrorWithToast } from "ui/shared-toast";
-import { useMemo, useState } from "react";
+import { useMemo, useRef, useState } from "react";
 
 import { useTranslations } from "next-intl";
 import { TextShimmer } from "ui/text-shimmer";
@@ -59,6 +67,7 @@ export function AppSidebarThreads() {
   );
   // State to track if expanded view is active
   const [isExpanded, setIsExpanded] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const { data: threadList, isLoading } = useSWR("/api/thread", fetcher, {
     onError: handleErrorWithToast,
@@ -170,6 +179,21 @@ export function AppSidebarThreads() {
     });
   };
 
+  const handleImportThread = async (file: File) => {
+    await toast.promise(
+      file.text().then((text) => importThreadAction(JSON.parse(text))),
+      {
+        loading: t("importingChat"),
+        success: (thread) => {
+          mutate("/api/thread");
+          router.push(`/chat/${thread.id}`);
+          return t("chatImported");
+        },
+        error: t("failedToImportChat"),
+      },
+    );
+  };
+
   if (isLoading || threadList?.length === 0)
     return (
       <SidebarGroup>
@@ -225,6 +249,12 @@ export function AppSidebarThreads() {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent side="right" align="start">
+                          <DropdownMenuItem
+                            onClick={() => importInputRef.current?.click()}
+                          >
+                            <Upload />
+                            {t("importChat")}
+                          </DropdownMenuItem>
                           <DropdownMenuItem
                             variant="destructive"
                             onClick={handleDeleteAllThreads}
@@ -242,6 +272,19 @@ export function AppSidebarThreads() {
                         </DropdownMenuContent>
                       </DropdownMenu>
                     )}
+                    {isFirst && (
+                      <input
+                        ref={importInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = "";
+                          if (file) handleImportThread(file);
+                        }}
+                      />
+                    )}
                   </SidebarGroupLabel>
 
                   {group.threads.map((thread) => (
@@ -267,6 +310,9 @@ export function AppSidebarThreads() {
                                     href={`/chat/${thread.id}`}
                                     className="flex items-center"
                                   >
+                                    {thread.forkedFromThreadId && (
+                                      <GitForkIcon className="size-3 shrink-0 text-muted-foreground" />
+                                    )}
                                     {generatingTitleThreadIds.includes(
                                       thread.id,
                                     ) ? (
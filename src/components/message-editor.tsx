@@ -4,7 +4,7 @@ import type { UIMessage } from "ai";
 import { Button } from "./ui/button";
 import { type Dispatch, type SetStateAction, useState } from "react";
 import { Textarea } from "./ui/textarea";
-import { deleteMessagesByChatIdAfterTimestampAction } from "@/app/api/chat/actions";
+import { generateUUID } from "lib/utils";
 import type { UseChatHelpers } from "@ai-sdk/react";
 import { useTranslations } from "next-intl";
 import { Loader } from "lucide-react";
@@ -77,17 +77,17 @@ export function MessageEditor({
           size="sm"
           className="h-fit py-2 px-3"
           disabled={isSubmitting}
-          onClick={async () => {
+          onClick={() => {
             setIsSubmitting(true);
 
-            await deleteMessagesByChatIdAfterTimestampAction(message.id);
-
             setMessages((messages) => {
               const index = messages.findIndex((m) => m.id === message.id);
 
               if (index !== -1) {
+                // The edit is saved as a new branch, the original message is kept
                 const updatedMessage: UIMessage = {
                   ...message,
+                  id: generateUUID(),
                   parts: draftParts,
                 };
 
@@ -15,6 +15,7 @@ import {
   TriangleAlert,
   HammerIcon,
   EllipsisIcon,
+  GitForkIcon,
 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
 import { Button } from "ui/button";
@@ -28,10 +29,7 @@ import { useCopy } from "@/hooks/use-copy";
 
 import { AnimatePresence, motion } from "framer-motion";
 import { SelectModel } from "./select-model";
-import {
-  deleteMessageAction,
-  deleteMessagesByChatIdAfterTimestampAction,
-} from "@/app/api/chat/actions";
+import { deleteMessageAction } from "@/app/api/chat/actions";
 
 import { toast } from "sonner";
 import { safe } from "ts-safe";
@@ -55,6 +53,7 @@ import {
 } from "app-types/workflow";
 import { Avatar, AvatarFallback, AvatarImage } from "ui/avatar";
 import { DefaultToolName } from "lib/ai/tools";
+import { ApprovalDecision } from "lib/ai/workflow/approval";
 import {
   Shortcut,
   getShortcutKeyList,
@@ -82,6 +81,8 @@ interface UserMessagePartProps {
   sendMessage: UseChatHelpers<UIMessage>["sendMessage"];
   status: UseChatHelpers<UIMessage>["status"];
   isError?: boolean;
+  readonly?: boolean; // Hides the actions, e.g. on shared threads
+  onFork?: (messageId: string) => Promise<void>;
 }
 
 interface AssistMessagePartProps {
@@ -91,10 +92,10 @@ interface AssistMessagePartProps {
   message: UIMessage;
   prevMessage: UIMessage;
   showActions: boolean;
-  threadId?: string;
   setMessages: UseChatHelpers<UIMessage>["setMessages"];
   sendMessage: UseChatHelpers<UIMessage>["sendMessage"];
   isError?: boolean;
+  onFork?: (messageId: string) => Promise<void>;
 }
 
 interface ToolMessagePartProps {
@@ -103,12 +104,47 @@ interface ToolMessagePartProps {
   showActions: boolean;
   isLast?: boolean;
   isManualToolInvocation?: boolean;
+  canDecideWorkflowApproval?: boolean;
   addToolResult?: UseChatHelpers<UIMessage>["addToolResult"];
   isError?: boolean;
   setMessages?: UseChatHelpers<UIMessage>["setMessages"];
 }
 
 const MAX_TEXT_LENGTH = 600;
+
+function ForkMessageButton({
+  messageId,
+  onFork,
+}: {
+  messageId: string;
+  onFork: (messageId: string) => Promise<void>;
+}) {
+  const t = useTranslations("Chat");
+  const [isForking, setIsForking] = useState(false);
+
+  const fork = () => {
+    safe(() => setIsForking(true))
+      .ifOk(() => onFork(messageId))
+      .watch(() => setIsForking(false));
+  };
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          disabled={isForking}
+          onClick={fork}
+          className="size-3! p-4!"
+        >
+          {isForking ? <Loader className="animate-spin" /> : <GitForkIcon />}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent side="bottom">{t("forkFromHere")}</TooltipContent>
+    </Tooltip>
+  );
+}
 export const UserMessagePart = memo(
   function UserMessagePart({
     part,
@@ -118,6 +154,8 @@ export const UserMessagePart = memo(
     setMessages,
     sendMessage,
     isError,
+    readonly,
+    onFork,
   }: UserMessagePartProps) {
     const { copied, copy } = useCopy();
     const t = useTranslations();
@@ -212,7 +250,7 @@ export const UserMessagePart = memo(
             </Button>
           )}
         </div>
-        {isLast && (
+        {isLast && !readonly && (
           <div className="flex w-full justify-end opacity-0 group-hover/message:opacity-100 transition-opacity duration-300">
             <Tooltip>
               <TooltipTrigger asChild>
@@ -242,6 +280,9 @@ export const UserMessagePart = memo(
               </TooltipTrigger>
               <TooltipContent side="bottom">Edit</TooltipContent>
             </Tooltip>
+            {onFork && (
+              <ForkMessageButton messageId={message.id} onFork={onFork} />
+            )}
 
             <Tooltip>
               <TooltipTrigger asChild>
@@ -275,6 +316,8 @@ export const UserMessagePart = memo(
     if (prev.isLast != next.isLast) return false;
     if (prev.status != next.status) return false;
     if (prev.message.id != next.message.id) return false;
+    if (prev.readonly != next.readonly) return false;
+    if (prev.onFork != next.onFork) return false;
     if (!equal(prev.part, next.part)) return false;
     return true;
   },
@@ -288,6 +331,7 @@ export const UserImagePart = memo(function UserImagePart({
   message,
   setMessages,
   isError,
+  readonly,
 }: {
   part: ImageMessagePart;
   isLast: boolean;
@@ -296,6 +340,7 @@ export const UserImagePart = memo(function UserImagePart({
   sendMessage: UseChatHelpers<UIMessage>["sendMessage"];
   status: UseChatHelpers<UIMessage>["status"];
   isError?: boolean;
+  readonly?: boolean;
 }) {
   const [isDeleting, setIsDeleting] = useState(false);
   const ref = useRef<HTMLDivElement>(null);
@@ -343,7 +388,7 @@ export const UserImagePart = memo(function UserImagePart({
           loading="lazy"
         />
       </div>
-      {isLast && (
+      {isLast && !readonly && (
         <div className="flex w-full justify-end opacity-0 group-hover/message:opacity-100 transition-opacity duration-300">
           <Tooltip>
             <TooltipTrigger asChild>
@@ -375,6 +420,7 @@ export const UserFilePart = memo(function UserFilePart({
   message,
   setMessages,
   isError,
+  readonly,
 }: {
   part: FileMessagePart;
   isLast: boolean;
@@ -383,6 +429,7 @@ export const UserFilePart = memo(function UserFilePart({
   sendMessage: UseChatHelpers<UIMessage>["sendMessage"];
   status: UseChatHelpers<UIMessage>["status"];
   isError?: boolean;
+  readonly?: boolean;
 }) {
   const [isDeleting, setIsDeleting] = useState(false);
   const ref = useRef<HTMLDivElement>(null);
@@ -447,7 +494,7 @@ export const UserFilePart = memo(function UserFilePart({
       >
         <FileAttachmentDisplay file={fileAttachment} showPreview={true} />
       </div>
-      {isLast && (
+      {isLast && !readonly && (
         <div className="flex w-full justify-end opacity-0 group-hover/message:opacity-100 transition-opacity duration-300">
           <Tooltip>
             <TooltipTrigger asChild>
@@ -478,9 +525,9 @@ export const AssistMessagePart = memo(function AssistMessagePart({
   message,
   prevMessage,
   isError,
-  threadId,
   setMessages,
   sendMessage,
+  onFork,
 }: AssistMessagePartProps) {
   const { copied, copy } = useCopy();
   const [isLoading, setIsLoading] = useState(false);
@@ -516,12 +563,8 @@ export const AssistMessagePart = memo(function AssistMessagePart({
   }, [message.id]);
 
   const handleModelChange = (model: ChatModel) => {
+    // The new answer is saved next to this one as another branch
     safe(() => setIsLoading(true))
-      .ifOk(() =>
-        threadId
-          ? deleteMessagesByChatIdAfterTimestampAction(message.id)
-          : Promise.resolve(),
-      )
       .ifOk(() =>
         setMessages((messages) => {
           const index = messages.findIndex((m) => m.id === prevMessage.id);
@@ -591,6 +634,9 @@ export const AssistMessagePart = memo(function AssistMessagePart({
             </TooltipTrigger>
             <TooltipContent>Change Model</TooltipContent>
           </Tooltip>
+          {onFork && (
+            <ForkMessageButton messageId={message.id} onFork={onFork} />
+          )}
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
@@ -917,6 +963,7 @@ export const ToolMessagePart = memo(
     messageId,
     setMessages,
     isManualToolInvocation,
+    canDecideWorkflowApproval,
   }: ToolMessagePartProps) => {
     const t = useTranslations("");
 
@@ -1032,6 +1079,22 @@ export const ToolMessagePart = memo(
       [result],
     );
 
+    // Like a manual tool confirmation, the decision is sent as the tool output
+    const onWorkflowApprovalDecision = useCallback(
+      (decision: ApprovalDecision) => {
+        const workflowResult = result as VercelAIWorkflowToolStreamingResult;
+        addToolResult?.({
+          tool: toolName,
+          toolCallId,
+          output: {
+            ...workflowResult,
+            approval: { ...workflowResult.approval!, decision },
+          },
+        });
+      },
+      [addToolResult, toolCallId, result],
+    );
+
     const CustomToolComponent = useMemo(() => {
       if (
         toolName === DefaultToolName.WebSearch ||
@@ -1205,6 +1268,11 @@ export const ToolMessagePart = memo(
                 {!result ? null : isWorkflowTool ? (
                   <WorkflowInvocation
                     result={result as VercelAIWorkflowToolStreamingResult}
+                    onApprovalDecision={
+                      canDecideWorkflowApproval
+                        ? onWorkflowApprovalDecision
+                        : undefined
+                    }
                   />
                 ) : (
                   <div
@@ -1332,6 +1400,8 @@ export const ToolMessagePart = memo(
     if (prev.showActions !== next.showActions) return false;
     if (prev.isManualToolInvocation !== next.isManualToolInvocation)
       return false;
+    if (prev.canDecideWorkflowApproval !== next.canDecideWorkflowApproval)
+      return false;
     if (prev.messageId !== next.messageId) return false;
     if (!equal(prev.part, next.part)) return false;
     return true;
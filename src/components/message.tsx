@@ -14,7 +14,13 @@ import {
   ToolMessagePart,
   ReasoningPart,
 } from "./message-parts";
-import { ChevronDown, ChevronUp, TriangleAlertIcon } from "lucide-react";
+import {
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  TriangleAlertIcon,
+} from "lucide-react";
 import { Button } from "ui/button";
 import { useTranslations } from "next-intl";
 import { ChatMetadata } from "app-types/chat";
@@ -22,7 +28,6 @@ import { ChatMetadata } from "app-types/chat";
 interface Props {
   message: UIMessage;
   prevMessage: UIMessage;
-  threadId?: string;
   isLoading: boolean;
   isLastMessage: boolean;
   setMessages: UseChatHelpers<UIMessage>["setMessages"];
@@ -31,12 +36,57 @@ interface Props {
   addToolResult?: UseChatHelpers<UIMessage>["addToolResult"];
   messageIndex: number;
   status: UseChatHelpers<UIMessage>["status"];
+  branches?: string[]; // The message and its alternatives, oldest first
+  onSwitchBranch?: (messageId: string) => void;
+  onFork?: (messageId: string) => Promise<void>;
+  readonly?: boolean; // Shows the message without actions, e.g. on shared threads
+}
+
+function MessageBranchSwitcher({
+  messageId,
+  branches,
+  disabled,
+  onSwitch,
+}: {
+  messageId: string;
+  branches: string[];
+  disabled?: boolean;
+  onSwitch: (messageId: string) => void;
+}) {
+  const t = useTranslations("Chat");
+  const index = branches.indexOf(messageId);
+  return (
+    <div className="flex items-center text-xs text-muted-foreground">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-6"
+        aria-label={t("previousBranch")}
+        disabled={disabled || index <= 0}
+        onClick={() => onSwitch(branches[index - 1])}
+      >
+        <ChevronLeft />
+      </Button>
+      <span className="tabular-nums">
+        {index + 1}/{branches.length}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-6"
+        aria-label={t("nextBranch")}
+        disabled={disabled || index >= branches.length - 1}
+        onClick={() => onSwitch(branches[index + 1])}
+      >
+        <ChevronRight />
+      </Button>
+    </div>
+  );
 }
 
 const PurePreviewMessage = ({
   message,
   prevMessage,
-  threadId,
   isLoading,
   isLastMessage,
   status,
@@ -45,6 +95,10 @@ const PurePreviewMessage = ({
   addToolResult,
   messageIndex,
   sendMessage,
+  branches,
+  onSwitchBranch,
+  onFork,
+  readonly,
 }: Props) => {
   const isUserMessage = useMemo(() => message.role === "user", [message.role]);
   if (message.role == "system") {
@@ -52,7 +106,10 @@ const PurePreviewMessage = ({
   }
   if (!message.parts.length) return null;
   return (
-    <div className="w-full mx-auto max-w-3xl px-6 group/message">
+    <div
+      className="w-full mx-auto max-w-3xl px-6 group/message"
+      data-message-id={message.id}
+    >
       <div
         className={cn(
           "flex gap-4 w-full group-data-[role=user]/message:ml-auto group-data-[role=user]/message:max-w-2xl",
@@ -84,6 +141,8 @@ const PurePreviewMessage = ({
                   message={message}
                   setMessages={setMessages}
                   sendMessage={sendMessage}
+                  readonly={readonly}
+                  onFork={onFork}
                 />
               );
             }
@@ -102,6 +161,7 @@ const PurePreviewMessage = ({
                   setMessages={setMessages}
                   sendMessage={sendMessage}
                   status={status}
+                  readonly={readonly}
                 />
               );
             }
@@ -116,6 +176,7 @@ const PurePreviewMessage = ({
                   setMessages={setMessages}
                   sendMessage={sendMessage}
                   status={status}
+                  readonly={readonly}
                 />
               );
             }
@@ -123,18 +184,19 @@ const PurePreviewMessage = ({
             if (part.type === "text" && !isUserMessage) {
               return (
                 <AssistMessagePart
-                  threadId={threadId}
                   isLast={isLastMessage && isLastPart}
                   isLoading={isLoading}
                   key={key}
                   part={part}
                   prevMessage={prevMessage}
                   showActions={
-                    isLastMessage ? isLastPart && !isLoading : isLastPart
+                    !readonly &&
+                    (isLastMessage ? isLastPart && !isLoading : isLastPart)
                   }
                   message={message}
                   setMessages={setMessages}
                   sendMessage={sendMessage}
+                  onFork={onFork}
                 />
               );
             }
@@ -152,8 +214,12 @@ const PurePreviewMessage = ({
                   isLast={isLast}
                   messageId={message.id}
                   isManualToolInvocation={isManualToolInvocation}
+                  canDecideWorkflowApproval={
+                    !readonly && isLastMessage && !isLoading
+                  }
                   showActions={
-                    isLastMessage ? isLastPart && !isLoading : isLastPart
+                    !readonly &&
+                    (isLastMessage ? isLastPart && !isLoading : isLastPart)
                   }
                   addToolResult={addToolResult}
                   key={key}
@@ -167,6 +233,16 @@ const PurePreviewMessage = ({
               return <div key={key}> unknown part {part.type}</div>;
             }
           })}
+          {branches && onSwitchBranch && (
+            <div className={cn("flex -mt-2", isUserMessage && "justify-end")}>
+              <MessageBranchSwitcher
+                messageId={message.id}
+                branches={branches}
+                disabled={isLoading}
+                onSwitch={onSwitchBranch}
+              />
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -184,6 +260,10 @@ export const PreviewMessage = memo(
 
     if (prevProps.className !== nextProps.className) return false;
 
+    if (!equal(prevProps.branches, nextProps.branches)) return false;
+
+    if (prevProps.onFork !== nextProps.onFork) return false;
+
     if (nextProps.isLoading && nextProps.isLastMessage) return false;
 
     if (!equal(prevProps.message.metadata, nextProps.message.metadata))
@@ -0,0 +1,146 @@
+"use client";
+
+import { useCopy } from "@/hooks/use-copy";
+import { ChatThreadShare } from "app-types/chat";
+import { notify } from "lib/notify";
+import { fetcher } from "lib/utils";
+import { Check, Copy, Link2Icon, Loader } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { type PropsWithChildren, useEffect, useState } from "react";
+import useSWR, { mutate } from "swr";
+import { safe } from "ts-safe";
+import { Button } from "ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "ui/dialog";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { Switch } from "ui/switch";
+
+export function ShareThreadDialog({
+  threadId,
+  children,
+}: PropsWithChildren<{ threadId: string }>) {
+  const t = useTranslations("Chat.Share");
+  const [open, setOpen] = useState(false);
+  const key = `/api/thread/${threadId}/share`;
+  const { data: share, isLoading } = useSWR<ChatThreadShare | null>(
+    open ? key : null,
+    fetcher,
+  );
+  const [redactToolInputs, setRedactToolInputs] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const { copied, copy } = useCopy();
+
+  const url = share ? `${window.location.origin}/share/${share.token}` : "";
+
+  useEffect(() => {
+    if (share) setRedactToolInputs(share.redactToolInputs);
+  }, [share]);
+
+  const request = (method: "POST" | "DELETE", redact = redactToolInputs) => {
+    setIsUpdating(true);
+    safe(() =>
+      fetch(key, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body:
+          method == "POST"
+            ? JSON.stringify({ redactToolInputs: redact })
+            : undefined,
+      }).then((res) => {
+        if (!res.ok) throw new Error(res.statusText);
+      }),
+    )
+      .ifOk(() => mutate(key))
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsUpdating(false));
+  };
+
+  const changeRedaction = (checked: boolean) => {
+    setRedactToolInputs(checked);
+    // An existing link is updated right away, a new one uses it when created
+    if (share) request("POST", checked);
+  };
+
+  const revoke = async () => {
+    const ok = await notify.confirm({
+      description: t("revokeLinkConfirm"),
+    });
+    if (!ok) return;
+    request("DELETE");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("shareChat")}</DialogTitle>
+          <DialogDescription>{t("shareChatDescription")}</DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center gap-4">
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="redact-tool-inputs">{t("redactToolInputs")}</Label>
+            <p className="text-xs text-muted-foreground">
+              {t("redactToolInputsDescription")}
+            </p>
+          </div>
+          <Switch
+            id="redact-tool-inputs"
+            className="ml-auto"
+            checked={redactToolInputs}
+            disabled={isUpdating || isLoading}
+            onCheckedChange={changeRedaction}
+          />
+        </div>
+        {share ? (
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-2">
+              <Input
+                readOnly
+                value={url}
+                className="font-mono text-xs bg-input border-transparent"
+              />
+              <Button variant="ghost" size="icon" onClick={() => copy(url)}>
+                {copied ? (
+                  <Check className="size-3" />
+                ) : (
+                  <Copy className="size-3" />
+                )}
+              </Button>
+            </div>
+            <Button
+              variant="ghost"
+              className="text-destructive hover:text-destructive ml-auto"
+              disabled={isUpdating}
+              onClick={revoke}
+            >
+              {isUpdating && <Loader className="size-3.5 animate-spin" />}
+              {t("revokeLink")}
+            </Button>
+          </div>
+        ) : (
+          <Button
+            className="ml-auto"
+            disabled={isUpdating || isLoading}
+            onClick={() => request("POST")}
+          >
+            {isUpdating ? (
+              <Loader className="size-3.5 animate-spin" />
+            ) : (
+              <Link2Icon className="size-3.5" />
+            )}
+            {t("createLink")}
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
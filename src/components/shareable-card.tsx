@@ -35,6 +35,7 @@ interface ShareableCardProps {
   isBookmarkToggleLoading?: boolean;
   isDeleteLoading?: boolean;
   actionsDisabled?: boolean;
+  renderActions?: () => React.ReactNode;
 }
 
 export function ShareableCard({
@@ -49,6 +50,7 @@ export function ShareableCard({
   isVisibilityChangeLoading,
   isDeleteLoading,
   actionsDisabled,
+  renderActions,
 }: ShareableCardProps) {
   const t = useTranslations();
   const isPublished = (item as WorkflowSummary).isPublished;
@@ -123,6 +125,7 @@ export function ShareableCard({
                     : undefined
                 }
                 onDelete={onDelete ? () => onDelete(item.id) : undefined}
+                renderActions={renderActions}
                 isBookmarkToggleLoading={isBookmarkToggleLoading}
                 isVisibilityChangeLoading={isVisibilityChangeLoading}
                 isDeleteLoading={isDeleteLoading}
@@ -0,0 +1,49 @@
+"use client";
+
+import { UIMessage } from "ai";
+import { EyeIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Badge } from "ui/badge";
+import { Think } from "ui/think";
+import { PreviewMessage } from "./message";
+
+const noop = async () => {};
+
+export function SharedThread({
+  title,
+  messages,
+}: {
+  title: string;
+  messages: UIMessage[];
+}) {
+  const t = useTranslations("Chat.Share");
+
+  return (
+    <main className="flex flex-col h-screen bg-background">
+      <header className="flex items-center gap-3 border-b px-6 py-3">
+        <Think />
+        <h1 className="font-semibold truncate">{title || "New Chat"}</h1>
+        <Badge variant="secondary" className="ml-auto shrink-0">
+          <EyeIcon className="size-3" />
+          {t("readOnly")}
+        </Badge>
+      </header>
+      <div className="flex-1 overflow-y-auto flex flex-col gap-2 py-6">
+        {messages.map((message, index) => (
+          <PreviewMessage
+            key={message.id}
+            messageIndex={index}
+            message={message}
+            prevMessage={messages[index - 1]}
+            status="ready"
+            isLoading={false}
+            isLastMessage={index === messages.length - 1}
+            setMessages={noop}
+            sendMessage={noop}
+            readonly
+          />
+        ))}
+      </div>
+    </main>
+  );
+}
@@ -2,7 +2,15 @@
 import { deleteThreadAction, updateThreadAction } from "@/app/api/chat/actions";
 import { appStore } from "@/app/store";
 import { useToRef } from "@/hooks/use-latest";
-import { Archive, ChevronRight, Loader, PencilLine, Trash } from "lucide-react";
+import {
+  Archive,
+  ChevronRight,
+  Download,
+  Loader,
+  PencilLine,
+  Share2,
+  Trash,
+} from "lucide-react";
 import { useRouter } from "next/navigation";
 import { type PropsWithChildren, useState } from "react";
 import { toast } from "sonner";
@@ -37,6 +45,8 @@ import {
 import { useTranslations } from "next-intl";
 import { addItemToArchiveAction } from "@/app/api/archive/actions";
 import { useShallow } from "zustand/shallow";
+import { ShareThreadDialog } from "./share-thread-dialog";
+import { ChatExportFormatSchema } from "app-types/chat";
 
 type Props = PropsWithChildren<{
   threadId: string;
@@ -145,6 +155,43 @@ export function ThreadDropdown({
                   </div>
                 </UpdateThreadNameDialog>
               </CommandItem>
+              <CommandItem className="cursor-pointer p-0">
+                <ShareThreadDialog threadId={threadId}>
+                  <div className="flex items-center gap-2 w-full px-2 py-1 rounded">
+                    <Share2 className="text-foreground" />
+                    <span className="mr-4">{t("Chat.Share.shareChat")}</span>
+                  </div>
+                </ShareThreadDialog>
+              </CommandItem>
+              <CommandItem className="cursor-pointer p-0">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <div className="flex items-center gap-2 w-full px-2 py-1 rounded hover:bg-accent">
+                      <Download className="text-foreground" />
+                      <span className="mr-4">
+                        {t("Chat.Export.exportChat")}
+                      </span>
+                      <ChevronRight className="ml-auto h-4 w-4" />
+                    </div>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent side="right" align="start">
+                    {ChatExportFormatSchema.options.map((format) => (
+                      <DropdownMenuItem
+                        key={format}
+                        asChild
+                        className="cursor-pointer"
+                      >
+                        <a
+                          href={`/api/thread/${threadId}/export?format=${format}`}
+                          download
+                        >
+                          {t(`Chat.Export.formats.${format}`)}
+                        </a>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </CommandItem>
               <CommandItem className="cursor-pointer p-0">
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
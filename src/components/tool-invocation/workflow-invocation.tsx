@@ -1,25 +1,121 @@
 import { useCopy } from "@/hooks/use-copy";
 import { VercelAIWorkflowToolStreamingResult } from "app-types/workflow";
+import { ApprovalDecision } from "lib/ai/workflow/approval";
 import equal from "lib/equal";
-import { AlertTriangleIcon, Check, Copy, Loader2, XIcon } from "lucide-react";
-import { memo, useEffect, useMemo, useRef } from "react";
+import {
+  AlertTriangleIcon,
+  BanIcon,
+  Check,
+  Copy,
+  Loader2,
+  PauseIcon,
+  XIcon,
+} from "lucide-react";
+import { useTranslations } from "next-intl";
+import { memo, useEffect, useMemo, useRef, useState } from "react";
 import { Alert, AlertDescription, AlertTitle } from "ui/alert";
 import { Button } from "ui/button";
 import JsonView from "ui/json-view";
 import { NodeResultPopup } from "../workflow/node-result-popup";
 import { cn } from "lib/utils";
 import { NodeIcon } from "../workflow/node-icon";
+import { WorkflowUsageSummary } from "../workflow/workflow-usage-summary";
 import { TextShimmer } from "ui/text-shimmer";
+import { Input } from "ui/input";
 
 interface WorkflowInvocationProps {
   result: VercelAIWorkflowToolStreamingResult;
+  /**
+   * Answers a run waiting at an Approval node.
+   * Omitted when the decision can no longer be sent, e.g. for older messages.
+   */
+  onApprovalDecision?: (decision: ApprovalDecision) => void;
 }
 
-function PureWorkflowInvocation({ result }: WorkflowInvocationProps) {
+function WorkflowApproval({
+  approval,
+  onApprovalDecision,
+}: {
+  approval: NonNullable<VercelAIWorkflowToolStreamingResult["approval"]>;
+  onApprovalDecision?: (decision: ApprovalDecision) => void;
+}) {
+  const t = useTranslations();
+  const [comment, setComment] = useState("");
+
+  const decide = (approved: boolean) =>
+    onApprovalDecision?.({
+      approved,
+      comment: comment.trim() || undefined,
+    });
+
+  return (
+    <div className="w-full bg-card p-4 border text-xs rounded-lg flex flex-col gap-2">
+      <div className="flex items-center gap-2 text-muted-foreground font-medium">
+        <PauseIcon className="size-3" />
+        {t("Workflow.waitingForApproval", { name: approval.nodeName })}
+      </div>
+      {approval.message && (
+        <p className="whitespace-pre-wrap text-sm">{approval.message}</p>
+      )}
+      {onApprovalDecision && (
+        <>
+          <Input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={t("Workflow.approvalCommentPlaceholder")}
+            className="text-xs bg-input border-transparent"
+          />
+          <div className="flex flex-row gap-2 items-center">
+            <Button
+              variant="secondary"
+              size="sm"
+              className="rounded-full text-xs hover:ring py-2"
+              onClick={() => decide(true)}
+            >
+              <Check />
+              {t("Common.approve")}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="rounded-full text-xs py-2"
+              onClick={() => decide(false)}
+            >
+              <XIcon />
+              {t("Common.reject")}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function PureWorkflowInvocation({
+  result,
+  onApprovalDecision,
+}: WorkflowInvocationProps) {
+  const t = useTranslations();
   const { copied, copy } = useCopy();
   const savedResult = useRef<VercelAIWorkflowToolStreamingResult>(result);
   const output = useMemo(() => {
     if (result.status == "running") return null;
+    if (result.status == "waiting") {
+      if (!result.approval) return null;
+      return (
+        <WorkflowApproval
+          approval={result.approval}
+          onApprovalDecision={onApprovalDecision}
+        />
+      );
+    }
+    if (result.status == "cancelled")
+      return (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground px-2">
+          <BanIcon className="size-3" />
+          {t("Workflow.runCancelled")}
+        </div>
+      );
     if (result.status == "fail")
       return (
         <Alert variant={"destructive"} className="border-destructive">
@@ -55,7 +151,14 @@ function PureWorkflowInvocation({ result }: WorkflowInvocationProps) {
         </div>
       </div>
     );
-  }, [result.status, result.error, result.result, copied]);
+  }, [
+    result.status,
+    result.error,
+    result.result,
+    result.approval,
+    copied,
+    onApprovalDecision,
+  ]);
   useEffect(() => {
     if (result.status == "running") {
       savedResult.current = result;
@@ -114,6 +217,10 @@ function PureWorkflowInvocation({ result }: WorkflowInvocationProps) {
                 <Check className="size-3" />
               ) : item.status == "fail" ? (
                 <XIcon className="size-3" />
+              ) : item.status == "waiting" ? (
+                <PauseIcon className="size-3" />
+              ) : item.status == "cancelled" ? (
+                <BanIcon className="size-3" />
               ) : (
                 <Loader2 className="size-3 animate-spin" />
               )}
@@ -121,6 +228,12 @@ function PureWorkflowInvocation({ result }: WorkflowInvocationProps) {
           </NodeResultPopup>
         );
       })}
+      {result.status != "running" && (
+        <WorkflowUsageSummary
+          className="px-2 justify-end"
+          usages={result.history.map((item) => item.usage)}
+        />
+      )}
       <div className="mt-2">{output}</div>
     </div>
   );
@@ -135,6 +248,8 @@ function areEqual(
   if (prev.result.result != next.result.result) return false;
   if (!equal(prev.result.history, next.result.history)) return false;
   if (!equal(prev.result.result, next.result.result)) return false;
+  if (!equal(prev.result.approval, next.result.approval)) return false;
+  if (!!prev.onApprovalDecision != !!next.onApprovalDecision) return false;
   return true;
 }
 
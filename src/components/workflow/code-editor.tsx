@@ -0,0 +1,83 @@
+"use client";
+
+import { KeyboardEvent, useCallback, useRef } from "react";
+import { CodeBlock } from "ui/CodeBlock";
+import { cn } from "lib/utils";
+
+const INDENT = "  ";
+
+/**
+ * Lightweight code editor: a transparent textarea laid over a syntax highlighted block.
+ */
+export function CodeEditor({
+  value,
+  onChange,
+  lang,
+  editable = true,
+  className,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  lang: string;
+  editable?: boolean;
+  className?: string;
+}) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLTextAreaElement>) => {
+      if (e.key !== "Tab" || e.shiftKey) return;
+      e.preventDefault();
+      const { selectionStart, selectionEnd } = e.currentTarget;
+      onChange(
+        value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd),
+      );
+      requestAnimationFrame(() => {
+        const cursor = selectionStart + INDENT.length;
+        textareaRef.current?.setSelectionRange(cursor, cursor);
+      });
+    },
+    [value, onChange],
+  );
+
+  return (
+    <div
+      className={cn(
+        "border rounded-md bg-background overflow-auto font-mono text-xs leading-5",
+        className,
+      )}
+    >
+      <div className="flex min-h-full">
+        <div className="sticky left-0 z-10 bg-background select-none text-right text-muted-foreground py-2 px-2 border-r">
+          {value.split("\n").map((_, index) => (
+            <div key={index}>{index + 1}</div>
+          ))}
+        </div>
+        <div className="relative flex-1">
+          <CodeBlock
+            code={`${value}\n`}
+            lang={lang}
+            showLineNumbers={false}
+            className="p-2 m-0 w-max min-w-full bg-transparent! whitespace-pre font-mono pointer-events-none"
+            fallback={
+              <pre className="p-2 m-0 w-max min-w-full whitespace-pre font-mono">
+                {`${value}\n`}
+              </pre>
+            }
+          />
+          <textarea
+            ref={textareaRef}
+            value={value}
+            readOnly={!editable}
+            spellCheck={false}
+            autoCapitalize="off"
+            autoComplete="off"
+            onKeyDown={handleKeyDown}
+            onChange={(e) => onChange(e.target.value)}
+            className="absolute inset-0 p-2 w-full h-full resize-none overflow-hidden whitespace-pre bg-transparent text-transparent caret-foreground outline-none font-mono"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,14 @@
 import { Handle, Position, useReactFlow, type NodeProps } from "@xyflow/react";
 import { NodeKind, UINode } from "lib/ai/workflow/workflow.interface";
 import { cn } from "lib/utils";
-import { Loader2Icon, PlusIcon, TriangleAlertIcon } from "lucide-react";
+import {
+  BanIcon,
+  Loader2Icon,
+  PauseIcon,
+  PinIcon,
+  PlusIcon,
+  TriangleAlertIcon,
+} from "lucide-react";
 
 import { memo, useCallback, useEffect, useState } from "react";
 import { NodeSelect } from "./node-select";
@@ -25,6 +32,13 @@ import { createAppendNode } from "./create-append-node";
 import { ToolNodeStack } from "./node-config/tool-node-config";
 import { Markdown } from "../markdown";
 import { HttpNodeDataStack } from "./node-config/http-node-config";
+import { LoopNodeDataStack } from "./node-config/loop-node-config";
+import { SubWorkflowNodeDataStack } from "./node-config/sub-workflow-node-config";
+import { ApprovalNodeDataOutputStack } from "./node-config/approval-node-config";
+import { MergeNodeDataStack } from "./node-config/merge-node-config";
+import { NodeErrorHandle } from "./node-config/node-error-policy-config";
+import { hasErrorBranch } from "lib/ai/workflow/node-error-policy";
+import { CodeNodeDataStack } from "./node-config/code-node-config";
 
 type Props = NodeProps<UINode>;
 
@@ -96,11 +110,14 @@ export const DefaultNode = memo(function DefaultNode({
             "fade-300 group py-4 w-72 relative bg-secondary border-2 hover:bg-input rounded-lg flex flex-col cursor-grab transition-colors",
             data.kind === NodeKind.Note &&
               "bg-card/40 text-primary rounded-none w-md min-h-40 border-input",
-            data.kind === NodeKind.Condition && "w-52",
+            (data.kind === NodeKind.Condition ||
+              data.kind === NodeKind.Approval) &&
+              "w-52",
             data.kind !== NodeKind.Note &&
               selected &&
               "border-blue-500 bg-secondary!",
             data.runtime?.status === "fail" && "border-destructive",
+            data.runtime?.status === "waiting" && "border-orange-400",
             ["success", "running"].includes(data.runtime?.status ?? "") &&
               "border-green-400",
           )}
@@ -122,9 +139,15 @@ export const DefaultNode = memo(function DefaultNode({
             )}
             <NodeIcon type={data.kind} />
             <div className="font-bold truncate">{data.name}</div>
-            {![NodeKind.Note, NodeKind.Output, NodeKind.Condition].includes(
-              data.kind,
-            ) && (
+            {data.mockOutput && (
+              <PinIcon className="size-3 shrink-0 text-muted-foreground" />
+            )}
+            {![
+              NodeKind.Note,
+              NodeKind.Output,
+              NodeKind.Condition,
+              NodeKind.Approval,
+            ].includes(data.kind) && (
               <Handle
                 type="source"
                 onConnect={() => update()}
@@ -184,6 +207,14 @@ export const DefaultNode = memo(function DefaultNode({
               <div className="ml-auto">
                 <Loader2Icon className="size-3 animate-spin" />
               </div>
+            ) : data.runtime?.status === "waiting" ? (
+              <div className="ml-auto">
+                <PauseIcon className="size-3 text-orange-400" />
+              </div>
+            ) : data.runtime?.status === "cancelled" ? (
+              <div className="ml-auto">
+                <BanIcon className="size-3 text-muted-foreground" />
+              </div>
             ) : null}
           </div>
           <div>
@@ -197,6 +228,16 @@ export const DefaultNode = memo(function DefaultNode({
             )}
             {data.kind === NodeKind.Tool && <ToolNodeStack data={data} />}
             {data.kind === NodeKind.Http && <HttpNodeDataStack data={data} />}
+            {data.kind === NodeKind.Code && <CodeNodeDataStack data={data} />}
+            {data.kind === NodeKind.Loop && <LoopNodeDataStack data={data} />}
+            {data.kind === NodeKind.SubWorkflow && (
+              <SubWorkflowNodeDataStack data={data} />
+            )}
+            {data.kind === NodeKind.Approval && (
+              <ApprovalNodeDataOutputStack data={data} />
+            )}
+            {data.kind === NodeKind.Merge && <MergeNodeDataStack data={data} />}
+            {hasErrorBranch(data) && <NodeErrorHandle nodeId={data.id} />}
             {data.description && (
               <div className="px-4 mt-2">
                 <div className="text-xs text-muted-foreground">
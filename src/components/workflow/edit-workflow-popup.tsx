@@ -37,6 +37,8 @@ import { cn, createDebounce } from "lib/utils";
 import { mutate } from "swr";
 import { useTranslations } from "next-intl";
 import { BACKGROUND_COLORS } from "lib/const";
+import { WorkflowSchedules } from "./workflow-schedules";
+import { WorkflowWebhook } from "./workflow-webhook";
 
 const colorUpdateDebounce = createDebounce();
 
@@ -81,7 +83,8 @@ export function EditWorkflowPopup({
   onOpenChange,
 }: {
   children?: React.ReactNode;
-  defaultValue?: Pick<DBWorkflow, "id" | "name" | "description" | "icon">;
+  defaultValue?: Pick<DBWorkflow, "id" | "name" | "description" | "icon"> &
+    Partial<Pick<DBWorkflow, "isPublished">>;
   submitAfterRoute?: boolean;
   open?: boolean;
   onSave?: (workflow: DBWorkflow) => void;
@@ -272,6 +275,15 @@ export function EditWorkflowPopup({
                 onChange={(e) => setConfig({ description: e.target.value })}
               />
             </div>
+            {config.id && (
+              <>
+                <WorkflowWebhook
+                  workflowId={config.id}
+                  isPublished={defaultValue?.isPublished}
+                />
+                <WorkflowSchedules workflowId={config.id} />
+              </>
+            )}
           </div>
         </div>
         <DialogFooter>
@@ -0,0 +1,173 @@
+"use client";
+
+import {
+  Handle,
+  Position,
+  useEdges,
+  useNodes,
+  useReactFlow,
+} from "@xyflow/react";
+import {
+  ApprovalNodeData,
+  NodeKind,
+  UINode,
+} from "lib/ai/workflow/workflow.interface";
+import {
+  APPROVAL_APPROVE_HANDLE,
+  APPROVAL_REJECT_HANDLE,
+} from "lib/ai/workflow/approval";
+import { memo, useCallback, useState } from "react";
+import { PlusIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Label } from "ui/label";
+import { TipTapMentionJsonContent } from "app-types/util";
+import { cn } from "lib/utils";
+import { OutputSchemaMentionInput } from "../output-schema-mention-input";
+import { NodeSelect } from "../node-select";
+import { createAppendNode } from "../create-append-node";
+import { useUpdate } from "@/hooks/use-update";
+import { useWorkflowStore } from "@/app/store/workflow.store";
+
+export const ApprovalNodeDataConfig = memo(function ({
+  data,
+}: {
+  data: ApprovalNodeData;
+}) {
+  const t = useTranslations();
+  const { updateNodeData } = useReactFlow<UINode>();
+  const nodes = useNodes() as UINode[];
+  const edges = useEdges();
+  const editable = useWorkflowStore((state) => {
+    return state.processIds.length === 0 && state.hasEditAccess;
+  });
+
+  const handleMessageChange = useCallback(
+    (message: TipTapMentionJsonContent) => {
+      updateNodeData(data.id, { message });
+    },
+    [data.id, updateNodeData],
+  );
+
+  return (
+    <div className="flex flex-col gap-2 text-sm px-4">
+      <Label className="text-sm">{t("Workflow.approvalMessage")}</Label>
+      <p className="text-xs text-muted-foreground">
+        {t("Workflow.approvalMessageDescription")}
+      </p>
+      <div className="w-full bg-secondary rounded-md p-2">
+        <OutputSchemaMentionInput
+          className="min-h-24"
+          currentNodeId={data.id}
+          nodes={nodes}
+          edges={edges}
+          content={data.message}
+          onChange={handleMessageChange}
+          editable={editable}
+        />
+      </div>
+    </div>
+  );
+});
+ApprovalNodeDataConfig.displayName = "ApprovalNodeDataConfig";
+
+export function ApprovalNodeDataOutputStack({
+  data,
+}: {
+  data: ApprovalNodeData;
+}) {
+  const t = useTranslations();
+  const [sourceHandle, setSourceHandle] = useState("");
+  const update = useUpdate();
+  const { addNodes, addEdges, updateNode, getNodes, getEdges } = useReactFlow();
+
+  const appendNode = (kind: NodeKind) => {
+    if (!sourceHandle) return;
+    setSourceHandle("");
+    const allNodes = getNodes() as UINode[];
+    const { node: newNode, edge: newEdge } = createAppendNode({
+      sourceNode: allNodes.find((node) => node.data.id === data.id)!,
+      kind,
+      allNodes,
+      edge: {
+        sourceHandle,
+      },
+      allEdges: getEdges(),
+    });
+
+    addNodes([newNode]);
+    if (newEdge) {
+      addEdges([newEdge]);
+    }
+    update(() => {
+      updateNode(data.id, {
+        selected: false,
+      });
+    });
+  };
+
+  return (
+    <div className="mt-2">
+      <div className="flex flex-col gap-2">
+        <ApprovalHandle
+          id={APPROVAL_APPROVE_HANDLE}
+          label={t("Common.approve")}
+          className="text-green-500"
+          onMouseUp={() => setSourceHandle(APPROVAL_APPROVE_HANDLE)}
+        />
+        <NodeSelect
+          onChange={appendNode}
+          open={Boolean(sourceHandle)}
+          onOpenChange={(open) => {
+            if (!open) {
+              setSourceHandle("");
+            }
+          }}
+        >
+          <PlusIcon className={"sr-only"} />
+        </NodeSelect>
+        <ApprovalHandle
+          id={APPROVAL_REJECT_HANDLE}
+          label={t("Common.reject")}
+          className="text-destructive"
+          onMouseUp={() => setSourceHandle(APPROVAL_REJECT_HANDLE)}
+        />
+      </div>
+    </div>
+  );
+}
+
+function ApprovalHandle({
+  id,
+  label,
+  className,
+  onMouseUp,
+}: {
+  id: string;
+  label: string;
+  className?: string;
+  onMouseUp?: () => void;
+}) {
+  return (
+    <div className="relative">
+      <Handle
+        type="source"
+        position={Position.Right}
+        className={cn(
+          "z-10 border-none! bg-blue-500! h-5! w-5! rounded-full! -right-0! flex items-center justify-center",
+        )}
+        id={id}
+        isConnectable={true}
+        onMouseUp={onMouseUp}
+      >
+        <div className="pointer-events-none">
+          <PlusIcon className={cn("size-4 text-white stroke-4")} />
+        </div>
+      </Handle>
+      <div className="px-4">
+        <div className="px-2 w-full text-xs py-1 font-bold bg-input border rounded-xs flex">
+          <span className={className}>{label.toUpperCase()}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
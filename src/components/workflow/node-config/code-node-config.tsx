@@ -0,0 +1,306 @@
+"use client";
+
+import { useReactFlow } from "@xyflow/react";
+import { CodeNodeData, UINode } from "lib/ai/workflow/workflow.interface";
+import { memo, useCallback, useMemo, useState } from "react";
+import {
+  ChevronDownIcon,
+  InfoIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+  TriangleAlertIcon,
+  VariableIcon,
+} from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Label } from "ui/label";
+import { Input } from "ui/input";
+import { Button } from "ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { VariableSelect } from "../variable-select";
+import { CodeEditor } from "../code-editor";
+import { OutputSchemaEditor } from "../output-schema-editor";
+import { useWorkflowStore } from "@/app/store/workflow.store";
+import { findJsonSchemaByPath } from "lib/ai/workflow/shared.workflow";
+import { defaultCode } from "lib/ai/workflow/create-ui-node";
+import { cleanVariableName, generateUniqueKey } from "lib/utils";
+
+const CODE_LANGUAGES: CodeNodeData["language"][] = ["javascript", "python"];
+
+export const CodeNodeDataConfig = memo(function ({
+  data,
+}: {
+  data: CodeNodeData;
+}) {
+  const t = useTranslations();
+  const { getNodes, updateNodeData } = useReactFlow<UINode>();
+  const [outputSchemaOpen, setOutputSchemaOpen] = useState(false);
+  const editable = useWorkflowStore((state) => {
+    return state.processIds.length === 0 && state.hasEditAccess;
+  });
+
+  const inputVariables = useMemo(() => {
+    const nodes = getNodes();
+    return data.inputs.map(({ key, source }) => {
+      const targetNode = nodes.find((node) => node.data.id === source?.nodeId);
+      const schema = targetNode
+        ? findJsonSchemaByPath(targetNode.data.outputSchema, source?.path ?? [])
+        : undefined;
+      return {
+        key,
+        schema,
+        path: source?.path ?? [],
+        nodeName: targetNode?.data.name,
+        isNotFound: (source && !targetNode) || (targetNode && !schema),
+      };
+    });
+  }, [data.inputs]);
+
+  const updateInput = useCallback(
+    (
+      index: number,
+      item: { key?: string; source?: { nodeId: string; path: string[] } },
+    ) => {
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as CodeNodeData;
+        return {
+          inputs: prev.inputs.map((v, i) =>
+            i === index ? { ...v, ...item } : v,
+          ),
+        };
+      });
+    },
+    [data.id],
+  );
+
+  const deleteInput = useCallback(
+    (index: number) => {
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as CodeNodeData;
+        return {
+          inputs: prev.inputs.filter((_, i) => i !== index),
+        };
+      });
+    },
+    [data.id],
+  );
+
+  const addInput = useCallback(() => {
+    updateNodeData(data.id, (node) => {
+      const prev = node.data as CodeNodeData;
+      const newKey = generateUniqueKey(
+        "input",
+        prev.inputs.map((v) => v.key),
+      );
+      return {
+        inputs: [...prev.inputs, { key: newKey, source: undefined }],
+      };
+    });
+  }, [data.id]);
+
+  const changeLanguage = useCallback(
+    (language: CodeNodeData["language"]) => {
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as CodeNodeData;
+        // Swap the starter code only when it has not been edited yet
+        const isDefaultCode =
+          !prev.code || prev.code === defaultCode[prev.language];
+        return {
+          language,
+          code: isDefaultCode ? defaultCode[language] : prev.code,
+        };
+      });
+    },
+    [data.id],
+  );
+
+  return (
+    <div className="flex flex-col gap-2 text-sm px-4">
+      <Label className="text-sm">{t("Workflow.codeLanguage")}</Label>
+      <Select
+        value={data.language}
+        onValueChange={(value) =>
+          changeLanguage(value as CodeNodeData["language"])
+        }
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CODE_LANGUAGES.map((language) => (
+            <SelectItem key={language} value={language}>
+              {language === "javascript" ? "JavaScript" : "Python"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Tabs defaultValue="code" className="mt-2">
+        <TabsList className="w-full">
+          <TabsTrigger value="code">{t("Workflow.code")}</TabsTrigger>
+          <TabsTrigger value="inputs">
+            {t("Workflow.codeInputs")}
+            {data.inputs.length > 0 && (
+              <span className="text-muted-foreground text-xs">
+                {data.inputs.length}
+              </span>
+            )}
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="code">
+          <CodeEditor
+            value={data.code ?? ""}
+            lang={data.language}
+            editable={editable}
+            onChange={(code) => updateNodeData(data.id, { code })}
+            className="h-80"
+          />
+        </TabsContent>
+        <TabsContent value="inputs" className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">
+              {t("Workflow.codeInputsDescription")}
+            </p>
+          </div>
+          {inputVariables.map((item, index) => {
+            return (
+              <div className="flex items-center gap-1" key={index}>
+                <Input
+                  value={item.key}
+                  onChange={(e) => {
+                    updateInput(index, {
+                      // Inputs become code variables, so keep them valid identifiers
+                      key: cleanVariableName(e.target.value).replace(/-/g, ""),
+                    });
+                  }}
+                  className="w-24"
+                  placeholder="name"
+                />
+                <VariableSelect
+                  currentNodeId={data.id}
+                  onChange={(item) => {
+                    updateInput(index, {
+                      source: {
+                        nodeId: item.nodeId,
+                        path: item.path,
+                      },
+                    });
+                  }}
+                >
+                  <div className="flex-1 min-w-0 w-full flex text-[10px] items-center gap-1 p-2.5 border border-input bg-background rounded-lg cursor-pointer">
+                    {item.isNotFound ? (
+                      <TriangleAlertIcon className="size-3 text-destructive" />
+                    ) : (
+                      <VariableIcon className="size-3 text-blue-500" />
+                    )}
+
+                    <span>{item.nodeName}/</span>
+                    <span className="truncate min-w-0 text-blue-500 flex-1">
+                      {item.path.join(".")}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {item.schema?.type}
+                    </span>
+
+                    <ChevronDownIcon className="size-3 ml-auto" />
+                  </div>
+                </VariableSelect>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteInput(index)}
+                >
+                  <TrashIcon />
+                </Button>
+              </div>
+            );
+          })}
+          <Button
+            variant="ghost"
+            onClick={addInput}
+            className="w-full border-dashed border text-muted-foreground"
+          >
+            <PlusIcon /> {t("Workflow.addCodeInput")}
+          </Button>
+        </TabsContent>
+      </Tabs>
+
+      <div className="flex items-center justify-between mt-2">
+        <Label className="text-sm">{t("Workflow.outputSchema")}</Label>
+        <div className="flex items-center gap-1">
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+                <InfoIcon className="size-3" />
+              </div>
+            </TooltipTrigger>
+            <TooltipContent className="p-4 whitespace-pre-wrap">
+              {t("Workflow.codeOutputSchemaDescription")}
+            </TooltipContent>
+          </Tooltip>
+          <OutputSchemaEditor
+            schema={data.outputSchema}
+            open={outputSchemaOpen}
+            onOpenChange={setOutputSchemaOpen}
+            onChange={(outputSchema) => {
+              updateNodeData(data.id, { outputSchema });
+            }}
+          >
+            <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+              <PencilIcon className="size-3" />
+            </div>
+          </OutputSchemaEditor>
+        </div>
+      </div>
+      <div className="flex items-center flex-wrap gap-1">
+        {Object.keys(data.outputSchema.properties).map((key) => (
+          <div
+            key={key}
+            className="flex items-center text-xs px-1.5 py-0.5 bg-secondary rounded-md"
+          >
+            <VariableIcon className="size-3.5 text-blue-500" />
+            <span className="font-semibold">{key}</span>
+            <span className="text-muted-foreground ml-2">
+              {data.outputSchema.properties[key].type}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
+CodeNodeDataConfig.displayName = "CodeNodeDataConfig";
+
+export const CodeNodeDataStack = memo(function ({
+  data,
+}: {
+  data: CodeNodeData;
+}) {
+  return (
+    <div className="flex flex-col gap-1 px-4 mt-4">
+      <div className="border bg-input text-[10px] rounded px-2 py-1 flex items-center gap-1">
+        <span className="font-semibold">
+          {data.language === "python" ? "Python" : "JavaScript"}
+        </span>
+      </div>
+      {data.inputs.map((input, index) => (
+        <div
+          key={index}
+          className="border bg-input text-[10px] rounded px-2 py-1 flex items-center gap-1"
+        >
+          <VariableIcon className="size-3 text-blue-500" />
+          <span className="truncate">{input.key}</span>
+        </div>
+      ))}
+    </div>
+  );
+});
+CodeNodeDataStack.displayName = "CodeNodeDataStack";
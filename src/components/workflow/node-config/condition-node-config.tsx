@@ -7,7 +7,7 @@ import {
   OutputSchemaSourceKey,
   UINode,
 } from "lib/ai/workflow/workflow.interface";
-import { PlusIcon, TrashIcon } from "lucide-react";
+import { PlusIcon, TrashIcon, VariableIcon } from "lucide-react";
 import { Button } from "ui/button";
 import { Separator } from "ui/separator";
 import { VariableSelect } from "../variable-select";
@@ -21,12 +21,14 @@ import {
 
 import { VariableMentionItem } from "../variable-mention-item";
 import {
-  BooleanConditionOperator,
   ConditionBranch,
   ConditionOperator,
   ConditionRule,
+  DateConditionOperator,
+  getConditionOperators,
+  getConditionSourceType,
   getFirstConditionOperator,
-  NumberConditionOperator,
+  isValueConditionOperator,
   StringConditionOperator,
 } from "lib/ai/workflow/condition";
 import { useCallback, useMemo, useState } from "react";
@@ -215,7 +217,7 @@ function ConditionBranchItem({
           {
             source,
             operator: getFirstConditionOperator(
-              sourceSchema?.type as "string" | "number" | "boolean",
+              getConditionSourceType(sourceSchema),
             ),
             value: "",
           },
@@ -314,7 +316,7 @@ function ConditionBranchItem({
           onChange={(source) => {
             addCondition(source);
           }}
-          allowedTypes={["number", "boolean", "string"]}
+          allowedTypes={["number", "boolean", "string", "array", "object"]}
         >
           <Badge
             variant={"secondary"}
@@ -352,38 +354,67 @@ function ConditionRuleItem({
   item,
   onChange,
 }: ConditionRuleProps) {
-  const target = useMemo(() => {
-    const node = nodes.find((node) => node.data.id === item.source.nodeId);
-    if (!node) {
+  const t = useTranslations();
+  const findSource = useCallback(
+    (source: ConditionRule["source"]) => {
+      const node = nodes.find((node) => node.data.id === source.nodeId);
+      if (!node) {
+        return {
+          nodeName: "Not Found",
+          path: source.path,
+          notFound: true,
+        };
+      }
       return {
-        nodeName: "Not Found",
-        path: item.source.path,
-        notFound: true,
+        nodeName: node.data.name,
+        path: source.path,
+        schema: findJsonSchemaByPath(node.data.outputSchema, source.path),
       };
-    }
-    return {
-      nodeName: node.data.name,
-      path: item.source.path,
-    };
-  }, [item, nodes]);
-
-  const itemType = useMemo(() => {
-    const node = nodes.find((node) => node.data.id === item.source.nodeId);
-    if (!node) {
-      return "string";
-    }
-    return findJsonSchemaByPath(node.data.outputSchema, item.source.path)?.type;
-  }, [item, nodes]);
+    },
+    [nodes],
+  );
+
+  const target = useMemo(
+    () => findSource(item.source),
+    [item.source, findSource],
+  );
+
+  const valueTarget = useMemo(
+    () => (item.valueSource ? findSource(item.valueSource) : undefined),
+    [item.valueSource, findSource],
+  );
+
+  const itemType = target.schema?.type ?? "string";
 
+  // A JSONPath can pick any kind of value, so every operator is offered
   const operatorItems = useMemo(() => {
-    let operatorItems: Record<string, string> = StringConditionOperator;
-    if (itemType == "number") operatorItems = NumberConditionOperator;
-    if (itemType == "boolean") operatorItems = BooleanConditionOperator;
-    return Object.entries(operatorItems).map(([key, value]) => ({
-      label: key,
-      value,
-    }));
-  }, [itemType]);
+    const sourceType = item.jsonPath
+      ? "object"
+      : getConditionSourceType(target.schema);
+    return Object.entries(getConditionOperators(sourceType)).map(
+      ([key, value]) => ({
+        label: key,
+        value,
+      }),
+    );
+  }, [target.schema, item.jsonPath]);
+
+  const valuePlaceholder = useMemo(() => {
+    switch (item.operator) {
+      case StringConditionOperator.MatchesRegex:
+        return t("Workflow.conditionRegexPlaceholder");
+      case StringConditionOperator.InList:
+      case StringConditionOperator.NotInList:
+        return t("Workflow.conditionListPlaceholder");
+      case DateConditionOperator.Within:
+        return t("Workflow.conditionDurationPlaceholder");
+      case DateConditionOperator.Before:
+      case DateConditionOperator.After:
+        return t("Workflow.conditionDatePlaceholder");
+      default:
+        return "";
+    }
+  }, [item.operator]);
 
   return (
     <div className="flex flex-col bg-secondary rounded-lg p-1">
@@ -394,6 +425,7 @@ function ConditionRuleItem({
             onChange({
               ...item,
               source,
+              jsonPath: undefined,
             });
           }}
         >
@@ -402,6 +434,7 @@ function ConditionRuleItem({
               className="py-2 max-w-38 w-38"
               nodeName={target.nodeName}
               path={target.path}
+              notFound={target.notFound}
               type={itemType as string}
             />
           </div>
@@ -410,7 +443,7 @@ function ConditionRuleItem({
           <Separator orientation="vertical" />
         </div>
         <Select
-          defaultValue={item.operator}
+          value={item.operator}
           onValueChange={(value) =>
             onChange({
               ...item,
@@ -424,7 +457,7 @@ function ConditionRuleItem({
           </SelectTrigger>
           <SelectContent>
             {operatorItems.map((item) => (
-              <SelectItem key={item.value} value={item.value}>
+              <SelectItem key={item.label} value={item.value}>
                 {item.label}
               </SelectItem>
             ))}
@@ -432,18 +465,68 @@ function ConditionRuleItem({
         </Select>
       </div>
 
-      {itemType == "string" || itemType == "number" ? (
+      {itemType == "object" || itemType == "array" ? (
         <>
           <Separator className="my-1" />
           <Input
-            value={String(item.value || "")}
-            autoFocus
-            className="text-xs py-1 px-2 focus:outline-none bg-transparent border-none"
-            type="text"
-            onChange={(e) => onChange({ ...item, value: e.target.value })}
+            value={item.jsonPath ?? ""}
+            className="text-xs py-1 px-2 focus:outline-none bg-transparent border-none font-mono"
+            placeholder={t("Workflow.conditionJsonPathPlaceholder")}
+            onChange={(e) =>
+              onChange({ ...item, jsonPath: e.target.value || undefined })
+            }
           />
         </>
       ) : null}
+
+      {isValueConditionOperator(item.operator) ? (
+        <>
+          <Separator className="my-1" />
+          <div className="flex items-center gap-1">
+            {valueTarget ? (
+              <VariableMentionItem
+                className="py-2 flex-1 min-w-0"
+                nodeName={valueTarget.nodeName}
+                path={valueTarget.path}
+                notFound={valueTarget.notFound}
+                type={valueTarget.schema?.type as string}
+                onRemove={() => onChange({ ...item, valueSource: undefined })}
+              />
+            ) : (
+              <Input
+                value={String(item.value ?? "")}
+                autoFocus
+                className="text-xs py-1 px-2 focus:outline-none bg-transparent border-none"
+                type="text"
+                placeholder={valuePlaceholder}
+                onChange={(e) => onChange({ ...item, value: e.target.value })}
+              />
+            )}
+            <VariableSelect
+              currentNodeId={currentNodeId}
+              onChange={(valueSource) =>
+                onChange({
+                  ...item,
+                  value: undefined,
+                  valueSource: {
+                    nodeId: valueSource.nodeId,
+                    path: valueSource.path,
+                  },
+                })
+              }
+            >
+              <Button
+                variant={"ghost"}
+                size={"icon"}
+                className="size-7 shrink-0"
+                title={t("Workflow.compareWithNodeOutput")}
+              >
+                <VariableIcon className="size-3.5 text-blue-500" />
+              </Button>
+            </VariableSelect>
+          </div>
+        </>
+      ) : null}
     </div>
   );
 }
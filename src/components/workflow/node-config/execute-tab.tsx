@@ -7,14 +7,20 @@ import { useReactFlow } from "@xyflow/react";
 import { useObjectState } from "@/hooks/use-object-state";
 import { UINode } from "lib/ai/workflow/workflow.interface";
 import { cn, createDebounce, errorToString } from "lib/utils";
-import { useCallback, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { GraphEndEvent } from "ts-edge";
 import { allNodeValidate } from "lib/ai/workflow/node-validate";
 import { toast } from "sonner";
 import { decodeWorkflowEvents } from "lib/ai/workflow/shared.workflow";
+import {
+  ApprovalDecision,
+  isApprovalRequiredError,
+} from "lib/ai/workflow/approval";
+import { isWorkflowCancelledError } from "lib/ai/workflow/cancellation";
 import { Alert, AlertDescription, AlertTitle } from "ui/alert";
 import {
   AlertTriangleIcon,
+  BanIcon,
   Loader,
   Loader2,
   Copy,
@@ -22,6 +28,9 @@ import {
   WandSparklesIcon,
   XIcon,
   Maximize2,
+  PauseIcon,
+  PinIcon,
+  SquareIcon,
 } from "lucide-react";
 import JsonView from "ui/json-view";
 import { Button } from "ui/button";
@@ -47,16 +56,26 @@ import { SelectModel } from "@/components/select-model";
 
 import { useCopy } from "@/hooks/use-copy";
 import { NodeResultPopup } from "../node-result-popup";
+import { NodeTimingBar } from "../node-timing-bar";
+import { WorkflowUsageSummary } from "../workflow-usage-summary";
+import { WorkflowApprovalForm } from "../workflow-approval-form";
+import { retriedAttempts } from "lib/ai/workflow/node-error-policy";
+import { isMockSupported } from "lib/ai/workflow/node-mock";
 import { useTranslations } from "next-intl";
+import { mutate } from "swr";
+import { safe } from "ts-safe";
+import { handleErrorWithToast } from "ui/shared-toast";
 
 const debounce = createDebounce();
 
 export function ExecuteTab({
   close,
   onSave,
+  replay,
 }: {
   close: () => void;
   onSave: () => Promise<void>;
+  replay?: { runId: string; nodeId: string };
 }) {
   const { addProcess, processIds, workflow } = useWorkflowStore();
 
@@ -79,6 +98,10 @@ export function ExecuteTab({
   const [isRunning, setIsRunning] = useState(false);
   const [histories, setHistories] = useState<NodeRuntimeHistory[]>([]);
   const [result, setResult] = useState<GraphEndEvent | undefined>();
+  const [runId, setRunId] = useState<string>();
+  const [dryRun, setDryRun] = useState(false);
+  // Nodes that used their pinned output in the current run
+  const [mockedNodeIds, setMockedNodeIds] = useState<string[]>([]);
   const { copied, copy } = useCopy();
 
   const isProcessing = useMemo(
@@ -97,6 +120,16 @@ export function ExecuteTab({
     return nodes.find((node) => node.data.kind === NodeKind.Input)!.data;
   }, [nodes]);
 
+  const pinnedNodeIds = useMemo(
+    () =>
+      nodes
+        .filter(
+          (node) => node.data.mockOutput && isMockSupported(node.data.kind),
+        )
+        .map((node) => node.id),
+    [nodes],
+  );
+
   const inputSchema = useMemo(() => {
     return startNodeData.outputSchema;
   }, [startNodeData]);
@@ -200,14 +233,25 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
   }, []);
 
   const run = useCallback(
-    async (query: Record<string, any>) => {
+    async (
+      query: Record<string, any>,
+      replay?: { runId: string; nodeId: string },
+      resume?: { runId: string; decision: ApprovalDecision },
+    ) => {
       const stop = addProcess();
       const abortController = new AbortController();
-      setHistories([]);
+      // A resumed run continues the histories of its paused part
+      setHistories((prev) =>
+        resume ? prev.filter((h) => h.status != "waiting") : [],
+      );
       setIsRunning(true);
+      if (!resume) setMockedNodeIds(dryRun ? pinnedNodeIds : []);
       setNodes((nds) => {
         return nds.map((node) => {
-          if (node.data.runtime?.status) {
+          if (
+            node.data.runtime?.status &&
+            (!resume || node.data.runtime.status == "waiting")
+          ) {
             return {
               ...node,
               data: { ...node.data, runtime: { status: undefined } },
@@ -222,13 +266,14 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ query }),
+          body: JSON.stringify({ query, replay, resume, dryRun }),
           signal: abortController.signal,
         });
 
         if (!response.ok) {
           throw new Error(`HTTP error! status: ${response.status}`);
         }
+        setRunId(response.headers.get("X-Workflow-Run-Id") ?? undefined);
 
         const reader = response.body?.getReader();
         if (!reader) {
@@ -258,6 +303,7 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
                 case "WORKFLOW_END":
                   setResult(event);
                   stop();
+                  mutate(`/api/workflow/${workflow!.id}/runs`);
                   break;
                 case "NODE_START": {
                   fitviewWithDebounce(event.node.name);
@@ -286,8 +332,15 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
                   break;
                 }
                 case "NODE_END": {
+                  const status = event.isOk
+                    ? "success"
+                    : isApprovalRequiredError(event.error)
+                      ? "waiting"
+                      : isWorkflowCancelledError(event.error)
+                        ? "cancelled"
+                        : "fail";
                   updateNodeData(event.node.name, {
-                    runtime: { status: event.isOk ? "success" : "fail" },
+                    runtime: { status },
                   });
                   setHistories((prev) => {
                     const prevHistory = prev.find(
@@ -302,8 +355,11 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
                       return {
                         ...prevHistory,
                         endedAt: Date.now(),
-                        status: event.isOk ? "success" : "fail",
-                        error: event.error,
+                        status,
+                        error: status == "fail" ? event.error : undefined,
+                        attempts: retriedAttempts(source, prevHistory.nodeId),
+                        toolCalls: source?.toolCalls?.[prevHistory.nodeId],
+                        usage: source?.usage?.[prevHistory.nodeId],
                         result: {
                           output: source?.outputs?.[prevHistory.nodeId],
                           input: source?.inputs?.[prevHistory.nodeId],
@@ -330,9 +386,30 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
         setIsRunning(false);
       }
     },
-    [workflow!.id],
+    [workflow!.id, dryRun, pinnedNodeIds],
   );
 
+  const [isCancelling, setIsCancelling] = useState(false);
+  // Stops the run on the server, which aborts the calls of its running nodes
+  const cancelRun = useCallback(() => {
+    if (!runId) return;
+    setIsCancelling(true);
+    safe(() =>
+      fetch(`/api/workflow/${workflow!.id}/runs/${runId}/cancel`, {
+        method: "POST",
+      }).then(async (res) => {
+        if (!res.ok) throw new Error(await res.text());
+      }),
+    )
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsCancelling(false));
+  }, [workflow!.id, runId]);
+
+  useEffect(() => {
+    if (!replay) return;
+    onSave().then(() => run({}, replay));
+  }, [replay]);
+
   const lastOutput = useMemo(() => {
     const outputNodes = histories
       .filter((h) => h.kind == NodeKind.Output)
@@ -344,8 +421,37 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
     return outputNodes;
   }, [histories]);
 
+  // Shared time axis of the timing bars, so parallel branches line up
+  const timeline = useMemo(() => {
+    if (!histories.length) return;
+    return {
+      runStartedAt: Math.min(...histories.map((h) => h.startedAt)),
+      runEndedAt: Math.max(...histories.map((h) => h.endedAt ?? Date.now())),
+    };
+  }, [histories]);
+
   const resultView = useMemo(() => {
     if (isRunning) return;
+    if (result?.isOk === false && isApprovalRequiredError(result.error)) {
+      const waiting = histories.find((h) => h.status == "waiting");
+      return (
+        <WorkflowApprovalForm
+          name={waiting?.name ?? ""}
+          message={waiting?.result?.input?.message}
+          onDecision={(decision) =>
+            runId && run(query, undefined, { runId, decision })
+          }
+        />
+      );
+    }
+    if (result?.isOk === false && isWorkflowCancelledError(result.error)) {
+      return (
+        <Alert>
+          <BanIcon />
+          <AlertTitle>{t("Workflow.runCancelled")}</AlertTitle>
+        </Alert>
+      );
+    }
     if (result?.isOk === false)
       return (
         <Alert variant={"destructive"} className="border-destructive">
@@ -361,7 +467,7 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
         <JsonView data={lastOutput} />
       </div>
     );
-  }, [isRunning, result]);
+  }, [isRunning, result, histories, runId]);
   return (
     <div className="fade-300 w-sm h-[85vh] bg-card border rounded-lg shadow-lg overflow-y-auto py-4">
       <div className="flex flex-col px-4">
@@ -487,6 +593,25 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
               })}
             </>
           )}
+          <div className="flex items-center gap-2">
+            <div className="flex flex-col gap-0.5">
+              <Label htmlFor="dry-run" className="text-sm font-semibold">
+                {t("Workflow.dryRun")}
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                {t("Workflow.dryRunDescription", {
+                  count: pinnedNodeIds.length,
+                })}
+              </p>
+            </div>
+            <Switch
+              id="dry-run"
+              className="ml-auto"
+              disabled={isProcessing}
+              checked={dryRun}
+              onCheckedChange={setDryRun}
+            />
+          </div>
           <Button
             disabled={isProcessing}
             className="font-bold w-full"
@@ -533,6 +658,10 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
                     ) : (
                       <span className="font-semibold">{history.name}</span>
                     )}
+                    {history.nodeId &&
+                      mockedNodeIds.includes(history.nodeId) && (
+                        <PinIcon className="size-3 text-muted-foreground" />
+                      )}
                     <span
                       className={cn(
                         "ml-auto text-xs",
@@ -547,11 +676,23 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
                     </span>
                     {history.status == "success" ? (
                       <Check className="size-3" />
+                    ) : history.status == "waiting" ? (
+                      <PauseIcon className="size-3" />
+                    ) : history.status == "cancelled" ? (
+                      <BanIcon className="size-3" />
                     ) : history.status == "fail" ? (
                       <XIcon className="size-3" />
                     ) : (
                       <Loader2 className="size-3 animate-spin" />
                     )}
+                    {timeline && (
+                      <NodeTimingBar
+                        {...timeline}
+                        startedAt={history.startedAt}
+                        endedAt={history.endedAt}
+                        status={history.status}
+                      />
+                    )}
                   </div>
                 </NodeResultPopup>
               );
@@ -561,6 +702,26 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
           <div className="px-4 py-4">
             <div className="flex items-center mb-4">
               <p className="font-semibold text-sm">Result</p>
+              {isRunning && runId && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="ml-3 h-7 text-xs"
+                  disabled={isCancelling}
+                  onClick={cancelRun}
+                >
+                  {isCancelling ? (
+                    <Loader className="size-3 animate-spin" />
+                  ) : (
+                    <SquareIcon className="size-3 fill-current" />
+                  )}
+                  {t("Workflow.stopRun")}
+                </Button>
+              )}
+              <WorkflowUsageSummary
+                className="ml-3"
+                usages={histories.map((h) => h.usage)}
+              />
               <div className="flex-1" />
               {result && (
                 <NodeResultPopup
@@ -11,7 +11,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Link, Plus, TriangleAlertIcon, VariableIcon } from "lucide-react";
+import {
+  KeyRoundIcon,
+  Link,
+  Plus,
+  TriangleAlertIcon,
+  VariableIcon,
+} from "lucide-react";
 import {
   HttpNodeData,
   HttpMethod,
@@ -26,6 +32,9 @@ import { Textarea } from "ui/textarea";
 import { VariableSelect } from "../variable-select";
 import { VariableMentionItem } from "../variable-mention-item";
 import { findAvailableSchemaBySource } from "lib/ai/workflow/shared.workflow";
+import { DBHttpAuthProfile } from "app-types/secret";
+import { fetcher } from "lib/utils";
+import useSWR from "swr";
 
 const HTTP_METHODS: HttpMethod[] = [
   "GET",
@@ -36,7 +45,12 @@ const HTTP_METHODS: HttpMethod[] = [
   "HEAD",
 ];
 
-const tabs = ["basic", "headers", "query", "body"] as const;
+const tabs = ["basic", "auth", "headers", "query", "body"] as const;
+
+const NO_AUTH = "__none__";
+
+// Header names whose plain text values are likely credentials
+const SENSITIVE_HEADER = /authorization|api[-_]?key|token|secret|password/i;
 
 const headerExample = [
   {
@@ -73,6 +87,18 @@ export function HttpNodeConfig({ node }: { node: UINode<any> }) {
 
   const { updateNodeData, getNodes, getEdges } = useReactFlow<UINode>();
 
+  const { data: authProfiles = [] } = useSWR<DBHttpAuthProfile[]>(
+    activeTab === "auth" ? "/api/user/auth-profiles" : null,
+    fetcher,
+  );
+
+  const hasPlainTextCredential = (httpNode.headers || []).some(
+    (header) =>
+      SENSITIVE_HEADER.test(header.key) &&
+      typeof header.value === "string" &&
+      header.value.length > 0,
+  );
+
   const handleUpdateNode = (updates: Partial<HttpNodeData>) => {
     updateNodeData(node.id, updates);
   };
@@ -216,9 +242,65 @@ export function HttpNodeConfig({ node }: { node: UINode<any> }) {
           </CardContent>
         )}
 
+        {/* Auth Profile */}
+        {activeTab === "auth" && (
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Auth Profile</Label>
+              <Select
+                value={httpNode.auth ?? NO_AUTH}
+                onValueChange={(value) =>
+                  handleUpdateNode({
+                    auth: value === NO_AUTH ? undefined : value,
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="No authentication" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_AUTH}>No authentication</SelectItem>
+                  {authProfiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.name}>
+                      {profile.name}
+                      <span className="text-xs text-muted-foreground">
+                        {profile.config.type}
+                      </span>
+                    </SelectItem>
+                  ))}
+                  {httpNode.auth &&
+                    !authProfiles.some(
+                      (profile) => profile.name === httpNode.auth,
+                    ) && (
+                      <SelectItem value={httpNode.auth}>
+                        {httpNode.auth}
+                      </SelectItem>
+                    )}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Requests use the auth profile with this name of the user running
+                the workflow, and only for the hosts that profile allows. Its
+                secrets are never stored in the workflow and are redacted from
+                run history. Manage profiles and secrets in Chat Preferences.
+              </p>
+            </div>
+          </CardContent>
+        )}
+
         {/* Headers Configuration */}
         {activeTab === "headers" && (
           <CardContent className="space-y-4">
+            {hasPlainTextCredential && (
+              <div className="flex items-start gap-2 text-xs text-orange-500">
+                <KeyRoundIcon className="size-3.5 mt-0.5 shrink-0" />
+                <p>
+                  Header values are saved in plain text and visible to anyone
+                  the workflow is shared with. Use an auth profile for
+                  credentials instead.
+                </p>
+              </div>
+            )}
             {(httpNode.headers || []).map((header, index) => (
               <div key={index} className="flex gap-2 items-end">
                 <div>
@@ -3,6 +3,7 @@ import { LLMNodeData, UINode } from "lib/ai/workflow/workflow.interface";
 import { SelectModel } from "../../select-model";
 import { Button } from "ui/button";
 import {
+  HammerIcon,
   InfoIcon,
   MessageCirclePlusIcon,
   TrashIcon,
@@ -22,9 +23,19 @@ import { Separator } from "ui/separator";
 import { Switch } from "ui/switch";
 import { OutputSchemaEditor } from "../output-schema-editor";
 import { defaultLLMNodeOutputSchema } from "lib/ai/workflow/create-ui-node";
+import {
+  hasErrorBranch,
+  withErrorOutputSchema,
+} from "lib/ai/workflow/node-error-policy";
 import { ObjectJsonSchema7 } from "app-types/util";
 import { toAny } from "lib/utils";
 import { notify } from "lib/notify";
+import { Input } from "ui/input";
+import { AgentToolSelector } from "@/components/agent/agent-tool-selector";
+import {
+  DEFAULT_LLM_NODE_MAX_STEPS,
+  MAX_LLM_NODE_STEPS,
+} from "lib/ai/workflow/llm-node-tools";
 
 export const LLMNodeDataConfig = memo(function ({
   data,
@@ -35,11 +46,7 @@ export const LLMNodeDataConfig = memo(function ({
   const [structuredOutputOpen, setStructuredOutputOpen] = useState(false);
   const t = useTranslations();
   const editable = useWorkflowStore((state) => {
-    return (
-      state.processIds.length === 0 &&
-      state.hasEditAccess &&
-      !state.workflow?.isPublished
-    );
+    return state.processIds.length === 0 && state.hasEditAccess;
   });
 
   const nodes = useNodes() as UINode[];
@@ -133,8 +140,9 @@ export const LLMNodeDataConfig = memo(function ({
                     });
                     if (!ok)
                       return updateNodeData(data.id, {
-                        outputSchema: structuredClone(
-                          defaultLLMNodeOutputSchema,
+                        outputSchema: withErrorOutputSchema(
+                          structuredClone(defaultLLMNodeOutputSchema),
+                          hasErrorBranch(data),
                         ),
                       });
                   }
@@ -264,6 +272,50 @@ export const LLMNodeDataConfig = memo(function ({
         </Button>
       </div>
 
+      <Separator className="my-4" />
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">{t("Workflow.llmTools")}</Label>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+              <InfoIcon className="size-3" />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent className="p-4 whitespace-pre-wrap">
+            {t("Workflow.llmToolsDescription")}
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      <AgentToolSelector
+        mentions={data.tools ?? []}
+        disabled={!editable}
+        onChange={(tools) => updateNodeData(data.id, { tools })}
+      />
+      {!!data.tools?.length && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor="maxSteps" className="text-xs font-normal">
+            {t("Workflow.llmMaxSteps")}
+          </Label>
+          <Input
+            id="maxSteps"
+            type="number"
+            className="w-20 ml-auto"
+            min={1}
+            max={MAX_LLM_NODE_STEPS}
+            disabled={!editable}
+            value={data.maxSteps ?? DEFAULT_LLM_NODE_MAX_STEPS}
+            onChange={(e) =>
+              updateNodeData(data.id, {
+                maxSteps: Math.min(
+                  MAX_LLM_NODE_STEPS,
+                  Math.max(1, parseInt(e.target.value) || 1),
+                ),
+              })
+            }
+          />
+        </div>
+      )}
+
       <OutputSchemaEditor
         schema={data.outputSchema?.properties?.answer as ObjectJsonSchema7}
         open={structuredOutputOpen}
@@ -302,6 +354,14 @@ export const LLMNodeDataStack = memo(function ({
           {isTextResponse ? "text" : "object"}
         </span>
       </div>
+      {!!data.tools?.length && (
+        <div className="border bg-input text-[10px] rounded px-2 py-1 flex items-center gap-1">
+          <HammerIcon className="size-3" />
+          <span className="truncate">
+            {data.tools.map((tool) => tool.name).join(", ")}
+          </span>
+        </div>
+      )}
     </div>
   );
 });
@@ -0,0 +1,312 @@
+"use client";
+
+import { Handle, Position, useEdges, useReactFlow } from "@xyflow/react";
+import {
+  LoopNodeData,
+  NodeKind,
+  OutputSchemaSourceKey,
+  UINode,
+} from "lib/ai/workflow/workflow.interface";
+import { memo, useCallback, useMemo, useState } from "react";
+import { InfoIcon, PlusIcon, VariableIcon } from "lucide-react";
+import { Label } from "ui/label";
+import { Input } from "ui/input";
+import { Button } from "ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { useTranslations } from "next-intl";
+import { JSONSchema7 } from "json-schema";
+import { VariableSelect } from "../variable-select";
+import { VariableMentionItem } from "../variable-mention-item";
+import { NodeSelect } from "../node-select";
+import { createAppendNode } from "../create-append-node";
+import { useUpdate } from "@/hooks/use-update";
+import {
+  findAvailableSchemaBySource,
+  findJsonSchemaByPath,
+} from "lib/ai/workflow/shared.workflow";
+import {
+  findLoopBodyNodeIds,
+  LOOP_BODY_HANDLE,
+} from "lib/ai/workflow/loop-body";
+import { cn } from "lib/utils";
+
+export const LoopNodeDataConfig = memo(function ({
+  data,
+}: {
+  data: LoopNodeData;
+}) {
+  const t = useTranslations();
+  const { updateNodeData, getNodes } = useReactFlow<UINode>();
+  const edges = useEdges();
+
+  const bodyNodeIds = useMemo(
+    () => findLoopBodyNodeIds(data.id, edges),
+    [data.id, edges],
+  );
+
+  const findSchema = useCallback(
+    (source: OutputSchemaSourceKey) => {
+      const sourceNode = getNodes().find((n) => n.data.id === source.nodeId);
+      if (!sourceNode) return undefined;
+      return findJsonSchemaByPath(sourceNode.data.outputSchema, source.path);
+    },
+    [getNodes],
+  );
+
+  const updateItems = useCallback(
+    (items?: OutputSchemaSourceKey) => {
+      const itemSchema = items ? findSchema(items)?.items : undefined;
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as LoopNodeData;
+        return {
+          items,
+          outputSchema: {
+            ...prev.outputSchema,
+            properties: {
+              ...prev.outputSchema.properties,
+              item: (itemSchema as JSONSchema7) ?? { type: "object" },
+            },
+          },
+        };
+      });
+    },
+    [data.id, findSchema],
+  );
+
+  const updateResult = useCallback(
+    (result?: OutputSchemaSourceKey) => {
+      const resultSchema = result ? findSchema(result) : undefined;
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as LoopNodeData;
+        return {
+          result,
+          outputSchema: {
+            ...prev.outputSchema,
+            properties: {
+              ...prev.outputSchema.properties,
+              results: {
+                type: "array",
+                items: resultSchema ?? { type: "string" },
+              },
+            },
+          },
+        };
+      });
+    },
+    [data.id, findSchema],
+  );
+
+  const resultLabel = useMemo(() => {
+    if (!data.result) return undefined;
+    const nodes = getNodes();
+    const sourceNode = nodes.find((n) => n.data.id === data.result?.nodeId);
+    return {
+      nodeName: sourceNode?.data.name ?? "ERROR",
+      path: data.result.path,
+      notFound:
+        !bodyNodeIds.includes(data.result.nodeId) || !findSchema(data.result),
+    };
+  }, [data.result, bodyNodeIds]);
+
+  return (
+    <div className="flex flex-col gap-4 text-sm px-4">
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm">{t("Workflow.loopItems")}</Label>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+                <InfoIcon className="size-3" />
+              </div>
+            </TooltipTrigger>
+            <TooltipContent
+              side="left"
+              align="center"
+              className="p-4 whitespace-pre-wrap"
+            >
+              {t("Workflow.loopItemsDescription")}
+            </TooltipContent>
+          </Tooltip>
+        </div>
+        {data.items ? (
+          <VariableMentionItem
+            className="py-[7px] text-sm truncate"
+            {...findAvailableSchemaBySource({
+              nodeId: data.id,
+              source: data.items,
+              nodes: getNodes().map((node) => node.data),
+              edges,
+            })}
+            onRemove={() => updateItems(undefined)}
+          />
+        ) : (
+          <VariableSelect
+            currentNodeId={data.id}
+            allowedTypes={["array"]}
+            onChange={(item) =>
+              updateItems({ nodeId: item.nodeId, path: item.path })
+            }
+          >
+            <Button
+              variant="ghost"
+              className="w-full border-dashed border text-muted-foreground"
+            >
+              <VariableIcon /> {t("Workflow.selectVariable")}
+            </Button>
+          </VariableSelect>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm">{t("Workflow.loopResult")}</Label>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+                <InfoIcon className="size-3" />
+              </div>
+            </TooltipTrigger>
+            <TooltipContent
+              side="left"
+              align="center"
+              className="p-4 whitespace-pre-wrap"
+            >
+              {t("Workflow.loopResultDescription")}
+            </TooltipContent>
+          </Tooltip>
+        </div>
+        {resultLabel ? (
+          <VariableMentionItem
+            className="py-[7px] text-sm truncate"
+            {...resultLabel}
+            onRemove={() => updateResult(undefined)}
+          />
+        ) : (
+          <VariableSelect
+            currentNodeId={data.id}
+            nodeIds={bodyNodeIds}
+            onChange={(item) =>
+              updateResult({ nodeId: item.nodeId, path: item.path })
+            }
+          >
+            <Button
+              variant="ghost"
+              className="w-full border-dashed border text-muted-foreground"
+            >
+              <VariableIcon /> {t("Workflow.selectVariable")}
+            </Button>
+          </VariableSelect>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="concurrency" className="text-sm">
+          {t("Workflow.loopConcurrency")}
+        </Label>
+        <Input
+          id="concurrency"
+          type="number"
+          min={1}
+          max={10}
+          value={data.concurrency ?? 1}
+          onChange={(e) =>
+            updateNodeData(data.id, {
+              concurrency: Math.min(
+                10,
+                Math.max(1, parseInt(e.target.value) || 1),
+              ),
+            })
+          }
+        />
+        <p className="text-xs text-muted-foreground">
+          {t("Workflow.loopConcurrencyDescription")}
+        </p>
+      </div>
+    </div>
+  );
+});
+LoopNodeDataConfig.displayName = "LoopNodeDataConfig";
+
+export const LoopNodeDataStack = memo(function ({
+  data,
+}: {
+  data: LoopNodeData;
+}) {
+  const t = useTranslations();
+  const [openNodeSelect, setOpenNodeSelect] = useState(false);
+  const update = useUpdate();
+  const { addNodes, addEdges, updateNode, getNodes, getEdges } = useReactFlow();
+
+  const appendBodyNode = (kind: NodeKind) => {
+    setOpenNodeSelect(false);
+    const allNodes = getNodes() as UINode[];
+    const { node: newNode, edge: newEdge } = createAppendNode({
+      sourceNode: allNodes.find((node) => node.data.id === data.id)!,
+      kind,
+      allNodes,
+      edge: {
+        sourceHandle: LOOP_BODY_HANDLE,
+      },
+      allEdges: getEdges(),
+    });
+
+    addNodes([newNode]);
+    if (newEdge) {
+      addEdges([newEdge]);
+    }
+    update(() => {
+      updateNode(data.id, {
+        selected: false,
+      });
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 mt-4">
+      {data.items && (
+        <div className="px-4">
+          <VariableMentionItem
+            nodeName={
+              (getNodes() as UINode[]).find((n) => n.id === data.items?.nodeId)
+                ?.data.name ?? "ERROR"
+            }
+            path={data.items.path}
+            className="text-[10px] ring-0 w-full"
+          />
+        </div>
+      )}
+      <div className="relative">
+        <Handle
+          type="source"
+          position={Position.Right}
+          className={cn(
+            "z-10 border-none! bg-blue-500! h-5! w-5! rounded-full! -right-0! flex items-center justify-center",
+          )}
+          id={LOOP_BODY_HANDLE}
+          isConnectable={true}
+          onMouseUp={() => setOpenNodeSelect(true)}
+        >
+          <div className="pointer-events-none">
+            <PlusIcon className={cn("size-4 text-white stroke-4")} />
+          </div>
+        </Handle>
+        <NodeSelect
+          onChange={appendBodyNode}
+          open={openNodeSelect}
+          onOpenChange={setOpenNodeSelect}
+        >
+          <PlusIcon className={"sr-only"} />
+        </NodeSelect>
+        <div className="px-4">
+          <div className="px-2 w-full text-xs py-1 font-bold bg-input border rounded-xs flex">
+            <span className="text-blue-500">{t("Workflow.loopBody")}</span>
+            <span className="text-muted-foreground ml-auto">
+              x{data.concurrency ?? 1}
+            </span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+});
+LoopNodeDataStack.displayName = "LoopNodeDataStack";
@@ -0,0 +1,255 @@
+"use client";
+
+import { useEdges, useReactFlow } from "@xyflow/react";
+import { MergeNodeData, UINode } from "lib/ai/workflow/workflow.interface";
+import { memo, useCallback, useMemo } from "react";
+import {
+  ChevronDownIcon,
+  MergeIcon,
+  PlusIcon,
+  TrashIcon,
+  TriangleAlertIcon,
+  VariableIcon,
+} from "lucide-react";
+import { useTranslations } from "next-intl";
+import { JSONSchema7 } from "json-schema";
+import { Label } from "ui/label";
+import { Input } from "ui/input";
+import { Button } from "ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { VariableSelect } from "../variable-select";
+import { cleanVariableName, generateUniqueKey } from "lib/utils";
+import { findJsonSchemaByPath } from "lib/ai/workflow/shared.workflow";
+import { useWorkflowStore } from "@/app/store/workflow.store";
+
+export const MergeNodeDataConfig = memo(function ({
+  data,
+}: {
+  data: MergeNodeData;
+}) {
+  const t = useTranslations();
+  const { getNodes, updateNodeData } = useReactFlow<UINode>();
+  const edges = useEdges();
+  const editable = useWorkflowStore((state) => {
+    return state.processIds.length === 0 && state.hasEditAccess;
+  });
+
+  const branchCount = useMemo(
+    () => edges.filter((edge) => edge.target === data.id).length,
+    [edges, data.id],
+  );
+
+  const inputVariables = useMemo(() => {
+    const nodes = getNodes();
+    return data.inputs.map(({ key, source }) => {
+      const targetNode = nodes.find((node) => node.data.id === source?.nodeId);
+      const schema = targetNode
+        ? findJsonSchemaByPath(targetNode.data.outputSchema, source?.path ?? [])
+        : undefined;
+      return {
+        key,
+        schema,
+        path: source?.path ?? [],
+        nodeName: targetNode?.data.name,
+        isNotFound: (source && !targetNode) || (targetNode && !schema),
+      };
+    });
+  }, [data.inputs]);
+
+  // Every input becomes an output field with the type of its source
+  const updateInputs = useCallback(
+    (update: (inputs: MergeNodeData["inputs"]) => MergeNodeData["inputs"]) => {
+      const nodes = getNodes();
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as MergeNodeData;
+        const inputs = update(prev.inputs);
+        const properties = inputs.reduce(
+          (acc, { key, source }) => {
+            const sourceNode = nodes.find((n) => n.data.id === source?.nodeId);
+            const schema = sourceNode
+              ? findJsonSchemaByPath(
+                  sourceNode.data.outputSchema,
+                  source?.path ?? [],
+                )
+              : undefined;
+            acc[key] = (schema as JSONSchema7) ?? { type: "object" };
+            return acc;
+          },
+          {} as Record<string, JSONSchema7>,
+        );
+        return {
+          inputs,
+          outputSchema: { ...prev.outputSchema, properties },
+        };
+      });
+    },
+    [data.id],
+  );
+
+  return (
+    <div className="flex flex-col gap-4 text-sm px-4">
+      <div className="flex flex-col gap-2">
+        <Label className="text-sm">{t("Workflow.mergeMode")}</Label>
+        <Select
+          value={data.mode}
+          disabled={!editable}
+          onValueChange={(mode) =>
+            updateNodeData(data.id, {
+              mode: mode as MergeNodeData["mode"],
+              count: mode === "first" ? (data.count ?? 1) : undefined,
+            })
+          }
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t("Workflow.mergeModeAll")}</SelectItem>
+            <SelectItem value="first">
+              {t("Workflow.mergeModeFirst")}
+            </SelectItem>
+          </SelectContent>
+        </Select>
+        {data.mode === "first" && (
+          <div className="flex items-center gap-2">
+            <Input
+              id="count"
+              type="number"
+              className="w-20"
+              min={1}
+              max={Math.max(1, branchCount)}
+              disabled={!editable}
+              value={data.count ?? 1}
+              onChange={(e) =>
+                updateNodeData(data.id, {
+                  count: Math.max(1, parseInt(e.target.value) || 1),
+                })
+              }
+            />
+            <span className="text-xs text-muted-foreground">
+              {t("Workflow.mergeCountDescription", { total: branchCount })}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label className="text-sm">{t("Workflow.mergeInputs")}</Label>
+        <p className="text-xs text-muted-foreground">
+          {t("Workflow.mergeInputsDescription")}
+        </p>
+        {inputVariables.map((item, index) => {
+          return (
+            <div className="flex items-center gap-1" key={index}>
+              <Input
+                value={item.key}
+                disabled={!editable}
+                onChange={(e) => {
+                  const key = cleanVariableName(e.target.value);
+                  updateInputs((inputs) =>
+                    inputs.map((v, i) => (i === index ? { ...v, key } : v)),
+                  );
+                }}
+                className="w-24"
+                placeholder="name"
+              />
+              <VariableSelect
+                currentNodeId={data.id}
+                onChange={(item) => {
+                  const source = { nodeId: item.nodeId, path: item.path };
+                  updateInputs((inputs) =>
+                    inputs.map((v, i) => (i === index ? { ...v, source } : v)),
+                  );
+                }}
+              >
+                <div className="flex-1 min-w-0 w-full flex text-[10px] items-center gap-1 p-2.5 border border-input bg-background rounded-lg cursor-pointer">
+                  {item.isNotFound ? (
+                    <TriangleAlertIcon className="size-3 text-destructive" />
+                  ) : (
+                    <VariableIcon className="size-3 text-blue-500" />
+                  )}
+
+                  <span>{item.nodeName}/</span>
+                  <span className="truncate min-w-0 text-blue-500 flex-1">
+                    {item.path.join(".")}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {item.schema?.type}
+                  </span>
+
+                  <ChevronDownIcon className="size-3 ml-auto" />
+                </div>
+              </VariableSelect>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={!editable}
+                onClick={() =>
+                  updateInputs((inputs) => inputs.filter((_, i) => i !== index))
+                }
+              >
+                <TrashIcon />
+              </Button>
+            </div>
+          );
+        })}
+        <Button
+          variant="ghost"
+          disabled={!editable}
+          onClick={() =>
+            updateInputs((inputs) => [
+              ...inputs,
+              {
+                key: generateUniqueKey(
+                  "branch",
+                  inputs.map((v) => v.key),
+                ),
+                source: undefined,
+              },
+            ])
+          }
+          className="w-full border-dashed border text-muted-foreground"
+        >
+          <PlusIcon /> {t("Workflow.addMergeInput")}
+        </Button>
+      </div>
+    </div>
+  );
+});
+MergeNodeDataConfig.displayName = "MergeNodeDataConfig";
+
+export const MergeNodeDataStack = memo(function ({
+  data,
+}: {
+  data: MergeNodeData;
+}) {
+  const t = useTranslations();
+  return (
+    <div className="flex flex-col gap-1 px-4 mt-4">
+      <div className="border bg-input text-[10px] rounded px-2 py-1 flex items-center gap-1">
+        <MergeIcon className="size-3" />
+        <span className="font-semibold truncate">
+          {data.mode === "first"
+            ? t("Workflow.mergeWaitFirst", { count: data.count ?? 1 })
+            : t("Workflow.mergeWaitAll")}
+        </span>
+      </div>
+      {data.inputs.map((input, index) => (
+        <div
+          key={index}
+          className="border bg-input text-[10px] rounded px-2 py-1 flex items-center gap-1"
+        >
+          <VariableIcon className="size-3 text-blue-500" />
+          <span className="truncate">{input.key}</span>
+        </div>
+      ))}
+    </div>
+  );
+});
+MergeNodeDataStack.displayName = "MergeNodeDataStack";
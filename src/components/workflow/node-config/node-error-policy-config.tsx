@@ -0,0 +1,228 @@
+"use client";
+
+import { Handle, Position, useReactFlow } from "@xyflow/react";
+import {
+  NodeErrorPolicy,
+  NodeKind,
+  UINode,
+  WorkflowNodeData,
+} from "lib/ai/workflow/workflow.interface";
+import {
+  MAX_NODE_RETRY,
+  NODE_ERROR_HANDLE,
+  withErrorOutputSchema,
+} from "lib/ai/workflow/node-error-policy";
+import { memo, useCallback, useState } from "react";
+import { PlusIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { cn } from "lib/utils";
+import { NodeSelect } from "../node-select";
+import { createAppendNode } from "../create-append-node";
+import { useUpdate } from "@/hooks/use-update";
+import { useWorkflowStore } from "@/app/store/workflow.store";
+
+export const NodeErrorPolicyConfig = memo(function ({
+  data,
+}: {
+  data: WorkflowNodeData;
+}) {
+  const t = useTranslations();
+  const { updateNodeData, setEdges } = useReactFlow<UINode>();
+  const editable = useWorkflowStore((state) => {
+    return state.processIds.length === 0 && state.hasEditAccess;
+  });
+  const policy = data.errorPolicy ?? {};
+
+  const updatePolicy = useCallback(
+    (update: Partial<NodeErrorPolicy>) => {
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as WorkflowNodeData;
+        return { errorPolicy: { ...prev.errorPolicy, ...update } };
+      });
+    },
+    [data.id],
+  );
+
+  const updateOnError = useCallback(
+    (onError: NonNullable<NodeErrorPolicy["onError"]>) => {
+      if (onError != "branch") {
+        // The fallback branch has nothing to run from anymore
+        setEdges((edges) =>
+          edges.filter(
+            (edge) =>
+              !(
+                edge.source == data.id && edge.sourceHandle == NODE_ERROR_HANDLE
+              ),
+          ),
+        );
+      }
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as WorkflowNodeData;
+        return {
+          errorPolicy: { ...prev.errorPolicy, onError },
+          outputSchema: withErrorOutputSchema(
+            prev.outputSchema,
+            onError == "branch",
+          ),
+        };
+      });
+    },
+    [data.id],
+  );
+
+  const toNumber = (value: string) =>
+    value === "" ? undefined : Math.max(Number(value), 0);
+
+  return (
+    <div className="flex flex-col gap-2 text-sm px-4">
+      <Label className="text-sm">{t("Workflow.errorPolicy")}</Label>
+      <p className="text-xs text-muted-foreground">
+        {t("Workflow.errorPolicyDescription")}
+      </p>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="flex flex-col gap-1">
+          <Label className="text-xs text-muted-foreground">
+            {t("Workflow.retry")}
+          </Label>
+          <Input
+            type="number"
+            min={0}
+            max={MAX_NODE_RETRY}
+            disabled={!editable}
+            value={policy.retry ?? 0}
+            onChange={(e) =>
+              updatePolicy({
+                retry: Math.min(toNumber(e.target.value) ?? 0, MAX_NODE_RETRY),
+              })
+            }
+          />
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label className="text-xs text-muted-foreground">
+            {t("Workflow.backoffMs")}
+          </Label>
+          <Input
+            type="number"
+            min={0}
+            step={500}
+            disabled={!editable || !policy.retry}
+            value={policy.backoff ?? ""}
+            placeholder="0"
+            onChange={(e) =>
+              updatePolicy({ backoff: toNumber(e.target.value) })
+            }
+          />
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label className="text-xs text-muted-foreground">
+            {t("Workflow.timeoutMs")}
+          </Label>
+          <Input
+            type="number"
+            min={0}
+            step={1000}
+            disabled={!editable}
+            value={policy.timeout ?? ""}
+            placeholder="-"
+            onChange={(e) =>
+              updatePolicy({ timeout: toNumber(e.target.value) || undefined })
+            }
+          />
+        </div>
+      </div>
+      <Label className="text-xs text-muted-foreground mt-1">
+        {t("Workflow.onError")}
+      </Label>
+      <Select
+        value={policy.onError ?? "fail"}
+        disabled={!editable}
+        onValueChange={updateOnError}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="fail">{t("Workflow.onErrorFail")}</SelectItem>
+          <SelectItem value="branch">{t("Workflow.onErrorBranch")}</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+});
+NodeErrorPolicyConfig.displayName = "NodeErrorPolicyConfig";
+
+/**
+ * Source handle of the fallback branch, shown when the node continues on errors.
+ */
+export function NodeErrorHandle({ nodeId }: { nodeId: string }) {
+  const t = useTranslations();
+  const [openNodeSelect, setOpenNodeSelect] = useState(false);
+  const update = useUpdate();
+  const { addNodes, addEdges, updateNode, getNodes, getEdges } = useReactFlow();
+
+  const appendNode = (kind: NodeKind) => {
+    setOpenNodeSelect(false);
+    const allNodes = getNodes() as UINode[];
+    const { node: newNode, edge: newEdge } = createAppendNode({
+      sourceNode: allNodes.find((node) => node.data.id === nodeId)!,
+      kind,
+      allNodes,
+      edge: {
+        sourceHandle: NODE_ERROR_HANDLE,
+      },
+      allEdges: getEdges(),
+    });
+
+    addNodes([newNode]);
+    if (newEdge) {
+      addEdges([newEdge]);
+    }
+    update(() => {
+      updateNode(nodeId, {
+        selected: false,
+      });
+    });
+  };
+
+  return (
+    <div className="relative mt-2">
+      <Handle
+        type="source"
+        position={Position.Right}
+        className={cn(
+          "z-10 border-none! bg-destructive! h-5! w-5! rounded-full! -right-0! flex items-center justify-center",
+        )}
+        id={NODE_ERROR_HANDLE}
+        isConnectable={true}
+        onMouseUp={() => setOpenNodeSelect(true)}
+      >
+        <div className="pointer-events-none">
+          <PlusIcon className={cn("size-4 text-white stroke-4")} />
+        </div>
+      </Handle>
+      <NodeSelect
+        onChange={appendNode}
+        open={openNodeSelect}
+        onOpenChange={setOpenNodeSelect}
+      >
+        <PlusIcon className={"sr-only"} />
+      </NodeSelect>
+      <div className="px-4">
+        <div className="px-2 w-full text-xs py-1 font-bold bg-input border rounded-xs flex">
+          <span className="text-destructive">
+            {t("Workflow.onErrorHandle")}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
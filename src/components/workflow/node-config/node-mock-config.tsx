@@ -0,0 +1,114 @@
+"use client";
+
+import { useReactFlow } from "@xyflow/react";
+import { UINode, WorkflowNodeData } from "lib/ai/workflow/workflow.interface";
+import { createMockOutput } from "lib/ai/workflow/node-mock";
+import { memo, useEffect, useState } from "react";
+import { PinIcon, PinOffIcon, WandSparklesIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Button } from "ui/button";
+import { Label } from "ui/label";
+import { Textarea } from "ui/textarea";
+import { useWorkflowStore } from "@/app/store/workflow.store";
+
+/**
+ * Pins an output that dry runs use instead of executing the node.
+ */
+export const NodeMockConfig = memo(function ({
+  data,
+}: {
+  data: WorkflowNodeData;
+}) {
+  const t = useTranslations();
+  const { updateNodeData } = useReactFlow<UINode>();
+  const editable = useWorkflowStore((state) => {
+    return state.processIds.length === 0 && state.hasEditAccess;
+  });
+  const [text, setText] = useState("");
+  const [isInvalid, setIsInvalid] = useState(false);
+
+  useEffect(() => {
+    setText(data.mockOutput ? JSON.stringify(data.mockOutput, null, 2) : "");
+    setIsInvalid(false);
+  }, [data.id, Boolean(data.mockOutput)]);
+
+  const pin = (mockOutput?: Record<string, any>) => {
+    updateNodeData(data.id, { mockOutput });
+    setText(mockOutput ? JSON.stringify(mockOutput, null, 2) : "");
+    setIsInvalid(false);
+  };
+
+  const updateText = (value: string) => {
+    setText(value);
+    try {
+      const parsed = JSON.parse(value);
+      if (!parsed || typeof parsed != "object" || Array.isArray(parsed)) {
+        throw new Error("Mock output must be an object");
+      }
+      updateNodeData(data.id, { mockOutput: parsed });
+      setIsInvalid(false);
+    } catch {
+      setIsInvalid(true);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm px-4">
+      <div className="flex items-center">
+        <Label className="text-sm">{t("Workflow.mockOutput")}</Label>
+        {data.mockOutput && (
+          <div className="ml-auto flex items-center">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              disabled={!editable}
+              title={t("Workflow.generateMockOutput")}
+              onClick={() => pin(createMockOutput(data.outputSchema))}
+            >
+              <WandSparklesIcon className="size-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              disabled={!editable}
+              title={t("Workflow.unpinMockOutput")}
+              onClick={() => pin(undefined)}
+            >
+              <PinOffIcon className="size-3.5" />
+            </Button>
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {t("Workflow.mockOutputDescription")}
+      </p>
+      {data.mockOutput ? (
+        <>
+          <Textarea
+            value={text}
+            disabled={!editable}
+            className="font-mono text-xs min-h-28 max-h-60 resize-y"
+            onChange={(e) => updateText(e.target.value)}
+          />
+          {isInvalid && (
+            <p className="text-xs text-destructive">
+              {t("Workflow.invalidMockOutput")}
+            </p>
+          )}
+        </>
+      ) : (
+        <Button
+          variant="ghost"
+          disabled={!editable}
+          className="w-full border-dashed border text-muted-foreground"
+          onClick={() => pin(createMockOutput(data.outputSchema))}
+        >
+          <PinIcon /> {t("Workflow.pinMockOutput")}
+        </Button>
+      )}
+    </div>
+  );
+});
+NodeMockConfig.displayName = "NodeMockConfig";
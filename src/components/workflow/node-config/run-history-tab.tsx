@@ -0,0 +1,315 @@
+"use client";
+
+import { useWorkflowStore } from "@/app/store/workflow.store";
+import { DBWorkflowRun, DBWorkflowRunNode } from "app-types/workflow";
+import {
+  NodeKind,
+  NodeRuntimeHistory,
+} from "lib/ai/workflow/workflow.interface";
+import { cn, fetcher } from "lib/utils";
+import { ApprovalDecision } from "lib/ai/workflow/approval";
+import {
+  BanIcon,
+  Check,
+  ChevronLeft,
+  Loader,
+  Loader2,
+  PauseIcon,
+  PinIcon,
+  RotateCcwIcon,
+  XIcon,
+} from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useState } from "react";
+import useSWR, { mutate } from "swr";
+import { safe } from "ts-safe";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { Button } from "ui/button";
+import JsonView from "ui/json-view";
+import { Separator } from "ui/separator";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { FlipWords } from "ui/flip-words";
+import { NodeIcon } from "../node-icon";
+import { NodeResultPopup } from "../node-result-popup";
+import { NodeTimingBar } from "../node-timing-bar";
+import { WorkflowApprovalForm } from "../workflow-approval-form";
+import { WorkflowUsageSummary } from "../workflow-usage-summary";
+
+function toRuntimeHistory(
+  node: DBWorkflowRunNode,
+): Pick<
+  NodeRuntimeHistory,
+  | "name"
+  | "status"
+  | "startedAt"
+  | "endedAt"
+  | "error"
+  | "attempts"
+  | "toolCalls"
+  | "result"
+> {
+  return {
+    name: node.name,
+    status: node.status,
+    attempts: node.attempts,
+    toolCalls: node.toolCalls,
+    startedAt: new Date(node.startedAt).getTime(),
+    endedAt: new Date(node.endedAt).getTime(),
+    error: node.error?.message,
+    result: {
+      input: node.input,
+      output: node.output,
+    },
+  };
+}
+
+function formatDuration(startedAt: Date, endedAt?: Date) {
+  if (!endedAt) return "";
+  return (
+    (new Date(endedAt).getTime() - new Date(startedAt).getTime()) /
+    1000
+  ).toFixed(2);
+}
+
+function RunStatusIcon({ status }: { status: DBWorkflowRun["status"] }) {
+  return status == "success" ? (
+    <Check className="size-3" />
+  ) : status == "fail" ? (
+    <XIcon className="size-3" />
+  ) : status == "waiting" ? (
+    <PauseIcon className="size-3" />
+  ) : status == "cancelled" ? (
+    <BanIcon className="size-3" />
+  ) : (
+    <Loader2 className="size-3 animate-spin" />
+  );
+}
+
+export function RunHistoryTab({
+  close,
+  onReplay,
+}: {
+  close: () => void;
+  onReplay: (replay: { runId: string; nodeId: string }) => void;
+}) {
+  const t = useTranslations();
+  const { workflow, processIds } = useWorkflowStore();
+  const [selectedRunId, setSelectedRunId] = useState<string>();
+  const [isDeciding, setIsDeciding] = useState(false);
+
+  const { data: runs, isLoading } = useSWR<DBWorkflowRun[]>(
+    `/api/workflow/${workflow!.id}/runs`,
+    fetcher,
+  );
+
+  const { data: selectedRun } = useSWR<
+    DBWorkflowRun & { nodes: DBWorkflowRunNode[] }
+  >(
+    selectedRunId
+      ? `/api/workflow/${workflow!.id}/runs/${selectedRunId}`
+      : null,
+    fetcher,
+  );
+
+  const decideApproval = (decision: ApprovalDecision) => {
+    setIsDeciding(true);
+    safe(() =>
+      fetch(`/api/workflow/${workflow!.id}/runs/${selectedRunId}/approval`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(decision),
+      }).then(async (res) => {
+        if (!res.ok) {
+          const data = await res.json().catch(() => undefined);
+          throw new Error(data?.details ?? res.statusText);
+        }
+      }),
+    )
+      .ifOk(() => {
+        mutate(`/api/workflow/${workflow!.id}/runs`);
+        mutate(`/api/workflow/${workflow!.id}/runs/${selectedRunId}`);
+      })
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsDeciding(false));
+  };
+
+  const waitingNode = selectedRun?.nodes.findLast(
+    (node) => node.status == "waiting",
+  );
+
+  return (
+    <div className="fade-300 w-sm h-[85vh] bg-card border rounded-lg shadow-lg overflow-y-auto py-4">
+      <div className="flex flex-col px-4">
+        <div className="flex items-center gap-2 w-full h-9">
+          {selectedRunId && (
+            <div
+              className="p-1 rounded hover:bg-secondary cursor-pointer"
+              onClick={() => setSelectedRunId(undefined)}
+            >
+              <ChevronLeft className="size-3.5" />
+            </div>
+          )}
+          <span className="font-semibold">{t("Workflow.runHistory")}</span>
+          <div
+            className="p-1 rounded hover:bg-secondary cursor-pointer ml-auto"
+            onClick={close}
+          >
+            <XIcon className="size-3.5" />
+          </div>
+        </div>
+      </div>
+      <Separator className="my-4" />
+
+      {!selectedRunId ? (
+        <div className="flex flex-col px-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-40">
+              <Loader className="size-4 animate-spin" />
+            </div>
+          ) : !runs?.length ? (
+            <div className="flex items-center justify-center h-40">
+              <FlipWords
+                className="text-sm text-muted-foreground"
+                words={[t("Workflow.noRuns")]}
+              />
+            </div>
+          ) : (
+            runs.map((run) => (
+              <div
+                key={run.id}
+                onClick={() => setSelectedRunId(run.id)}
+                className={cn(
+                  "cursor-pointer hover:bg-secondary flex items-center gap-2 text-sm rounded-sm px-2 py-1.5",
+                  run.status == "fail" && "text-destructive",
+                )}
+              >
+                <span className="font-semibold">
+                  {new Date(run.startedAt).toLocaleString()}
+                </span>
+                {run.version && (
+                  <span className="text-[10px] text-muted-foreground">
+                    v{run.version}
+                  </span>
+                )}
+                {run.replayOfRunId && (
+                  <RotateCcwIcon className="size-3 text-muted-foreground" />
+                )}
+                {run.dryRun && (
+                  <PinIcon className="size-3 text-muted-foreground" />
+                )}
+                <span
+                  className={cn(
+                    "ml-auto text-xs",
+                    run.status != "fail" && "text-muted-foreground",
+                  )}
+                >
+                  {formatDuration(run.startedAt, run.endedAt)}
+                </span>
+                <RunStatusIcon status={run.status} />
+              </div>
+            ))
+          )}
+        </div>
+      ) : !selectedRun ? (
+        <div className="flex items-center justify-center h-40">
+          <Loader className="size-4 animate-spin" />
+        </div>
+      ) : (
+        <div>
+          <div className="flex flex-col px-4 h-[40vh] overflow-y-auto">
+            {selectedRun.nodes.map((node, i) => (
+              <div key={node.id} className="flex items-center gap-1 relative">
+                {i != 0 && (
+                  <div className="absolute left-4.5 -top-1.5 w-px h-3">
+                    <Separator orientation="vertical" />
+                  </div>
+                )}
+                <NodeResultPopup history={toRuntimeHistory(node)}>
+                  <div
+                    className={cn(
+                      "cursor-pointer hover:bg-secondary flex flex-1 min-w-0 items-center gap-2 text-sm rounded-sm px-2 py-1.5 relative",
+                      node.status == "fail" && "text-destructive",
+                    )}
+                  >
+                    <div className="border rounded overflow-hidden">
+                      <NodeIcon
+                        type={node.kind as NodeKind}
+                        iconClassName="size-3"
+                        className="rounded-none"
+                      />
+                    </div>
+                    <span className="font-semibold truncate">{node.name}</span>
+                    <span
+                      className={cn(
+                        "ml-auto text-xs",
+                        node.status != "fail" && "text-muted-foreground",
+                      )}
+                    >
+                      {formatDuration(node.startedAt, node.endedAt)}
+                    </span>
+                    <RunStatusIcon status={node.status} />
+                    <NodeTimingBar
+                      runStartedAt={new Date(selectedRun.startedAt).getTime()}
+                      runEndedAt={new Date(
+                        selectedRun.endedAt ?? Date.now(),
+                      ).getTime()}
+                      startedAt={new Date(node.startedAt).getTime()}
+                      endedAt={new Date(node.endedAt).getTime()}
+                      status={node.status}
+                    />
+                  </div>
+                </NodeResultPopup>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-7"
+                      disabled={processIds.length > 0}
+                      onClick={() =>
+                        onReplay({ runId: selectedRun.id, nodeId: node.nodeId })
+                      }
+                    >
+                      <RotateCcwIcon className="size-3" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="left">
+                    {t("Workflow.replayFromNode")}
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+            ))}
+          </div>
+          <Separator />
+          <div className="px-4 py-4">
+            <div className="flex items-center gap-3 mb-4">
+              <p className="font-semibold text-sm">Result</p>
+              <WorkflowUsageSummary
+                usages={selectedRun.nodes.map((node) => node.usage)}
+              />
+            </div>
+            {selectedRun.status == "waiting" && waitingNode ? (
+              <WorkflowApprovalForm
+                key={waitingNode.id}
+                name={waitingNode.name}
+                message={waitingNode.input?.message}
+                onDecision={decideApproval}
+                disabled={isDeciding}
+              />
+            ) : (
+              <div className="p-2">
+                <JsonView
+                  data={
+                    selectedRun.status == "fail"
+                      ? selectedRun.error
+                      : selectedRun.output
+                  }
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
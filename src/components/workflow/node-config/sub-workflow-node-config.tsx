@@ -0,0 +1,262 @@
+"use client";
+
+import { useReactFlow } from "@xyflow/react";
+import {
+  SubWorkflowNodeData,
+  UINode,
+} from "lib/ai/workflow/workflow.interface";
+import { memo, useCallback, useMemo, useState } from "react";
+import {
+  ChevronDownIcon,
+  Loader,
+  RefreshCwIcon,
+  TriangleAlertIcon,
+  VariableIcon,
+  WorkflowIcon,
+} from "lucide-react";
+import { useTranslations } from "next-intl";
+import { safe } from "ts-safe";
+import { Label } from "ui/label";
+import { Button } from "ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { VariableSelect } from "../variable-select";
+import { useWorkflowStore } from "@/app/store/workflow.store";
+import { useWorkflowToolList } from "@/hooks/queries/use-workflow-tool-list";
+import { selectSubWorkflowSchemaAction } from "@/app/api/workflow/actions";
+import { findJsonSchemaByPath } from "lib/ai/workflow/shared.workflow";
+import { WorkflowSummary } from "app-types/workflow";
+import {
+  hasErrorBranch,
+  withErrorOutputSchema,
+} from "lib/ai/workflow/node-error-policy";
+
+export const SubWorkflowNodeDataConfig = memo(function ({
+  data,
+}: {
+  data: SubWorkflowNodeData;
+}) {
+  const t = useTranslations();
+  const { getNodes, updateNodeData } = useReactFlow<UINode>();
+  const [isLoading, setIsLoading] = useState(false);
+  const currentWorkflowId = useWorkflowStore((state) => state.workflow?.id);
+  const editable = useWorkflowStore((state) => {
+    return state.processIds.length === 0 && state.hasEditAccess;
+  });
+
+  const { data: workflowList } = useWorkflowToolList();
+
+  // A workflow cannot call itself
+  const workflows = useMemo(
+    () =>
+      (workflowList as WorkflowSummary[]).filter(
+        (workflow) => workflow.id !== currentWorkflowId,
+      ),
+    [workflowList, currentWorkflowId],
+  );
+
+  const selectWorkflow = useCallback(
+    (workflowId: string) => {
+      setIsLoading(true);
+      safe(() => selectSubWorkflowSchemaAction(workflowId))
+        .ifOk(({ id, name, inputSchema, outputSchema }) => {
+          updateNodeData(data.id, (node) => {
+            const prev = node.data as SubWorkflowNodeData;
+            // Keep the mapped sources of fields that still exist
+            return {
+              workflow: { id, name },
+              inputSchema,
+              outputSchema: withErrorOutputSchema(
+                outputSchema,
+                hasErrorBranch(prev),
+              ),
+              inputs: Object.keys(inputSchema.properties).map((key) => ({
+                key,
+                source: prev.inputs.find((input) => input.key === key)?.source,
+              })),
+            };
+          });
+        })
+        .ifFail(handleErrorWithToast)
+        .watch(() => setIsLoading(false));
+    },
+    [data.id],
+  );
+
+  const inputVariables = useMemo(() => {
+    const nodes = getNodes();
+    return data.inputs.map(({ key, source }) => {
+      const targetNode = nodes.find((node) => node.data.id === source?.nodeId);
+      const schema = targetNode
+        ? findJsonSchemaByPath(targetNode.data.outputSchema, source?.path ?? [])
+        : undefined;
+      return {
+        key,
+        schema,
+        path: source?.path ?? [],
+        nodeName: targetNode?.data.name,
+        isRequired: data.inputSchema?.required?.includes(key),
+        isNotFound: (source && !targetNode) || (targetNode && !schema),
+      };
+    });
+  }, [data.inputs, data.inputSchema]);
+
+  const updateInputSource = useCallback(
+    (index: number, source: { nodeId: string; path: string[] }) => {
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as SubWorkflowNodeData;
+        return {
+          inputs: prev.inputs.map((v, i) =>
+            i === index ? { ...v, source } : v,
+          ),
+        };
+      });
+    },
+    [data.id],
+  );
+
+  return (
+    <div className="flex flex-col gap-2 text-sm px-4">
+      <Label className="text-sm">{t("Workflow.subWorkflow")}</Label>
+      <div className="flex items-center gap-1">
+        <Select
+          value={data.workflow?.id}
+          disabled={!editable || isLoading}
+          onValueChange={selectWorkflow}
+        >
+          <SelectTrigger className="flex-1 min-w-0">
+            <SelectValue placeholder={t("Workflow.selectSubWorkflow")}>
+              {data.workflow?.name}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            {workflows.map((workflow) => (
+              <SelectItem key={workflow.id} value={workflow.id}>
+                {workflow.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {data.workflow && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={!editable || isLoading}
+                onClick={() => selectWorkflow(data.workflow!.id)}
+              >
+                {isLoading ? (
+                  <Loader className="animate-spin" />
+                ) : (
+                  <RefreshCwIcon />
+                )}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>{t("Workflow.refreshSubWorkflow")}</TooltipContent>
+          </Tooltip>
+        )}
+      </div>
+
+      {data.workflow && (
+        <>
+          <Label className="text-sm mt-2">
+            {t("Workflow.subWorkflowInputs")}
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            {t("Workflow.subWorkflowInputsDescription")}
+          </p>
+          {inputVariables.map((item, index) => {
+            return (
+              <div className="flex items-center gap-1" key={item.key}>
+                <span className="w-24 truncate text-xs font-semibold">
+                  {item.key}
+                  {item.isRequired && (
+                    <span className="text-destructive">*</span>
+                  )}
+                </span>
+                <VariableSelect
+                  currentNodeId={data.id}
+                  onChange={(item) => {
+                    updateInputSource(index, {
+                      nodeId: item.nodeId,
+                      path: item.path,
+                    });
+                  }}
+                >
+                  <div className="flex-1 min-w-0 w-full flex text-[10px] items-center gap-1 p-2.5 border border-input bg-background rounded-lg cursor-pointer">
+                    {item.isNotFound ? (
+                      <TriangleAlertIcon className="size-3 text-destructive" />
+                    ) : (
+                      <VariableIcon className="size-3 text-blue-500" />
+                    )}
+
+                    <span>{item.nodeName}/</span>
+                    <span className="truncate min-w-0 text-blue-500 flex-1">
+                      {item.path.join(".")}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {item.schema?.type}
+                    </span>
+
+                    <ChevronDownIcon className="size-3 ml-auto" />
+                  </div>
+                </VariableSelect>
+              </div>
+            );
+          })}
+
+          <Label className="text-sm mt-2">{t("Workflow.outputSchema")}</Label>
+          <div className="flex items-center flex-wrap gap-1">
+            {Object.keys(data.outputSchema.properties).map((key) => (
+              <div
+                key={key}
+                className="flex items-center text-xs px-1.5 py-0.5 bg-secondary rounded-md"
+              >
+                <VariableIcon className="size-3.5 text-blue-500" />
+                <span className="font-semibold">{key}</span>
+                <span className="text-muted-foreground ml-2">
+                  {data.outputSchema.properties[key].type}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
+SubWorkflowNodeDataConfig.displayName = "SubWorkflowNodeDataConfig";
+
+export const SubWorkflowNodeDataStack = memo(function ({
+  data,
+}: {
+  data: SubWorkflowNodeData;
+}) {
+  if (!data.workflow) return null;
+  return (
+    <div className="flex flex-col gap-1 px-4 mt-4">
+      <div className="border bg-input text-[10px] rounded px-2 py-1 flex items-center gap-1">
+        <WorkflowIcon className="size-3" />
+        <span className="font-semibold truncate">{data.workflow.name}</span>
+      </div>
+      {data.inputs.map((input) => (
+        <div
+          key={input.key}
+          className="border bg-input text-[10px] rounded px-2 py-1 flex items-center gap-1"
+        >
+          <VariableIcon className="size-3 text-blue-500" />
+          <span className="truncate">{input.key}</span>
+        </div>
+      ))}
+    </div>
+  );
+});
+SubWorkflowNodeDataStack.displayName = "SubWorkflowNodeDataStack";
@@ -2,18 +2,74 @@
 
 import { TemplateNodeData, UINode } from "lib/ai/workflow/workflow.interface";
 import { useEdges, useNodes, useReactFlow } from "@xyflow/react";
-import { useCallback, memo } from "react";
+import { useCallback, memo, useMemo } from "react";
 import { Label } from "ui/label";
 
 import { OutputSchemaMentionInput } from "../output-schema-mention-input";
 
-import { InfoIcon } from "lucide-react";
+import {
+  CheckIcon,
+  CircleCheckIcon,
+  InfoIcon,
+  TriangleAlertIcon,
+  VariableIcon,
+} from "lucide-react";
 
-import { TipTapMentionJsonContent } from "app-types/util";
+import { ObjectJsonSchema7, TipTapMentionJsonContent } from "app-types/util";
+import { DBWorkflowRun, DBWorkflowRunNode } from "app-types/workflow";
 
 import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { Button } from "ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
 import { useTranslations } from "next-intl";
 import { useWorkflowStore } from "@/app/store/workflow.store";
+import { useCopy } from "@/hooks/use-copy";
+import useSWR from "swr";
+import { safe } from "ts-safe";
+import { fetcher } from "lib/utils";
+import {
+  convertTiptapJsonToText,
+  findAccessibleNodeIds,
+} from "lib/ai/workflow/shared.workflow";
+import {
+  collectTemplateVariables,
+  createTemplateContext,
+  findUnknownTemplateVariables,
+  renderJsonTemplate,
+  renderTemplate,
+  toTemplateVariable,
+} from "lib/ai/workflow/template-engine";
+import { CodeEditor } from "../code-editor";
+import { VariableSelect } from "../variable-select";
+
+type TemplateType = TemplateNodeData["template"]["type"];
+
+const TEMPLATE_TYPES: TemplateType[] = ["tiptap", "handlebars", "json"];
+
+/**
+ * JSON templates output the rendered value, the other engines output text.
+ */
+function getTemplateOutputSchema(
+  template: TemplateNodeData["template"],
+): ObjectJsonSchema7 {
+  return {
+    type: "object",
+    properties: {
+      template:
+        template.type != "json"
+          ? { type: "string" }
+          : {
+              type: template.source.trim().startsWith("[") ? "array" : "object",
+            },
+    },
+  };
+}
 
 interface TemplateNodeConfigProps {
   data: TemplateNodeData;
@@ -26,55 +82,269 @@ export const TemplateNodeConfig = memo(function TemplateNodeConfig({
   const { updateNodeData } = useReactFlow<UINode>();
   const nodes = useNodes() as UINode[];
   const edges = useEdges();
+  const { copied, copy } = useCopy();
+  const workflowId = useWorkflowStore((state) => state.workflow?.id);
   const editable = useWorkflowStore((state) => {
-    return (
-      state.processIds.length === 0 &&
-      state.hasEditAccess &&
-      !state.workflow?.isPublished
-    );
+    return state.processIds.length === 0 && state.hasEditAccess;
   });
 
-  const handleTemplateChange = useCallback(
-    (template: TipTapMentionJsonContent) => {
+  const updateTemplate = useCallback(
+    (template: TemplateNodeData["template"]) => {
       updateNodeData(data.id, {
-        template: { type: "tiptap", tiptap: template },
+        template,
+        outputSchema: getTemplateOutputSchema(template),
       });
     },
     [data.id, updateNodeData],
   );
 
+  const handleTemplateChange = useCallback(
+    (template: TipTapMentionJsonContent) => {
+      updateTemplate({ type: "tiptap", tiptap: template });
+    },
+    [updateTemplate],
+  );
+
+  const changeType = useCallback(
+    (type: TemplateType) => {
+      if (type == data.template.type) return;
+      if (type == "tiptap") {
+        return updateTemplate({
+          type,
+          tiptap: { type: "doc", content: [] },
+        });
+      }
+      // Keep the text of the previous template, turning mentions into variables
+      const source =
+        data.template.type == "tiptap"
+          ? convertTiptapJsonToText({
+              json: data.template.tiptap,
+              getOutput: () => undefined,
+              mentionParser: (part) => {
+                const key = JSON.parse(part.attrs.label);
+                const name = nodes.find((node) => node.id == key.nodeId)?.data
+                  .name;
+                return name
+                  ? `{{ ${toTemplateVariable([name, ...key.path])} }}`
+                  : "";
+              },
+            })
+          : data.template.source;
+      updateTemplate({
+        type,
+        source: type == "json" && !source.trim() ? "{}" : source,
+      });
+    },
+    [data.template, nodes, updateTemplate],
+  );
+
+  const insertVariable = useCallback(
+    (item: { nodeName: string; path: string[] }) => {
+      if (data.template.type == "tiptap") return;
+      const variable = `{{ ${toTemplateVariable([item.nodeName, ...item.path])} }}`;
+      // Appending to a JSON document would break it, so copy the variable instead
+      if (data.template.type == "json") return copy(`"${variable}"`);
+      updateTemplate({
+        ...data.template,
+        source: `${data.template.source}${variable}`,
+      });
+    },
+    [data.template, updateTemplate, copy],
+  );
+
+  const check = useMemo(() => {
+    if (data.template.type == "tiptap") return;
+    const { type, source } = data.template;
+    if (!source.trim()) return;
+    const accessibleNodeIds = findAccessibleNodeIds({
+      nodeId: data.id,
+      nodes: nodes.map((node) => node.data),
+      edges,
+    });
+    return safe(() => collectTemplateVariables(type, source))
+      .map((variables) => ({
+        unknownVariables: findUnknownTemplateVariables(
+          variables,
+          nodes
+            .filter((node) => accessibleNodeIds.includes(node.id))
+            .map((node) => node.data),
+        ),
+      }))
+      .ifFail((error) => ({ error: error.message }))
+      .unwrap() as { error?: string; unknownVariables?: string[] };
+  }, [data.id, data.template, nodes, edges]);
+
+  const { data: runs } = useSWR<DBWorkflowRun[]>(
+    workflowId && data.template.type != "tiptap"
+      ? `/api/workflow/${workflowId}/runs`
+      : null,
+    fetcher,
+  );
+  const lastRunId = runs?.[0]?.id;
+  const { data: lastRun } = useSWR<
+    DBWorkflowRun & { nodes: DBWorkflowRunNode[] }
+  >(
+    lastRunId && data.template.type != "tiptap"
+      ? `/api/workflow/${workflowId}/runs/${lastRunId}`
+      : null,
+    fetcher,
+  );
+
+  const preview = useMemo(() => {
+    if (data.template.type == "tiptap" || !lastRun || check?.error) return;
+    const { type, source } = data.template;
+    const context = createTemplateContext(
+      nodes.map((node) => node.data),
+      Object.fromEntries(
+        lastRun.nodes.map((node) => [node.nodeId, node.output]),
+      ),
+    );
+    return safe(() =>
+      type == "json"
+        ? JSON.stringify(renderJsonTemplate(source, context), null, 2)
+        : renderTemplate(source, context),
+    )
+      .map((value) => ({ value }))
+      .ifFail((error) => ({ error: error.message }))
+      .unwrap() as { value?: string; error?: string };
+  }, [data.template, lastRun, check, nodes]);
+
   return (
     <div className="flex flex-col gap-2 text-sm px-4 ">
-      <div>
+      <Label className="text-sm">{t("Workflow.templateEngine")}</Label>
+      <Select
+        value={data.template.type}
+        disabled={!editable}
+        onValueChange={(value) => changeType(value as TemplateType)}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {TEMPLATE_TYPES.map((type) => (
+            <SelectItem key={type} value={type}>
+              {type == "tiptap"
+                ? t("Workflow.templateEngineMentions")
+                : type == "handlebars"
+                  ? "Handlebars"
+                  : "JSON"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="mt-2">
         <div className="flex items-center justify-between">
           <Label className="text-sm mt-1">{t("Workflow.template")}</Label>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <div className="p-1 hover:bg-secondary rounded cursor-pointer">
-                <InfoIcon className="size-3" />
-              </div>
-            </TooltipTrigger>
-            <TooltipContent
-              side="left"
-              align="center"
-              className="p-4 whitespace-pre-wrap"
-            >
-              {t("Workflow.templateDescription")}
-            </TooltipContent>
-          </Tooltip>
+          <div className="flex items-center gap-1">
+            {data.template.type != "tiptap" && editable && (
+              <VariableSelect currentNodeId={data.id} onChange={insertVariable}>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-6"
+                  title={
+                    data.template.type == "json"
+                      ? t("Workflow.copyVariable")
+                      : t("Workflow.insertVariable")
+                  }
+                >
+                  {copied ? (
+                    <CheckIcon className="size-3" />
+                  ) : (
+                    <VariableIcon className="size-3 text-blue-500" />
+                  )}
+                </Button>
+              </VariableSelect>
+            )}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+                  <InfoIcon className="size-3" />
+                </div>
+              </TooltipTrigger>
+              <TooltipContent
+                side="left"
+                align="center"
+                className="p-4 whitespace-pre-wrap max-w-96"
+              >
+                {data.template.type == "tiptap"
+                  ? t("Workflow.templateDescription")
+                  : data.template.type == "handlebars"
+                    ? t("Workflow.handlebarsTemplateDescription")
+                    : t("Workflow.jsonTemplateDescription")}
+              </TooltipContent>
+            </Tooltip>
+          </div>
         </div>
-        <div className="w-full bg-secondary rounded-md p-2">
-          <OutputSchemaMentionInput
-            className="min-h-48"
-            currentNodeId={data.id}
-            nodes={nodes}
-            edges={edges}
-            content={data.template.tiptap}
-            onChange={handleTemplateChange}
+        {data.template.type == "tiptap" ? (
+          <div className="w-full bg-secondary rounded-md p-2">
+            <OutputSchemaMentionInput
+              className="min-h-48"
+              currentNodeId={data.id}
+              nodes={nodes}
+              edges={edges}
+              content={data.template.tiptap}
+              onChange={handleTemplateChange}
+              editable={editable}
+            />
+          </div>
+        ) : (
+          <CodeEditor
+            value={data.template.source}
+            lang={data.template.type}
             editable={editable}
+            onChange={(source) =>
+              updateTemplate({
+                type: data.template.type as "handlebars" | "json",
+                source,
+              })
+            }
+            className="h-64"
           />
-        </div>
+        )}
       </div>
+      {check && (
+        <div className="flex items-start gap-1 text-xs">
+          {check.error || check.unknownVariables?.length ? (
+            <>
+              <TriangleAlertIcon className="size-3 mt-0.5 shrink-0 text-destructive" />
+              <span className="text-destructive break-all">
+                {check.error ??
+                  t("Workflow.unknownTemplateVariables", {
+                    variables: check.unknownVariables!.join(", "),
+                  })}
+              </span>
+            </>
+          ) : (
+            <>
+              <CircleCheckIcon className="size-3 mt-0.5 shrink-0 text-green-500" />
+              <span className="text-muted-foreground">
+                {t("Workflow.templateSyntaxValid")}
+              </span>
+            </>
+          )}
+        </div>
+      )}
+      {data.template.type != "tiptap" && (
+        <div className="flex flex-col gap-1 mt-2">
+          <Label className="text-sm">{t("Workflow.templatePreview")}</Label>
+          {!lastRun ? (
+            <p className="text-xs text-muted-foreground">
+              {t("Workflow.templatePreviewEmpty")}
+            </p>
+          ) : preview?.error ? (
+            <p className="text-xs text-destructive break-all">
+              {preview.error}
+            </p>
+          ) : (
+            preview && (
+              <pre className="text-xs bg-secondary rounded-md p-2 whitespace-pre-wrap break-all max-h-60 overflow-y-auto">
+                {preview.value}
+              </pre>
+            )
+          )}
+        </div>
+      )}
     </div>
   );
 });
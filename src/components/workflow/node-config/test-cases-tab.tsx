@@ -0,0 +1,610 @@
+"use client";
+
+import { useWorkflowStore } from "@/app/store/workflow.store";
+import { useReactFlow } from "@xyflow/react";
+import { DBWorkflowTestCase } from "app-types/workflow";
+import { NodeKind, UINode } from "lib/ai/workflow/workflow.interface";
+import {
+  WorkflowTestAssertion,
+  WorkflowTestCaseResult,
+} from "lib/ai/workflow/workflow-test";
+import { cn, fetcher, generateUUID, isObject, safeJSONParse } from "lib/utils";
+import { notify } from "lib/notify";
+import {
+  Check,
+  ChevronLeft,
+  FlaskConicalIcon,
+  Loader,
+  PlusIcon,
+  TrashIcon,
+  XIcon,
+} from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useMemo, useState } from "react";
+import useSWR, { mutate } from "swr";
+import { safe } from "ts-safe";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { Button } from "ui/button";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import { Switch } from "ui/switch";
+import { Textarea } from "ui/textarea";
+import JsonView from "ui/json-view";
+import { Separator } from "ui/separator";
+import { FlipWords } from "ui/flip-words";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { SelectModel } from "@/components/select-model";
+
+// Value of the target select for assertions on the run output
+const RUN_OUTPUT = "output";
+
+const toJsonText = (value: unknown) =>
+  value === undefined ? "" : JSON.stringify(value, null, 2);
+
+// Plain text that is not JSON is compared as a string
+const fromJsonText = (text: string) => {
+  const parsed = safeJSONParse(text);
+  return parsed.success ? parsed.value : text;
+};
+
+const toSchema = (text: string) => {
+  const parsed = safeJSONParse(text);
+  return parsed.success && isObject(parsed.value) ? parsed.value : undefined;
+};
+
+export function TestCasesTab({
+  close,
+  onSave,
+}: {
+  close: () => void;
+  onSave: () => Promise<void>;
+}) {
+  const t = useTranslations();
+  const { workflow, processIds, hasEditAccess, addProcess } =
+    useWorkflowStore();
+  const [selectedId, setSelectedId] = useState<string>();
+  const [results, setResults] = useState<WorkflowTestCaseResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const key = `/api/workflow/${workflow!.id}/tests`;
+  const { data: testCases, isLoading } = useSWR<DBWorkflowTestCase[]>(
+    key,
+    fetcher,
+  );
+
+  const selected = testCases?.find((testCase) => testCase.id == selectedId);
+  const resultById = useMemo(
+    () => new Map(results.map((result) => [result.testCaseId, result])),
+    [results],
+  );
+  const passedCount = results.filter((result) => result.passed).length;
+
+  const runTests = (testCaseIds?: string[]) => {
+    const stop = addProcess();
+    setIsRunning(true);
+    // Tests run against the saved draft
+    safe(() => onSave())
+      .map(() =>
+        fetch(`${key}/run`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ testCaseIds }),
+        }).then(async (res) => {
+          if (!res.ok) throw new Error(res.statusText);
+          return (await res.json()) as WorkflowTestCaseResult[];
+        }),
+      )
+      .ifOk((next) =>
+        setResults((prev) => [
+          ...prev.filter(
+            (result) => !next.some((n) => n.testCaseId == result.testCaseId),
+          ),
+          ...next,
+        ]),
+      )
+      .ifFail(handleErrorWithToast)
+      .watch(() => {
+        setIsRunning(false);
+        stop();
+      });
+  };
+
+  const createTestCase = () => {
+    safe(() =>
+      fetch(key, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: `Test ${(testCases?.length ?? 0) + 1}`,
+        }),
+      }).then(async (res) => {
+        if (!res.ok) throw new Error(res.statusText);
+        return (await res.json()) as DBWorkflowTestCase;
+      }),
+    )
+      .ifOk((testCase) => {
+        mutate(key);
+        setSelectedId(testCase.id);
+      })
+      .ifFail(handleErrorWithToast);
+  };
+
+  return (
+    <div className="fade-300 w-sm h-[85vh] bg-card border rounded-lg shadow-lg overflow-y-auto py-4">
+      <div className="flex flex-col px-4">
+        <div className="flex items-center gap-2 w-full h-9">
+          {selectedId && (
+            <div
+              className="p-1 rounded hover:bg-secondary cursor-pointer"
+              onClick={() => setSelectedId(undefined)}
+            >
+              <ChevronLeft className="size-3.5" />
+            </div>
+          )}
+          <span className="font-semibold">{t("Workflow.testCases")}</span>
+          <div
+            className="p-1 rounded hover:bg-secondary cursor-pointer ml-auto"
+            onClick={close}
+          >
+            <XIcon className="size-3.5" />
+          </div>
+        </div>
+      </div>
+      <Separator className="my-4" />
+
+      {selected ? (
+        <TestCaseEditor
+          key={selected.id}
+          testCase={selected}
+          result={resultById.get(selected.id)}
+          editable={Boolean(hasEditAccess) && !processIds.length}
+          isRunning={isRunning}
+          onRun={() => runTests([selected.id])}
+          onDeleted={() => setSelectedId(undefined)}
+        />
+      ) : (
+        <div className="flex flex-col gap-2 px-4">
+          <Button
+            className="font-bold w-full"
+            disabled={isRunning || !testCases?.length || !!processIds.length}
+            onClick={() => runTests()}
+          >
+            {isRunning ? (
+              <Loader className="size-3.5 animate-spin" />
+            ) : (
+              t("Workflow.runAllTests")
+            )}
+          </Button>
+          {results.length > 0 && (
+            <p
+              className={cn(
+                "text-xs text-center",
+                passedCount == results.length
+                  ? "text-muted-foreground"
+                  : "text-destructive",
+              )}
+            >
+              {t("Workflow.testsPassed", {
+                passed: passedCount,
+                total: results.length,
+              })}
+            </p>
+          )}
+          {isLoading ? (
+            <div className="flex items-center justify-center h-40">
+              <Loader className="size-4 animate-spin" />
+            </div>
+          ) : !testCases?.length ? (
+            <div className="flex items-center justify-center h-40">
+              <FlipWords
+                className="text-sm text-muted-foreground"
+                words={[t("Workflow.noTestCases")]}
+              />
+            </div>
+          ) : (
+            testCases.map((testCase) => {
+              const result = resultById.get(testCase.id);
+              return (
+                <div
+                  key={testCase.id}
+                  onClick={() => setSelectedId(testCase.id)}
+                  className={cn(
+                    "cursor-pointer hover:bg-secondary flex items-center gap-2 text-sm rounded-sm px-2 py-1.5",
+                    result && !result.passed && "text-destructive",
+                  )}
+                >
+                  <FlaskConicalIcon className="size-3 text-muted-foreground" />
+                  <span className="font-semibold truncate">
+                    {testCase.name}
+                  </span>
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {result && (result.duration / 1000).toFixed(2)}
+                  </span>
+                  {result &&
+                    (result.passed ? (
+                      <Check className="size-3" />
+                    ) : (
+                      <XIcon className="size-3" />
+                    ))}
+                </div>
+              );
+            })
+          )}
+          {hasEditAccess && (
+            <Button
+              variant="ghost"
+              disabled={!!processIds.length}
+              onClick={createTestCase}
+              className="w-full border-dashed border text-muted-foreground"
+            >
+              <PlusIcon /> {t("Workflow.addTestCase")}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TestCaseEditor({
+  testCase,
+  result,
+  editable,
+  isRunning,
+  onRun,
+  onDeleted,
+}: {
+  testCase: DBWorkflowTestCase;
+  result?: WorkflowTestCaseResult;
+  editable: boolean;
+  isRunning: boolean;
+  onRun: () => void;
+  onDeleted: () => void;
+}) {
+  const t = useTranslations();
+  const { getNodes } = useReactFlow<UINode>();
+  const [name, setName] = useState(testCase.name);
+  const [inputText, setInputText] = useState(toJsonText(testCase.input));
+  const [dryRun, setDryRun] = useState(testCase.dryRun);
+  const [assertions, setAssertions] = useState(testCase.assertions);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const key = `/api/workflow/${testCase.workflowId}/tests`;
+  const nodes = useMemo(
+    () =>
+      getNodes().filter(
+        (node) => ![NodeKind.Note, NodeKind.Input].includes(node.data.kind),
+      ),
+    [],
+  );
+
+  const input = safeJSONParse<Record<string, any>>(inputText || "{}");
+  const isDirty =
+    name != testCase.name ||
+    dryRun != testCase.dryRun ||
+    toJsonText(testCase.input) != inputText ||
+    JSON.stringify(assertions) != JSON.stringify(testCase.assertions);
+
+  useEffect(() => {
+    setAssertions(testCase.assertions);
+  }, [testCase.assertions]);
+
+  const updateAssertion = (
+    index: number,
+    update: Partial<WorkflowTestAssertion>,
+  ) =>
+    setAssertions((prev) =>
+      prev.map((assertion, i) =>
+        i == index ? { ...assertion, ...update } : assertion,
+      ),
+    );
+
+  const save = () => {
+    if (!input.success) return;
+    setIsSaving(true);
+    safe(() =>
+      fetch(`${key}/${testCase.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          input: input.value,
+          dryRun,
+          assertions,
+        }),
+      }).then(async (res) => {
+        if (!res.ok) {
+          const data = await res.json().catch(() => undefined);
+          throw new Error(data?.details ?? res.statusText);
+        }
+      }),
+    )
+      .ifOk(() => mutate(key))
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsSaving(false));
+  };
+
+  const remove = async () => {
+    const ok = await notify.confirm({
+      description: t("Workflow.deleteTestCaseConfirm", { name: testCase.name }),
+    });
+    if (!ok) return;
+    safe(() =>
+      fetch(`${key}/${testCase.id}`, { method: "DELETE" }).then((res) => {
+        if (!res.ok) throw new Error(res.statusText);
+      }),
+    )
+      .ifOk(() => {
+        mutate(key);
+        onDeleted();
+      })
+      .ifFail(handleErrorWithToast);
+  };
+
+  return (
+    <div className="flex flex-col gap-4 px-4 text-sm">
+      <div className="flex flex-col gap-2">
+        <Label>{t("Workflow.testCaseName")}</Label>
+        <Input
+          value={name}
+          disabled={!editable}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label>{t("Workflow.testCaseInput")}</Label>
+        <Textarea
+          value={inputText}
+          disabled={!editable}
+          placeholder="{}"
+          className="font-mono text-xs min-h-20 max-h-48 resize-y"
+          onChange={(e) => setInputText(e.target.value)}
+        />
+        {!input.success && (
+          <p className="text-xs text-destructive">
+            {t("Workflow.invalidTestCaseInput")}
+          </p>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <div className="flex flex-col gap-0.5">
+          <Label htmlFor="test-dry-run">{t("Workflow.dryRun")}</Label>
+          <p className="text-xs text-muted-foreground">
+            {t("Workflow.testCaseDryRunDescription")}
+          </p>
+        </div>
+        <Switch
+          id="test-dry-run"
+          className="ml-auto"
+          disabled={!editable}
+          checked={dryRun}
+          onCheckedChange={setDryRun}
+        />
+      </div>
+
+      <Separator />
+
+      <div className="flex flex-col gap-2">
+        <Label>{t("Workflow.assertions")}</Label>
+        {assertions.map((assertion, index) => {
+          const assertionResult = result?.assertions.find(
+            (r) => r.assertionId == assertion.id,
+          );
+          return (
+            <div
+              key={assertion.id}
+              className={cn(
+                "flex flex-col gap-1 bg-secondary rounded-lg p-2",
+                assertionResult &&
+                  !assertionResult.passed &&
+                  "ring ring-destructive",
+              )}
+            >
+              <div className="flex items-center gap-1">
+                <Select
+                  value={assertion.nodeId ?? RUN_OUTPUT}
+                  disabled={!editable}
+                  onValueChange={(value) =>
+                    updateAssertion(index, {
+                      nodeId: value == RUN_OUTPUT ? undefined : value,
+                    })
+                  }
+                >
+                  <SelectTrigger className="flex-1 min-w-0 text-xs bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={RUN_OUTPUT}>
+                      {t("Workflow.runOutput")}
+                    </SelectItem>
+                    {nodes.map((node) => (
+                      <SelectItem key={node.id} value={node.id}>
+                        {node.data.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={assertion.type}
+                  disabled={!editable}
+                  onValueChange={(type) =>
+                    updateAssertion(index, {
+                      type: type as WorkflowTestAssertion["type"],
+                    })
+                  }
+                >
+                  <SelectTrigger className="w-28 text-xs bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="equals">
+                      {t("Workflow.assertEquals")}
+                    </SelectItem>
+                    <SelectItem value="contains">
+                      {t("Workflow.assertContains")}
+                    </SelectItem>
+                    <SelectItem value="schema">
+                      {t("Workflow.assertSchema")}
+                    </SelectItem>
+                    <SelectItem value="llm">
+                      {t("Workflow.assertLLM")}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  disabled={!editable}
+                  onClick={() =>
+                    setAssertions((prev) => prev.filter((_, i) => i != index))
+                  }
+                >
+                  <TrashIcon className="size-3.5" />
+                </Button>
+              </div>
+              <Input
+                value={assertion.path.join(".")}
+                disabled={!editable}
+                placeholder={t("Workflow.assertionPathPlaceholder")}
+                className="text-xs bg-background"
+                onChange={(e) =>
+                  updateAssertion(index, {
+                    path: e.target.value.split(".").filter(Boolean),
+                  })
+                }
+              />
+              {assertion.type == "llm" ? (
+                <>
+                  <Textarea
+                    defaultValue={assertion.criteria ?? ""}
+                    disabled={!editable}
+                    placeholder={t("Workflow.assertionCriteriaPlaceholder")}
+                    className="text-xs bg-background min-h-16 resize-y"
+                    onChange={(e) =>
+                      updateAssertion(index, { criteria: e.target.value })
+                    }
+                  />
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {t("Workflow.judgeModel")}
+                    <SelectModel
+                      currentModel={assertion.model}
+                      onSelect={(model) => updateAssertion(index, { model })}
+                    />
+                  </div>
+                </>
+              ) : (
+                <Textarea
+                  key={assertion.type}
+                  defaultValue={toJsonText(
+                    assertion.type == "schema"
+                      ? assertion.schema
+                      : assertion.expected,
+                  )}
+                  disabled={!editable}
+                  placeholder={
+                    assertion.type == "schema"
+                      ? '{ "type": "object" }'
+                      : t("Workflow.assertionExpectedPlaceholder")
+                  }
+                  className="font-mono text-xs bg-background min-h-16 resize-y"
+                  onChange={(e) =>
+                    updateAssertion(
+                      index,
+                      assertion.type == "schema"
+                        ? { schema: toSchema(e.target.value) }
+                        : { expected: fromJsonText(e.target.value) },
+                    )
+                  }
+                />
+              )}
+              {assertionResult && (
+                <div
+                  className={cn(
+                    "flex flex-col gap-1 text-xs",
+                    assertionResult.passed
+                      ? "text-muted-foreground"
+                      : "text-destructive",
+                  )}
+                >
+                  <div className="flex items-center gap-1">
+                    {assertionResult.passed ? (
+                      <Check className="size-3" />
+                    ) : (
+                      <XIcon className="size-3" />
+                    )}
+                    <span className="truncate">
+                      {assertionResult.message ??
+                        (assertionResult.passed
+                          ? t("Workflow.assertionPassed")
+                          : t("Workflow.assertionFailed"))}
+                    </span>
+                  </div>
+                  {!assertionResult.passed && (
+                    <JsonView data={assertionResult.actual} />
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {editable && (
+          <Button
+            variant="ghost"
+            onClick={() =>
+              setAssertions((prev) => [
+                ...prev,
+                { id: generateUUID(), type: "equals", path: [] },
+              ])
+            }
+            className="w-full border-dashed border text-muted-foreground"
+          >
+            <PlusIcon /> {t("Workflow.addAssertion")}
+          </Button>
+        )}
+      </div>
+
+      {result?.error && (
+        <p className="text-xs text-destructive break-words">{result.error}</p>
+      )}
+
+      <div className="flex items-center gap-2">
+        {editable && (
+          <Button variant="ghost" size="icon" onClick={remove}>
+            <TrashIcon className="size-3.5" />
+          </Button>
+        )}
+        <Button
+          variant="secondary"
+          className="ml-auto"
+          disabled={isRunning || isDirty}
+          onClick={onRun}
+        >
+          {isRunning ? (
+            <Loader className="size-3.5 animate-spin" />
+          ) : (
+            t("Common.run")
+          )}
+        </Button>
+        {editable && (
+          <Button
+            disabled={!isDirty || isSaving || !input.success || !name.trim()}
+            onClick={save}
+          >
+            {isSaving ? (
+              <Loader className="size-3.5 animate-spin" />
+            ) : (
+              t("Common.save")
+            )}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
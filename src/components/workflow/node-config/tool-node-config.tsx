@@ -40,11 +40,7 @@ export const ToolNodeDataConfig = memo(function ({
   const nodes = useNodes() as UINode[];
   const edges = useEdges();
   const editable = useWorkflowStore((state) => {
-    return (
-      state.processIds.length === 0 &&
-      state.hasEditAccess &&
-      !state.workflow?.isPublished
-    );
+    return state.processIds.length === 0 && state.hasEditAccess;
   });
 
   const { data: mcpList } = useMcpList();
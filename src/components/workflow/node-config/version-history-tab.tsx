@@ -0,0 +1,276 @@
+"use client";
+
+import { useWorkflowStore } from "@/app/store/workflow.store";
+import { Edge, useReactFlow } from "@xyflow/react";
+import { DBWorkflowVersion, WorkflowVersionSummary } from "app-types/workflow";
+import { NodeKind, UINode } from "lib/ai/workflow/workflow.interface";
+import {
+  WorkflowVersionDiff,
+  diffWorkflowVersions,
+  isEmptyVersionDiff,
+  toUIStructure,
+} from "lib/ai/workflow/workflow-version";
+import { cn, fetcher } from "lib/utils";
+import { notify } from "lib/notify";
+import { ChevronLeft, Loader, RotateCcwIcon, XIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useMemo, useState } from "react";
+import useSWR from "swr";
+import { safe } from "ts-safe";
+import { toast } from "sonner";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { Button } from "ui/button";
+import { Separator } from "ui/separator";
+import { FlipWords } from "ui/flip-words";
+import { NodeIcon } from "../node-icon";
+
+const EMPTY_STRUCTURE = { nodes: [] as UINode[], edges: [] as Edge[] };
+
+// "draft" compares the editor against the latest version
+type Selection = "draft" | number;
+
+export function VersionHistoryTab({
+  close,
+  onSave,
+}: {
+  close: () => void;
+  onSave: () => Promise<void>;
+}) {
+  const t = useTranslations();
+  const { workflow, processIds, hasEditAccess, addProcess } =
+    useWorkflowStore();
+  const { getNodes, getEdges } = useReactFlow();
+  const [selected, setSelected] = useState<Selection>();
+
+  const { data: versions, isLoading } = useSWR<WorkflowVersionSummary[]>(
+    `/api/workflow/${workflow!.id}/versions`,
+    fetcher,
+  );
+  const latest = versions?.[0]?.version;
+
+  // The selected version is compared with the one before it
+  const [toVersion, fromVersion] =
+    selected == "draft" ? [undefined, latest] : [selected, (selected ?? 1) - 1];
+
+  const { data: to } = useSWR<DBWorkflowVersion>(
+    toVersion ? `/api/workflow/${workflow!.id}/versions/${toVersion}` : null,
+    fetcher,
+  );
+  const { data: from } = useSWR<DBWorkflowVersion>(
+    selected && fromVersion
+      ? `/api/workflow/${workflow!.id}/versions/${fromVersion}`
+      : null,
+    fetcher,
+  );
+
+  const diff = useMemo(() => {
+    if (!selected) return;
+    if (fromVersion && !from) return;
+    const fromStructure = from ? toUIStructure(from) : EMPTY_STRUCTURE;
+    if (selected == "draft") {
+      return diffWorkflowVersions(fromStructure, {
+        nodes: getNodes() as UINode[],
+        edges: getEdges(),
+      });
+    }
+    if (!to) return;
+    return diffWorkflowVersions(fromStructure, toUIStructure(to));
+  }, [selected, from, to]);
+
+  const restore = async (version: number) => {
+    const ok = await notify.confirm({
+      description: t("Workflow.restoreVersionConfirm", { version }),
+    });
+    if (!ok) return;
+    const stop = addProcess();
+    // Pending edits are saved first, so the restore is the last change
+    safe(() => onSave())
+      .map(() =>
+        fetch(`/api/workflow/${workflow!.id}/versions/${version}/rollback`, {
+          method: "POST",
+        }).then((res) => {
+          if (!res.ok) throw new Error(res.statusText);
+        }),
+      )
+      .ifOk(() => {
+        toast.success(t("Workflow.versionRestored", { version }));
+        // The editor keeps its own copy of the structure
+        window.location.reload();
+      })
+      .ifFail(handleErrorWithToast)
+      .watch(stop);
+  };
+
+  return (
+    <div className="fade-300 w-sm h-[85vh] bg-card border rounded-lg shadow-lg overflow-y-auto py-4">
+      <div className="flex flex-col px-4">
+        <div className="flex items-center gap-2 w-full h-9">
+          {selected && (
+            <div
+              className="p-1 rounded hover:bg-secondary cursor-pointer"
+              onClick={() => setSelected(undefined)}
+            >
+              <ChevronLeft className="size-3.5" />
+            </div>
+          )}
+          <span className="font-semibold">
+            {selected == "draft" && latest
+              ? t("Workflow.changesSinceVersion", { version: latest })
+              : selected
+                ? t("Workflow.changesInVersion", { version: selected })
+                : t("Workflow.versionHistory")}
+          </span>
+          <div
+            className="p-1 rounded hover:bg-secondary cursor-pointer ml-auto"
+            onClick={close}
+          >
+            <XIcon className="size-3.5" />
+          </div>
+        </div>
+      </div>
+      <Separator className="my-4" />
+
+      {!selected ? (
+        <div className="flex flex-col px-4">
+          <div
+            onClick={() => setSelected("draft")}
+            className="cursor-pointer hover:bg-secondary flex items-center gap-2 text-sm rounded-sm px-2 py-1.5"
+          >
+            <span className="font-semibold">{t("Workflow.draft")}</span>
+          </div>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-40">
+              <Loader className="size-4 animate-spin" />
+            </div>
+          ) : !versions?.length ? (
+            <div className="flex items-center justify-center h-40">
+              <FlipWords
+                className="text-sm text-muted-foreground"
+                words={[t("Workflow.noVersions")]}
+              />
+            </div>
+          ) : (
+            versions.map((version) => (
+              <div
+                key={version.id}
+                onClick={() => setSelected(version.version)}
+                className="cursor-pointer hover:bg-secondary flex items-center gap-2 text-sm rounded-sm px-2 py-1.5"
+              >
+                <span className="font-semibold">v{version.version}</span>
+                {workflow?.isPublished && version.version == latest && (
+                  <span className="text-[10px] px-1.5 rounded-sm bg-green-500/10 text-green-500">
+                    {t("Workflow.live")}
+                  </span>
+                )}
+                <span className="ml-auto text-xs text-muted-foreground truncate">
+                  {new Date(version.createdAt).toLocaleString()} ·{" "}
+                  {version.userName}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      ) : !diff ? (
+        <div className="flex items-center justify-center h-40">
+          <Loader className="size-4 animate-spin" />
+        </div>
+      ) : (
+        <div className="flex flex-col gap-4 px-4">
+          <VersionDiffView
+            diff={diff}
+            nodes={[
+              ...(from ? toUIStructure(from).nodes : []),
+              ...diff.addedNodes,
+            ]}
+          />
+          {selected != "draft" && hasEditAccess && (
+            <Button
+              variant="secondary"
+              disabled={processIds.length > 0}
+              onClick={() => restore(selected)}
+            >
+              <RotateCcwIcon />
+              {t("Workflow.restoreVersion")}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function VersionDiffView({
+  diff,
+  nodes,
+}: {
+  diff: WorkflowVersionDiff;
+  nodes: UINode[];
+}) {
+  const t = useTranslations();
+  if (isEmptyVersionDiff(diff)) {
+    return (
+      <div className="flex items-center justify-center h-40">
+        <FlipWords
+          className="text-sm text-muted-foreground"
+          words={[t("Workflow.noChanges")]}
+        />
+      </div>
+    );
+  }
+  const nodeName = (id: string) =>
+    nodes.find((node) => node.id === id)?.data.name ?? id;
+
+  const nodeSections = [
+    [t("Workflow.addedNodes"), diff.addedNodes, "text-green-500"],
+    [t("Workflow.removedNodes"), diff.removedNodes, "text-destructive"],
+    [t("Workflow.changedNodes"), diff.changedNodes, "text-blue-500"],
+  ] as const;
+  const edgeSections = [
+    [t("Workflow.addedEdges"), diff.addedEdges, "text-green-500"],
+    [t("Workflow.removedEdges"), diff.removedEdges, "text-destructive"],
+  ] as const;
+
+  return (
+    <div className="flex flex-col gap-4">
+      {nodeSections.map(
+        ([label, items, className]) =>
+          items.length > 0 && (
+            <div key={label} className="flex flex-col gap-1">
+              <p className={cn("text-xs font-semibold", className)}>{label}</p>
+              {items.map((node) => (
+                <div
+                  key={node.id}
+                  className="flex items-center gap-2 text-sm px-2 py-1"
+                >
+                  <div className="border rounded overflow-hidden">
+                    <NodeIcon
+                      type={node.data.kind as NodeKind}
+                      iconClassName="size-3"
+                      className="rounded-none"
+                    />
+                  </div>
+                  <span className="truncate">{node.data.name}</span>
+                </div>
+              ))}
+            </div>
+          ),
+      )}
+      {edgeSections.map(
+        ([label, items, className]) =>
+          items.length > 0 && (
+            <div key={label} className="flex flex-col gap-1">
+              <p className={cn("text-xs font-semibold", className)}>{label}</p>
+              {items.map((edge) => (
+                <div
+                  key={edge.id}
+                  className="text-xs px-2 py-1 text-muted-foreground truncate"
+                >
+                  {nodeName(edge.source)} → {nodeName(edge.target)}
+                </div>
+              ))}
+            </div>
+          ),
+      )}
+    </div>
+  );
+}
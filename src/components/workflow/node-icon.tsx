@@ -5,13 +5,17 @@ import { cn } from "lib/utils";
 import {
   BotIcon,
   BoxIcon,
+  HandIcon,
   HardDriveUpload,
   HouseIcon,
   InfoIcon,
   LandPlotIcon,
+  MergeIcon,
+  RepeatIcon,
   SplitIcon,
   TerminalIcon,
   TextIcon,
+  WorkflowIcon,
   WrenchIcon,
 } from "lucide-react";
 import { useMemo } from "react";
@@ -41,6 +45,14 @@ export function NodeIcon({
         return TextIcon;
       case NodeKind.Code:
         return TerminalIcon;
+      case NodeKind.Loop:
+        return RepeatIcon;
+      case NodeKind.SubWorkflow:
+        return WorkflowIcon;
+      case NodeKind.Approval:
+        return HandIcon;
+      case NodeKind.Merge:
+        return MergeIcon;
       default:
         return BoxIcon;
     }
@@ -65,7 +77,15 @@ export function NodeIcon({
                       ? "bg-purple-500"
                       : type === NodeKind.Condition
                         ? "bg-amber-500"
-                        : "bg-card",
+                        : type === NodeKind.Loop
+                          ? "bg-teal-500"
+                          : type === NodeKind.SubWorkflow
+                            ? "bg-cyan-500"
+                            : type === NodeKind.Approval
+                              ? "bg-orange-500"
+                              : type === NodeKind.Merge
+                                ? "bg-lime-500"
+                                : "bg-card",
         "p-1 rounded",
         className,
       )}
@@ -14,10 +14,12 @@ import { NodeRuntimeHistory } from "lib/ai/workflow/workflow.interface";
 
 import { Badge } from "ui/badge";
 import {
+  BanIcon,
   CheckIcon,
   CopyIcon,
   Loader2Icon,
   TriangleAlertIcon,
+  WrenchIcon,
 } from "lucide-react";
 import JsonView from "ui/json-view";
 import { useCopy } from "@/hooks/use-copy";
@@ -33,7 +35,14 @@ export function NodeResultPopup({
 }: {
   history: Pick<
     NodeRuntimeHistory,
-    "name" | "status" | "startedAt" | "endedAt" | "error" | "result"
+    | "name"
+    | "status"
+    | "startedAt"
+    | "endedAt"
+    | "error"
+    | "attempts"
+    | "toolCalls"
+    | "result"
   >;
   children: ReactNode;
   disabled?: boolean;
@@ -41,7 +50,7 @@ export function NodeResultPopup({
   const { copy, copied } = useCopy();
   const t = useTranslations();
 
-  const [tab, setTab] = useState<"input" | "output">("output");
+  const [tab, setTab] = useState<"input" | "output" | "tools">("output");
 
   const duration = useMemo(() => {
     if (history.endedAt) {
@@ -71,7 +80,8 @@ export function NodeResultPopup({
                 variant={
                   history.status === "fail"
                     ? "destructive"
-                    : history.status === "running"
+                    : history.status === "running" ||
+                        history.status === "cancelled"
                       ? "secondary"
                       : "default"
                 }
@@ -80,6 +90,8 @@ export function NodeResultPopup({
                   <TriangleAlertIcon className="size-3" />
                 ) : history.status === "running" ? (
                   <Loader2Icon className="size-3 animate-spin" />
+                ) : history.status === "cancelled" ? (
+                  <BanIcon className="size-3" />
                 ) : (
                   <CheckIcon className="size-3" />
                 )}
@@ -98,7 +110,38 @@ export function NodeResultPopup({
               </p>
               <p>{history.status === "running" ? "N/A" : duration}</p>
             </div>
+            {history.attempts && (
+              <div>
+                <p className="text-muted-foreground mb-2">
+                  {t("Workflow.attempts")}
+                </p>
+                <p>{history.attempts.length}</p>
+              </div>
+            )}
           </div>
+          {history.attempts?.some((attempt) => attempt.error) && (
+            <div className="flex flex-col gap-1 mb-4 text-xs">
+              {history.attempts.map(
+                (attempt, i) =>
+                  attempt.error && (
+                    <div
+                      key={i}
+                      className="flex items-center gap-2 text-destructive"
+                    >
+                      <TriangleAlertIcon className="size-3 shrink-0" />
+                      <span className="font-semibold">#{i + 1}</span>
+                      <span className="truncate">{attempt.error.message}</span>
+                      <span className="ml-auto text-muted-foreground">
+                        {((attempt.endedAt - attempt.startedAt) / 1000).toFixed(
+                          3,
+                        )}
+                        s
+                      </span>
+                    </div>
+                  ),
+              )}
+            </div>
+          )}
           <div className="w-full h-full flex flex-col gap-2">
             <div className="flex items-center relative">
               <div className="absolute left-0 top-0 border-b w-full h-full pointer-events-none" />
@@ -124,50 +167,100 @@ export function NodeResultPopup({
               >
                 output
               </Button>
+              {history.toolCalls?.length ? (
+                <Button
+                  key="tools"
+                  variant="ghost"
+                  className={cn(
+                    "rounded-none",
+                    tab == "tools" && "border-b border-primary",
+                  )}
+                  onClick={() => setTab("tools")}
+                >
+                  {t("Workflow.toolCalls")}
+                  <span className="text-muted-foreground">
+                    {history.toolCalls.length}
+                  </span>
+                </Button>
+              ) : null}
             </div>
-            <div className="flex flex-col gap-2 w-full p-4 pt-2 min-w-0">
-              {tab == "output" && history.status === "fail" ? null : (
-                <>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="ml-auto"
-                    onClick={() =>
-                      copy(
-                        JSON.stringify(
-                          tab == "input"
-                            ? history.result?.input
-                            : history.result?.output,
-                        ),
-                      )
+            {tab == "tools" ? (
+              <div className="flex flex-col gap-4 w-full p-4 min-w-0">
+                {history.toolCalls?.map((call, i) => (
+                  <div key={i} className="flex flex-col gap-2 text-xs">
+                    <div
+                      className={cn(
+                        "flex items-center gap-2",
+                        call.error && "text-destructive",
+                      )}
+                    >
+                      {call.error ? (
+                        <TriangleAlertIcon className="size-3 shrink-0" />
+                      ) : (
+                        <WrenchIcon className="size-3 shrink-0" />
+                      )}
+                      <span className="font-semibold">{call.toolName}</span>
+                      <span className="ml-auto text-muted-foreground">
+                        {t("Workflow.toolCallStep", { step: call.step })}
+                      </span>
+                    </div>
+                    <JsonView
+                      initialExpandDepth={1}
+                      data={{
+                        input: call.input,
+                        ...(call.error
+                          ? { error: call.error }
+                          : { output: call.output }),
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex flex-col gap-2 w-full p-4 pt-2 min-w-0">
+                {tab == "output" && history.status === "fail" ? null : (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="ml-auto"
+                      onClick={() =>
+                        copy(
+                          JSON.stringify(
+                            tab == "input"
+                              ? history.result?.input
+                              : history.result?.output,
+                          ),
+                        )
+                      }
+                    >
+                      {copied ? (
+                        <CheckIcon className="size-3" />
+                      ) : (
+                        <CopyIcon className="size-3" />
+                      )}
+                    </Button>
+                  </>
+                )}
+                {tab == "output" && history.status === "fail" ? (
+                  <Alert variant="destructive" className="flex flex-col gap-2">
+                    <AlertTitle>Error</AlertTitle>
+                    <AlertDescription>
+                      {errorToString(history.error)}
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <JsonView
+                    initialExpandDepth={4}
+                    data={
+                      tab == "input"
+                        ? history.result?.input
+                        : history.result?.output
                     }
-                  >
-                    {copied ? (
-                      <CheckIcon className="size-3" />
-                    ) : (
-                      <CopyIcon className="size-3" />
-                    )}
-                  </Button>
-                </>
-              )}
-              {tab == "output" && history.status === "fail" ? (
-                <Alert variant="destructive" className="flex flex-col gap-2">
-                  <AlertTitle>Error</AlertTitle>
-                  <AlertDescription>
-                    {errorToString(history.error)}
-                  </AlertDescription>
-                </Alert>
-              ) : (
-                <JsonView
-                  initialExpandDepth={4}
-                  data={
-                    tab == "input"
-                      ? history.result?.input
-                      : history.result?.output
-                  }
-                />
-              )}
-            </div>
+                  />
+                )}
+              </div>
+            )}
           </div>
         </div>
       </DialogContent>
@@ -0,0 +1,45 @@
+"use client";
+
+import { cn } from "lib/utils";
+
+/**
+ * Shows when a node ran within the whole run.
+ * Nodes of parallel branches overlap, so each branch's timing can be compared.
+ */
+export function NodeTimingBar({
+  startedAt,
+  endedAt,
+  runStartedAt,
+  runEndedAt,
+  status,
+}: {
+  startedAt: number;
+  endedAt?: number;
+  runStartedAt: number;
+  runEndedAt: number;
+  status?: string;
+}) {
+  const total = Math.max(1, runEndedAt - runStartedAt);
+  const left = ((startedAt - runStartedAt) / total) * 100;
+  const width = (((endedAt ?? runEndedAt) - startedAt) / total) * 100;
+
+  return (
+    <div className="absolute left-9 right-2 bottom-0.5 h-0.5">
+      <div
+        className={cn(
+          "absolute h-full rounded-full min-w-0.5",
+          status == "fail"
+            ? "bg-destructive"
+            : status == "waiting"
+              ? "bg-orange-400"
+              : status == "cancelled"
+                ? "bg-muted-foreground"
+                : status == "running"
+                  ? "bg-blue-500 animate-pulse"
+                  : "bg-green-400/70",
+        )}
+        style={{ left: `${left}%`, width: `${width}%` }}
+      />
+    </div>
+  );
+}
@@ -21,6 +21,15 @@ import { nextTick } from "lib/utils";
 import { ToolNodeDataConfig } from "./node-config/tool-node-config";
 import { HttpNodeConfig } from "./node-config/http-node-config";
 import { TemplateNodeConfig } from "./node-config/template-node-config";
+import { LoopNodeDataConfig } from "./node-config/loop-node-config";
+import { SubWorkflowNodeDataConfig } from "./node-config/sub-workflow-node-config";
+import { ApprovalNodeDataConfig } from "./node-config/approval-node-config";
+import { MergeNodeDataConfig } from "./node-config/merge-node-config";
+import { CodeNodeDataConfig } from "./node-config/code-node-config";
+import { NodeErrorPolicyConfig } from "./node-config/node-error-policy-config";
+import { isErrorPolicySupported } from "lib/ai/workflow/node-error-policy";
+import { NodeMockConfig } from "./node-config/node-mock-config";
+import { isMockSupported } from "lib/ai/workflow/node-mock";
 import { useTranslations } from "next-intl";
 
 export function SelectedNodeConfigTab({ node }: { node: UINode }) {
@@ -99,6 +108,16 @@ export function SelectedNodeConfigTab({ node }: { node: UINode }) {
           <HttpNodeConfig node={node} />
         ) : node.data.kind === NodeKind.Template ? (
           <TemplateNodeConfig data={node.data} />
+        ) : node.data.kind === NodeKind.Code ? (
+          <CodeNodeDataConfig data={node.data} />
+        ) : node.data.kind === NodeKind.Loop ? (
+          <LoopNodeDataConfig data={node.data} />
+        ) : node.data.kind === NodeKind.SubWorkflow ? (
+          <SubWorkflowNodeDataConfig data={node.data} />
+        ) : node.data.kind === NodeKind.Approval ? (
+          <ApprovalNodeDataConfig data={node.data} />
+        ) : node.data.kind === NodeKind.Merge ? (
+          <MergeNodeDataConfig data={node.data} />
         ) : node.data.kind === NodeKind.Note ? (
           <div className="h-full flex flex-col gap-2 px-4">
             <Label
@@ -121,6 +140,20 @@ export function SelectedNodeConfigTab({ node }: { node: UINode }) {
         ) : null}
       </div>
 
+      {isErrorPolicySupported(node.data.kind) && (
+        <>
+          <Separator className="my-6" />
+          <NodeErrorPolicyConfig data={node.data} />
+        </>
+      )}
+
+      {isMockSupported(node.data.kind) && (
+        <>
+          <Separator className="my-6" />
+          <NodeMockConfig data={node.data} />
+        </>
+      )}
+
       {![NodeKind.Output, NodeKind.Note].includes(node.data.kind) && (
         <>
           <Separator className="my-6" />
@@ -0,0 +1,57 @@
+"use client";
+
+import { ApprovalDecision } from "lib/ai/workflow/approval";
+import { PauseIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useState } from "react";
+import { Button } from "ui/button";
+import { Input } from "ui/input";
+
+export function WorkflowApprovalForm({
+  name,
+  message,
+  onDecision,
+  disabled,
+}: {
+  name: string;
+  message?: string;
+  onDecision: (decision: ApprovalDecision) => void;
+  disabled?: boolean;
+}) {
+  const t = useTranslations();
+  const [comment, setComment] = useState("");
+
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border p-3 text-sm">
+      <div className="flex items-center gap-2 font-semibold">
+        <PauseIcon className="size-3.5" />
+        {t("Workflow.waitingForApproval", { name })}
+      </div>
+      {message && (
+        <p className="text-muted-foreground whitespace-pre-wrap">{message}</p>
+      )}
+      <Input
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder={t("Workflow.approvalCommentPlaceholder")}
+      />
+      <div className="flex items-center gap-2 justify-end">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          onClick={() => onDecision({ approved: false, comment })}
+        >
+          {t("Common.reject")}
+        </Button>
+        <Button
+          size="sm"
+          disabled={disabled}
+          onClick={() => onDecision({ approved: true, comment })}
+        >
+          {t("Common.approve")}
+        </Button>
+      </div>
+    </div>
+  );
+}
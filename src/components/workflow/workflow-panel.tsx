@@ -6,7 +6,14 @@ import { Separator } from "@/components/ui/separator";
 
 import { UINode } from "lib/ai/workflow/workflow.interface";
 
-import { Loader, PlayIcon, AlignHorizontalSpaceAround } from "lucide-react";
+import {
+  Loader,
+  PlayIcon,
+  AlignHorizontalSpaceAround,
+  HistoryIcon,
+  GitCommitVerticalIcon,
+  FlaskConicalIcon,
+} from "lucide-react";
 import { Button } from "ui/button";
 
 import equal from "lib/equal";
@@ -19,6 +26,9 @@ import { DBWorkflow } from "app-types/workflow";
 
 import { SelectedNodeConfigTab } from "./selected-node-config-tab";
 import { ExecuteTab } from "./node-config/execute-tab";
+import { RunHistoryTab } from "./node-config/run-history-tab";
+import { VersionHistoryTab } from "./node-config/version-history-tab";
+import { TestCasesTab } from "./node-config/test-cases-tab";
 import { useReactFlow } from "@xyflow/react";
 import { safe } from "ts-safe";
 import { handleErrorWithToast } from "ui/shared-toast";
@@ -47,6 +57,10 @@ export const WorkflowPanel = memo(
   }) {
     const { setNodes, getNodes, getEdges } = useReactFlow();
     const [showExecutePanel, setShowExecutePanel] = useState(false);
+    const [showRunHistoryPanel, setShowRunHistoryPanel] = useState(false);
+    const [showVersionPanel, setShowVersionPanel] = useState(false);
+    const [showTestsPanel, setShowTestsPanel] = useState(false);
+    const [replay, setReplay] = useState<{ runId: string; nodeId: string }>();
     const [isEditing, setIsEditing] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
     const t = useTranslations();
@@ -124,7 +138,10 @@ export const WorkflowPanel = memo(
               if (res.status != 200) throw new Error(res.statusText);
             }),
           )
-          .ifOk(() => mutate(`/api/workflow/${workflow.id}`))
+          .ifOk(() => {
+            mutate(`/api/workflow/${workflow.id}`);
+            mutate(`/api/workflow/${workflow.id}/versions`);
+          })
           .ifFail((e) => handleErrorWithToast(e))
           .watch(close);
       },
@@ -191,47 +208,116 @@ export const WorkflowPanel = memo(
                   return node;
                 });
               });
+              setShowRunHistoryPanel(false);
+              setShowVersionPanel(false);
+              setShowTestsPanel(false);
+              setReplay(undefined);
               setShowExecutePanel(!showExecutePanel);
             }}
           >
             <PlayIcon />
             {t("Common.run")}
           </Button>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="secondary"
+                size="icon"
+                disabled={isProcessing}
+                onClick={() => {
+                  setShowExecutePanel(false);
+                  setShowVersionPanel(false);
+                  setShowTestsPanel(false);
+                  setShowRunHistoryPanel(!showRunHistoryPanel);
+                }}
+              >
+                <HistoryIcon className="size-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              <p>{t("Workflow.runHistory")}</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="secondary"
+                size="icon"
+                disabled={isProcessing}
+                onClick={() => {
+                  setShowExecutePanel(false);
+                  setShowRunHistoryPanel(false);
+                  setShowTestsPanel(false);
+                  setShowVersionPanel(!showVersionPanel);
+                }}
+              >
+                <GitCommitVerticalIcon className="size-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              <p>{t("Workflow.versionHistory")}</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="secondary"
+                size="icon"
+                disabled={isProcessing}
+                onClick={() => {
+                  setShowExecutePanel(false);
+                  setShowRunHistoryPanel(false);
+                  setShowVersionPanel(false);
+                  setShowTestsPanel(!showTestsPanel);
+                }}
+              >
+                <FlaskConicalIcon className="size-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              <p>{t("Workflow.testCases")}</p>
+            </TooltipContent>
+          </Tooltip>
 
-          {!workflow.isPublished && (
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button
-                  disabled={isProcessing || !hasEditAccess}
-                  onClick={onSave}
-                  variant="default"
-                >
-                  {isProcessing ? (
-                    <Loader className="size-3.5 animate-spin" />
-                  ) : (
-                    t("Common.save")
-                  )}
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent side="bottom">
-                {t("Workflow.autoSaveDescription")}
-              </TooltipContent>
-            </Tooltip>
-          )}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                disabled={isProcessing || !hasEditAccess}
+                onClick={onSave}
+                variant="default"
+              >
+                {isProcessing ? (
+                  <Loader className="size-3.5 animate-spin" />
+                ) : (
+                  t("Common.save")
+                )}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              {t("Workflow.autoSaveDescription")}
+            </TooltipContent>
+          </Tooltip>
           <div className="h-6">
             <Separator orientation="vertical" />
           </div>
+          {workflow.isPublished && (
+            <Button
+              variant="ghost"
+              disabled={isProcessing || !hasEditAccess}
+              onClick={() => updatePublished(false)}
+            >
+              {t("Workflow.unpublish")}
+            </Button>
+          )}
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
                 variant={"secondary"}
                 disabled={isProcessing || !hasEditAccess}
-                onClick={() => updatePublished(!workflow.isPublished)}
+                onClick={() => updatePublished(true)}
                 className="w-20"
               >
-                {workflow.isPublished
-                  ? t("Common.edit")
-                  : t("Workflow.publish")}
+                {t("Workflow.publish")}
               </Button>
             </TooltipTrigger>
             <TooltipContent side="bottom" align="end" className="w-60 text-sm">
@@ -257,8 +343,32 @@ export const WorkflowPanel = memo(
               close={() => {
                 if (isProcessing) return;
                 setShowExecutePanel(false);
+                setReplay(undefined);
               }}
               onSave={onSave}
+              replay={replay}
+            />
+          )}
+          {showVersionPanel && (
+            <VersionHistoryTab
+              close={() => setShowVersionPanel(false)}
+              onSave={onSave}
+            />
+          )}
+          {showTestsPanel && (
+            <TestCasesTab
+              close={() => setShowTestsPanel(false)}
+              onSave={onSave}
+            />
+          )}
+          {showRunHistoryPanel && (
+            <RunHistoryTab
+              close={() => setShowRunHistoryPanel(false)}
+              onReplay={(replay) => {
+                setShowRunHistoryPanel(false);
+                setReplay(replay);
+                setShowExecutePanel(true);
+              }}
             />
           )}
         </div>
@@ -0,0 +1,175 @@
+"use client";
+
+import { DBWorkflowSchedule } from "app-types/workflow";
+import { getNextCronDate, isValidCron } from "lib/ai/workflow/cron";
+import { cn, fetcher, safeJSONParse } from "lib/utils";
+import { Loader, PlusIcon, TrashIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useMemo, useState } from "react";
+import useSWR, { mutate } from "swr";
+import { safe } from "ts-safe";
+import { Button } from "ui/button";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { Switch } from "ui/switch";
+import { Textarea } from "ui/textarea";
+
+const DEFAULT_CRON = "0 9 * * *";
+
+function requestSchedule(url: string, method: string, body?: object) {
+  return safe(() =>
+    fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body && JSON.stringify(body),
+    }).then(async (res) => {
+      if (!res.ok) {
+        const data = await res.json().catch(() => undefined);
+        throw new Error(data?.details ?? res.statusText);
+      }
+    }),
+  ).ifFail(handleErrorWithToast);
+}
+
+function ScheduleItem({
+  schedule,
+  listKey,
+}: {
+  schedule: DBWorkflowSchedule;
+  listKey: string;
+}) {
+  const t = useTranslations();
+  const [cron, setCron] = useState(schedule.cron);
+  const [input, setInput] = useState(
+    JSON.stringify(schedule.input ?? {}, null, 2),
+  );
+
+  const url = `${listKey}/${schedule.id}`;
+
+  const nextRun = useMemo(() => {
+    if (!isValidCron(cron)) return undefined;
+    return getNextCronDate(cron);
+  }, [cron]);
+
+  const update = (data: Partial<DBWorkflowSchedule>) =>
+    requestSchedule(url, "PUT", data).ifOk(() => mutate(listKey));
+
+  const saveInput = () => {
+    const parsed = safeJSONParse<Record<string, any>>(input || "{}");
+    if (
+      !parsed.success ||
+      typeof parsed.value != "object" ||
+      !parsed.value ||
+      Array.isArray(parsed.value)
+    ) {
+      return handleErrorWithToast(
+        new Error(t("Workflow.invalidScheduleInput")),
+      );
+    }
+    update({ input: parsed.value });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border p-3">
+      <div className="flex items-center gap-2">
+        <Input
+          value={cron}
+          onChange={(e) => setCron(e.target.value)}
+          onBlur={() => cron != schedule.cron && update({ cron })}
+          className={cn(
+            "font-mono bg-input border-transparent",
+            !isValidCron(cron) && "border-destructive",
+          )}
+          placeholder={DEFAULT_CRON}
+        />
+        <Switch
+          checked={schedule.enabled}
+          onCheckedChange={(enabled) => update({ enabled })}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() =>
+            requestSchedule(url, "DELETE").ifOk(() => mutate(listKey))
+          }
+        >
+          <TrashIcon className="size-3.5" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {!isValidCron(cron)
+          ? t("Workflow.invalidCron")
+          : nextRun
+            ? t("Workflow.nextRunAt", { date: nextRun.toLocaleString() })
+            : t("Workflow.scheduleNeverRuns")}
+        {schedule.lastRunAt &&
+          ` · ${t("Workflow.lastRunAt", {
+            date: new Date(schedule.lastRunAt).toLocaleString(),
+          })}`}
+      </p>
+      <Textarea
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onBlur={saveInput}
+        className="font-mono text-xs resize-none max-h-28 overflow-y-auto bg-input border-transparent"
+        placeholder="{}"
+      />
+    </div>
+  );
+}
+
+export function WorkflowSchedules({ workflowId }: { workflowId: string }) {
+  const t = useTranslations();
+  const listKey = `/api/workflow/${workflowId}/schedules`;
+  const { data: schedules, isLoading } = useSWR<DBWorkflowSchedule[]>(
+    listKey,
+    fetcher,
+  );
+  const [isAdding, setIsAdding] = useState(false);
+
+  const addSchedule = () => {
+    setIsAdding(true);
+    requestSchedule(listKey, "POST", { cron: DEFAULT_CRON, input: {} })
+      .ifOk(() => mutate(listKey))
+      .watch(() => setIsAdding(false));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center">
+        <Label>{t("Workflow.schedules")}</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto"
+          disabled={isAdding}
+          onClick={addSchedule}
+        >
+          {isAdding ? (
+            <Loader className="size-3.5 animate-spin" />
+          ) : (
+            <PlusIcon className="size-3.5" />
+          )}
+          {t("Workflow.addSchedule")}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {t("Workflow.schedulesDescription")}
+      </p>
+      {isLoading ? (
+        <Loader className="size-3.5 animate-spin mx-auto" />
+      ) : (
+        <div className="flex flex-col gap-2 max-h-64 overflow-y-auto">
+          {schedules?.map((schedule) => (
+            <ScheduleItem
+              key={schedule.id}
+              schedule={schedule}
+              listKey={listKey}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
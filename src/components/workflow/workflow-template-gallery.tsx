@@ -0,0 +1,317 @@
+"use client";
+
+import {
+  Handle,
+  Position,
+  ReactFlow,
+  Background,
+  type Edge,
+  type NodeProps,
+} from "@xyflow/react";
+import "@xyflow/react/dist/style.css";
+import {
+  DBEdge,
+  DBNode,
+  DBWorkflow,
+  WorkflowTemplate,
+} from "app-types/workflow";
+import {
+  convertDBEdgeToUIEdge,
+  convertDBNodeToUINode,
+} from "lib/ai/workflow/shared.workflow";
+import { NodeKind, UINode } from "lib/ai/workflow/workflow.interface";
+import { WorkflowImportWarning } from "lib/ai/workflow/workflow-bundle";
+import { cn, fetcher } from "lib/utils";
+import {
+  AlertTriangleIcon,
+  CheckIcon,
+  LayoutTemplateIcon,
+  Loader,
+} from "lucide-react";
+import { useTranslations } from "next-intl";
+import { memo, useMemo, useState } from "react";
+import useSWR from "swr";
+import { safe } from "ts-safe";
+import { Avatar, AvatarFallback, AvatarImage } from "ui/avatar";
+import { Badge } from "ui/badge";
+import { Button } from "ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "ui/dialog";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { Skeleton } from "ui/skeleton";
+import { NodeIcon } from "./node-icon";
+
+export const WORKFLOW_TEMPLATES_KEY = "/api/workflow/templates";
+
+const EXAMPLE_NAME_KEYS: Record<string, string> = {
+  "baby-research": "Workflow.example.babyResearch",
+  "get-weather": "Workflow.example.getWeather",
+};
+
+const PreviewNode = memo(function PreviewNode({ data }: NodeProps<UINode>) {
+  const hasHandles = data.kind != NodeKind.Note;
+  return (
+    <div
+      className={cn(
+        "py-3 px-4 w-56 bg-secondary border-2 rounded-lg flex items-center gap-2",
+        data.kind == NodeKind.Note && "bg-card/40 rounded-none border-input",
+      )}
+    >
+      {hasHandles && data.kind != NodeKind.Input && (
+        <Handle
+          type="target"
+          position={Position.Left}
+          isConnectable={false}
+          className="h-4! border-none! bg-blue-500! w-[1px]!"
+        />
+      )}
+      <NodeIcon type={data.kind} />
+      <span className="font-semibold text-sm truncate">{data.name}</span>
+      {hasHandles && data.kind != NodeKind.Output && (
+        <Handle
+          type="source"
+          position={Position.Right}
+          isConnectable={false}
+          className="h-4! border-none! bg-blue-500! w-[1px]!"
+        />
+      )}
+    </div>
+  );
+});
+
+const previewNodeTypes = {
+  default: PreviewNode,
+};
+
+function TemplatePreview({ template }: { template: WorkflowTemplate }) {
+  const { nodes, edges } = useMemo(
+    () => ({
+      nodes: template.nodes.map((node) =>
+        convertDBNodeToUINode(node as DBNode),
+      ),
+      // The preview nodes have a single handle on each side
+      edges: template.edges.map(
+        (edge): Edge => ({
+          ...convertDBEdgeToUIEdge(edge as DBEdge),
+          sourceHandle: undefined,
+          targetHandle: undefined,
+        }),
+      ),
+    }),
+    [template],
+  );
+
+  return (
+    <div className="h-72 w-full rounded-lg border overflow-hidden">
+      <ReactFlow
+        key={template.id}
+        id={`template-${template.id}`}
+        fitView
+        nodes={nodes}
+        edges={edges}
+        nodeTypes={previewNodeTypes}
+        nodesDraggable={false}
+        nodesConnectable={false}
+        elementsSelectable={false}
+        minZoom={0.1}
+        maxZoom={1}
+      >
+        <Background gap={12} size={0.6} />
+      </ReactFlow>
+    </div>
+  );
+}
+
+function TemplateRequirements({ template }: { template: WorkflowTemplate }) {
+  const t = useTranslations("Workflow");
+
+  if (!template.requirements.length) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        {t("templateNoRequirements")}
+      </p>
+    );
+  }
+  return (
+    <div className="flex flex-col gap-1">
+      {template.requirements.map((requirement) => (
+        <div
+          key={`${requirement.type}:${requirement.name}`}
+          className="flex items-center gap-2 text-xs"
+        >
+          {requirement.available ? (
+            <CheckIcon className="size-3 text-green-500" />
+          ) : (
+            <AlertTriangleIcon className="size-3 text-destructive" />
+          )}
+          <span className="text-muted-foreground">
+            {t(`templateRequirementTypes.${requirement.type}`)}
+          </span>
+          <span className="font-medium truncate">{requirement.name}</span>
+          {!requirement.available && (
+            <span className="text-destructive ml-auto">
+              {t("templateRequirementMissing")}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function WorkflowTemplateGallery({
+  onCreated,
+}: {
+  onCreated: (result: {
+    workflow: DBWorkflow;
+    warnings: WorkflowImportWarning[];
+  }) => void;
+}) {
+  const t = useTranslations();
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string>();
+  const [isCreating, setIsCreating] = useState(false);
+
+  const { data, isLoading } = useSWR<{ templates: WorkflowTemplate[] }>(
+    open ? WORKFLOW_TEMPLATES_KEY : null,
+    fetcher,
+  );
+  const templates = data?.templates ?? [];
+  const selected =
+    templates.find((template) => template.id == selectedId) ?? templates[0];
+
+  const templateName = (template: WorkflowTemplate) =>
+    template.source == "example" && EXAMPLE_NAME_KEYS[template.id]
+      ? t(EXAMPLE_NAME_KEYS[template.id])
+      : template.name;
+
+  const copyTemplate = (template: WorkflowTemplate) => {
+    setIsCreating(true);
+    safe(async () => {
+      const response = await fetch(WORKFLOW_TEMPLATES_KEY, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ source: template.source, id: template.id }),
+      });
+      if (!response.ok) throw new Error(await response.text());
+      return response.json() as Promise<{
+        workflow: DBWorkflow;
+        warnings: WorkflowImportWarning[];
+      }>;
+    })
+      .ifOk((result) => {
+        setOpen(false);
+        onCreated(result);
+      })
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsCreating(false));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="secondary">
+          <LayoutTemplateIcon className="size-4" />
+          {t("Workflow.templates")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="md:max-w-5xl!">
+        <DialogHeader>
+          <DialogTitle>{t("Workflow.templateGallery")}</DialogTitle>
+          <DialogDescription>
+            {t("Workflow.templateGalleryDescription")}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col md:flex-row gap-4 min-h-96">
+          <div className="flex flex-col gap-2 md:w-64 shrink-0 max-h-[60vh] overflow-y-auto">
+            {isLoading
+              ? Array(3)
+                  .fill(null)
+                  .map((_, index) => (
+                    <Skeleton key={index} className="w-full h-14" />
+                  ))
+              : templates.map((template) => (
+                  <button
+                    key={`${template.source}:${template.id}`}
+                    type="button"
+                    onClick={() => setSelectedId(template.id)}
+                    className={cn(
+                      "flex items-center gap-3 rounded-lg border p-2 text-left transition-colors hover:bg-input",
+                      selected?.id == template.id && "bg-input",
+                    )}
+                  >
+                    <div
+                      style={{
+                        backgroundColor: template.icon?.style?.backgroundColor,
+                      }}
+                      className="p-1.5 rounded-lg flex items-center justify-center border shrink-0"
+                    >
+                      <Avatar className="size-5">
+                        <AvatarImage src={template.icon?.value} />
+                        <AvatarFallback />
+                      </Avatar>
+                    </div>
+                    <div className="flex flex-col min-w-0">
+                      <span className="text-sm font-medium truncate">
+                        {templateName(template)}
+                      </span>
+                      <span className="text-xs text-muted-foreground truncate">
+                        {template.source == "example"
+                          ? t("Workflow.templateExample")
+                          : t("Workflow.templateBy", {
+                              name: template.userName ?? "",
+                            })}
+                      </span>
+                    </div>
+                  </button>
+                ))}
+          </div>
+          {selected && (
+            <div className="flex flex-col gap-4 flex-1 min-w-0">
+              <div className="flex items-start gap-2">
+                <div className="flex flex-col gap-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold truncate">
+                      {templateName(selected)}
+                    </h3>
+                    {selected.source == "example" && (
+                      <Badge variant="secondary">
+                        {t("Workflow.templateExample")}
+                      </Badge>
+                    )}
+                  </div>
+                  {selected.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-3">
+                      {selected.description}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  className="ml-auto shrink-0"
+                  disabled={isCreating}
+                  onClick={() => copyTemplate(selected)}
+                >
+                  {isCreating && <Loader className="size-4 animate-spin" />}
+                  {t("Workflow.useTemplate")}
+                </Button>
+              </div>
+              <TemplatePreview template={selected} />
+              <div className="flex flex-col gap-2">
+                <h4 className="text-sm font-medium">
+                  {t("Workflow.templateRequirements")}
+                </h4>
+                <TemplateRequirements template={selected} />
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { summarizeUsage } from "lib/ai/workflow/node-usage";
+import { NodeUsage } from "lib/ai/workflow/workflow.interface";
+import { cn } from "lib/utils";
+import { CoinsIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+
+function formatCost(cost: number) {
+  return `$${cost > 0 && cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+/**
+ * Shows the tokens the nodes of a run used and what they cost.
+ * The cost is an estimate from list prices, see lib/ai/model-pricing.
+ */
+export function WorkflowUsageSummary({
+  usages,
+  className,
+}: {
+  usages: (NodeUsage[] | undefined)[];
+  className?: string;
+}) {
+  const t = useTranslations();
+  const summary = summarizeUsage(usages);
+  if (!summary) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div
+          className={cn(
+            "flex items-center gap-1.5 text-xs text-muted-foreground",
+            className,
+          )}
+        >
+          <CoinsIcon className="size-3" />
+          <span>
+            {t("Workflow.usageTokens", {
+              count: summary.totalTokens.toLocaleString(),
+            })}
+          </span>
+          <span>·</span>
+          <span>
+            ~{formatCost(summary.cost)}
+            {summary.unpricedModels.length ? "*" : ""}
+          </span>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent className="flex flex-col gap-1 text-xs max-w-72">
+        <span>
+          {t("Workflow.usageInputTokens")}:{" "}
+          {summary.inputTokens.toLocaleString()}
+        </span>
+        <span>
+          {t("Workflow.usageOutputTokens")}:{" "}
+          {summary.outputTokens.toLocaleString()}
+        </span>
+        <span>
+          {t("Workflow.usageEstimatedCost")}: {formatCost(summary.cost)}
+        </span>
+        {summary.unpricedModels.length > 0 && (
+          <span>
+            *
+            {t("Workflow.usageUnpricedModels", {
+              models: summary.unpricedModels.join(", "),
+            })}
+          </span>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useCopy } from "@/hooks/use-copy";
+import { DBWorkflowWebhook } from "app-types/workflow";
+import { fetcher } from "lib/utils";
+import { notify } from "lib/notify";
+import { Check, Copy, Loader, RefreshCwIcon, TrashIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useMemo, useState } from "react";
+import useSWR, { mutate } from "swr";
+import { safe } from "ts-safe";
+import { Button } from "ui/button";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import { handleErrorWithToast } from "ui/shared-toast";
+
+export function WorkflowWebhook({
+  workflowId,
+  isPublished,
+}: {
+  workflowId: string;
+  isPublished?: boolean;
+}) {
+  const t = useTranslations();
+  const key = `/api/workflow/${workflowId}/webhook`;
+  const { data: webhook, isLoading } = useSWR<DBWorkflowWebhook | null>(
+    key,
+    fetcher,
+  );
+  const [isUpdating, setIsUpdating] = useState(false);
+  const { copied, copy } = useCopy();
+
+  const url = useMemo(() => {
+    if (!webhook) return "";
+    return `${window.location.origin}/api/workflow/${workflowId}/webhook/${webhook.token}`;
+  }, [webhook, workflowId]);
+
+  const request = (method: "POST" | "DELETE") => {
+    setIsUpdating(true);
+    safe(() =>
+      fetch(key, { method }).then((res) => {
+        if (!res.ok) throw new Error(res.statusText);
+      }),
+    )
+      .ifOk(() => mutate(key))
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsUpdating(false));
+  };
+
+  const rotate = async () => {
+    if (webhook) {
+      const ok = await notify.confirm({
+        description: t("Workflow.rotateWebhookTokenConfirm"),
+      });
+      if (!ok) return;
+    }
+    request("POST");
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center">
+        <Label>{t("Workflow.webhook")}</Label>
+        <div className="ml-auto flex items-center">
+          {isUpdating && <Loader className="size-3.5 animate-spin mr-2" />}
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={isUpdating || isLoading}
+            onClick={rotate}
+          >
+            <RefreshCwIcon className="size-3.5" />
+            {webhook
+              ? t("Workflow.rotateWebhookToken")
+              : t("Workflow.createWebhook")}
+          </Button>
+          {webhook && (
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={isUpdating}
+              onClick={() => request("DELETE")}
+            >
+              <TrashIcon className="size-3.5" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {isPublished
+          ? t("Workflow.webhookDescription")
+          : t("Workflow.webhookRequiresPublish")}
+      </p>
+      {webhook && (
+        <div className="flex items-center gap-2">
+          <Input
+            readOnly
+            value={url}
+            className="font-mono text-xs bg-input border-transparent"
+          />
+          <Button variant="ghost" size="icon" onClick={() => copy(url)}>
+            {copied ? (
+              <Check className="size-3" />
+            ) : (
+              <Copy className="size-3" />
+            )}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -28,10 +28,12 @@ import {
 } from "lib/ai/workflow/shared.workflow";
 import { NodeKind, UINode } from "lib/ai/workflow/workflow.interface";
 import { wouldCreateCycle } from "lib/ai/workflow/would-create-cycle";
+import { AppError } from "lib/errors";
 import { createDebounce, fetcher, generateUUID } from "lib/utils";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import useSWR from "swr";
 import { safe } from "ts-safe";
+import { handleErrorWithToast } from "ui/shared-toast";
 
 const nodeTypes = {
   default: DefaultNode,
@@ -76,13 +78,12 @@ export default function Workflow({
 
   const snapshot = useRef({ nodes: initialNodes, edges: initialEdges });
 
+  // Published workflows run their saved versions, so the draft stays editable
   const editable = useMemo(() => {
-    return !isProcessing && hasEditAccess && !workflow?.isPublished;
-  }, [isProcessing, hasEditAccess, workflow?.isPublished]);
+    return !isProcessing && hasEditAccess;
+  }, [isProcessing, hasEditAccess]);
 
   const save = async () => {
-    if (workflow?.isPublished) return;
-
     const diff = extractWorkflowDiff(snapshot.current, { nodes, edges });
 
     if (
@@ -100,7 +101,10 @@ export default function Workflow({
             nodes,
           };
         })
-        .ifFail(() => {
+        .ifFail((error) => {
+          if (error instanceof AppError && error.code == "INVALID_STRUCTURE") {
+            return handleErrorWithToast(error);
+          }
           window.location.reload();
         })
         .watch(stop)
@@ -338,7 +342,11 @@ function saveWorkflow(
       deleteNodes: diff.deleteNodes.map((node) => node.id),
       deleteEdges: diff.deleteEdges.map((edge) => edge.id),
     }),
-  }).then((res) => {
+  }).then(async (res) => {
+    // Rejected structures are reported without discarding the local edits
+    if (res.status == 400) {
+      throw new AppError("INVALID_STRUCTURE", await res.text());
+    }
     if (res.status >= 400) {
       throw new Error(String(res.statusText || res.status || "Error"));
     }
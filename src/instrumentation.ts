@@ -15,6 +15,10 @@ export async function register() {
         (m) => m.initMCPManager,
       );
       await initMCPManager();
+      const initWorkflowScheduler = await import(
+        "./lib/ai/workflow/executor/workflow-scheduler"
+      ).then((m) => m.initWorkflowScheduler);
+      initWorkflowScheduler();
     }
   }
 }
@@ -348,7 +348,11 @@ export class MCPClient {
     }
   }
 
-  async callTool(toolName: string, input?: unknown) {
+  async callTool(
+    toolName: string,
+    input?: unknown,
+    options?: { signal?: AbortSignal }, // Aborting cancels the request on the server
+  ) {
     const id = generateUUID();
     this.inProgressToolCallIds.push(id);
     const execute = async () => {
@@ -356,10 +360,14 @@ export class MCPClient {
       if (this.status === "authorizing") {
         throw new Error("OAuth authorization required. Try Refresh MCP Client");
       }
-      return client?.callTool({
-        name: toolName,
-        arguments: input as Record<string, unknown>,
-      });
+      return client?.callTool(
+        {
+          name: toolName,
+          arguments: input as Record<string, unknown>,
+        },
+        undefined,
+        { signal: options?.signal },
+      );
     };
     return safe(() => this.logger.info("tool call", toolName))
       .ifOk(() => this.scheduleAutoDisconnect()) // disconnect if autoDisconnectSeconds is set
@@ -136,7 +136,9 @@ export class MCPClientsManager {
                     _mcpServerId: id,
                     execute: (params, options: ToolCallOptions) => {
                       options?.abortSignal?.throwIfAborted();
-                      return this.toolCall(id, tool.name, params);
+                      return this.toolCall(id, tool.name, params, {
+                        signal: options?.abortSignal,
+                      });
                     },
                   }),
               };
@@ -257,13 +259,18 @@ export class MCPClientsManager {
     }
     return this.toolCall(client.id, toolName, input);
   }
-  async toolCall(id: string, toolName: string, input: unknown) {
+  async toolCall(
+    id: string,
+    toolName: string,
+    input: unknown,
+    options?: { signal?: AbortSignal },
+  ) {
     return safe(() => this.getClient(id))
       .map((client) => {
         if (!client) throw new Error(`Client ${id} not found`);
         return client.client;
       })
-      .map((client) => client.callTool(toolName, input))
+      .map((client) => client.callTool(toolName, input, options))
       .map((res) => {
         if (res?.content && Array.isArray(res.content)) {
           const parsedResult = {
@@ -0,0 +1,69 @@
+import { ChatModel } from "app-types/chat";
+import { LanguageModelUsage } from "ai";
+
+/**
+ * USD per million tokens.
+ */
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+/**
+ * List prices of the built-in models, used to estimate what a run costs.
+ * Models of OpenAI compatible providers have no price unless added here.
+ */
+export const MODEL_PRICES: Record<string, Record<string, ModelPrice>> = {
+  openai: {
+    "gpt-4.1": { input: 2, output: 8 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+    "o4-mini": { input: 1.1, output: 4.4 },
+    o3: { input: 2, output: 8 },
+    "gpt-5": { input: 1.25, output: 10 },
+    "gpt-5-mini": { input: 0.25, output: 2 },
+    "gpt-5-nano": { input: 0.05, output: 0.4 },
+  },
+  google: {
+    "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+    "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+    "gemini-2.5-pro": { input: 1.25, output: 10 },
+  },
+  anthropic: {
+    "claude-4-sonnet": { input: 3, output: 15 },
+    "claude-4-opus": { input: 15, output: 75 },
+    "claude-3-7-sonnet": { input: 3, output: 15 },
+  },
+  xai: {
+    "grok-4": { input: 3, output: 15 },
+    "grok-3": { input: 3, output: 15 },
+    "grok-3-mini": { input: 0.3, output: 0.5 },
+  },
+};
+
+// Models called without a model selected fall back to this one, see customModelProvider
+const DEFAULT_MODEL: ChatModel = { provider: "openai", model: "gpt-4.1" };
+
+export function getModelPrice(model?: ChatModel): ModelPrice | undefined {
+  const { provider, model: name } = model ?? DEFAULT_MODEL;
+  // Local models and the free OpenRouter models cost nothing
+  if (provider == "ollama" || name.endsWith(":free")) return FREE;
+  return MODEL_PRICES[provider]?.[name];
+}
+
+/**
+ * Estimated USD cost of the tokens used by a model, or undefined when the model has no price.
+ */
+export function estimateCost(
+  model: ChatModel | undefined,
+  usage: LanguageModelUsage,
+): number | undefined {
+  const price = getModelPrice(model);
+  if (!price) return;
+  return (
+    ((usage.inputTokens ?? 0) * price.input +
+      (usage.outputTokens ?? 0) * price.output) /
+    1_000_000
+  );
+}
@@ -2,6 +2,8 @@ import { JSONSchema7 } from "json-schema";
 import { tool as createTool } from "ai";
 import { jsonSchemaToZod } from "lib/json-schema-to-zod";
 import { safe } from "ts-safe";
+import { loadHttpAuth } from "lib/secrets/load-http-auth";
+import { applyHttpAuth, redactSecrets } from "lib/secrets/http-auth";
 
 export const httpFetchSchema: JSONSchema7 = {
   type: "object",
@@ -32,23 +34,46 @@ export const httpFetchSchema: JSONSchema7 = {
       description: "Request timeout in milliseconds",
       default: 10000,
     },
+    auth: {
+      type: "string",
+      description:
+        "Name of one of the user's saved auth profiles to authenticate the request with. Only use it when the user names a profile.",
+    },
   },
   required: ["url"],
 };
 
+/**
+ * Passed by the chat as `experimental_context` so requests can use the user's auth profiles.
+ */
+export type HttpFetchToolContext = { userId?: string };
+
 export const httpFetchTool = createTool({
   description:
     "Make HTTP requests to any URL. Can be used to fetch data from APIs, send data to servers, or interact with web services.",
   inputSchema: jsonSchemaToZod(httpFetchSchema),
-  execute: async ({ url, method = "GET", headers, body, timeout = 10000 }) => {
+  execute: async (
+    { url, method = "GET", headers, body, timeout = 10000, auth },
+    { experimental_context },
+  ) => {
+    let secrets: string[] = [];
     return safe(async () => {
+      let request = { url, headers: { ...(headers ?? {}) } };
+      if (auth) {
+        const userId = (experimental_context as HttpFetchToolContext)?.userId;
+        if (!userId) throw new Error("Auth profiles are not available here");
+        const resolved = await loadHttpAuth(userId, auth, url);
+        secrets = resolved.secrets;
+        request = applyHttpAuth(request, resolved);
+      }
+
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), timeout);
 
       try {
-        const response = await fetch(url, {
+        const response = await fetch(request.url, {
           method,
-          headers: headers ? { ...headers } : undefined,
+          headers: request.headers,
           body:
             body && method !== "GET" && method !== "HEAD" ? body : undefined,
           signal: controller.signal,
@@ -72,14 +97,17 @@ export const httpFetchTool = createTool({
           responseBody = await response.text();
         }
 
-        return {
-          status: response.status,
-          statusText: response.statusText,
-          headers: responseHeaders,
-          body: responseBody,
-          ok: response.ok,
-          url: response.url,
-        };
+        return redactSecrets(
+          {
+            status: response.status,
+            statusText: response.statusText,
+            headers: responseHeaders,
+            body: responseBody,
+            ok: response.ok,
+            url: response.url,
+          },
+          secrets,
+        );
       } catch (error) {
         clearTimeout(timeoutId);
         throw error;
@@ -88,7 +116,7 @@ export const httpFetchTool = createTool({
       .ifFail((err) => {
         return {
           isError: true,
-          error: err.message,
+          error: redactSecrets(err.message, secrets),
           solution:
             "An HTTP request error occurred. This could be due to network issues, invalid URL, timeout, or server errors. Check the URL and try again. For CORS issues, the server needs to allow your origin.",
         };
@@ -0,0 +1,39 @@
+import { AppError } from "lib/errors";
+
+/**
+ * Source handle ids of an Approval node.
+ * Only the edges of the decided handle run after the node resumes.
+ */
+export const APPROVAL_APPROVE_HANDLE = "approve";
+export const APPROVAL_REJECT_HANDLE = "reject";
+
+export type ApprovalDecision = {
+  approved: boolean;
+  comment?: string;
+};
+
+/**
+ * Thrown by an Approval node that has no decision yet.
+ * It ends the current execution so the run can be saved and resumed later.
+ */
+export class WorkflowApprovalRequiredError extends AppError {
+  constructor(
+    public readonly nodeId: string,
+    public readonly approvalMessage: string,
+  ) {
+    super("APPROVAL_REQUIRED", "Waiting for approval");
+    this.name = "WorkflowApprovalRequiredError";
+  }
+}
+
+/**
+ * Also matches the serialized `{ name, message }` form sent to clients.
+ */
+export function isApprovalRequiredError(
+  error: unknown,
+): error is WorkflowApprovalRequiredError {
+  return (
+    (error as { name?: string } | undefined)?.name ==
+    "WorkflowApprovalRequiredError"
+  );
+}
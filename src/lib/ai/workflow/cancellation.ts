@@ -0,0 +1,23 @@
+import { AppError } from "lib/errors";
+
+/**
+ * Thrown by a node when its run was cancelled, in place of the error the
+ * aborted call threw. It ends the run with the "cancelled" status.
+ */
+export class WorkflowCancelledError extends AppError {
+  constructor() {
+    super("WORKFLOW_CANCELLED", "Workflow run was cancelled");
+    this.name = "WorkflowCancelledError";
+  }
+}
+
+/**
+ * Also matches the serialized `{ name, message }` form sent to clients.
+ */
+export function isWorkflowCancelledError(
+  error: unknown,
+): error is WorkflowCancelledError {
+  return (
+    (error as { name?: string } | undefined)?.name == "WorkflowCancelledError"
+  );
+}
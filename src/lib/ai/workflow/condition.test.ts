@@ -0,0 +1,227 @@
+import { describe, it, expect } from "vitest";
+import {
+  ArrayConditionOperator,
+  checkConditionBranch,
+  checkConditionRule,
+  DateConditionOperator,
+  getConditionOperators,
+  getConditionSourceType,
+  NumberConditionOperator,
+  parseDuration,
+  parseJsonPath,
+  queryJsonPath,
+  StringConditionOperator,
+} from "./condition";
+
+describe("condition", () => {
+  describe("checkConditionRule", () => {
+    it("should match regular expressions", () => {
+      const check = (source: string, target: string) =>
+        checkConditionRule({
+          operator: StringConditionOperator.MatchesRegex,
+          source,
+          target,
+        });
+
+      expect(check("order-123", "^order-\\d+$")).toBe(true);
+      expect(check("invoice-1", "^order-\\d+$")).toBe(false);
+      // Invalid patterns never match
+      expect(check("(", "(")).toBe(false);
+    });
+
+    it("should check values against a list", () => {
+      expect(
+        checkConditionRule({
+          operator: StringConditionOperator.InList,
+          source: "b",
+          target: "a, b, c",
+        }),
+      ).toBe(true);
+      expect(
+        checkConditionRule({
+          operator: NumberConditionOperator.InList,
+          source: 2,
+          target: "[1, 2, 3]",
+        }),
+      ).toBe(true);
+      expect(
+        checkConditionRule({
+          operator: StringConditionOperator.NotInList,
+          source: "d",
+          target: ["a", "b"],
+        }),
+      ).toBe(true);
+    });
+
+    it("should check array length, contents and overlap", () => {
+      const source = ["red", "green"];
+
+      expect(
+        checkConditionRule({
+          operator: ArrayConditionOperator.Contains,
+          source,
+          target: "red",
+        }),
+      ).toBe(true);
+      expect(
+        checkConditionRule({
+          operator: ArrayConditionOperator.NotContains,
+          source,
+          target: "re",
+        }),
+      ).toBe(true);
+      expect(
+        checkConditionRule({
+          operator: ArrayConditionOperator.AnyOf,
+          source,
+          target: "blue, green",
+        }),
+      ).toBe(true);
+      expect(
+        checkConditionRule({
+          operator: ArrayConditionOperator.LengthGreaterThan,
+          source,
+          target: "1",
+        }),
+      ).toBe(true);
+      expect(
+        checkConditionRule({
+          operator: ArrayConditionOperator.IsEmpty,
+          source: [],
+          target: "",
+        }),
+      ).toBe(true);
+    });
+
+    it("should compare dates", () => {
+      const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+      expect(
+        checkConditionRule({
+          operator: DateConditionOperator.Before,
+          source: "2024-01-01",
+          target: "2025-01-01T00:00:00Z",
+        }),
+      ).toBe(true);
+      expect(
+        checkConditionRule({
+          operator: DateConditionOperator.After,
+          source: "2024-01-01",
+          target: "2025-01-01",
+        }),
+      ).toBe(false);
+      expect(
+        checkConditionRule({
+          operator: DateConditionOperator.Within,
+          source: hourAgo,
+          target: "2h",
+        }),
+      ).toBe(true);
+      expect(
+        checkConditionRule({
+          operator: DateConditionOperator.Within,
+          source: hourAgo,
+          target: "30m",
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe("checkConditionBranch", () => {
+    const outputs: Record<string, any> = {
+      order: { total: 120, items: [{ sku: "a" }, { sku: "b" }] },
+      limit: { value: 100 },
+    };
+    const getSourceValue = ({
+      nodeId,
+      path,
+    }: { nodeId: string; path: string[] }) =>
+      path.reduce((acc, key) => acc?.[key], outputs[nodeId]);
+
+    it("should compare two node outputs", () => {
+      expect(
+        checkConditionBranch(
+          {
+            id: "if",
+            type: "if",
+            logicalOperator: "AND",
+            conditions: [
+              {
+                source: { nodeId: "order", path: ["total"] },
+                operator: NumberConditionOperator.GreaterThan,
+                valueSource: { nodeId: "limit", path: ["value"] },
+              },
+            ],
+          },
+          getSourceValue,
+        ),
+      ).toBe(true);
+    });
+
+    it("should select values with a JSONPath", () => {
+      expect(
+        checkConditionBranch(
+          {
+            id: "if",
+            type: "if",
+            logicalOperator: "AND",
+            conditions: [
+              {
+                source: { nodeId: "order", path: [] },
+                jsonPath: "$.items[*].sku",
+                operator: ArrayConditionOperator.Contains,
+                value: "b",
+              },
+              {
+                source: { nodeId: "order", path: ["items"] },
+                jsonPath: "$[0].sku",
+                operator: StringConditionOperator.Equals,
+                value: "a",
+              },
+            ],
+          },
+          getSourceValue,
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe("parseJsonPath", () => {
+    it("should parse keys, indexes and wildcards", () => {
+      expect(parseJsonPath("$.items[0]['first name'].*")).toEqual([
+        "items",
+        0,
+        "first name",
+        "*",
+      ]);
+      expect(() => parseJsonPath("$.items[")).toThrow("Invalid JSONPath");
+    });
+
+    it("should return every match for wildcard paths", () => {
+      const value = { a: [{ b: 1 }, { b: 2 }, {}] };
+
+      expect(queryJsonPath(value, "$.a[*].b")).toEqual([1, 2]);
+      expect(queryJsonPath(value, "$.a[1].b")).toBe(2);
+      expect(queryJsonPath(value, "$.missing")).toBeUndefined();
+    });
+  });
+
+  it("should parse durations", () => {
+    expect(parseDuration("30m")).toBe(30 * 60 * 1000);
+    expect(parseDuration("7d")).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(parseDuration("7 days")).toBeUndefined();
+  });
+
+  it("should offer operators based on the source schema", () => {
+    expect(getConditionSourceType({ type: "integer" })).toBe("number");
+    expect(
+      getConditionSourceType({ type: "string", format: "date-time" }),
+    ).toBe("date");
+    expect(Object.values(getConditionOperators("array"))).toContain(
+      ArrayConditionOperator.LengthEquals,
+    );
+    expect(Object.values(getConditionOperators("date"))).toContain(
+      DateConditionOperator.Within,
+    );
+  });
+});
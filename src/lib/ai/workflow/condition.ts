@@ -1,4 +1,5 @@
 import { safe } from "ts-safe";
+import { JSONSchema7 } from "json-schema";
 import { OutputSchemaSourceKey } from "./workflow.interface";
 
 /**
@@ -14,6 +15,9 @@ export enum StringConditionOperator {
   EndsWith = "ends_with",
   IsEmpty = "is_empty",
   IsNotEmpty = "is_not_empty",
+  MatchesRegex = "matches_regex",
+  InList = "in_list",
+  NotInList = "not_in_list",
 }
 
 /**
@@ -27,6 +31,8 @@ export enum NumberConditionOperator {
   LessThan = "less_than",
   GreaterThanOrEqual = "greater_than_or_equal",
   LessThanOrEqual = "less_than_or_equal",
+  InList = StringConditionOperator.InList,
+  NotInList = StringConditionOperator.NotInList,
 }
 
 /**
@@ -37,13 +43,101 @@ export enum BooleanConditionOperator {
   IsFalse = "is_false",
 }
 
+/**
+ * Condition operators for arrays.
+ * Contains and emptiness checks share their values with the string operators.
+ */
+export enum ArrayConditionOperator {
+  Contains = StringConditionOperator.Contains,
+  NotContains = StringConditionOperator.NotContains,
+  AnyOf = "any_of",
+  LengthEquals = "length_equals",
+  LengthGreaterThan = "length_greater_than",
+  LengthLessThan = "length_less_than",
+  IsEmpty = StringConditionOperator.IsEmpty,
+  IsNotEmpty = StringConditionOperator.IsNotEmpty,
+}
+
+/**
+ * Condition operators for dates given as ISO strings or timestamps.
+ * Within takes a duration like `30m`, `12h`, `7d` or `2w` around the current time.
+ */
+export enum DateConditionOperator {
+  Before = "before",
+  After = "after",
+  Within = "within",
+}
+
+/**
+ * Source types the condition operators are offered for.
+ */
+export type ConditionSourceType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "array"
+  | "date"
+  | "object";
+
+/**
+ * Resolves which operators apply to a source field from its JSON schema.
+ * Strings with a date format are treated as dates.
+ */
+export function getConditionSourceType(
+  schema?: JSONSchema7,
+): ConditionSourceType {
+  switch (schema?.type) {
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "array":
+      return "array";
+    case "object":
+      return "object";
+    case "string":
+      return schema.format == "date" || schema.format == "date-time"
+        ? "date"
+        : "string";
+    default:
+      return "string";
+  }
+}
+
+/**
+ * Gets the operators offered for a source type, keyed by their display name.
+ * Object sources are narrowed with a JSONPath first, so any operator may apply.
+ */
+export function getConditionOperators(
+  type: ConditionSourceType,
+): Record<string, ConditionOperator> {
+  switch (type) {
+    case "number":
+      return NumberConditionOperator;
+    case "boolean":
+      return BooleanConditionOperator;
+    case "array":
+      return ArrayConditionOperator;
+    case "date":
+      return { ...DateConditionOperator, ...StringConditionOperator };
+    case "object":
+      return {
+        ...StringConditionOperator,
+        ...NumberConditionOperator,
+        ...ArrayConditionOperator,
+        ...DateConditionOperator,
+      };
+    default:
+      return StringConditionOperator;
+  }
+}
+
 /**
  * Gets the default condition operator for a given data type.
  * Used when creating new conditions in the UI.
  */
-export function getFirstConditionOperator(
-  type: "string" | "number" | "boolean",
-) {
+export function getFirstConditionOperator(type: ConditionSourceType) {
   switch (type) {
     case "string":
       return StringConditionOperator.Equals;
@@ -51,6 +145,10 @@ export function getFirstConditionOperator(
       return NumberConditionOperator.Equals;
     case "boolean":
       return BooleanConditionOperator.IsTrue;
+    case "array":
+      return ArrayConditionOperator.IsNotEmpty;
+    case "date":
+      return DateConditionOperator.Before;
     default:
       return StringConditionOperator.Equals;
   }
@@ -62,7 +160,21 @@ export function getFirstConditionOperator(
 export type ConditionOperator =
   | StringConditionOperator
   | NumberConditionOperator
-  | BooleanConditionOperator;
+  | BooleanConditionOperator
+  | ArrayConditionOperator
+  | DateConditionOperator;
+
+/**
+ * Whether the operator compares against a value, literal or from another node.
+ */
+export function isValueConditionOperator(operator: ConditionOperator) {
+  return ![
+    StringConditionOperator.IsEmpty,
+    StringConditionOperator.IsNotEmpty,
+    BooleanConditionOperator.IsTrue,
+    BooleanConditionOperator.IsFalse,
+  ].includes(operator as StringConditionOperator | BooleanConditionOperator);
+}
 
 /**
  * A single condition rule that compares a value from a node output
@@ -70,8 +182,10 @@ export type ConditionOperator =
  */
 export type ConditionRule = {
   source: OutputSchemaSourceKey; // Reference to another node's output field
+  jsonPath?: string; // Selects a value inside an object or array source, e.g. `$.items[0].name`
   operator: ConditionOperator;
   value?: string | number | boolean; // Comparison value (not needed for is_empty, is_not_empty, is_true, is_false)
+  valueSource?: OutputSchemaSourceKey; // Compares with another node's output instead of `value`
 };
 
 /**
@@ -104,16 +218,19 @@ export type ConditionBranches = {
  */
 export function checkConditionBranch(
   branch: ConditionBranch,
-  getSourceValue: (
-    source: OutputSchemaSourceKey,
-  ) => string | number | boolean | undefined,
+  getSourceValue: (source: OutputSchemaSourceKey) => unknown,
 ): boolean {
   // Evaluate all conditions in the branch
   const results = branch.conditions?.map((condition) => {
+    const source = getSourceValue(condition.source);
     return checkConditionRule({
       operator: condition.operator,
-      target: String(condition.value || ""),
-      source: getSourceValue(condition.source),
+      target: condition.valueSource
+        ? getSourceValue(condition.valueSource)
+        : String(condition.value ?? ""),
+      source: condition.jsonPath
+        ? queryJsonPath(source, condition.jsonPath)
+        : source,
     });
   }) ?? [false];
 
@@ -124,34 +241,130 @@ export function checkConditionBranch(
   return results.some((result) => result);
 }
 
+/**
+ * Parses a JSONPath into its segments.
+ * Supports `$`, `.key`, `['key']`, `[0]`, and the `*` / `[*]` wildcards.
+ */
+export function parseJsonPath(path: string): (string | number)[] {
+  const segments: (string | number)[] = [];
+  const pattern = /\.([^.[\]]+)|\[(\d+|\*|'[^']*'|"[^"]*")\]/y;
+  const body = path.trim().replace(/^\$/, "");
+  let index = 0;
+  while (index < body.length) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(body);
+    if (!match) throw new Error(`Invalid JSONPath: ${path}`);
+    const segment = match[1] ?? match[2];
+    if (/^\d+$/.test(segment) && match[2] !== undefined) {
+      segments.push(Number(segment));
+    } else {
+      segments.push(segment.replace(/^['"]|['"]$/g, ""));
+    }
+    index = pattern.lastIndex;
+  }
+  return segments;
+}
+
+/**
+ * Selects a value with a JSONPath.
+ * Paths with a wildcard return every match as an array.
+ */
+export function queryJsonPath(value: unknown, path: string): unknown {
+  const segments = parseJsonPath(path);
+  const hasWildcard = segments.includes("*");
+  const results = segments.reduce<unknown[]>(
+    (current, segment) =>
+      current.flatMap((item) => {
+        if (item == null || typeof item != "object") return [];
+        if (segment == "*") return Object.values(item);
+        const next = (item as Record<string | number, unknown>)[segment];
+        return next === undefined ? [] : [next];
+      }),
+    [value],
+  );
+  return hasWildcard ? results : results[0];
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a duration like `30m`, `12h`, `7d` or `2w` into milliseconds.
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)\s*([mhdw])$/.exec(value.trim());
+  if (!match) return undefined;
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
+
+function toTime(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value == "number") return value;
+  return Date.parse(String(value));
+}
+
+/**
+ * Reads a list target: arrays from another node as they are,
+ * literals as a JSON array or comma separated values.
+ */
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  const text = String(value ?? "").trim();
+  if (text.startsWith("[")) {
+    const parsed = safe(() => JSON.parse(text)).orElse(undefined);
+    if (Array.isArray(parsed)) return parsed;
+  }
+  return text
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function isSameValue(a: unknown, b: unknown) {
+  if (a == b) return true;
+  if (typeof a == "object" || typeof b == "object") {
+    return JSON.stringify(a) == JSON.stringify(b);
+  }
+  return false;
+}
+
 /**
  * Evaluates a single condition rule.
+ * Contains and emptiness operators work on both strings and arrays.
  *
  * @param params - The condition rule parameters
  * @returns True if the condition is met
  */
-function checkConditionRule({
+export function checkConditionRule({
   operator,
   target,
   source,
 }: {
   operator: ConditionOperator;
-  target: string;
-  source?: string | number | boolean;
+  target: unknown;
+  source?: unknown;
 }): boolean {
   return safe(() => {
     switch (operator) {
       case StringConditionOperator.Equals:
-        if (source == target) return true;
+        if (isSameValue(source, target)) return true;
         break;
       case StringConditionOperator.NotEquals:
-        if (source != target) return true;
+        if (!isSameValue(source, target)) return true;
         break;
       case StringConditionOperator.Contains:
-        if (String(source).includes(String(target))) return true;
+        if (Array.isArray(source)) {
+          if (source.some((item) => isSameValue(item, target))) return true;
+        } else if (String(source).includes(String(target))) return true;
         break;
       case StringConditionOperator.NotContains:
-        if (!String(source).includes(String(target))) return true;
+        if (Array.isArray(source)) {
+          if (!source.some((item) => isSameValue(item, target))) return true;
+        } else if (!String(source).includes(String(target))) return true;
         break;
       case StringConditionOperator.StartsWith:
         if (String(source).startsWith(String(target))) return true;
@@ -160,10 +373,21 @@ function checkConditionRule({
         if (String(source).endsWith(String(target))) return true;
         break;
       case StringConditionOperator.IsEmpty:
-        if (!source) return true;
+        if (Array.isArray(source) ? !source.length : !source) return true;
         break;
       case StringConditionOperator.IsNotEmpty:
-        if (source) return true;
+        if (Array.isArray(source) ? source.length : source) return true;
+        break;
+      case StringConditionOperator.MatchesRegex:
+        if (new RegExp(String(target)).test(String(source))) return true;
+        break;
+      case StringConditionOperator.InList:
+        if (toList(target).some((item) => isSameValue(source, item)))
+          return true;
+        break;
+      case StringConditionOperator.NotInList:
+        if (!toList(target).some((item) => isSameValue(source, item)))
+          return true;
         break;
       case NumberConditionOperator.GreaterThan:
         if (Number(source) > Number(target)) return true;
@@ -183,6 +407,39 @@ function checkConditionRule({
       case BooleanConditionOperator.IsFalse:
         if (!source) return true;
         break;
+      case ArrayConditionOperator.AnyOf: {
+        const list = toList(target);
+        const values = Array.isArray(source) ? source : [source];
+        if (values.some((value) => list.some((v) => isSameValue(value, v))))
+          return true;
+        break;
+      }
+      case ArrayConditionOperator.LengthEquals:
+        if (Array.isArray(source) && source.length == Number(target))
+          return true;
+        break;
+      case ArrayConditionOperator.LengthGreaterThan:
+        if (Array.isArray(source) && source.length > Number(target))
+          return true;
+        break;
+      case ArrayConditionOperator.LengthLessThan:
+        if (Array.isArray(source) && source.length < Number(target))
+          return true;
+        break;
+      case DateConditionOperator.Before:
+        if (toTime(source) < toTime(target)) return true;
+        break;
+      case DateConditionOperator.After:
+        if (toTime(source) > toTime(target)) return true;
+        break;
+      case DateConditionOperator.Within: {
+        const duration = parseDuration(String(target));
+        if (duration === undefined) {
+          throw new Error(`Invalid duration: ${target}`);
+        }
+        if (Math.abs(Date.now() - toTime(source)) <= duration) return true;
+        break;
+      }
     }
     return false;
   })
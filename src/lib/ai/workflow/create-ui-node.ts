@@ -103,6 +103,25 @@ export function createUINode(
         content: [],
       },
     };
+  } else if (node.data.kind === NodeKind.Code) {
+    node.data.outputSchema = structuredClone(defaultCodeNodeOutputSchema);
+    node.data.language = "javascript";
+    node.data.inputs = [];
+    node.data.code = defaultCode.javascript;
+  } else if (node.data.kind === NodeKind.Loop) {
+    node.data.outputSchema = structuredClone(defaultLoopNodeOutputSchema);
+    node.data.concurrency = 1;
+  } else if (node.data.kind === NodeKind.SubWorkflow) {
+    node.data.inputs = [];
+  } else if (node.data.kind === NodeKind.Approval) {
+    node.data.outputSchema = structuredClone(defaultApprovalNodeOutputSchema);
+    node.data.message = {
+      type: "doc",
+      content: [],
+    };
+  } else if (node.data.kind === NodeKind.Merge) {
+    node.data.mode = "all";
+    node.data.inputs = [];
   }
 
   return node;
@@ -128,3 +147,53 @@ export const defaultTemplateNodeOutputSchema: ObjectJsonSchema7 = {
     },
   },
 };
+
+export const defaultCodeNodeOutputSchema: ObjectJsonSchema7 = {
+  type: "object",
+  properties: {
+    result: {
+      type: "string",
+    },
+  },
+};
+
+export const defaultCode = {
+  javascript: `// Inputs are available as variables.
+// Return an object matching the output schema.
+return { result: "" };
+`,
+  python: `# Inputs are available as variables.
+# The last expression must be a dict matching the output schema.
+{"result": ""}
+`,
+};
+
+export const defaultLoopNodeOutputSchema: ObjectJsonSchema7 = {
+  type: "object",
+  properties: {
+    item: {
+      type: "object",
+    },
+    index: {
+      type: "number",
+    },
+    results: {
+      type: "array",
+      items: {
+        type: "string",
+      },
+    },
+  },
+};
+
+export const defaultApprovalNodeOutputSchema: ObjectJsonSchema7 = {
+  type: "object",
+  properties: {
+    approved: {
+      type: "boolean",
+    },
+    comment: {
+      type: "string",
+    },
+  },
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { getNextCronDate, isValidCron, matchesCron, parseCron } from "./cron";
+
+describe("cron", () => {
+  it("should parse wildcards, ranges, lists and steps", () => {
+    const cron = parseCron("*/15 9-11 1,15 * 1-5");
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("should treat 7 as Sunday", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it("should reject invalid expressions", () => {
+    expect(isValidCron("0 0 * *")).toBe(false);
+    expect(isValidCron("60 0 * * *")).toBe(false);
+    expect(isValidCron("0 0 0 * *")).toBe(false);
+    expect(isValidCron("*/0 * * * *")).toBe(false);
+    expect(isValidCron("5-1 * * * *")).toBe(false);
+    expect(isValidCron("a * * * *")).toBe(false);
+    expect(isValidCron("0 9 * * 1-5")).toBe(true);
+  });
+
+  it("should match the scheduled minute only", () => {
+    const cron = parseCron("30 9 * * *");
+    expect(matchesCron(cron, new Date(2025, 0, 6, 9, 30, 45))).toBe(true);
+    expect(matchesCron(cron, new Date(2025, 0, 6, 9, 31))).toBe(false);
+  });
+
+  it("should match either day field when both are restricted", () => {
+    // 2025-01-06 is a Monday, 2025-01-15 is a Wednesday
+    const cron = parseCron("0 0 15 * 1");
+    expect(matchesCron(cron, new Date(2025, 0, 6))).toBe(true);
+    expect(matchesCron(cron, new Date(2025, 0, 15))).toBe(true);
+    expect(matchesCron(cron, new Date(2025, 0, 7))).toBe(false);
+  });
+
+  it("should find the next scheduled date", () => {
+    const from = new Date(2025, 0, 6, 9, 30);
+    expect(getNextCronDate("30 9 * * *", from)).toEqual(
+      new Date(2025, 0, 7, 9, 30),
+    );
+    expect(getNextCronDate("*/10 * * * *", from)).toEqual(
+      new Date(2025, 0, 6, 9, 40),
+    );
+    // next Saturday
+    expect(getNextCronDate("0 8 * * 6", from)).toEqual(
+      new Date(2025, 0, 11, 8, 0),
+    );
+    expect(getNextCronDate("0 0 1 3 *", from)).toEqual(
+      new Date(2025, 2, 1, 0, 0),
+    );
+  });
+
+  it("should return undefined when the schedule never fires", () => {
+    expect(getNextCronDate("0 0 31 2 *", new Date(2025, 0, 1))).toBeUndefined();
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Minimal 5-field cron support used by scheduled workflow triggers.
+ *
+ * Format: `minute hour day-of-month month day-of-week`
+ * Each field accepts `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps (`0-30/5`).
+ * Day-of-week is 0-6 starting on Sunday; 7 is accepted as Sunday too.
+ * Like standard cron, when both day fields are restricted a day matches if either one does.
+ */
+
+type CronField = {
+  name: string;
+  min: number;
+  max: number;
+};
+
+const CRON_FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+export type ParsedCron = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+};
+
+function parseField(value: string, field: CronField): Set<number> {
+  const result = new Set<number>();
+  for (const part of value.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step '${part}' in ${field.name} field`);
+    }
+    let start: number;
+    let end: number;
+    if (range == "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = Number(from);
+      end = Number(to);
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : field.max;
+    }
+    if (
+      !/^(\*|\d+(-\d+)?)$/.test(range) ||
+      start < field.min ||
+      end > field.max ||
+      start > end
+    ) {
+      throw new Error(`Invalid value '${part}' in ${field.name} field`);
+    }
+    for (let i = start; i <= end; i += step) result.add(i);
+  }
+  return result;
+}
+
+export function parseCron(expression: string): ParsedCron {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length != CRON_FIELDS.length) {
+    throw new Error(
+      `Cron expression must have ${CRON_FIELDS.length} fields, got ${parts.length}`,
+    );
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+    (part, i) => parseField(part, CRON_FIELDS[i]),
+  );
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] == "*",
+    anyDayOfWeek: parts[4] == "*",
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const dom = cron.daysOfMonth.has(date.getDate());
+  const dow = cron.daysOfWeek.has(date.getDay());
+  if (cron.anyDayOfMonth) return dow;
+  if (cron.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+/**
+ * Checks whether the minute containing `date` (local time) is a scheduled minute.
+ */
+export function matchesCron(cron: ParsedCron | string, date: Date): boolean {
+  const parsed = typeof cron == "string" ? parseCron(cron) : cron;
+  return (
+    parsed.minutes.has(date.getMinutes()) &&
+    parsed.hours.has(date.getHours()) &&
+    parsed.months.has(date.getMonth() + 1) &&
+    matchesDay(parsed, date)
+  );
+}
+
+/**
+ * Finds the first scheduled minute strictly after `from`.
+ * Returns undefined when nothing matches within the next few years (e.g. `0 0 31 2 *`).
+ */
+export function getNextCronDate(
+  cron: ParsedCron | string,
+  from: Date = new Date(),
+): Date | undefined {
+  const parsed = typeof cron == "string" ? parseCron(cron) : cron;
+  const date = new Date(from);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = new Date(from);
+  limit.setFullYear(limit.getFullYear() + 5);
+
+  while (date <= limit) {
+    if (!parsed.months.has(date.getMonth() + 1) || !matchesDay(parsed, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+      continue;
+    }
+    if (!parsed.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+      continue;
+    }
+    if (!parsed.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+      continue;
+    }
+    return date;
+  }
+  return undefined;
+}
@@ -59,3 +59,11 @@ export const BabyResearch = (): {
     })),
   };
 };
+
+/**
+ * Examples listed in the template gallery, by template id.
+ */
+export const WORKFLOW_EXAMPLES: Record<string, typeof GetWeather> = {
+  "baby-research": BabyResearch,
+  "get-weather": GetWeather,
+};
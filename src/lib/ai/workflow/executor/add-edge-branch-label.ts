@@ -1,5 +1,6 @@
 import { DBEdge, DBNode } from "app-types/workflow";
 import { NodeKind } from "../workflow.interface";
+import { hasErrorBranch } from "../node-error-policy";
 
 export function addEdgeBranchLabel(nodes: DBNode[], edges: DBEdge[]) {
   const outs = (id: string) => edges.filter((e) => e.source === id);
@@ -11,7 +12,16 @@ export function addEdgeBranchLabel(nodes: DBNode[], edges: DBEdge[]) {
     const node = nodes.find((n) => n.id === id)!;
     const nexts = outs(id);
 
-    if (node.kind === NodeKind.Condition) {
+    // Handles of branching nodes are exclusive, so they share a branch label.
+    // The error handle of a node only runs instead of its regular edges.
+    if (
+      node.kind === NodeKind.Condition ||
+      node.kind === NodeKind.Approval ||
+      hasErrorBranch({
+        kind: node.kind,
+        errorPolicy: node.nodeConfig.errorPolicy,
+      })
+    ) {
       const byHandle = new Map<string, DBEdge[]>();
       nexts.forEach((e) => {
         const h = e.uiConfig.sourceHandle ?? "right";
@@ -1,5 +1,11 @@
 import { objectFlow, toAny } from "lib/utils";
-import { OutputSchemaSourceKey } from "../workflow.interface";
+import {
+  NodeAttempt,
+  NodeToolCall,
+  NodeUsage,
+  OutputSchemaSourceKey,
+} from "../workflow.interface";
+import { ApprovalDecision } from "../approval";
 import { graphStore } from "ts-edge";
 import { DBEdge, DBNode } from "app-types/workflow";
 import { ObjectJsonSchema7 } from "app-types/util";
@@ -7,6 +13,8 @@ import { defaultObjectJsonSchema } from "../shared.workflow";
 
 export interface WorkflowRuntimeState {
   query: Record<string, unknown>;
+  userId?: string; // User running the workflow, whose auth profiles and secrets its nodes use
+  callerIds?: string[]; // Workflows this run was called from, outermost first, ending with its own
   inputs: {
     [nodeId: string]: any;
   };
@@ -15,8 +23,23 @@ export interface WorkflowRuntimeState {
   outputs: {
     [nodeId: string]: any;
   };
+  approvals: {
+    [nodeId: string]: ApprovalDecision; // Decisions given while the run was waiting
+  };
+  attempts: {
+    [nodeId: string]: NodeAttempt[]; // Execution attempts of each node in this run
+  };
+  toolCalls: {
+    [nodeId: string]: NodeToolCall[]; // Tools called by each LLM node in this run
+  };
+  usage: {
+    [nodeId: string]: NodeUsage[]; // Tokens used by the model calls of each node in this run
+  };
   setInput(nodeId: string, value: any): void;
   getInput(nodeId: string): any;
+  setAttempts(nodeId: string, attempts: NodeAttempt[]): void;
+  setToolCalls(nodeId: string, toolCalls: NodeToolCall[]): void;
+  setUsage(nodeId: string, usage: NodeUsage[]): void;
   setOutput(key: OutputSchemaSourceKey, value: any): void;
   getOutput<T>(key: OutputSchemaSourceKey): undefined | T;
 }
@@ -24,14 +47,22 @@ export interface WorkflowRuntimeState {
 export const createGraphStore = (params: {
   nodes: DBNode[];
   edges: DBEdge[];
+  userId?: string;
+  callerIds?: string[];
 }) => {
   return graphStore<WorkflowRuntimeState>((set, get) => {
     return {
       query: {},
       outputs: {},
       inputs: {},
+      approvals: {},
+      attempts: {},
+      toolCalls: {},
+      usage: {},
       nodes: params.nodes,
       edges: params.edges,
+      userId: params.userId,
+      callerIds: params.callerIds,
       setInput(nodeId, value) {
         set((prev) => {
           return { inputs: { ...prev.inputs, [nodeId]: value } };
@@ -41,6 +72,21 @@ export const createGraphStore = (params: {
         const { inputs } = get();
         return inputs[nodeId];
       },
+      setAttempts(nodeId, attempts) {
+        set((prev) => {
+          return { attempts: { ...prev.attempts, [nodeId]: attempts } };
+        });
+      },
+      setToolCalls(nodeId, toolCalls) {
+        set((prev) => {
+          return { toolCalls: { ...prev.toolCalls, [nodeId]: toolCalls } };
+        });
+      },
+      setUsage(nodeId, usage) {
+        set((prev) => {
+          return { usage: { ...prev.usage, [nodeId]: usage } };
+        });
+      },
       setOutput(key, value) {
         set((prev) => {
           const next = objectFlow(prev.outputs).setByPath(
@@ -9,15 +9,31 @@ import {
   HttpNodeData,
   TemplateNodeData,
   OutputSchemaSourceKey,
+  LoopNodeData,
+  CodeNodeData,
+  NodeKind,
+  SubWorkflowNodeData,
+  ApprovalNodeData,
+  MergeNodeData,
+  NodeUsage,
 } from "../workflow.interface";
 import { WorkflowRuntimeState } from "./graph-store";
 import {
   convertToModelMessages,
   generateObject,
   generateText,
+  jsonSchema,
+  stepCountIs,
+  tool as createTool,
+  Tool,
   UIMessage,
 } from "ai";
 import { checkConditionBranch } from "../condition";
+import {
+  createTemplateContext,
+  renderJsonTemplate,
+  renderTemplate,
+} from "../template-engine";
 import {
   convertTiptapJsonToAiMessage,
   convertTiptapJsonToText,
@@ -31,6 +47,31 @@ import {
   exaContentsToolForWorkflow,
 } from "lib/ai/tools/web/web-search";
 import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
+import { DBNode } from "app-types/workflow";
+import { ChatMention } from "app-types/chat";
+import { APP_DEFAULT_TOOL_KIT } from "lib/ai/tools/tool-kit";
+import {
+  collectToolCalls,
+  DEFAULT_LLM_NODE_MAX_STEPS,
+  MAX_LLM_NODE_STEPS,
+} from "../llm-node-tools";
+import { workflowRepository } from "lib/db/repository";
+import { createNodeUsage } from "../node-usage";
+import { loadHttpAuth } from "lib/secrets/load-http-auth";
+import {
+  applyHttpAuth,
+  redactSecrets,
+  ResolvedHttpAuth,
+} from "lib/secrets/http-auth";
+import { HttpFetchToolContext } from "lib/ai/tools/http/fetch";
+import { findLoopBodyNodeIds, LOOP_BODY_HANDLE } from "../loop-body";
+import { createWorkflowExecutor } from "./workflow-executor";
+import { MAX_SUB_WORKFLOW_DEPTH } from "../sub-workflow-cycle";
+import { sandboxCodeRun } from "lib/code-runner/sandbox-run";
+import {
+  isApprovalRequiredError,
+  WorkflowApprovalRequiredError,
+} from "../approval";
 
 /**
  * Interface for node executor functions.
@@ -42,6 +83,7 @@ import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
 export type NodeExecutor<T extends WorkflowNodeData = any> = (input: {
   node: T;
   state: WorkflowRuntimeState;
+  signal?: AbortSignal; // Aborted when the run is cancelled
 }) =>
   | Promise<{
       input?: any; // Input data used by this node (for debugging/history)
@@ -86,10 +128,13 @@ export const outputNodeExecutor: NodeExecutor<OutputNodeData> = ({
  * - Multiple messages (system, user, assistant)
  * - References to previous node outputs via mentions
  * - Configurable model selection
+ * - Attached tools called in a multi-step loop, each call recorded in the runtime state
+ * - Token usage of its model calls, and of the workflows it called, recorded in the runtime state
  */
 export const llmNodeExecutor: NodeExecutor<LLMNodeData> = async ({
   node,
   state,
+  signal,
 }) => {
   const model = customModelProvider.getModel(node.model);
 
@@ -105,20 +150,55 @@ export const llmNodeExecutor: NodeExecutor<LLMNodeData> = async ({
   const isTextResponse =
     node.outputSchema.properties?.answer?.type === "string";
 
+  // Workflows called as tools add the usage of their own model calls
+  const workflowUsage: NodeUsage[] = [];
+  const tools = node.tools?.length
+    ? await loadLLMNodeTools(node.tools, workflowUsage, state)
+    : undefined;
+  const maxSteps = Math.min(
+    MAX_LLM_NODE_STEPS,
+    Math.max(1, node.maxSteps ?? DEFAULT_LLM_NODE_MAX_STEPS),
+  );
+
   state.setInput(node.id, {
     chatModel: node.model,
     messages,
     responseFormat: isTextResponse ? "text" : "object",
+    ...(tools && { tools: Object.keys(tools), maxSteps }),
   });
 
+  // The tool loop runs first, an object answer is then generated from its messages
+  const toolLoop = tools
+    ? await generateText({
+        model,
+        messages: convertToModelMessages(messages),
+        tools,
+        stopWhen: stepCountIs(maxSteps),
+        abortSignal: signal,
+        experimental_context: {
+          userId: state.userId,
+        } satisfies HttpFetchToolContext,
+      })
+    : undefined;
+  if (toolLoop) {
+    state.setToolCalls(node.id, collectToolCalls(toolLoop.steps));
+  }
+
   if (isTextResponse) {
-    const response = await generateText({
-      model,
-      messages: convertToModelMessages(messages),
-    });
+    const response =
+      toolLoop ??
+      (await generateText({
+        model,
+        messages: convertToModelMessages(messages),
+        abortSignal: signal,
+      }));
+    state.setUsage(node.id, [
+      createNodeUsage(node.model, [response.totalUsage]),
+      ...workflowUsage,
+    ]);
     return {
       output: {
-        totalTokens: response.usage.totalTokens,
+        totalTokens: response.totalUsage.totalTokens,
         answer: response.text,
       },
     };
@@ -126,19 +206,107 @@ export const llmNodeExecutor: NodeExecutor<LLMNodeData> = async ({
 
   const response = await generateObject({
     model,
-    messages: convertToModelMessages(messages),
+    messages: [
+      ...convertToModelMessages(messages),
+      ...(toolLoop?.response.messages ?? []),
+    ],
     schema: jsonSchemaToZod(node.outputSchema.properties.answer),
     maxRetries: 3,
+    abortSignal: signal,
   });
+  state.setUsage(node.id, [
+    createNodeUsage(node.model, [toolLoop?.totalUsage, response.usage]),
+    ...workflowUsage,
+  ]);
 
   return {
     output: {
-      totalTokens: response.usage.totalTokens,
+      totalTokens:
+        (toolLoop?.totalUsage.totalTokens ?? 0) +
+        (response.usage.totalTokens ?? 0),
       answer: response.object,
     },
   };
 };
 
+/**
+ * Loads the tools attached to an LLM node.
+ * Workflows run their latest published version, like sub-workflow nodes.
+ */
+async function loadLLMNodeTools(
+  mentions: ChatMention[],
+  workflowUsage: NodeUsage[],
+  state: Pick<WorkflowRuntimeState, "userId" | "callerIds">,
+): Promise<Record<string, Tool>> {
+  const tools: Record<string, Tool> = {};
+
+  const mcpMentions = mentions.filter(
+    (mention) => mention.type == "mcpTool" || mention.type == "mcpServer",
+  );
+  if (mcpMentions.length) {
+    const mcpTools = await mcpClientsManager.tools();
+    Object.entries(mcpTools).forEach(([name, tool]) => {
+      const selected = mcpMentions.some(
+        (mention) =>
+          mention.serverId == tool._mcpServerId &&
+          (mention.type == "mcpServer" || mention.name == tool._originToolName),
+      );
+      if (selected) tools[name] = tool;
+    });
+  }
+
+  const defaultTools: Record<string, Tool> = Object.assign(
+    {},
+    ...Object.values(APP_DEFAULT_TOOL_KIT),
+  );
+  mentions.forEach((mention) => {
+    if (mention.type != "defaultTool") return;
+    const tool = defaultTools[mention.name];
+    // Some default tools only run in the browser of a chat
+    if (!tool?.execute) {
+      throw new Error(`Tool '${mention.label}' cannot be used in a workflow`);
+    }
+    tools[mention.name] = tool;
+  });
+
+  const workflowIds = mentions
+    .filter((mention) => mention.type == "workflow")
+    .map((mention) => mention.workflowId);
+  // Only workflows the running user can see are attached
+  if (workflowIds.length && state.userId) {
+    const workflows = await workflowRepository.selectToolByIds(
+      workflowIds,
+      state.userId,
+    );
+    workflows.forEach((workflow) => {
+      const toolName = workflow.name
+        .replace(/[^a-zA-Z0-9\s]/g, "")
+        .trim()
+        .replace(/\s+/g, "-")
+        .toUpperCase();
+      tools[toolName] = createTool({
+        description: workflow.description || workflow.name,
+        inputSchema: jsonSchema(workflow.schema),
+        execute: async (query, { abortSignal }) => {
+          const result = await runPublishedWorkflow(
+            { id: workflow.id, name: workflow.name },
+            (query ?? {}) as Record<string, unknown>,
+            {
+              signal: abortSignal,
+              userId: state.userId,
+              callerIds: state.callerIds,
+            },
+          );
+          workflowUsage.push(...result.usage);
+          return result.output;
+        },
+      });
+    });
+  }
+
+  return tools;
+}
+
 /**
  * Condition Node Executor
  * Evaluates conditional logic and determines which branch(es) to execute next.
@@ -184,6 +352,7 @@ export const conditionNodeExecutor: NodeExecutor<ConditionNodeData> = async ({
 export const toolNodeExecutor: NodeExecutor<ToolNodeData> = async ({
   node,
   state,
+  signal,
 }) => {
   const result: {
     input: any;
@@ -217,6 +386,7 @@ export const toolNodeExecutor: NodeExecutor<ToolNodeData> = async ({
       model: customModelProvider.getModel(node.model),
       toolChoice: "required", // Force the model to call the tool
       prompt: prompt || "",
+      abortSignal: signal,
       tools: {
         [node.tool.id]: {
           description: node.tool.description,
@@ -229,6 +399,7 @@ export const toolNodeExecutor: NodeExecutor<ToolNodeData> = async ({
       parameter: response.toolCalls.find((call) => call.input)?.input,
       prompt,
     };
+    state.setUsage(node.id, [createNodeUsage(node.model, [response.usage])]);
   }
 
   // Execute the tool based on its type
@@ -237,6 +408,7 @@ export const toolNodeExecutor: NodeExecutor<ToolNodeData> = async ({
       node.tool.serverId,
       node.tool.id,
       result.input.parameter,
+      { signal },
     )) as any;
     if (toolResult.isError) {
       throw new Error(
@@ -259,6 +431,7 @@ export const toolNodeExecutor: NodeExecutor<ToolNodeData> = async ({
     const toolResult = await executor?.(result.input.parameter, {
       messages: [],
       toolCallId: "",
+      abortSignal: signal,
     });
     result.output = {
       tool_result: toolResult,
@@ -306,12 +479,14 @@ function resolveHttpValue(
  * Features:
  * - Support for all standard HTTP methods (GET, POST, PUT, DELETE, PATCH, HEAD)
  * - Dynamic URL, headers, query parameters, and body with variable substitution
+ * - Auth profiles, whose secret values are redacted from the recorded input and output
  * - Configurable timeout
  * - Comprehensive response data including status, headers, and body
  */
 export const httpNodeExecutor: NodeExecutor<HttpNodeData> = async ({
   node,
   state,
+  signal,
 }) => {
   // Default timeout of 30 seconds
   const timeout = node.timeout || 30000;
@@ -335,12 +510,12 @@ export const httpNodeExecutor: NodeExecutor<HttpNodeData> = async ({
   }
 
   // Construct final URL with query parameters
-  const finalUrl = searchParams.toString()
+  let finalUrl = searchParams.toString()
     ? `${url}${url.includes("?") ? "&" : "?"}${searchParams.toString()}`
     : url;
 
   // Build headers
-  const headers: Record<string, string> = {};
+  let headers: Record<string, string> = {};
   for (const header of node.headers || []) {
     if (header.key && header.value !== undefined) {
       const value = resolveHttpValue(header.value, state.getOutput);
@@ -350,6 +525,20 @@ export const httpNodeExecutor: NodeExecutor<HttpNodeData> = async ({
     }
   }
 
+  let auth: ResolvedHttpAuth | undefined;
+  if (node.auth) {
+    // Profiles of the running user, so a shared workflow never sends its owner's secrets
+    if (!state.userId) {
+      throw new Error(`Auth profile '${node.auth}' requires a signed-in user`);
+    }
+    auth = await loadHttpAuth(state.userId, node.auth, finalUrl);
+    ({ url: finalUrl, headers } = applyHttpAuth(
+      { url: finalUrl, headers },
+      auth,
+    ));
+  }
+  const redact = <T>(value: T) => redactSecrets(value, auth?.secrets ?? []);
+
   // Build request body
   let body: string | undefined;
   if (node.body && ["POST", "PUT", "PATCH"].includes(node.method)) {
@@ -378,7 +567,10 @@ export const httpNodeExecutor: NodeExecutor<HttpNodeData> = async ({
       method: node.method,
       headers,
       body,
-      signal: controller.signal,
+      // Cancelling the run aborts the request too
+      signal: signal
+        ? AbortSignal.any([controller.signal, signal])
+        : controller.signal,
     });
 
     clearTimeout(timeoutId);
@@ -419,20 +611,23 @@ export const httpNodeExecutor: NodeExecutor<HttpNodeData> = async ({
         : undefined,
     };
     if (!response.ok) {
-      state.setInput(node.id, {
-        request,
-        response: responseData,
-      });
+      state.setInput(
+        node.id,
+        redact({
+          request,
+          response: responseData,
+        }),
+      );
       throw new AppError(response.status.toString(), response.statusText);
     }
 
     return {
-      input: {
+      input: redact({
         request,
-      },
-      output: {
+      }),
+      output: redact({
         response: responseData,
-      },
+      }),
     };
   } catch (error: any) {
     if (error instanceof AppError) {
@@ -454,49 +649,374 @@ export const httpNodeExecutor: NodeExecutor<HttpNodeData> = async ({
       errorMessage = `Connection refused to ${finalUrl}`;
       errorType = "connection";
     }
-    state.setInput(node.id, {
-      request: { url: finalUrl, method: node.method, headers, body, timeout },
-      response: {
-        status: 0,
-        statusText: errorMessage,
-        ok: false,
-        headers: {},
-        body: "",
-        duration,
-        error: {
-          type: errorType,
-          message: errorMessage,
+    state.setInput(
+      node.id,
+      redact({
+        request: { url: finalUrl, method: node.method, headers, body, timeout },
+        response: {
+          status: 0,
+          statusText: errorMessage,
+          ok: false,
+          headers: {},
+          body: "",
+          duration,
+          error: {
+            type: errorType,
+            message: errorMessage,
+          },
         },
-      },
-    });
+      }),
+    );
     throw error;
   }
 };
 
 /**
  * Template Node Executor
- * Processes text templates with variable substitution using TipTap content.
+ * Processes text templates with variable substitution using TipTap content,
+ * Handlebars-style text or a JSON template.
  *
  * Features:
  * - Variable substitution from previous node outputs
  * - Support for mentions in template content
- * - Simple text output for easy consumption by other nodes
+ * - Loops, conditionals and filters in Handlebars and JSON templates
+ * - Text output, or the rendered JSON value for JSON templates
  */
 export const templateNodeExecutor: NodeExecutor<TemplateNodeData> = ({
   node,
   state,
 }) => {
-  let text: string = "";
+  let output: unknown = "";
   // Convert TipTap template content to text with variable substitution
   if (node.template.type == "tiptap") {
-    text = convertTiptapJsonToText({
+    output = convertTiptapJsonToText({
       getOutput: state.getOutput, // Access to previous node outputs for variable substitution
       json: node.template.tiptap,
     });
+  } else {
+    // Handlebars and JSON templates read previous node outputs by node name
+    const context = createTemplateContext(state.nodes, state.outputs);
+    output =
+      node.template.type == "json"
+        ? renderJsonTemplate(node.template.source, context)
+        : renderTemplate(node.template.source, context);
   }
   return {
     output: {
-      template: text,
+      template: output,
     },
   };
 };
+
+/**
+ * Code Node Executor
+ * Runs JavaScript or Python code in a sandboxed process (see sandbox-run.ts).
+ *
+ * Features:
+ * - Each input is resolved from previous node outputs and exposed as a variable
+ * - The returned value is validated against the node's output schema
+ * - Console logs are kept in the node input for debugging
+ */
+export const codeNodeExecutor: NodeExecutor<CodeNodeData> = async ({
+  node,
+  state,
+  signal,
+}) => {
+  const variables = node.inputs.reduce(
+    (acc, cur) => {
+      acc[cur.key] = cur.source ? state.getOutput(cur.source) : undefined;
+      return acc;
+    },
+    {} as Record<string, unknown>,
+  );
+
+  const result = await sandboxCodeRun(node.language, {
+    code: node.code,
+    globals: variables,
+    signal,
+  });
+
+  state.setInput(node.id, {
+    variables,
+    logs: result.logs,
+  });
+
+  if (!result.success) {
+    throw new Error(result.error || "Code execution failed");
+  }
+
+  const parsed = jsonSchemaToZod(node.outputSchema).safeParse(result.result);
+  if (!parsed.success) {
+    throw new Error(
+      `Code result does not match the output schema: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "result"} ${issue.message}`)
+        .join(", ")}`,
+    );
+  }
+
+  return {
+    output: parsed.data,
+  };
+};
+
+/**
+ * Loop Node Executor
+ * Runs the body chain once per array item and collects the results.
+ *
+ * Features:
+ * - Each iteration runs as its own sub-workflow where this node acts as the Input
+ * - Iteration state is seeded with previous node outputs and never shared
+ * - Optional concurrency limit for processing several items at once
+ */
+export const loopNodeExecutor: NodeExecutor<LoopNodeData> = async ({
+  node,
+  state,
+  signal,
+}) => {
+  if (!node.items) {
+    throw new Error("Loop node requires an items source");
+  }
+  const items = state.getOutput<unknown[]>(node.items) ?? [];
+  if (!Array.isArray(items)) {
+    throw new Error("Loop items must be an array");
+  }
+  const concurrency = Math.max(1, node.concurrency || 1);
+
+  const bodyIds = findLoopBodyNodeIds(
+    node.id,
+    state.edges.map((edge) => ({
+      source: edge.source,
+      target: edge.target,
+      sourceHandle: edge.uiConfig.sourceHandle,
+    })),
+  );
+  const loopNode = state.nodes.find((n) => n.id === node.id)!;
+  // The loop node becomes the entry point of the body, passing { item, index }
+  const bodyNodes: DBNode[] = [
+    { ...loopNode, kind: NodeKind.Input },
+    ...state.nodes.filter((n) => bodyIds.includes(n.id)),
+  ];
+  const bodyEdges = state.edges.filter(
+    (edge) =>
+      bodyIds.includes(edge.target) &&
+      (bodyIds.includes(edge.source) ||
+        (edge.source === node.id &&
+          edge.uiConfig.sourceHandle === LOOP_BODY_HANDLE)),
+  );
+
+  state.setInput(node.id, {
+    count: items.length,
+    concurrency,
+  });
+
+  const results: unknown[] = new Array(items.length);
+  // Model calls of the body nodes count as usage of the loop node
+  const usage: NodeUsage[] = [];
+  let cursor = 0;
+  const runNext = async () => {
+    while (cursor < items.length) {
+      const index = cursor++;
+      const app = createWorkflowExecutor({
+        nodes: bodyNodes,
+        // Branch labels are assigned per run, so start from clean edges
+        edges: bodyEdges.map((edge) => ({
+          ...edge,
+          uiConfig: { ...edge.uiConfig, label: undefined },
+        })),
+        signal,
+        userId: state.userId,
+        callerIds: state.callerIds,
+      });
+      const result = await app.run(
+        {
+          query: { item: items[index], index },
+          outputs: { ...state.outputs },
+        },
+        {
+          disableHistory: true,
+        },
+      );
+      if (!result.isOk) throw result.error;
+      usage.push(...Object.values(result.output.usage ?? {}).flat());
+      results[index] = node.result
+        ? result.output.getOutput(node.result)
+        : undefined;
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, runNext),
+  );
+  if (usage.length) state.setUsage(node.id, usage);
+
+  return {
+    output: {
+      results,
+    },
+  };
+};
+
+/**
+ * SubWorkflow Node Executor
+ * Runs another published workflow as a single step.
+ *
+ * Features:
+ * - Inputs are mapped from previous node outputs onto the target's Input schema
+ * - The target runs in its own state and never sees the caller's outputs
+ * - Results of the target's Output nodes are merged into this node's output
+ */
+export const subWorkflowNodeExecutor: NodeExecutor<
+  SubWorkflowNodeData
+> = async ({ node, state, signal }) => {
+  if (!node.workflow) {
+    throw new Error("Sub-workflow node requires a workflow");
+  }
+  const query = node.inputs.reduce(
+    (acc, cur) => {
+      if (cur.source) acc[cur.key] = state.getOutput(cur.source);
+      return acc;
+    },
+    {} as Record<string, unknown>,
+  );
+  state.setInput(node.id, query);
+
+  const result = await runPublishedWorkflow(node.workflow, query, {
+    signal,
+    userId: state.userId,
+    callerIds: state.callerIds,
+  });
+  if (result.usage.length) state.setUsage(node.id, result.usage);
+  return {
+    output: result.output,
+  };
+};
+
+/**
+ * Runs the latest published version of a workflow and merges the results of its Output nodes.
+ * The usage of every model call in the run is returned with them.
+ * The running user must have access to it, and a workflow already running
+ * further up the chain is never entered again.
+ */
+async function runPublishedWorkflow(
+  target: { id: string; name: string },
+  query: Record<string, unknown>,
+  options: { signal?: AbortSignal } & Pick<
+    WorkflowRuntimeState,
+    "userId" | "callerIds"
+  >,
+): Promise<{ output: Record<string, unknown>; usage: NodeUsage[] }> {
+  const callerIds = options.callerIds ?? [];
+  if (callerIds.includes(target.id)) {
+    throw new Error(`Workflow '${target.name}' calls itself recursively`);
+  }
+  if (callerIds.length >= MAX_SUB_WORKFLOW_DEPTH) {
+    throw new Error(
+      `Workflow '${target.name}' is nested deeper than ${MAX_SUB_WORKFLOW_DEPTH} levels`,
+    );
+  }
+  // The target may have been made private since it was attached
+  const hasAccess = options.userId
+    ? await workflowRepository.checkAccess(target.id, options.userId)
+    : false;
+  if (!hasAccess) {
+    throw new Error(`Workflow '${target.name}' is not accessible`);
+  }
+
+  // Callers run what the target published, never its draft
+  const workflow = await workflowRepository.selectStructureById(target.id, {
+    ignoreNote: true,
+    snapshot: "latest",
+  });
+  if (!workflow) {
+    throw new Error(`Workflow '${target.name}' not found`);
+  }
+  if (!workflow.isPublished) {
+    throw new Error(`Workflow '${workflow.name}' is not published`);
+  }
+
+  const result = await createWorkflowExecutor({
+    nodes: workflow.nodes,
+    edges: workflow.edges,
+    signal: options.signal,
+    userId: options.userId,
+    callerIds: [...callerIds, target.id],
+  }).run({ query }, { disableHistory: true });
+  if (isApprovalRequiredError(result.error)) {
+    // A nested run has no saved state to resume from
+    throw new Error(
+      `Workflow '${workflow.name}' waits for approval, which is not supported in sub-workflows`,
+    );
+  }
+  if (!result.isOk) throw result.error;
+
+  return {
+    output: workflow.nodes
+      .filter((n) => n.kind === NodeKind.Output)
+      .reduce(
+        (acc, n) => ({ ...acc, ...result.output.outputs[n.id] }),
+        {} as Record<string, unknown>,
+      ),
+    usage: Object.values(result.output.usage ?? {}).flat(),
+  };
+}
+
+/**
+ * Approval Node Executor
+ * Pauses the workflow until a person approves or rejects it.
+ *
+ * Features:
+ * - Without a decision it throws, which ends the run as waiting
+ * - The resumed run provides the decision through the runtime state
+ * - The decision picks the approve or reject branch
+ */
+export const approvalNodeExecutor: NodeExecutor<ApprovalNodeData> = ({
+  node,
+  state,
+}) => {
+  const message = node.message
+    ? convertTiptapJsonToText({
+        getOutput: state.getOutput,
+        json: node.message,
+      })
+    : "";
+  state.setInput(node.id, { message });
+
+  const decision = state.approvals[node.id];
+  if (!decision) {
+    throw new WorkflowApprovalRequiredError(node.id, message);
+  }
+  return {
+    output: {
+      approved: decision.approved,
+      comment: decision.comment,
+    },
+  };
+};
+
+/**
+ * Merge Node Executor
+ * Combines the outputs of parallel branches under named keys.
+ *
+ * Features:
+ * - The executor decides when the node runs, this only collects the outputs
+ * - Inputs whose source has not produced an output yet are left out
+ * - The keys that were collected are recorded as the node input
+ */
+export const mergeNodeExecutor: NodeExecutor<MergeNodeData> = ({
+  node,
+  state,
+}) => {
+  const output = node.inputs.reduce(
+    (acc, cur) => {
+      if (!cur.source) return acc;
+      const value = state.getOutput(cur.source);
+      if (value !== undefined) acc[cur.key] = value;
+      return acc;
+    },
+    {} as Record<string, unknown>,
+  );
+  return {
+    input: { merged: Object.keys(output) },
+    output,
+  };
+};
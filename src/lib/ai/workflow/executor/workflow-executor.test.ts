@@ -19,7 +19,28 @@ vi.mock("lib/ai/mcp/mcp-manager", () => ({
 // Mock server-only modules
 vi.mock("server-only", () => ({}));
 
-import { createWorkflowExecutor } from "./workflow-executor";
+vi.mock("lib/db/repository", () => ({
+  workflowRepository: {
+    checkAccess: vi.fn().mockResolvedValue(true),
+    selectStructureById: vi.fn(),
+  },
+}));
+
+vi.mock("lib/secrets/load-http-auth", () => ({
+  loadHttpAuth: vi.fn().mockResolvedValue({
+    headers: { Authorization: "Bearer runner-token" },
+    query: {},
+    secrets: ["runner-token"],
+  }),
+}));
+
+import {
+  createWorkflowExecutor,
+  findDownstreamNodeIds,
+} from "./workflow-executor";
+import { isApprovalRequiredError } from "../approval";
+import { loadHttpAuth } from "lib/secrets/load-http-auth";
+import { workflowRepository } from "lib/db/repository";
 
 // Mock node executors with proper implementations
 vi.mock("./node-executor", async (importOriginal) => {
@@ -612,4 +633,581 @@ describe("createWorkflowExecutor", () => {
     // Note: input data in WORKFLOW_START event is a known limitation of the current implementation
     // The important thing is that the workflow executes correctly with the provided input data
   });
+
+  it("7. should run the loop body once per item and collect the results", async () => {
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      createNode("loop", NodeKind.Loop, "Loop", {
+        items: { nodeId: "start", path: ["list"] },
+        result: { nodeId: "llm", path: ["answer"] },
+        concurrency: 2,
+      }),
+      createNode("llm", NodeKind.LLM, "LLM"),
+      createNode("end", NodeKind.Output, "End", {
+        outputData: [
+          { key: "results", source: { nodeId: "loop", path: ["results"] } },
+        ],
+      }),
+    ];
+
+    const edges: DBEdge[] = [
+      createEdge("e1", "start", "loop"),
+      createEdge("e2", "loop", "llm", "loop"),
+      createEdge("e3", "loop", "end"),
+    ];
+
+    const inputData: Record<string, unknown> = { list: ["a", "b", "c"] };
+    const nodeExecutorModule = await import("./node-executor");
+    if ("__setTestInputData" in nodeExecutorModule) {
+      (nodeExecutorModule as any).__setTestInputData(inputData);
+    }
+
+    const executor = createWorkflowExecutor({ nodes, edges });
+    const visitedNodes: string[] = [];
+    executor.subscribe((event: any) => {
+      if (event.eventType === "NODE_START") {
+        visitedNodes.push(event.node.name);
+      }
+    });
+
+    const result = await executor.run(inputData);
+
+    expect(result.isOk).toBe(true);
+    // Body nodes only run inside the loop, never in the outer graph
+    expect(visitedNodes).toEqual(["start", "loop", "end"]);
+    expect(nodeExecutorModule.llmNodeExecutor).toHaveBeenCalledTimes(3);
+    expect(
+      result.output?.getOutput({ nodeId: "end", path: ["results"] }),
+    ).toEqual(["mock llm response", "mock llm response", "mock llm response"]);
+  });
+
+  it("8. should run code with mapped inputs and validate the result", async () => {
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      createNode("code", NodeKind.Code, "Code", {
+        language: "javascript",
+        code: "return { total: a + b };",
+        inputs: [
+          { key: "a", source: { nodeId: "start", path: ["a"] } },
+          { key: "b", source: { nodeId: "start", path: ["b"] } },
+        ],
+        outputSchema: {
+          type: "object",
+          properties: { total: { type: "number" } },
+        },
+      }),
+      createNode("end", NodeKind.Output, "End", {
+        outputData: [
+          { key: "total", source: { nodeId: "code", path: ["total"] } },
+        ],
+      }),
+    ];
+
+    const edges: DBEdge[] = [
+      createEdge("e1", "start", "code"),
+      createEdge("e2", "code", "end"),
+    ];
+
+    const inputData: Record<string, unknown> = { a: 1, b: 2 };
+    const nodeExecutorModule = await import("./node-executor");
+    if ("__setTestInputData" in nodeExecutorModule) {
+      (nodeExecutorModule as any).__setTestInputData(inputData);
+    }
+
+    const result = await createWorkflowExecutor({ nodes, edges }).run(
+      inputData,
+    );
+
+    expect(result.isOk).toBe(true);
+    expect(result.output?.getOutput({ nodeId: "end", path: ["total"] })).toBe(
+      3,
+    );
+
+    // A failed node run leaves an unhandled rejection inside ts-edge,
+    // so the schema mismatch is checked on the executor directly
+    await expect(
+      nodeExecutorModule.codeNodeExecutor({
+        node: {
+          ...(nodes[1].nodeConfig as any),
+          id: "code",
+          code: 'return { total: "3" };',
+          inputs: [],
+        },
+        state: { setInput: vi.fn(), getOutput: vi.fn() } as any,
+      }),
+    ).rejects.toThrow("Code result does not match the output schema");
+  });
+
+  it("9. should replay from a mid node using seeded upstream outputs", async () => {
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      createNode("llm", NodeKind.LLM, "LLM"),
+      createNode("code", NodeKind.Code, "Code", {
+        language: "javascript",
+        code: "return { total: a + b };",
+        inputs: [
+          { key: "a", source: { nodeId: "start", path: ["a"] } },
+          { key: "b", source: { nodeId: "start", path: ["b"] } },
+        ],
+        outputSchema: {
+          type: "object",
+          properties: { total: { type: "number" } },
+        },
+      }),
+      createNode("end", NodeKind.Output, "End", {
+        outputData: [
+          { key: "total", source: { nodeId: "code", path: ["total"] } },
+        ],
+      }),
+    ];
+
+    const edges: DBEdge[] = [
+      createEdge("e1", "start", "llm"),
+      createEdge("e2", "llm", "code"),
+      createEdge("e3", "code", "end"),
+    ];
+
+    expect(findDownstreamNodeIds("llm", edges)).toEqual(["llm", "code", "end"]);
+
+    const executor = createWorkflowExecutor({
+      nodes,
+      edges,
+      startNodeId: "code",
+    });
+
+    const visitedNodes: string[] = [];
+    executor.subscribe((event: any) => {
+      if (event.eventType === "NODE_START") {
+        visitedNodes.push(event.node.name);
+      }
+    });
+
+    const nodeExecutorModule = await import("./node-executor");
+    const result = await executor.run({
+      query: { a: 1, b: 2 },
+      outputs: {
+        start: { a: 1, b: 2 },
+        llm: { answer: "saved llm response" },
+      },
+    } as any);
+
+    expect(result.isOk).toBe(true);
+    expect(visitedNodes).toEqual(["code", "end"]);
+    expect(nodeExecutorModule.llmNodeExecutor).not.toHaveBeenCalled();
+    expect(result.output?.getOutput({ nodeId: "end", path: ["total"] })).toBe(
+      3,
+    );
+  });
+
+  it("10. should pause at an approval node and resume on the decided branch", async () => {
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      createNode("approval", NodeKind.Approval, "Approval"),
+      createNode("approved", NodeKind.Output, "Approved"),
+      createNode("rejected", NodeKind.Output, "Rejected"),
+    ];
+
+    const edges: DBEdge[] = [
+      createEdge("e1", "start", "approval"),
+      createEdge("e2", "approval", "approved", "approve"),
+      createEdge("e3", "approval", "rejected", "reject"),
+    ];
+
+    // The pause itself is an error inside ts-edge, so it is checked on the executor
+    const { approvalNodeExecutor } = await import("./node-executor");
+    expect(() =>
+      approvalNodeExecutor({
+        node: { id: "approval", kind: NodeKind.Approval } as any,
+        state: { setInput: vi.fn(), approvals: {} } as any,
+      }),
+    ).toThrow(expect.toSatisfy(isApprovalRequiredError));
+
+    const executor = createWorkflowExecutor({
+      nodes,
+      edges,
+      startNodeId: "approval",
+    });
+    const visitedNodes: string[] = [];
+    executor.subscribe((event: any) => {
+      if (event.eventType === "NODE_START") {
+        visitedNodes.push(event.node.name);
+      }
+    });
+
+    const result = await executor.run({
+      query: {},
+      outputs: { start: {} },
+      approvals: { approval: { approved: false, comment: "no" } },
+    } as any);
+
+    expect(result.isOk).toBe(true);
+    expect(visitedNodes).toEqual(["approval", "rejected"]);
+    expect(result.output?.getOutput({ nodeId: "approval", path: [] })).toEqual({
+      approved: false,
+      comment: "no",
+    });
+  });
+
+  it("11. should retry a failing node and continue on its error branch", async () => {
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      createNode("code", NodeKind.Code, "Code", {
+        language: "javascript",
+        code: 'throw new Error("boom");',
+        inputs: [],
+        errorPolicy: { retry: 1, onError: "branch" },
+      }),
+      createNode("next", NodeKind.Output, "Next"),
+      createNode("fallback", NodeKind.Output, "Fallback", {
+        outputData: [
+          { key: "error", source: { nodeId: "code", path: ["error"] } },
+        ],
+      }),
+    ];
+
+    const edges: DBEdge[] = [
+      createEdge("e1", "start", "code"),
+      createEdge("e2", "code", "next"),
+      createEdge("e3", "code", "fallback", "error"),
+    ];
+
+    const executor = createWorkflowExecutor({ nodes, edges });
+    const visitedNodes: string[] = [];
+    executor.subscribe((event: any) => {
+      if (event.eventType === "NODE_START") {
+        visitedNodes.push(event.node.name);
+      }
+    });
+
+    const result = await executor.run({ query: {} } as any);
+
+    expect(result.isOk).toBe(true);
+    expect(visitedNodes).toEqual(["start", "code", "fallback"]);
+    expect(result.output?.attempts.code).toHaveLength(2);
+    expect(
+      result.output?.getOutput({ nodeId: "fallback", path: ["error"] }),
+    ).toMatchObject({ message: expect.stringContaining("boom"), attempts: 2 });
+  });
+
+  it("12. should join parallel branches at a merge node under named keys", async () => {
+    const createMergeWorkflow = (config: Record<string, any>) => {
+      const nodes: DBNode[] = [
+        createNode("start", NodeKind.Input, "Start"),
+        createNode("p1", "NOOP", "Parallel 1"),
+        createNode("p2", "NOOP", "Parallel 2"),
+        createNode("p3", "NOOP", "Parallel 3"),
+        createNode("merge", NodeKind.Merge, "Merge", {
+          inputs: ["p1", "p2", "p3"].map((id) => ({
+            key: `from_${id}`,
+            source: { nodeId: id, path: [] },
+          })),
+          ...config,
+        }),
+        createNode("end", NodeKind.Output, "End"),
+      ];
+      const edges: DBEdge[] = [
+        createEdge("e1", "start", "p1"),
+        createEdge("e2", "start", "p2"),
+        createEdge("e3", "start", "p3"),
+        createEdge("e4", "p1", "merge"),
+        createEdge("e5", "p2", "merge"),
+        createEdge("e6", "p3", "merge"),
+        createEdge("e7", "merge", "end"),
+      ];
+      const executor = createWorkflowExecutor({ nodes, edges });
+      const visitedNodes: string[] = [];
+      executor.subscribe((event: any) => {
+        if (event.eventType === "NODE_START") {
+          visitedNodes.push(event.node.name);
+        }
+      });
+      return { executor, visitedNodes };
+    };
+
+    const all = createMergeWorkflow({ mode: "all" });
+    const allResult = await all.executor.run({ query: {} } as any);
+
+    expect(allResult.isOk).toBe(true);
+    expect(all.visitedNodes.filter((name) => name === "merge")).toHaveLength(1);
+    expect(all.visitedNodes.lastIndexOf("merge")).toBeGreaterThan(
+      Math.max(...["p1", "p2", "p3"].map((id) => all.visitedNodes.indexOf(id))),
+    );
+    expect(
+      Object.keys(
+        allResult.output?.getOutput({ nodeId: "merge", path: [] }) ?? {},
+      ).sort(),
+    ).toEqual(["from_p1", "from_p2", "from_p3"]);
+
+    // The first arrival runs the merge, later ones are dropped
+    const first = createMergeWorkflow({ mode: "first", count: 1 });
+    const firstResult = await first.executor.run({ query: {} } as any);
+
+    expect(firstResult.isOk).toBe(true);
+    expect(first.visitedNodes.filter((name) => name === "merge")).toHaveLength(
+      1,
+    );
+    expect(first.visitedNodes.filter((name) => name === "end")).toHaveLength(1);
+    expect(first.visitedNodes.filter((name) => name === "SKIP")).toHaveLength(
+      2,
+    );
+  });
+
+  it("13. should use pinned outputs instead of executing nodes in a dry run", async () => {
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      createNode("llm", NodeKind.LLM, "LLM"),
+      createNode("condition", NodeKind.Condition, "Condition", {
+        branches: {
+          if: {
+            id: "true",
+            type: "if",
+            conditions: [
+              {
+                source: { nodeId: "llm", path: ["answer"] },
+                operator: StringConditionOperator.Equals,
+                value: "pinned",
+              },
+            ],
+            logicalOperator: "AND",
+          },
+          else: {
+            id: "false",
+            type: "else",
+            conditions: [],
+            logicalOperator: "AND",
+          },
+        },
+      }),
+      createNode("pinned", NodeKind.Output, "Pinned"),
+      createNode("real", NodeKind.Output, "Real"),
+    ];
+    const edges: DBEdge[] = [
+      createEdge("e1", "start", "llm"),
+      createEdge("e2", "llm", "condition"),
+      createEdge("e3", "condition", "pinned", "true"),
+      createEdge("e4", "condition", "real", "false"),
+    ];
+
+    const executor = createWorkflowExecutor({
+      nodes,
+      edges,
+      mockOutputs: { llm: { answer: "pinned", totalTokens: 0 } },
+    });
+    const visitedNodes: string[] = [];
+    executor.subscribe((event: any) => {
+      if (event.eventType === "NODE_START") {
+        visitedNodes.push(event.node.name);
+      }
+    });
+
+    const result = await executor.run({ query: {} } as any);
+    const { llmNodeExecutor } = await import("./node-executor");
+
+    expect(result.isOk).toBe(true);
+    expect(llmNodeExecutor).not.toHaveBeenCalled();
+    expect(visitedNodes).toContain("pinned");
+    expect(visitedNodes).not.toContain("real");
+  });
+
+  it("14. should run a python code node on the server", async () => {
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      createNode("code", NodeKind.Code, "Code", {
+        language: "python",
+        code: "print(a)\n{'total': a + b}",
+        inputs: [
+          { key: "a", source: { nodeId: "start", path: ["a"] } },
+          { key: "b", source: { nodeId: "start", path: ["b"] } },
+        ],
+        outputSchema: {
+          type: "object",
+          properties: { total: { type: "number" } },
+        },
+      }),
+      createNode("end", NodeKind.Output, "End", {
+        outputData: [
+          { key: "total", source: { nodeId: "code", path: ["total"] } },
+        ],
+      }),
+    ];
+
+    const edges: DBEdge[] = [
+      createEdge("e1", "start", "code"),
+      createEdge("e2", "code", "end"),
+    ];
+
+    const inputData: Record<string, unknown> = { a: 1, b: 2 };
+    const nodeExecutorModule = await import("./node-executor");
+    if ("__setTestInputData" in nodeExecutorModule) {
+      (nodeExecutorModule as any).__setTestInputData(inputData);
+    }
+
+    const result = await createWorkflowExecutor({ nodes, edges }).run(
+      inputData,
+    );
+
+    expect(result.isOk).toBe(true);
+    expect(result.output?.getOutput({ nodeId: "end", path: ["total"] })).toBe(
+      3,
+    );
+  }, 40000);
+
+  it("15. should sign HTTP requests with the auth profile of the running user", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response("ok"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      createNode("http", NodeKind.Http, "Request", {
+        url: "https://example.com/data",
+        method: "GET",
+        headers: [],
+        query: [],
+        auth: "api",
+      }),
+    ];
+    const edges: DBEdge[] = [createEdge("e1", "start", "http")];
+
+    try {
+      const result = await createWorkflowExecutor({
+        nodes,
+        edges,
+        userId: "runner",
+      }).run({});
+      expect(result.isOk).toBe(true);
+      expect(loadHttpAuth).toHaveBeenCalledWith(
+        "runner",
+        "api",
+        "https://example.com/data",
+      );
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe(
+        "Bearer runner-token",
+      );
+      expect(
+        result.output?.getInput("http").request.headers.Authorization,
+      ).not.toContain("runner-token");
+
+      // Without a running user no profile is loaded, checked on the executor like the approval pause
+      vi.mocked(loadHttpAuth).mockClear();
+      const { httpNodeExecutor } = await import("./node-executor");
+      await expect(
+        httpNodeExecutor({
+          node: { id: "http", url: "https://example.com", auth: "api" } as any,
+          state: { getOutput: vi.fn() } as any,
+        }),
+      ).rejects.toThrow("requires a signed-in user");
+      expect(loadHttpAuth).not.toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  const subWorkflowNode = {
+    id: "sub",
+    kind: NodeKind.SubWorkflow,
+    workflow: { id: "loop", name: "Loop" },
+    inputs: [],
+  } as any;
+
+  it("16. should stop a published workflow that calls itself", async () => {
+    // The published version calls itself, which the save checks did not catch.
+    // Its error branch turns the refused call into an output.
+    vi.mocked(workflowRepository.selectStructureById).mockResolvedValue({
+      id: "loop",
+      name: "Loop",
+      isPublished: true,
+      nodes: [
+        createNode("start", NodeKind.Input, "Start"),
+        createNode("sub", NodeKind.SubWorkflow, "Sub", {
+          workflow: { id: "loop", name: "Loop" },
+          inputs: [],
+          errorPolicy: { onError: "branch" },
+        }),
+        createNode("end", NodeKind.Output, "End", {
+          outputData: [
+            { key: "error", source: { nodeId: "sub", path: ["error"] } },
+          ],
+        }),
+      ],
+      edges: [
+        createEdge("e1", "start", "sub"),
+        createEdge("e2", "sub", "end", "error"),
+      ],
+    } as any);
+
+    const { subWorkflowNodeExecutor } = await import("./node-executor");
+    const result = await subWorkflowNodeExecutor({
+      node: subWorkflowNode,
+      state: { setInput: vi.fn(), getOutput: vi.fn(), userId: "user" } as any,
+    });
+
+    // Entered once, then refused before the second run
+    expect(workflowRepository.selectStructureById).toHaveBeenCalledTimes(1);
+    expect(workflowRepository.checkAccess).toHaveBeenCalledWith("loop", "user");
+    expect(result.output.error).toMatchObject({
+      message: expect.stringContaining("calls itself recursively"),
+    });
+  });
+
+  it("17. should stop sub-workflow runs nested deeper than the limit", async () => {
+    const { subWorkflowNodeExecutor } = await import("./node-executor");
+    await expect(
+      subWorkflowNodeExecutor({
+        node: subWorkflowNode,
+        state: {
+          setInput: vi.fn(),
+          getOutput: vi.fn(),
+          userId: "user",
+          callerIds: Array.from({ length: 10 }, (_, i) => `caller-${i}`),
+        } as any,
+      }),
+    ).rejects.toThrow("nested deeper than 10 levels");
+  });
+
+  it("18. should not run a sub-workflow the running user cannot access", async () => {
+    vi.mocked(workflowRepository.checkAccess).mockResolvedValueOnce(false);
+    const { subWorkflowNodeExecutor } = await import("./node-executor");
+    await expect(
+      subWorkflowNodeExecutor({
+        node: subWorkflowNode,
+        state: { setInput: vi.fn(), getOutput: vi.fn(), userId: "user" } as any,
+      }),
+    ).rejects.toThrow("Workflow 'Loop' is not accessible");
+    expect(workflowRepository.selectStructureById).not.toHaveBeenCalled();
+  });
+
+  it("19. should refuse a workflow calling itself from its top-level run", async () => {
+    // Entry points start callerIds with the workflow they run
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      createNode("sub", NodeKind.SubWorkflow, "Sub", {
+        workflow: { id: "loop", name: "Loop" },
+        inputs: [],
+        errorPolicy: { onError: "branch" },
+      }),
+      createNode("end", NodeKind.Output, "End", {
+        outputData: [
+          { key: "error", source: { nodeId: "sub", path: ["error"] } },
+        ],
+      }),
+    ];
+    const edges: DBEdge[] = [
+      createEdge("e1", "start", "sub"),
+      createEdge("e2", "sub", "end", "error"),
+    ];
+
+    const result = await createWorkflowExecutor({
+      nodes,
+      edges,
+      userId: "user",
+      callerIds: ["loop"],
+    }).run({});
+
+    expect(workflowRepository.selectStructureById).not.toHaveBeenCalled();
+    expect(
+      result.output?.getOutput({ nodeId: "end", path: ["error"] }),
+    ).toMatchObject({
+      message: expect.stringContaining("calls itself recursively"),
+    });
+  });
 });
@@ -10,6 +10,11 @@ import {
   toolNodeExecutor,
   httpNodeExecutor,
   templateNodeExecutor,
+  codeNodeExecutor,
+  loopNodeExecutor,
+  subWorkflowNodeExecutor,
+  approvalNodeExecutor,
+  mergeNodeExecutor,
 } from "./node-executor";
 import { toAny } from "lib/utils";
 import { addEdgeBranchLabel } from "./add-edge-branch-label";
@@ -18,6 +23,16 @@ import { convertDBNodeToUINode } from "../shared.workflow";
 import globalLogger from "logger";
 import { ConsolaInstance } from "consola";
 import { colorize } from "consola/utils";
+import { LOOP_BODY_HANDLE } from "../loop-body";
+import { APPROVAL_APPROVE_HANDLE, APPROVAL_REJECT_HANDLE } from "../approval";
+import {
+  hasErrorBranch,
+  NODE_ERROR_HANDLE,
+  NODE_ERROR_OUTPUT_KEY,
+  runWithErrorPolicy,
+} from "../node-error-policy";
+import { NodeAttempt } from "../workflow.interface";
+import { WorkflowCancelledError } from "../cancellation";
 
 /**
  * Maps node kinds to their corresponding executor functions.
@@ -39,6 +54,16 @@ function getExecutorByKind(kind: NodeKind): NodeExecutor {
       return httpNodeExecutor;
     case NodeKind.Template:
       return templateNodeExecutor;
+    case NodeKind.Code:
+      return codeNodeExecutor;
+    case NodeKind.Loop:
+      return loopNodeExecutor;
+    case NodeKind.SubWorkflow:
+      return subWorkflowNodeExecutor;
+    case NodeKind.Approval:
+      return approvalNodeExecutor;
+    case NodeKind.Merge:
+      return mergeNodeExecutor;
     case "NOOP" as any:
       return () => {
         return {
@@ -60,6 +85,9 @@ function getExecutorByKind(kind: NodeKind): NodeExecutor {
  * - Data flow between nodes
  * - Error handling and logging
  * - Branch synchronization for condition nodes
+ * - Joining parallel branches at merge nodes, which run concurrently
+ * - Pinned outputs of a dry run, which replace the executors of their nodes
+ * - Cancellation, which aborts the in-flight calls of running nodes and ends the run
  *
  * @param workflow - Contains nodes and edges defining the workflow structure
  * @returns Compiled workflow executor ready to run
@@ -68,11 +96,40 @@ export const createWorkflowExecutor = (workflow: {
   nodes: DBNode[];
   edges: DBEdge[];
   logger?: ConsolaInstance;
+  /**
+   * Node to start from instead of the Input node.
+   * Used to replay a run, with upstream outputs seeded into the initial state.
+   */
+  startNodeId?: string;
+  /**
+   * Outputs by node id that are used instead of executing those nodes.
+   * Set for dry runs, see `collectMockOutputs`.
+   */
+  mockOutputs?: Record<string, any>;
+  /**
+   * Aborts the run. Running nodes pass it to their model, HTTP and MCP calls,
+   * and the run ends with a `WorkflowCancelledError`.
+   */
+  signal?: AbortSignal;
+  /**
+   * User running the workflow. Nodes use their auth profiles and secrets,
+   * never the ones of the workflow owner.
+   */
+  userId?: string;
+  /**
+   * The workflow being run, after the published workflows it was called from
+   * by Sub-workflow nodes and LLM tools. Guards nested runs against recursion.
+   */
+  callerIds?: string[];
 }) => {
+  const { signal } = workflow;
+
   // Create runtime state store for the workflow
   const store = createGraphStore({
     nodes: workflow.nodes,
     edges: workflow.edges,
+    userId: workflow.userId,
+    callerIds: workflow.callerIds,
   });
 
   const logger =
@@ -115,6 +172,11 @@ export const createWorkflowExecutor = (workflow: {
 
   // Add all workflow nodes to the execution graph
   workflow.nodes.forEach((node) => {
+    const errorBranch = hasErrorBranch({
+      kind: node.kind,
+      errorPolicy: node.nodeConfig.errorPolicy,
+    });
+
     graph.addNode({
       name: node.id,
       metadata: {
@@ -123,11 +185,44 @@ export const createWorkflowExecutor = (workflow: {
       async execute(state) {
         // Get the appropriate executor for this node type
         const executor = getExecutorByKind(node.kind as NodeKind);
+        const data = convertDBNodeToUINode(node).data;
+
+        // Pinned outputs of a dry run stand in for the executor
+        const mockOutput = workflow.mockOutputs?.[node.id];
+        const execute: NodeExecutor =
+          mockOutput !== undefined ? () => ({ output: mockOutput }) : executor;
 
-        // Execute the node with current state
-        const result = await executor({
-          node: convertDBNodeToUINode(node).data,
-          state,
+        // An aborted call fails with its own error, which is reported as the cancellation
+        const executeUnlessCancelled = async () => {
+          if (signal?.aborted) throw new WorkflowCancelledError();
+          try {
+            return await execute({ node: data, state, signal });
+          } catch (error) {
+            if (signal?.aborted) throw new WorkflowCancelledError();
+            throw error;
+          }
+        };
+
+        // Execute the node with current state, retrying as its policy allows
+        const attempts: NodeAttempt[] = [];
+        const result = await runWithErrorPolicy(
+          data.errorPolicy,
+          executeUnlessCancelled,
+          (attempt) => {
+            attempts.push(attempt);
+            state.setAttempts(node.id, [...attempts]);
+          },
+        ).catch((error) => {
+          if (!errorBranch || signal?.aborted) throw error;
+          // The fallback branch receives the error instead of the run failing
+          return {
+            output: {
+              [NODE_ERROR_OUTPUT_KEY]: {
+                ...attempts.at(-1)!.error,
+                attempts: attempts.length,
+              },
+            },
+          } as Awaited<ReturnType<NodeExecutor>>;
         });
 
         // Store the execution results in the workflow state
@@ -157,25 +252,89 @@ export const createWorkflowExecutor = (workflow: {
         if (!next?.length) return;
         return next.map((node) => node.id);
       });
+    } else if (node.kind === NodeKind.Approval) {
+      // Approval nodes continue on the branch matching the decision
+      graph.dynamicEdge(node.id, (state) => {
+        const approved = state.getOutput({
+          nodeId: node.id,
+          path: ["approved"],
+        });
+        const handle = approved
+          ? APPROVAL_APPROVE_HANDLE
+          : APPROVAL_REJECT_HANDLE;
+        const next = workflow.edges
+          .filter(
+            (edge) =>
+              edge.source == node.id && edge.uiConfig.sourceHandle === handle,
+          )
+          .map((edge) => edge.target);
+        if (!next.length) return;
+        return next;
+      });
     } else {
-      // Regular nodes have static edges defined in the workflow
-      const targetEdges = workflow.edges
-        .filter((edge) => edge.source == node.id)
+      // Regular nodes have static edges defined in the workflow.
+      // Loop body edges are run by the loop node itself, not by this graph.
+      const nextEdges = workflow.edges.filter(
+        (edge) =>
+          edge.source == node.id &&
+          !(
+            node.kind === NodeKind.Loop &&
+            edge.uiConfig.sourceHandle === LOOP_BODY_HANDLE
+          ),
+      );
+      const targetEdges = nextEdges
+        .filter((edge) => edge.uiConfig.sourceHandle !== NODE_ERROR_HANDLE)
         .map((v) => v.target);
 
-      if (targetEdges.length) toAny(graph.edge)(node.id, targetEdges);
+      if (errorBranch) {
+        // A failed last attempt continues on the error handle instead
+        const errorEdges = nextEdges
+          .filter((edge) => edge.uiConfig.sourceHandle === NODE_ERROR_HANDLE)
+          .map((v) => v.target);
+        graph.dynamicEdge(node.id, (state) => {
+          const failed = Boolean(state.attempts[node.id]?.at(-1)?.error);
+          const next = failed ? errorEdges : targetEdges;
+          if (!next.length) return;
+          return next;
+        });
+      } else if (targetEdges.length) {
+        toAny(graph.edge)(node.id, targetEdges);
+      }
     }
   });
 
+  const startNodeId =
+    workflow.startNodeId ??
+    workflow.nodes.find((node) => node.kind == NodeKind.Input)!.id;
+
+  // Branches that start upstream of the start node never arrive,
+  // so only edges reachable from it take part in synchronization
+  const reachableNodeIds = findDownstreamNodeIds(startNodeId, workflow.edges);
+  const reachableEdges = workflow.edges.filter((edge) =>
+    reachableNodeIds.includes(edge.source),
+  );
+
   // Build table to track how many branches need to reach each node
   // Used to prevent duplicate execution when multiple condition branches
   // converge on the same target node
-  let needTable: Record<string, number> = buildNeedTable(workflow.edges);
+  let needTable: Record<string, number> = buildNeedTable(
+    reachableEdges,
+    workflow.nodes,
+  );
+  // Merge nodes that already ran drop the branches arriving after them
+  const mergeNodeIds = new Set(
+    workflow.nodes
+      .filter((node) => node.kind === NodeKind.Merge)
+      .map((node) => node.id),
+  );
+  let closedMergeIds = new Set<string>();
 
-  // Compile the graph starting from the Input node
+  // Compile the graph starting from the Input node (or the replay start node)
   const app = graph
-    .compile(workflow.nodes.find((node) => node.kind == NodeKind.Input)!.id)
+    .compile(startNodeId)
     .use(async ({ name: nodeId, input }, next) => {
+      if (closedMergeIds.has(nodeId)) return next({ name: "SKIP", input });
+
       // Check if this node is expecting multiple incoming branches
       if (!(nodeId in needTable)) return;
 
@@ -185,13 +344,15 @@ export const createWorkflowExecutor = (workflow: {
 
       // All branches have arrived, clean up and continue execution
       delete needTable[nodeId];
+      if (mergeNodeIds.has(nodeId)) closedMergeIds.add(nodeId);
       return next();
     });
 
   // Set up event logging for workflow execution monitoring
   app.subscribe((event) => {
     if (event.eventType == "WORKFLOW_START") {
-      needTable = buildNeedTable(workflow.edges);
+      needTable = buildNeedTable(reachableEdges, workflow.nodes);
+      closedMergeIds = new Set();
       logger.debug(
         `[${event.eventType}] ${workflow.nodes.length} nodes, ${workflow.edges.length} edges`,
       );
@@ -220,15 +381,42 @@ export const createWorkflowExecutor = (workflow: {
   return app;
 };
 
+/**
+ * Collects the given node and every node reachable from it.
+ * Used to find the nodes that run again when a workflow is replayed from a node.
+ */
+export function findDownstreamNodeIds(
+  startNodeId: string,
+  edges: Pick<DBEdge, "source" | "target">[],
+): string[] {
+  const visited = new Set<string>();
+  const queue = [startNodeId];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    edges
+      .filter((edge) => edge.source === id)
+      .forEach((edge) => queue.push(edge.target));
+  }
+  return Array.from(visited);
+}
+
 /**
  * Builds a table tracking how many different branches need to reach each target node.
  * This is used to synchronize execution when multiple condition branches
  * converge on the same target node.
  *
+ * Merge nodes set to "first" need only their configured count of branches.
+ *
  * @param edges - All edges in the workflow
+ * @param nodes - All nodes in the workflow
  * @returns Object mapping node IDs to required branch count
  */
-function buildNeedTable(edges: DBEdge[]): Record<string, number> {
+function buildNeedTable(
+  edges: DBEdge[],
+  nodes: DBNode[],
+): Record<string, number> {
   const map = new Map<string, Set<string>>();
 
   // Group edges by target and track unique branch labels
@@ -240,5 +428,12 @@ function buildNeedTable(edges: DBEdge[]): Record<string, number> {
   // Only nodes with multiple incoming branches need synchronization
   const tbl: Record<string, number> = {};
   map.forEach((set, n) => set.size > 1 && (tbl[n] = set.size));
+
+  nodes.forEach((node) => {
+    if (node.kind !== NodeKind.Merge || !(node.id in tbl)) return;
+    if (node.nodeConfig.mode !== "first") return;
+    const count = Math.max(1, node.nodeConfig.count ?? 1);
+    tbl[node.id] = Math.min(tbl[node.id], count);
+  });
   return tbl;
 }
@@ -0,0 +1,32 @@
+/**
+ * Abort controllers of the runs executing in this server process, by run id.
+ * A run executing in another process is not found here, see `abortWorkflowRun`.
+ */
+const runAbortControllers = new Map<string, AbortController>();
+
+/**
+ * Makes a run cancellable until the returned function is called.
+ */
+export function registerRunAbortController(
+  runId: string,
+  controller: AbortController,
+): () => void {
+  runAbortControllers.set(runId, controller);
+  return () => {
+    if (runAbortControllers.get(runId) === controller) {
+      runAbortControllers.delete(runId);
+    }
+  };
+}
+
+/**
+ * Aborts the in-flight calls of a run executing in this process.
+ *
+ * @returns false when the run is not executing here
+ */
+export function abortWorkflowRun(runId: string): boolean {
+  const controller = runAbortControllers.get(runId);
+  if (!controller) return false;
+  controller.abort();
+  return true;
+}
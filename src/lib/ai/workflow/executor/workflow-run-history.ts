@@ -0,0 +1,304 @@
+import { DBEdge, DBNode, DBWorkflow, DBWorkflowRun } from "app-types/workflow";
+import { workflowRepository, workflowRunRepository } from "lib/db/repository";
+import { errorToString } from "lib/utils";
+import logger from "logger";
+import { colorize } from "consola/utils";
+import { NodeKind } from "../workflow.interface";
+import { createWorkflowExecutor } from "./workflow-executor";
+import { WorkflowRuntimeState } from "./graph-store";
+import { ApprovalDecision, isApprovalRequiredError } from "../approval";
+import { retriedAttempts } from "../node-error-policy";
+import { collectMockOutputs } from "../node-mock";
+import { isWorkflowCancelledError } from "../cancellation";
+import { registerRunAbortController } from "./workflow-run-abort";
+
+/**
+ * Persists a workflow run and each of its node executions.
+ * Writes are queued in event order and never fail the workflow itself.
+ * With the abort controller the executor was created with, the run can be cancelled by id.
+ *
+ * @returns The saved run, created before the executor starts
+ */
+export async function recordWorkflowRun(
+  executor: ReturnType<typeof createWorkflowExecutor>,
+  run: Pick<
+    DBWorkflowRun,
+    "workflowId" | "userId" | "input" | "startNodeId" | "replayOfRunId"
+  > &
+    Partial<Pick<DBWorkflowRun, "trigger" | "version" | "dryRun">> & {
+      nodes: DBNode[];
+      abortController?: AbortController;
+    },
+): Promise<DBWorkflowRun> {
+  const saved = await workflowRunRepository.insertRun({
+    workflowId: run.workflowId,
+    userId: run.userId,
+    input: run.input,
+    startNodeId: run.startNodeId,
+    replayOfRunId: run.replayOfRunId,
+    trigger: run.trigger,
+    version: run.version,
+    dryRun: run.dryRun,
+  });
+
+  subscribeRunRecorder(executor, saved.id, run.nodes, run.abortController);
+
+  return saved;
+}
+
+/**
+ * Saves the node executions and the end result of an executor into a run.
+ * A run stopped by an Approval node is saved as waiting instead of failed,
+ * and a cancelled run as cancelled.
+ */
+function subscribeRunRecorder(
+  executor: ReturnType<typeof createWorkflowExecutor>,
+  runId: string,
+  nodes: DBNode[],
+  abortController?: AbortController,
+) {
+  const unregister = abortController
+    ? registerRunAbortController(runId, abortController)
+    : undefined;
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  let queue = Promise.resolve();
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch((error) => {
+      logger.error(`Failed to save workflow run '${runId}'`, error);
+    });
+  };
+
+  executor.subscribe((event) => {
+    if (event.eventType == "NODE_END") {
+      const node = nodeById.get(event.node.name);
+      if (!node) return; // SKIP node
+      const state = (event.node.output ?? event.node.input) as
+        | WorkflowRuntimeState
+        | undefined;
+      const status = toRunStatus(event);
+      enqueue(() =>
+        workflowRunRepository.insertRunNode({
+          runId,
+          nodeId: node.id,
+          name: node.name,
+          kind: node.kind,
+          status,
+          input: state?.inputs?.[node.id],
+          output: event.isOk ? state?.outputs?.[node.id] : undefined,
+          error:
+            status != "fail"
+              ? undefined
+              : {
+                  name: event.error?.name || "ERROR",
+                  message: errorToString(event.error),
+                },
+          attempts: retriedAttempts(state, node.id),
+          toolCalls: state?.toolCalls?.[node.id],
+          usage: state?.usage?.[node.id],
+          startedAt: new Date(event.startedAt),
+          endedAt: new Date(event.endedAt),
+        }),
+      );
+    } else if (event.eventType == "WORKFLOW_END") {
+      unregister?.();
+      const status = toRunStatus(event);
+      enqueue(() =>
+        workflowRunRepository.finishRun(runId, {
+          status,
+          output: extractRunOutput(
+            nodes,
+            event.output as WorkflowRuntimeState | undefined,
+          ),
+          error:
+            status != "fail"
+              ? undefined
+              : {
+                  name: event.error?.name || "ERROR",
+                  message: errorToString(event.error),
+                },
+        }),
+      );
+    }
+  });
+}
+
+/**
+ * Status of a finished node or run, from the error it ended with.
+ */
+export function toRunStatus(result: {
+  isOk: boolean;
+  error?: unknown;
+}): Exclude<DBWorkflowRun["status"], "running"> {
+  if (result.isOk) return "success";
+  if (isApprovalRequiredError(result.error)) return "waiting";
+  if (isWorkflowCancelledError(result.error)) return "cancelled";
+  return "fail";
+}
+
+/**
+ * Picks the Output node results from a finished state.
+ * A single Output node yields its value directly, several yield an array.
+ */
+export function extractRunOutput(
+  nodes: DBNode[],
+  state?: WorkflowRuntimeState,
+) {
+  const outputs = nodes
+    .filter((node) => node.kind == NodeKind.Output)
+    .map((node) => state?.outputs?.[node.id])
+    .filter(Boolean);
+  return outputs.length > 1 ? outputs : outputs[0];
+}
+
+/**
+ * Starts a recorded run of a saved workflow without streaming its events.
+ * Used by triggers that run workflows with no client attached.
+ *
+ * @returns The saved run and a promise that settles when the workflow ends
+ */
+export async function startWorkflowRun(options: {
+  workflow: DBWorkflow & {
+    nodes: DBNode[];
+    edges: DBEdge[];
+    snapshot?: number;
+  };
+  userId: string;
+  input: Record<string, any>;
+  trigger: DBWorkflowRun["trigger"];
+}) {
+  const { workflow } = options;
+  const abortController = new AbortController();
+  const app = createWorkflowExecutor({
+    nodes: workflow.nodes,
+    edges: workflow.edges,
+    logger: logger.withDefaults({
+      message: colorize("cyan", `WORKFLOW '${workflow.name}' `),
+    }),
+    signal: abortController.signal,
+    userId: options.userId,
+    callerIds: [workflow.id],
+  });
+
+  const run = await recordWorkflowRun(app, {
+    workflowId: workflow.id,
+    userId: options.userId,
+    input: options.input,
+    nodes: workflow.nodes,
+    trigger: options.trigger,
+    version: workflow.snapshot,
+    abortController,
+  });
+
+  const result = app.run(
+    { query: options.input },
+    {
+      disableHistory: true,
+      timeout: 1000 * 60 * 5,
+    },
+  );
+
+  return { run, result };
+}
+
+/**
+ * Prepares a run that waits at an Approval node to continue with a decision.
+ * The run keeps its record, so its history shows the pause and what ran after it.
+ * A run of a published version continues on that version, not on the given draft.
+ * A dry run keeps using the outputs pinned on the nodes it continues with.
+ *
+ * @returns The executor, not started yet, the state to run it with, the structure it runs
+ * and the controller that cancels it
+ */
+export async function resumeWorkflowRun(options: {
+  workflow: DBWorkflow & { nodes: DBNode[]; edges: DBEdge[] };
+  runId: string;
+  userId: string;
+  decision: ApprovalDecision;
+}) {
+  const run = await workflowRunRepository.selectRunById(options.runId);
+  if (
+    !run ||
+    run.workflowId !== options.workflow.id ||
+    run.userId !== options.userId
+  ) {
+    throw new Error("Run not found");
+  }
+  const workflow = run.version
+    ? await workflowRepository.selectStructureById(run.workflowId, {
+        ignoreNote: true,
+        snapshot: run.version,
+      })
+    : options.workflow;
+  if (!workflow) throw new Error("Workflow version not found");
+  const waitingNode = run.nodes.findLast((node) => node.status == "waiting");
+  if (
+    run.status != "waiting" ||
+    !waitingNode ||
+    !workflow.nodes.some((node) => node.id === waitingNode.nodeId)
+  ) {
+    throw new Error("Run is not waiting for approval");
+  }
+  const outputs = await selectRunOutputs(run.id);
+
+  const abortController = new AbortController();
+  const app = createWorkflowExecutor({
+    nodes: workflow.nodes,
+    edges: workflow.edges,
+    logger: logger.withDefaults({
+      message: colorize("cyan", `WORKFLOW '${workflow.name}' `),
+    }),
+    startNodeId: waitingNode.nodeId,
+    mockOutputs: run.dryRun ? collectMockOutputs(workflow.nodes) : undefined,
+    signal: abortController.signal,
+    userId: options.userId,
+    callerIds: [run.workflowId],
+  });
+
+  // Guards against the same approval being answered twice
+  if (!(await workflowRunRepository.resumeRun(run.id))) {
+    throw new Error("Run is not waiting for approval");
+  }
+  subscribeRunRecorder(app, run.id, workflow.nodes, abortController);
+
+  return {
+    app,
+    run,
+    workflow,
+    abortController,
+    nodeId: waitingNode.nodeId,
+    state: {
+      query: run.input ?? {},
+      outputs,
+      approvals: { [waitingNode.nodeId]: options.decision },
+    } satisfies Partial<WorkflowRuntimeState>,
+  };
+}
+
+/**
+ * Collects the saved node outputs of a run, following the runs it replayed.
+ * Outputs of later runs override the ones they were seeded from.
+ */
+export async function selectRunOutputs(
+  runId: string,
+): Promise<Record<string, any>> {
+  const chain: NonNullable<
+    Awaited<ReturnType<typeof workflowRunRepository.selectRunById>>
+  >[] = [];
+  let current = await workflowRunRepository.selectRunById(runId);
+  while (current) {
+    chain.unshift(current);
+    current = current.replayOfRunId
+      ? await workflowRunRepository.selectRunById(current.replayOfRunId)
+      : null;
+  }
+  return chain
+    .flatMap((run) => run.nodes)
+    .filter((node) => node.status == "success")
+    .reduce(
+      (acc, node) => {
+        acc[node.nodeId] = node.output;
+        return acc;
+      },
+      {} as Record<string, any>,
+    );
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+vi.mock("lib/db/repository", () => ({
+  workflowRepository: {
+    checkAccess: vi.fn().mockResolvedValue(true),
+    selectStructureById: vi.fn(async (id: string) => ({
+      id,
+      isPublished: false,
+    })),
+  },
+  workflowRunRepository: {},
+  workflowScheduleRepository: {
+    selectEnabled: vi.fn(),
+    updateLastRun: vi.fn(),
+  },
+}));
+
+vi.mock("./workflow-run-history", () => ({
+  startWorkflowRun: vi.fn(),
+}));
+
+import { createWorkflowScheduler, isScheduleDue } from "./workflow-scheduler";
+import { workflowScheduleRepository } from "lib/db/repository";
+import { startWorkflowRun } from "./workflow-run-history";
+
+describe("isScheduleDue", () => {
+  const now = new Date(2025, 0, 6, 9, 30, 20);
+
+  it("should fire when the cron matches the current minute", () => {
+    expect(isScheduleDue({ cron: "30 9 * * *", enabled: true }, now)).toBe(
+      true,
+    );
+    expect(isScheduleDue({ cron: "31 9 * * *", enabled: true }, now)).toBe(
+      false,
+    );
+  });
+
+  it("should not fire disabled schedules", () => {
+    expect(isScheduleDue({ cron: "* * * * *", enabled: false }, now)).toBe(
+      false,
+    );
+  });
+
+  it("should fire at most once per minute", () => {
+    expect(
+      isScheduleDue(
+        {
+          cron: "* * * * *",
+          enabled: true,
+          lastRunAt: new Date(2025, 0, 6, 9, 30, 0),
+        },
+        now,
+      ),
+    ).toBe(false);
+    expect(
+      isScheduleDue(
+        {
+          cron: "* * * * *",
+          enabled: true,
+          lastRunAt: new Date(2025, 0, 6, 9, 29, 0),
+        },
+        now,
+      ),
+    ).toBe(true);
+  });
+
+  it("should ignore invalid cron expressions", () => {
+    expect(isScheduleDue({ cron: "not a cron", enabled: true }, now)).toBe(
+      false,
+    );
+  });
+});
+
+describe("createWorkflowScheduler", () => {
+  it("should not let a long-running schedule block the next minute", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 0, 6, 9, 29, 30));
+    const schedules = [
+      { id: "slow", workflowId: "slow", cron: "30 9 * * *" },
+      { id: "next", workflowId: "next", cron: "31 9 * * *" },
+    ].map((schedule) => ({ ...schedule, userId: "user", enabled: true }));
+    vi.mocked(workflowScheduleRepository.selectEnabled).mockResolvedValue(
+      schedules as any,
+    );
+    // The slow run never finishes
+    vi.mocked(startWorkflowRun).mockImplementation(async ({ workflow }) => ({
+      run: { id: `run-${workflow.id}` } as any,
+      result: new Promise(() => {}),
+    }));
+
+    const scheduler = createWorkflowScheduler();
+    scheduler.start();
+    try {
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(startWorkflowRun).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(
+        vi
+          .mocked(startWorkflowRun)
+          .mock.calls.map(([{ workflow }]) => workflow.id),
+      ).toEqual(["slow", "next"]);
+    } finally {
+      scheduler.stop();
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,126 @@
+import { DBWorkflowSchedule } from "app-types/workflow";
+import {
+  workflowRepository,
+  workflowScheduleRepository,
+} from "lib/db/repository";
+import globalLogger from "logger";
+import { colorize } from "consola/utils";
+import { matchesCron } from "../cron";
+import { startWorkflowRun } from "./workflow-run-history";
+import { isApprovalRequiredError } from "../approval";
+
+const logger = globalLogger.withDefaults({
+  message: colorize("cyan", `Workflow Scheduler:`),
+});
+
+/**
+ * Checks whether a schedule should fire in the minute containing `now`.
+ * A schedule fires at most once per minute, even across overlapping ticks.
+ */
+export function isScheduleDue(
+  schedule: Pick<DBWorkflowSchedule, "cron" | "enabled" | "lastRunAt">,
+  now: Date,
+): boolean {
+  if (!schedule.enabled) return false;
+  if (schedule.lastRunAt) {
+    const minute = new Date(now);
+    minute.setSeconds(0, 0);
+    if (new Date(schedule.lastRunAt) >= minute) return false;
+  }
+  try {
+    return matchesCron(schedule.cron, now);
+  } catch {
+    return false;
+  }
+}
+
+async function runSchedule(schedule: DBWorkflowSchedule, now: Date) {
+  // The owner may have lost access since the schedule was created
+  const hasAccess = await workflowRepository.checkAccess(
+    schedule.workflowId,
+    schedule.userId,
+  );
+  if (!hasAccess) {
+    logger.warn(`Skip schedule '${schedule.id}': workflow is not accessible`);
+    return;
+  }
+  // Published workflows run their latest version, drafts run as they are
+  const draft = await workflowRepository.selectStructureById(
+    schedule.workflowId,
+  );
+  const workflow = draft?.isPublished
+    ? await workflowRepository.selectStructureById(schedule.workflowId, {
+        snapshot: "latest",
+      })
+    : draft;
+  if (!workflow) return;
+  const { run, result } = await startWorkflowRun({
+    workflow,
+    userId: schedule.userId,
+    input: schedule.input ?? {},
+    trigger: "schedule",
+  });
+  await workflowScheduleRepository.updateLastRun(schedule.id, run.id, now);
+  logger.info(`Started run '${run.id}' from schedule '${schedule.id}'`);
+  // The run is not awaited, so a slow workflow never holds up the next tick
+  result.then(({ isOk, error }) => {
+    if (isApprovalRequiredError(error)) {
+      logger.info(`Scheduled run '${run.id}' is waiting for approval`);
+    } else if (!isOk) {
+      logger.error(`Scheduled run '${run.id}' failed:`, error);
+    }
+  });
+}
+
+export const createWorkflowScheduler = () => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const tick = async (now: Date = new Date()) => {
+    const schedules = await workflowScheduleRepository.selectEnabled();
+    await Promise.all(
+      schedules
+        .filter((schedule) => isScheduleDue(schedule, now))
+        .map((schedule) =>
+          runSchedule(schedule, now).catch((error) => {
+            logger.error(`Failed to run schedule '${schedule.id}'`, error);
+          }),
+        ),
+    );
+  };
+
+  // Wake up at the start of every minute, without waiting for the previous tick
+  const scheduleNextTick = () => {
+    const delay = 60_000 - (Date.now() % 60_000);
+    timer = setTimeout(() => {
+      scheduleNextTick();
+      tick().catch((error) => logger.error("Tick failed", error));
+    }, delay);
+    timer.unref?.();
+  };
+
+  return {
+    start() {
+      if (timer) return;
+      scheduleNextTick();
+      logger.info("started");
+    },
+    stop() {
+      clearTimeout(timer);
+      timer = undefined;
+    },
+    tick,
+  };
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __workflowScheduler__: ReturnType<typeof createWorkflowScheduler>;
+}
+
+if (!globalThis.__workflowScheduler__) {
+  globalThis.__workflowScheduler__ = createWorkflowScheduler();
+}
+
+export const initWorkflowScheduler = () => {
+  globalThis.__workflowScheduler__.start();
+};
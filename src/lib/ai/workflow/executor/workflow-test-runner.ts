@@ -0,0 +1,126 @@
+import {
+  DBEdge,
+  DBNode,
+  DBWorkflow,
+  DBWorkflowTestCase,
+} from "app-types/workflow";
+import { generateObject } from "ai";
+import { customModelProvider } from "lib/ai/models";
+import { errorToString } from "lib/utils";
+import logger from "logger";
+import { colorize } from "consola/utils";
+import { z } from "zod";
+import { createWorkflowExecutor } from "./workflow-executor";
+import { WorkflowRuntimeState } from "./graph-store";
+import { extractRunOutput } from "./workflow-run-history";
+import { collectMockOutputs } from "../node-mock";
+import { isApprovalRequiredError } from "../approval";
+import {
+  checkAssertion,
+  getAssertionValue,
+  WorkflowTestAssertion,
+  WorkflowTestAssertionResult,
+  WorkflowTestCaseResult,
+} from "../workflow-test";
+
+/**
+ * Asks a model whether a value meets the criteria of an assertion.
+ */
+async function judgeAssertion(
+  assertion: WorkflowTestAssertion,
+  actual: unknown,
+): Promise<Omit<WorkflowTestAssertionResult, "assertionId" | "actual">> {
+  const { object } = await generateObject({
+    model: customModelProvider.getModel(assertion.model),
+    schema: z.object({
+      passed: z.boolean(),
+      reason: z.string(),
+    }),
+    system: `You are a strict evaluator of workflow test results.
+Decide whether the value meets every criterion. Explain the decision in one sentence.`,
+    prompt: `criteria: ${assertion.criteria ?? ""}
+
+value:
+${JSON.stringify(actual, null, 2)}`,
+  });
+  return { passed: object.passed, message: object.reason };
+}
+
+/**
+ * Runs a test case against a workflow structure and checks its assertions.
+ * Runs are not recorded in the run history.
+ * A workflow that stops at an Approval node fails the test case.
+ */
+export async function runWorkflowTestCase(
+  workflow: DBWorkflow & { nodes: DBNode[]; edges: DBEdge[] },
+  testCase: Pick<
+    DBWorkflowTestCase,
+    "id" | "name" | "input" | "assertions" | "dryRun"
+  >,
+): Promise<WorkflowTestCaseResult> {
+  const startedAt = Date.now();
+  const app = createWorkflowExecutor({
+    nodes: workflow.nodes,
+    edges: workflow.edges,
+    logger: logger.withDefaults({
+      message: colorize("cyan", `WORKFLOW TEST '${testCase.name}' `),
+    }),
+    mockOutputs: testCase.dryRun
+      ? collectMockOutputs(workflow.nodes)
+      : undefined,
+  });
+
+  const result = await app.run(
+    { query: testCase.input ?? {} },
+    {
+      disableHistory: true,
+      timeout: 1000 * 60 * 5,
+    },
+  );
+
+  const base = {
+    testCaseId: testCase.id,
+    name: testCase.name,
+  };
+
+  if (!result.isOk) {
+    return {
+      ...base,
+      passed: false,
+      duration: Date.now() - startedAt,
+      error: isApprovalRequiredError(result.error)
+        ? "The workflow is waiting for approval"
+        : errorToString(result.error),
+      assertions: [],
+    };
+  }
+
+  const state = result.output as WorkflowRuntimeState;
+  const outputs = {
+    outputs: state.outputs ?? {},
+    output: extractRunOutput(workflow.nodes, state),
+  };
+
+  const assertions = await Promise.all(
+    testCase.assertions.map(
+      async (assertion): Promise<WorkflowTestAssertionResult> => {
+        const actual = getAssertionValue(assertion, outputs);
+        const check = await (assertion.type == "llm"
+          ? judgeAssertion(assertion, actual)
+          : Promise.resolve(checkAssertion(assertion, actual))
+        ).catch((error) => ({
+          passed: false,
+          message: errorToString(error),
+        }));
+        return { assertionId: assertion.id, actual, ...check };
+      },
+    ),
+  );
+
+  return {
+    ...base,
+    passed: assertions.every((assertion) => assertion.passed),
+    duration: Date.now() - startedAt,
+    assertions,
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { collectToolCalls } from "./llm-node-tools";
+
+describe("collectToolCalls", () => {
+  it("should pair each tool call with its result or error", () => {
+    const steps = [
+      {
+        content: [
+          { type: "text", text: "searching" },
+          {
+            type: "tool-call",
+            toolCallId: "1",
+            toolName: "search",
+            input: { q: "a" },
+          },
+          {
+            type: "tool-call",
+            toolCallId: "2",
+            toolName: "fetch",
+            input: { url: "b" },
+          },
+          {
+            type: "tool-result",
+            toolCallId: "1",
+            toolName: "search",
+            input: { q: "a" },
+            output: ["x"],
+          },
+          {
+            type: "tool-error",
+            toolCallId: "2",
+            toolName: "fetch",
+            input: { url: "b" },
+            error: new Error("not found"),
+          },
+        ],
+      },
+      { content: [{ type: "text", text: "done" }] },
+      {
+        content: [
+          {
+            type: "tool-call",
+            toolCallId: "3",
+            toolName: "search",
+            input: { q: "c" },
+          },
+        ],
+      },
+    ] as any[];
+
+    expect(collectToolCalls(steps)).toEqual([
+      { step: 1, toolName: "search", input: { q: "a" }, output: ["x"] },
+      {
+        step: 1,
+        toolName: "fetch",
+        input: { url: "b" },
+        error: "not found",
+      },
+      { step: 3, toolName: "search", input: { q: "c" } },
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { StepResult, ToolSet } from "ai";
+import { ChatMention } from "app-types/chat";
+import { DBNode } from "app-types/workflow";
+import { errorToString } from "lib/utils";
+import { NodeKind, NodeToolCall } from "./workflow.interface";
+
+export const DEFAULT_LLM_NODE_MAX_STEPS = 5;
+
+export const MAX_LLM_NODE_STEPS = 20;
+
+/**
+ * Collects the ids of the workflows attached as tools to LLM nodes.
+ */
+export function findToolWorkflowIds(
+  nodes: Pick<DBNode, "kind" | "nodeConfig">[],
+): string[] {
+  const ids = nodes
+    .filter((node) => node.kind === NodeKind.LLM)
+    .flatMap((node) => (node.nodeConfig.tools ?? []) as ChatMention[])
+    .flatMap((mention) =>
+      mention.type == "workflow" ? [mention.workflowId] : [],
+    );
+  return [...new Set(ids)];
+}
+
+/**
+ * Flattens the tool calls of every step of a tool loop, each with its result or error.
+ */
+export function collectToolCalls(
+  steps: Pick<StepResult<ToolSet>, "content">[],
+): NodeToolCall[] {
+  return steps.flatMap((step, index) =>
+    step.content.flatMap((part) => {
+      if (part.type != "tool-call") return [];
+      const call: NodeToolCall = {
+        step: index + 1,
+        toolName: part.toolName,
+        input: part.input,
+      };
+      step.content.forEach((result) => {
+        if (!("toolCallId" in result)) return;
+        if (result.toolCallId != part.toolCallId) return;
+        if (result.type == "tool-result") call.output = result.output;
+        if (result.type == "tool-error")
+          call.error = errorToString(result.error);
+      });
+      return [call];
+    }),
+  );
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { findLoopBodyNodeIds, LOOP_BODY_HANDLE } from "./loop-body";
+
+describe("findLoopBodyNodeIds", () => {
+  const createEdge = (
+    source: string,
+    target: string,
+    sourceHandle?: string,
+  ) => ({
+    source,
+    target,
+    sourceHandle,
+  });
+
+  it("should return an empty list when the loop has no body", () => {
+    const edges = [createEdge("input", "loop"), createEdge("loop", "output")];
+
+    expect(findLoopBodyNodeIds("loop", edges)).toEqual([]);
+  });
+
+  it("should collect the chain connected to the body handle", () => {
+    const edges = [
+      createEdge("input", "loop"),
+      createEdge("loop", "a", LOOP_BODY_HANDLE),
+      createEdge("a", "b"),
+      createEdge("a", "c"),
+      createEdge("b", "d"),
+      createEdge("c", "d"),
+      createEdge("loop", "output"),
+    ];
+
+    const result = findLoopBodyNodeIds("loop", edges);
+
+    expect(result.sort()).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("should include the body of a nested loop", () => {
+    const edges = [
+      createEdge("outer", "inner", LOOP_BODY_HANDLE),
+      createEdge("inner", "x", LOOP_BODY_HANDLE),
+      createEdge("inner", "y"),
+    ];
+
+    expect(findLoopBodyNodeIds("outer", edges).sort()).toEqual([
+      "inner",
+      "x",
+      "y",
+    ]);
+    expect(findLoopBodyNodeIds("inner", edges)).toEqual(["x"]);
+  });
+});
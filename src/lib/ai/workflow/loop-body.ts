@@ -0,0 +1,33 @@
+/**
+ * Source handle id of a Loop node that starts its body chain.
+ * Edges leaving the regular "right" handle continue after the loop finishes.
+ */
+export const LOOP_BODY_HANDLE = "loop";
+
+/**
+ * Collects every node reachable from the body handle of a Loop node.
+ * Nested loops are included, since their bodies are part of the outer body.
+ */
+export function findLoopBodyNodeIds(
+  loopNodeId: string,
+  edges: { source: string; target: string; sourceHandle?: string | null }[],
+): string[] {
+  const bodyIds = new Set<string>();
+  const queue = edges
+    .filter(
+      (edge) =>
+        edge.source === loopNodeId && edge.sourceHandle === LOOP_BODY_HANDLE,
+    )
+    .map((edge) => edge.target);
+
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (id === loopNodeId || bodyIds.has(id)) continue;
+    bodyIds.add(id);
+    edges
+      .filter((edge) => edge.source === id)
+      .forEach((edge) => queue.push(edge.target));
+  }
+
+  return Array.from(bodyIds);
+}
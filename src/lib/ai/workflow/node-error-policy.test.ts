@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  NODE_ERROR_OUTPUT_KEY,
+  runWithErrorPolicy,
+  withErrorOutputSchema,
+} from "./node-error-policy";
+import { WorkflowApprovalRequiredError } from "./approval";
+import { WorkflowCancelledError } from "./cancellation";
+import { NodeAttempt } from "./workflow.interface";
+
+describe("runWithErrorPolicy", () => {
+  it("should run once without a policy", async () => {
+    const task = vi.fn().mockRejectedValue(new Error("boom"));
+    const attempts: NodeAttempt[] = [];
+
+    await expect(
+      runWithErrorPolicy(undefined, task, (a) => attempts.push(a)),
+    ).rejects.toThrow("boom");
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0].error?.message).toContain("boom");
+  });
+
+  it("should retry until the task succeeds", async () => {
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("rate limited"))
+      .mockResolvedValue("ok");
+    const attempts: NodeAttempt[] = [];
+
+    await expect(
+      runWithErrorPolicy({ retry: 2 }, task, (a) => attempts.push(a)),
+    ).resolves.toBe("ok");
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(attempts.map((a) => Boolean(a.error))).toEqual([true, false]);
+  });
+
+  it("should stop after the configured retries", async () => {
+    const task = vi.fn().mockRejectedValue(new Error("boom"));
+
+    await expect(runWithErrorPolicy({ retry: 2 }, task)).rejects.toThrow(
+      "boom",
+    );
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it("should double the backoff between retries", async () => {
+    vi.useFakeTimers();
+    try {
+      const task = vi.fn().mockRejectedValue(new Error("boom"));
+      const promise = runWithErrorPolicy({ retry: 2, backoff: 100 }, task);
+      const assertion = expect(promise).rejects.toThrow("boom");
+
+      await vi.advanceTimersByTimeAsync(99);
+      expect(task).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(task).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(199);
+      expect(task).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(task).toHaveBeenCalledTimes(3);
+      await assertion;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should fail an attempt that exceeds the timeout", async () => {
+    const task = () => new Promise((resolve) => setTimeout(resolve, 1000));
+
+    await expect(runWithErrorPolicy({ timeout: 10 }, task)).rejects.toThrow(
+      "Timeout",
+    );
+  });
+
+  it("should not retry approval pauses", async () => {
+    const task = vi
+      .fn()
+      .mockRejectedValue(new WorkflowApprovalRequiredError("node", ""));
+
+    await expect(runWithErrorPolicy({ retry: 3 }, task)).rejects.toThrow(
+      "Waiting for approval",
+    );
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not retry cancelled runs", async () => {
+    const task = vi.fn().mockRejectedValue(new WorkflowCancelledError());
+
+    await expect(runWithErrorPolicy({ retry: 3 }, task)).rejects.toThrow(
+      "Workflow run was cancelled",
+    );
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("withErrorOutputSchema", () => {
+  const schema = {
+    type: "object" as const,
+    properties: { answer: { type: "string" as const } },
+  };
+
+  it("should add and remove the error field", () => {
+    const withError = withErrorOutputSchema(schema, true);
+    expect(withError.properties?.[NODE_ERROR_OUTPUT_KEY]).toBeDefined();
+    expect(withError.properties?.answer).toEqual({ type: "string" });
+
+    expect(withErrorOutputSchema(withError, false)).toEqual(schema);
+  });
+});
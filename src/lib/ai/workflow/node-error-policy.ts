@@ -0,0 +1,116 @@
+import { ObjectJsonSchema7 } from "app-types/util";
+import { errorToString, wait, withTimeout } from "lib/utils";
+import { isApprovalRequiredError } from "./approval";
+import { isWorkflowCancelledError } from "./cancellation";
+import { NodeAttempt, NodeErrorPolicy, NodeKind } from "./workflow.interface";
+
+/**
+ * Source handle id of the fallback branch of a node.
+ * It only runs when the node still fails after its retries and the policy is "branch".
+ */
+export const NODE_ERROR_HANDLE = "error";
+
+/**
+ * Output field that holds the error on the fallback branch.
+ */
+export const NODE_ERROR_OUTPUT_KEY = "error";
+
+export const MAX_NODE_RETRY = 5;
+
+/**
+ * Branching and bookkeeping nodes route on their own handles and cannot fail over.
+ */
+export function isErrorPolicySupported(kind: NodeKind): boolean {
+  return ![
+    NodeKind.Input,
+    NodeKind.Output,
+    NodeKind.Note,
+    NodeKind.Condition,
+    NodeKind.Approval,
+    NodeKind.Merge,
+  ].includes(kind);
+}
+
+export function hasErrorBranch(node: {
+  kind: string;
+  errorPolicy?: NodeErrorPolicy;
+}): boolean {
+  return (
+    isErrorPolicySupported(node.kind as NodeKind) &&
+    node.errorPolicy?.onError == "branch"
+  );
+}
+
+/**
+ * Adds or removes the error field a fallback branch reads from.
+ */
+export function withErrorOutputSchema(
+  schema: ObjectJsonSchema7,
+  enabled: boolean,
+): ObjectJsonSchema7 {
+  const { [NODE_ERROR_OUTPUT_KEY]: _, ...properties } = schema.properties ?? {};
+  if (!enabled) return { ...schema, properties };
+  return {
+    ...schema,
+    properties: {
+      ...properties,
+      [NODE_ERROR_OUTPUT_KEY]: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          message: { type: "string" },
+          attempts: { type: "number" },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Runs a node task with the retry and timeout settings of its policy.
+ * Each attempt is reported through `onAttempt`, including the last failed one.
+ * Approval pauses are not errors, so they are never retried.
+ */
+export async function runWithErrorPolicy<T>(
+  policy: NodeErrorPolicy | undefined,
+  task: () => T | Promise<T>,
+  onAttempt?: (attempt: NodeAttempt) => void,
+): Promise<T> {
+  const retry = Math.min(Math.max(policy?.retry ?? 0, 0), MAX_NODE_RETRY);
+  for (let i = 0; ; i++) {
+    const startedAt = Date.now();
+    try {
+      const promise = Promise.resolve().then(task);
+      const result = await (policy?.timeout
+        ? withTimeout(promise, policy.timeout)
+        : promise);
+      onAttempt?.({ startedAt, endedAt: Date.now() });
+      return result;
+    } catch (error: any) {
+      onAttempt?.({
+        startedAt,
+        endedAt: Date.now(),
+        error: { name: error?.name || "ERROR", message: errorToString(error) },
+      });
+      if (
+        i >= retry ||
+        isApprovalRequiredError(error) ||
+        isWorkflowCancelledError(error)
+      ) {
+        throw error;
+      }
+      if (policy?.backoff) await wait(policy.backoff * 2 ** i);
+    }
+  }
+}
+
+/**
+ * Attempts of a node in a runtime state, only kept when it ran more than once.
+ */
+export function retriedAttempts(
+  state: { attempts?: Record<string, NodeAttempt[]> } | undefined,
+  nodeId: string,
+): NodeAttempt[] | undefined {
+  const attempts = state?.attempts?.[nodeId];
+  return attempts && attempts.length > 1 ? attempts : undefined;
+}
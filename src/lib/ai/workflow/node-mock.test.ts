@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { DBNode } from "app-types/workflow";
+import { collectMockOutputs, createMockOutput } from "./node-mock";
+import { NodeKind } from "./workflow.interface";
+
+describe("node-mock", () => {
+  it("should create a value matching the output schema", () => {
+    expect(
+      createMockOutput({
+        type: "object",
+        properties: {
+          answer: { type: "string" },
+          score: { type: "integer" },
+          status: { type: "string", enum: ["open", "closed"] },
+          createdAt: { type: "string", format: "date-time" },
+          tags: { type: "array", items: { type: "string" } },
+          meta: {
+            type: "object",
+            properties: { ok: { type: "boolean", default: true } },
+          },
+        },
+      }),
+    ).toEqual({
+      answer: "string",
+      score: 0,
+      status: "open",
+      createdAt: "1970-01-01T00:00:00.000Z",
+      tags: ["string"],
+      meta: { ok: true },
+    });
+  });
+
+  it("should collect pinned outputs of nodes that support them", () => {
+    const createNode = (
+      id: string,
+      kind: NodeKind,
+      nodeConfig: Record<string, any> = {},
+    ) =>
+      ({ id, kind, nodeConfig }) as Pick<DBNode, "id" | "kind" | "nodeConfig">;
+
+    expect(
+      collectMockOutputs([
+        createNode("llm", NodeKind.LLM, { mockOutput: { answer: "a" } }),
+        createNode("http", NodeKind.Http),
+        createNode("condition", NodeKind.Condition, {
+          mockOutput: { nextNodes: [] },
+        }),
+      ]),
+    ).toEqual({ llm: { answer: "a" } });
+  });
+});
@@ -0,0 +1,75 @@
+import { JSONSchema7 } from "json-schema";
+import { DBNode } from "app-types/workflow";
+import { NodeKind } from "./workflow.interface";
+
+/**
+ * Input and Output nodes only pass data through, and condition nodes route on
+ * the nodes they pick, so their outputs cannot be pinned.
+ */
+export function isMockSupported(kind: NodeKind): boolean {
+  return ![
+    NodeKind.Input,
+    NodeKind.Output,
+    NodeKind.Note,
+    NodeKind.Condition,
+  ].includes(kind);
+}
+
+/**
+ * Builds a placeholder value that matches a JSON schema.
+ * Defaults, examples and enum values are preferred over generated ones.
+ */
+export function createMockOutput(schema?: JSONSchema7): any {
+  if (!schema) return null;
+  if (schema.default !== undefined) return schema.default;
+  if (Array.isArray(schema.examples) && schema.examples.length) {
+    return schema.examples[0];
+  }
+  if (schema.enum?.length) return schema.enum[0];
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [
+          key,
+          createMockOutput(property as JSONSchema7),
+        ]),
+      );
+    case "array":
+      return schema.items && !Array.isArray(schema.items)
+        ? [createMockOutput(schema.items as JSONSchema7)]
+        : [];
+    case "string":
+      return schema.format == "date-time"
+        ? new Date(0).toISOString()
+        : schema.format == "date"
+          ? "1970-01-01"
+          : "string";
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Collects the pinned outputs a dry run uses instead of executing the nodes.
+ */
+export function collectMockOutputs(
+  nodes: Pick<DBNode, "id" | "kind" | "nodeConfig">[],
+): Record<string, any> {
+  return nodes.reduce(
+    (acc, node) => {
+      const mockOutput = node.nodeConfig.mockOutput;
+      if (mockOutput !== undefined && isMockSupported(node.kind as NodeKind)) {
+        acc[node.id] = mockOutput;
+      }
+      return acc;
+    },
+    {} as Record<string, any>,
+  );
+}
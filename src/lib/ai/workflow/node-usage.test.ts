@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { createNodeUsage, summarizeUsage } from "./node-usage";
+
+describe("createNodeUsage", () => {
+  it("should add up the calls and keep unreported counts unset", () => {
+    expect(
+      createNodeUsage({ provider: "openai", model: "gpt-4.1" }, [
+        { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+        undefined,
+        {
+          inputTokens: 20,
+          outputTokens: 10,
+          totalTokens: 30,
+          reasoningTokens: 4,
+        },
+      ]),
+    ).toEqual({
+      model: { provider: "openai", model: "gpt-4.1" },
+      inputTokens: 30,
+      outputTokens: 15,
+      totalTokens: 45,
+      reasoningTokens: 4,
+      cachedInputTokens: undefined,
+    });
+  });
+});
+
+describe("summarizeUsage", () => {
+  it("should return undefined when no node called a model", () => {
+    expect(summarizeUsage([undefined, []])).toBeUndefined();
+  });
+
+  it("should total the tokens and estimate the cost from list prices", () => {
+    const summary = summarizeUsage([
+      [
+        {
+          model: { provider: "openai", model: "gpt-4.1" },
+          inputTokens: 1_000_000,
+          outputTokens: 500_000,
+          totalTokens: 1_500_000,
+        },
+      ],
+      undefined,
+      [
+        {
+          model: { provider: "ollama", model: "gemma3:4b" },
+          inputTokens: 100,
+          outputTokens: 100,
+          totalTokens: 200,
+        },
+        // The default model is used when none is selected
+        { inputTokens: 500_000, outputTokens: 0, totalTokens: 500_000 },
+      ],
+    ]);
+    expect(summary).toEqual({
+      inputTokens: 1_500_100,
+      outputTokens: 500_100,
+      totalTokens: 2_000_200,
+      cost: 2 + 4 + 1,
+      unpricedModels: [],
+    });
+  });
+
+  it("should list models without a price and leave them out of the cost", () => {
+    const summary = summarizeUsage([
+      [
+        {
+          model: { provider: "my-gateway", model: "custom" },
+          inputTokens: 10,
+          outputTokens: 10,
+          totalTokens: 20,
+        },
+        {
+          model: { provider: "anthropic", model: "claude-4-sonnet" },
+          inputTokens: 1_000_000,
+          outputTokens: 0,
+          totalTokens: 1_000_000,
+        },
+      ],
+    ]);
+    expect(summary?.cost).toBe(3);
+    expect(summary?.unpricedModels).toEqual(["custom"]);
+  });
+});
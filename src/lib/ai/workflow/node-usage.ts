@@ -0,0 +1,74 @@
+import { ChatModel } from "app-types/chat";
+import { LanguageModelUsage } from "ai";
+import { estimateCost } from "lib/ai/model-pricing";
+import { NodeUsage } from "./workflow.interface";
+
+/**
+ * Token totals of a run and its estimated cost.
+ */
+export type UsageSummary = {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number; // USD, only of the models with a known price
+  unpricedModels: string[]; // Models whose tokens are not in the cost
+};
+
+/**
+ * Adds up the usage of several calls to the same model.
+ */
+export function createNodeUsage(
+  model: ChatModel | undefined,
+  usages: (LanguageModelUsage | undefined)[],
+): NodeUsage {
+  const sum = (key: keyof LanguageModelUsage) =>
+    usages.some((usage) => usage?.[key] !== undefined)
+      ? usages.reduce((acc, usage) => acc + (usage?.[key] ?? 0), 0)
+      : undefined;
+  return {
+    model,
+    inputTokens: sum("inputTokens"),
+    outputTokens: sum("outputTokens"),
+    totalTokens: sum("totalTokens"),
+    reasoningTokens: sum("reasoningTokens"),
+    cachedInputTokens: sum("cachedInputTokens"),
+  };
+}
+
+/**
+ * Adds up the usage recorded by the nodes of a run and estimates its cost.
+ *
+ * @returns undefined when no node called a model
+ */
+export function summarizeUsage(
+  usages: (NodeUsage[] | undefined)[],
+): UsageSummary | undefined {
+  const entries = usages.flatMap((usage) => usage ?? []);
+  if (!entries.length) return;
+  return entries.reduce<UsageSummary>(
+    (acc, usage) => {
+      const cost = estimateCost(usage.model, usage);
+      const modelName = usage.model?.model ?? "default";
+      return {
+        inputTokens: acc.inputTokens + (usage.inputTokens ?? 0),
+        outputTokens: acc.outputTokens + (usage.outputTokens ?? 0),
+        totalTokens:
+          acc.totalTokens +
+          (usage.totalTokens ??
+            (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0)),
+        cost: acc.cost + (cost ?? 0),
+        unpricedModels:
+          cost === undefined && !acc.unpricedModels.includes(modelName)
+            ? [...acc.unpricedModels, modelName]
+            : acc.unpricedModels,
+      };
+    },
+    {
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      cost: 0,
+      unpricedModels: [],
+    },
+  );
+}
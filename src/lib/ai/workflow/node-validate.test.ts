@@ -6,8 +6,15 @@ import {
   inputNodeValidate,
   outputNodeValidate,
   llmNodeValidate,
+  codeNodeValidate,
+  loopNodeValidate,
+  subWorkflowNodeValidate,
+  approvalNodeValidate,
+  errorPolicyValidate,
+  mergeNodeValidate,
+  templateNodeValidate,
 } from "./node-validate";
-import { UINode, NodeKind } from "./workflow.interface";
+import { UINode, NodeKind, TemplateNodeData } from "./workflow.interface";
 
 describe("node-validate", () => {
   const createInputNodeData = (
@@ -65,10 +72,116 @@ describe("node-validate", () => {
     },
   });
 
-  const createEdge = (id: string, source: string, target: string): Edge => ({
+  const createLoopNodeData = (
+    id: string,
+    name: string,
+    config: Partial<UINode<NodeKind.Loop>["data"]> = {},
+  ): UINode<NodeKind.Loop> => ({
+    id,
+    type: "default",
+    position: { x: 0, y: 0 },
+    data: {
+      id,
+      name,
+      kind: NodeKind.Loop,
+      outputSchema: { type: "object", properties: {} },
+      items: { nodeId: "start", path: ["list"] },
+      concurrency: 1,
+      ...config,
+    },
+  });
+
+  const createCodeNodeData = (
+    id: string,
+    name: string,
+    config: Partial<UINode<NodeKind.Code>["data"]> = {},
+  ): UINode<NodeKind.Code> => ({
+    id,
+    type: "default",
+    position: { x: 0, y: 0 },
+    data: {
+      id,
+      name,
+      kind: NodeKind.Code,
+      outputSchema: {
+        type: "object",
+        properties: { result: { type: "string" } },
+      },
+      language: "javascript",
+      code: "return { result: input };",
+      inputs: [{ key: "input", source: { nodeId: "start", path: ["input"] } }],
+      ...config,
+    },
+  });
+
+  const createSubWorkflowNodeData = (
+    id: string,
+    name: string,
+    config: Partial<UINode<NodeKind.SubWorkflow>["data"]> = {},
+  ): UINode<NodeKind.SubWorkflow> => ({
+    id,
+    type: "default",
+    position: { x: 0, y: 0 },
+    data: {
+      id,
+      name,
+      kind: NodeKind.SubWorkflow,
+      outputSchema: { type: "object", properties: {} },
+      workflow: { id: "child", name: "Child" },
+      inputSchema: {
+        type: "object",
+        properties: { input: { type: "string" } },
+        required: ["input"],
+      },
+      inputs: [{ key: "input", source: { nodeId: "start", path: ["input"] } }],
+      ...config,
+    },
+  });
+
+  const createApprovalNodeData = (
+    id: string,
+    name: string,
+  ): UINode<NodeKind.Approval> => ({
+    id,
+    type: "default",
+    position: { x: 0, y: 0 },
+    data: {
+      id,
+      name,
+      kind: NodeKind.Approval,
+      outputSchema: { type: "object", properties: {} },
+    },
+  });
+
+  const createMergeNodeData = (
+    id: string,
+    name: string,
+    config: Partial<UINode<NodeKind.Merge>["data"]> = {},
+  ): UINode<NodeKind.Merge> => ({
+    id,
+    type: "default",
+    position: { x: 0, y: 0 },
+    data: {
+      id,
+      name,
+      kind: NodeKind.Merge,
+      outputSchema: { type: "object", properties: {} },
+      mode: "all",
+      inputs: [],
+      ...config,
+    },
+  });
+
+  const createEdge = (
+    id: string,
+    source: string,
+    target: string,
+    sourceHandle?: string,
+  ): Edge => ({
     id,
     source,
     target,
+    sourceHandle,
   });
 
   describe("validateSchema", () => {
@@ -168,6 +281,32 @@ describe("node-validate", () => {
         llmNodeValidate({ node: llmNode.data, nodes: [], edges: [] });
       }).toThrow();
     });
+
+    it("should throw error when max steps is out of range", () => {
+      const llmNode = createLLMNodeData("llm", "LLM Node");
+
+      expect(() => {
+        llmNodeValidate({
+          node: { ...llmNode.data, maxSteps: 10 },
+          nodes: [],
+          edges: [],
+        });
+      }).not.toThrow();
+      expect(() => {
+        llmNodeValidate({
+          node: { ...llmNode.data, maxSteps: 0 },
+          nodes: [],
+          edges: [],
+        });
+      }).toThrow("Max steps");
+      expect(() => {
+        llmNodeValidate({
+          node: { ...llmNode.data, maxSteps: 100 },
+          nodes: [],
+          edges: [],
+        });
+      }).toThrow("Max steps");
+    });
   });
 
   describe("allNodeValidate", () => {
@@ -197,4 +336,371 @@ describe("node-validate", () => {
       expect(result).toHaveProperty("errorMessage");
     });
   });
+
+  describe("codeNodeValidate", () => {
+    const nodes = [createInputNodeData("start", "Start")];
+
+    it("should validate code node with mapped inputs", () => {
+      const codeNode = createCodeNodeData("code", "Code");
+
+      expect(() => {
+        codeNodeValidate({ node: codeNode.data, nodes, edges: [] });
+      }).not.toThrow();
+    });
+
+    it("should throw error for empty code", () => {
+      const codeNode = createCodeNodeData("code", "Code", { code: "  " });
+
+      expect(() => {
+        codeNodeValidate({ node: codeNode.data, nodes, edges: [] });
+      }).toThrow("Code node must have code");
+    });
+
+    it("should throw error for input names that are not identifiers", () => {
+      const codeNode = createCodeNodeData("code", "Code", {
+        inputs: [
+          { key: "my-input", source: { nodeId: "start", path: ["input"] } },
+        ],
+      });
+
+      expect(() => {
+        codeNodeValidate({ node: codeNode.data, nodes, edges: [] });
+      }).toThrow("Invalid input variable name: my-input");
+    });
+
+    it("should throw error for input without source", () => {
+      const codeNode = createCodeNodeData("code", "Code", {
+        inputs: [{ key: "input" }],
+      });
+
+      expect(() => {
+        codeNodeValidate({ node: codeNode.data, nodes, edges: [] });
+      }).toThrow("Code input must have a source");
+    });
+  });
+
+  describe("templateNodeValidate", () => {
+    const start = createInputNodeData("start", "Start");
+    const edges = [{ id: "e1", source: "start", target: "template" }];
+    const createTemplateNodeData = (
+      template: TemplateNodeData["template"],
+    ): UINode<NodeKind.Template> => ({
+      id: "template",
+      type: "default",
+      position: { x: 0, y: 0 },
+      data: {
+        id: "template",
+        name: "Template",
+        kind: NodeKind.Template,
+        outputSchema: {
+          type: "object",
+          properties: { template: { type: "string" } },
+        },
+        template,
+      },
+    });
+
+    it("should validate handlebars templates reading upstream outputs", () => {
+      const templateNode = createTemplateNodeData({
+        type: "handlebars",
+        source: "{{#if Start.input}}{{ Start.input | upper }}{{/if}}",
+      });
+
+      expect(() => {
+        templateNodeValidate({
+          node: templateNode.data,
+          nodes: [start, templateNode],
+          edges,
+        });
+      }).not.toThrow();
+    });
+
+    it("should throw error for invalid template syntax", () => {
+      const templateNode = createTemplateNodeData({
+        type: "handlebars",
+        source: "{{#each Start.input}}",
+      });
+
+      expect(() => {
+        templateNodeValidate({
+          node: templateNode.data,
+          nodes: [start, templateNode],
+          edges,
+        });
+      }).toThrow("Unclosed {{#each}}");
+    });
+
+    it("should throw error for variables missing from upstream outputs", () => {
+      const templateNode = createTemplateNodeData({
+        type: "json",
+        source: '{ "value": "{{ Start.missing }}" }',
+      });
+
+      expect(() => {
+        templateNodeValidate({
+          node: templateNode.data,
+          nodes: [start, templateNode],
+          edges,
+        });
+      }).toThrow("Unknown template variable: Start.missing");
+    });
+  });
+
+  describe("loopNodeValidate", () => {
+    const startNode = createInputNodeData("start", "Start Node", {
+      type: "object" as const,
+      properties: {
+        list: { type: "array", items: { type: "string" } },
+      } as any,
+    });
+    const llmNode = createLLMNodeData("llm", "LLM Node");
+    const endNode = createOutputNodeData("end", "End Node");
+
+    it("should validate loop node with array items and a body", () => {
+      const loopNode = createLoopNodeData("loop", "Loop Node", {
+        result: { nodeId: "llm", path: ["answer"] },
+      });
+      const nodes = [startNode, loopNode, llmNode, endNode];
+      const edges = [
+        createEdge("edge1", "start", "loop"),
+        createEdge("edge2", "loop", "llm", "loop"),
+        createEdge("edge3", "loop", "end"),
+      ];
+
+      expect(() => {
+        loopNodeValidate({ node: loopNode.data, nodes, edges });
+      }).not.toThrow();
+    });
+
+    it("should throw error when items source is not an array", () => {
+      const loopNode = createLoopNodeData("loop", "Loop Node", {
+        items: { nodeId: "start", path: ["input"] },
+      });
+      const nodes = [
+        createInputNodeData("start", "Start Node"),
+        loopNode,
+        llmNode,
+      ];
+      const edges = [createEdge("edge1", "loop", "llm", "loop")];
+
+      expect(() => {
+        loopNodeValidate({ node: loopNode.data, nodes, edges });
+      }).toThrow("Loop items must be an array");
+    });
+
+    it("should throw error when loop has no body", () => {
+      const loopNode = createLoopNodeData("loop", "Loop Node");
+      const nodes = [startNode, loopNode, endNode];
+      const edges = [createEdge("edge1", "loop", "end")];
+
+      expect(() => {
+        loopNodeValidate({ node: loopNode.data, nodes, edges });
+      }).toThrow("Loop node must have a body");
+    });
+
+    it("should throw error when a body node is reached from outside the loop", () => {
+      const loopNode = createLoopNodeData("loop", "Loop Node");
+      const nodes = [startNode, loopNode, llmNode];
+      const edges = [
+        createEdge("edge1", "start", "loop"),
+        createEdge("edge2", "loop", "llm", "loop"),
+        createEdge("edge3", "start", "llm"),
+      ];
+
+      expect(() => {
+        loopNodeValidate({ node: loopNode.data, nodes, edges });
+      }).toThrow("Loop body nodes can only be reached from the loop");
+    });
+  });
+
+  describe("subWorkflowNodeValidate", () => {
+    const nodes = [createInputNodeData("start", "Start")];
+
+    it("should validate sub-workflow node with mapped inputs", () => {
+      const subNode = createSubWorkflowNodeData("sub", "Sub");
+
+      expect(() => {
+        subWorkflowNodeValidate({ node: subNode.data, nodes, edges: [] });
+      }).not.toThrow();
+    });
+
+    it("should throw error when no workflow is selected", () => {
+      const subNode = createSubWorkflowNodeData("sub", "Sub", {
+        workflow: undefined,
+      });
+
+      expect(() => {
+        subWorkflowNodeValidate({ node: subNode.data, nodes, edges: [] });
+      }).toThrow("Sub-workflow node must have a workflow");
+    });
+
+    it("should throw error for required inputs without a source", () => {
+      const subNode = createSubWorkflowNodeData("sub", "Sub", {
+        inputs: [{ key: "input" }],
+      });
+
+      expect(() => {
+        subWorkflowNodeValidate({ node: subNode.data, nodes, edges: [] });
+      }).toThrow("Sub-workflow input 'input' must have a source");
+    });
+
+    it("should throw error when the source schema is missing", () => {
+      const subNode = createSubWorkflowNodeData("sub", "Sub", {
+        inputs: [
+          { key: "input", source: { nodeId: "start", path: ["missing"] } },
+        ],
+      });
+
+      expect(() => {
+        subWorkflowNodeValidate({ node: subNode.data, nodes, edges: [] });
+      }).toThrow("Source schema not found");
+    });
+  });
+
+  describe("approvalNodeValidate", () => {
+    const approvalNode = createApprovalNodeData("approval", "Approval");
+    const endNode = createOutputNodeData("end", "End Node");
+
+    it("should validate approval node with an approve branch", () => {
+      const nodes = [approvalNode, endNode];
+      const edges = [createEdge("edge1", "approval", "end", "approve")];
+
+      expect(() => {
+        approvalNodeValidate({ node: approvalNode.data, nodes, edges });
+      }).not.toThrow();
+    });
+
+    it("should throw error when there is no approve branch", () => {
+      const nodes = [approvalNode, endNode];
+      const edges = [createEdge("edge1", "approval", "end", "reject")];
+
+      expect(() => {
+        approvalNodeValidate({ node: approvalNode.data, nodes, edges });
+      }).toThrow("Approval node must have an approve branch");
+    });
+
+    it("should throw error when inside a loop body", () => {
+      const loopNode = createLoopNodeData("loop", "Loop Node");
+      const nodes = [loopNode, approvalNode, endNode];
+      const edges = [
+        createEdge("edge1", "loop", "approval", "loop"),
+        createEdge("edge2", "approval", "end", "approve"),
+      ];
+
+      expect(() => {
+        approvalNodeValidate({ node: approvalNode.data, nodes, edges });
+      }).toThrow("Approval node cannot be inside a loop body");
+    });
+  });
+
+  describe("errorPolicyValidate", () => {
+    const endNode = createOutputNodeData("end", "End Node");
+
+    it("should validate a node without a policy", () => {
+      const llmNode = createLLMNodeData("llm", "LLM Node");
+
+      expect(() => {
+        errorPolicyValidate({ node: llmNode.data, nodes: [], edges: [] });
+      }).not.toThrow();
+    });
+
+    it("should throw error for an out of range retry count", () => {
+      const llmNode = createLLMNodeData("llm", "LLM Node");
+      llmNode.data.errorPolicy = { retry: 10 };
+
+      expect(() => {
+        errorPolicyValidate({ node: llmNode.data, nodes: [], edges: [] });
+      }).toThrow("Retry count must be between 0 and 5");
+    });
+
+    it("should throw error when the error branch is not connected", () => {
+      const llmNode = createLLMNodeData("llm", "LLM Node");
+      llmNode.data.errorPolicy = { onError: "branch" };
+      const nodes = [llmNode, endNode];
+
+      expect(() => {
+        errorPolicyValidate({
+          node: llmNode.data,
+          nodes,
+          edges: [createEdge("edge1", "llm", "end")],
+        });
+      }).toThrow("Error branch must be connected");
+
+      expect(() => {
+        errorPolicyValidate({
+          node: llmNode.data,
+          nodes,
+          edges: [createEdge("edge1", "llm", "end", "error")],
+        });
+      }).not.toThrow();
+    });
+  });
+
+  describe("mergeNodeValidate", () => {
+    const llmA = createLLMNodeData("a", "A");
+    llmA.data.outputSchema.properties = { answer: { type: "string" } };
+    const llmB = createLLMNodeData("b", "B");
+    const edges = [
+      createEdge("edge1", "a", "merge"),
+      createEdge("edge2", "b", "merge"),
+    ];
+
+    it("should validate merge node with named inputs", () => {
+      const mergeNode = createMergeNodeData("merge", "Merge", {
+        mode: "first",
+        count: 2,
+        inputs: [{ key: "a", source: { nodeId: "a", path: ["answer"] } }],
+      });
+      const nodes = [llmA, llmB, mergeNode];
+
+      expect(() => {
+        mergeNodeValidate({ node: mergeNode.data, nodes, edges });
+      }).not.toThrow();
+    });
+
+    it("should throw error with less than two incoming branches", () => {
+      const mergeNode = createMergeNodeData("merge", "Merge");
+
+      expect(() => {
+        mergeNodeValidate({
+          node: mergeNode.data,
+          nodes: [llmA, mergeNode],
+          edges: edges.slice(0, 1),
+        });
+      }).toThrow("Merge node must have at least two incoming branches");
+    });
+
+    it("should throw error when the count exceeds the branches", () => {
+      const mergeNode = createMergeNodeData("merge", "Merge", {
+        mode: "first",
+        count: 3,
+      });
+
+      expect(() => {
+        mergeNodeValidate({
+          node: mergeNode.data,
+          nodes: [llmA, llmB, mergeNode],
+          edges,
+        });
+      }).toThrow("Merge count must be a whole number between 1 and 2");
+    });
+
+    it("should throw error for duplicate keys", () => {
+      const source = { nodeId: "a", path: ["answer"] };
+      const mergeNode = createMergeNodeData("merge", "Merge", {
+        inputs: [
+          { key: "x", source },
+          { key: "x", source },
+        ],
+      });
+
+      expect(() => {
+        mergeNodeValidate({
+          node: mergeNode.data,
+          nodes: [llmA, llmB, mergeNode],
+          edges,
+        });
+      }).toThrow("Merge inputs must have unique keys");
+    });
+  });
 });
@@ -11,11 +11,37 @@ import {
   ToolNodeData,
   HttpNodeData,
   TemplateNodeData,
+  CodeNodeData,
+  LoopNodeData,
+  SubWorkflowNodeData,
+  ApprovalNodeData,
+  MergeNodeData,
 } from "lib/ai/workflow/workflow.interface";
 import { cleanVariableName } from "lib/utils";
 import { safe } from "ts-safe";
-import { findJsonSchemaByPath } from "./shared.workflow";
-import { ConditionBranch } from "./condition";
+import { findAccessibleNodeIds, findJsonSchemaByPath } from "./shared.workflow";
+import {
+  collectTemplateVariables,
+  findUnknownTemplateVariables,
+} from "./template-engine";
+import {
+  ConditionBranch,
+  DateConditionOperator,
+  parseDuration,
+  parseJsonPath,
+  StringConditionOperator,
+} from "./condition";
+import { findLoopBodyNodeIds, LOOP_BODY_HANDLE } from "./loop-body";
+import { APPROVAL_APPROVE_HANDLE } from "./approval";
+import {
+  hasErrorBranch,
+  MAX_NODE_RETRY,
+  NODE_ERROR_HANDLE,
+} from "./node-error-policy";
+import {
+  DEFAULT_LLM_NODE_MAX_STEPS,
+  MAX_LLM_NODE_STEPS,
+} from "./llm-node-tools";
 
 export function validateSchema(key: string, schema: JSONSchema7) {
   const variableName = cleanVariableName(key);
@@ -94,6 +120,7 @@ export const nodeValidate: NodeValidate<WorkflowNodeData> = ({
   ) {
     throw new Error("Node name must be unique");
   }
+  errorPolicyValidate({ node, nodes, edges });
   switch (node.kind) {
     case NodeKind.Input:
       return inputNodeValidate({ node, nodes, edges });
@@ -109,6 +136,16 @@ export const nodeValidate: NodeValidate<WorkflowNodeData> = ({
       return httpNodeValidate({ node, nodes, edges });
     case NodeKind.Template:
       return templateNodeValidate({ node, nodes, edges });
+    case NodeKind.Code:
+      return codeNodeValidate({ node, nodes, edges });
+    case NodeKind.Loop:
+      return loopNodeValidate({ node, nodes, edges });
+    case NodeKind.SubWorkflow:
+      return subWorkflowNodeValidate({ node, nodes, edges });
+    case NodeKind.Approval:
+      return approvalNodeValidate({ node, nodes, edges });
+    case NodeKind.Merge:
+      return mergeNodeValidate({ node, nodes, edges });
   }
 };
 
@@ -179,6 +216,14 @@ export const llmNodeValidate: NodeValidate<LLMNodeData> = ({ node }) => {
   });
   if (node.messages.length === 0)
     throw new Error("LLM node must have a message");
+  const maxSteps = node.maxSteps ?? DEFAULT_LLM_NODE_MAX_STEPS;
+  if (
+    !Number.isInteger(maxSteps) ||
+    maxSteps < 1 ||
+    maxSteps > MAX_LLM_NODE_STEPS
+  ) {
+    throw new Error(`Max steps must be between 1 and ${MAX_LLM_NODE_STEPS}`);
+  }
 };
 
 export const conditionNodeValidate: NodeValidate<ConditionNodeData> = ({
@@ -189,6 +234,22 @@ export const conditionNodeValidate: NodeValidate<ConditionNodeData> = ({
       if (!condition.operator)
         throw new Error("Condition must have a operator");
       if (!condition.source) throw new Error("Condition must have a value");
+      if (condition.jsonPath) parseJsonPath(condition.jsonPath);
+      if (condition.valueSource) return;
+      if (
+        condition.operator == StringConditionOperator.MatchesRegex &&
+        !safe(() => new RegExp(String(condition.value ?? ""))).isOk
+      ) {
+        throw new Error(`Invalid regular expression: ${condition.value}`);
+      }
+      if (
+        condition.operator == DateConditionOperator.Within &&
+        parseDuration(String(condition.value ?? "")) === undefined
+      ) {
+        throw new Error(
+          `Invalid duration: ${condition.value}, use a value like 30m, 12h, 7d or 2w`,
+        );
+      }
     });
   };
   [node.branches.if, ...(node.branches.elseIf ?? [])].forEach(branchValidate);
@@ -260,13 +321,226 @@ export const httpNodeValidate: NodeValidate<HttpNodeData> = ({ node }) => {
 
 export const templateNodeValidate: NodeValidate<TemplateNodeData> = ({
   node,
+  nodes,
+  edges,
 }) => {
   // Validate template type
-  const validTypes = ["tiptap"]; // Future: add "handlebars"
+  const validTypes = ["tiptap", "handlebars", "json"];
   if (!validTypes.includes(node.template.type)) {
     throw new Error(`Template type must be one of: ${validTypes.join(", ")}`);
   }
 
   // Template content can be undefined/empty - that's valid
   // The actual content validation is handled by the TipTap editor
+  if (node.template.type == "tiptap") return;
+
+  if (node.template.type == "json" && !node.template.source.trim()) {
+    throw new Error("JSON template is empty");
+  }
+  const variables = collectTemplateVariables(
+    node.template.type,
+    node.template.source,
+  );
+  const accessibleNodeIds = findAccessibleNodeIds({
+    nodeId: node.id,
+    nodes: nodes.map((n) => n.data),
+    edges,
+  });
+  const unknownVariables = findUnknownTemplateVariables(
+    variables,
+    nodes.filter((n) => accessibleNodeIds.includes(n.id)).map((n) => n.data),
+  );
+  if (unknownVariables.length) {
+    throw new Error(`Unknown template variable: ${unknownVariables[0]}`);
+  }
+};
+
+export const codeNodeValidate: NodeValidate<CodeNodeData> = ({
+  node,
+  nodes,
+}) => {
+  const validLanguages = ["javascript", "python"];
+  if (!validLanguages.includes(node.language)) {
+    throw new Error(
+      `Code language must be one of: ${validLanguages.join(", ")}`,
+    );
+  }
+  if (!node.code?.trim()) throw new Error("Code node must have code");
+
+  const names = node.inputs.map((input) => input.key);
+  if (names.length !== new Set(names).size) {
+    throw new Error("Code inputs must have unique keys");
+  }
+  node.inputs.forEach((input) => {
+    if (!/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(input.key)) {
+      throw new Error(`Invalid input variable name: ${input.key}`);
+    }
+    if (!input.source) throw new Error("Code input must have a source");
+    const sourceNode = nodes.find((n) => n.data.id === input.source?.nodeId);
+    if (!sourceNode) throw new Error("Source node not found");
+    const sourceSchema = findJsonSchemaByPath(
+      sourceNode.data.outputSchema,
+      input.source.path,
+    );
+    if (!sourceSchema) throw new Error("Source schema not found");
+  });
+
+  Object.keys(node.outputSchema.properties ?? {}).forEach((key) => {
+    validateSchema(key, node.outputSchema.properties![key] as JSONSchema7);
+  });
+};
+
+export const loopNodeValidate: NodeValidate<LoopNodeData> = ({
+  node,
+  nodes,
+  edges,
+}) => {
+  if (!node.items) throw new Error("Loop node must have an items source");
+  const itemsNode = nodes.find((n) => n.data.id === node.items?.nodeId);
+  if (!itemsNode) throw new Error("Items source node not found");
+  const itemsSchema = findJsonSchemaByPath(
+    itemsNode.data.outputSchema,
+    node.items.path,
+  );
+  if (itemsSchema?.type !== "array") {
+    throw new Error("Loop items must be an array");
+  }
+
+  if (node.concurrency !== undefined) {
+    if (!Number.isInteger(node.concurrency) || node.concurrency < 1) {
+      throw new Error("Loop concurrency must be a positive integer");
+    }
+    if (node.concurrency > 10) {
+      throw new Error("Loop concurrency cannot exceed 10");
+    }
+  }
+
+  const bodyIds = findLoopBodyNodeIds(node.id, edges);
+  if (!bodyIds.length) throw new Error("Loop node must have a body");
+
+  bodyIds.forEach((id) => {
+    const bodyNode = nodes.find((n) => n.id === id);
+    if (bodyNode?.data.kind === NodeKind.Output) {
+      throw new Error("Output node cannot be inside a loop body");
+    }
+    const enteredFromOutside = edges.some(
+      (e) =>
+        e.target === id &&
+        !bodyIds.includes(e.source) &&
+        !(e.source === node.id && e.sourceHandle === LOOP_BODY_HANDLE),
+    );
+    if (enteredFromOutside) {
+      throw new Error("Loop body nodes can only be reached from the loop");
+    }
+  });
+
+  if (node.result && !bodyIds.includes(node.result.nodeId)) {
+    throw new Error("Loop result must come from a node in the loop body");
+  }
+};
+
+export const subWorkflowNodeValidate: NodeValidate<SubWorkflowNodeData> = ({
+  node,
+  nodes,
+}) => {
+  if (!node.workflow) throw new Error("Sub-workflow node must have a workflow");
+
+  const required = node.inputSchema?.required ?? [];
+  required.forEach((key) => {
+    if (!node.inputs.some((input) => input.key === key && input.source)) {
+      throw new Error(`Sub-workflow input '${key}' must have a source`);
+    }
+  });
+  node.inputs.forEach((input) => {
+    if (!input.source) return;
+    const sourceNode = nodes.find((n) => n.data.id === input.source?.nodeId);
+    if (!sourceNode) throw new Error("Source node not found");
+    const sourceSchema = findJsonSchemaByPath(
+      sourceNode.data.outputSchema,
+      input.source.path,
+    );
+    if (!sourceSchema) throw new Error("Source schema not found");
+  });
+};
+
+export const approvalNodeValidate: NodeValidate<ApprovalNodeData> = ({
+  node,
+  nodes,
+  edges,
+}) => {
+  if (
+    !edges.some(
+      (e) => e.source === node.id && e.sourceHandle === APPROVAL_APPROVE_HANDLE,
+    )
+  ) {
+    throw new Error("Approval node must have an approve branch");
+  }
+  // Loop bodies run as nested executions, which cannot be paused and resumed
+  const isInLoopBody = nodes
+    .filter((n) => n.data.kind === NodeKind.Loop)
+    .some((loop) => findLoopBodyNodeIds(loop.id, edges).includes(node.id));
+  if (isInLoopBody) {
+    throw new Error("Approval node cannot be inside a loop body");
+  }
+};
+
+export const mergeNodeValidate: NodeValidate<MergeNodeData> = ({
+  node,
+  nodes,
+  edges,
+}) => {
+  const incoming = edges.filter((e) => e.target === node.id).length;
+  if (incoming < 2) {
+    throw new Error("Merge node must have at least two incoming branches");
+  }
+  if (node.mode === "first") {
+    const count = node.count ?? 1;
+    if (!Number.isInteger(count) || count < 1 || count > incoming) {
+      throw new Error(
+        `Merge count must be a whole number between 1 and ${incoming}`,
+      );
+    }
+  }
+
+  const names = node.inputs.map((input) => input.key);
+  if (names.length !== new Set(names).size) {
+    throw new Error("Merge inputs must have unique keys");
+  }
+  node.inputs.forEach((input) => {
+    if (!input.key) throw new Error("Merge input must have a key");
+    if (!input.source) throw new Error("Merge input must have a source");
+    const sourceNode = nodes.find((n) => n.data.id === input.source?.nodeId);
+    if (!sourceNode) throw new Error("Source node not found");
+    const sourceSchema = findJsonSchemaByPath(
+      sourceNode.data.outputSchema,
+      input.source.path,
+    );
+    if (!sourceSchema) throw new Error("Source schema not found");
+  });
+};
+
+export const errorPolicyValidate: NodeValidate<WorkflowNodeData> = ({
+  node,
+  edges,
+}) => {
+  const { errorPolicy } = node;
+  if (!errorPolicy) return;
+  const retry = errorPolicy.retry ?? 0;
+  if (!Number.isInteger(retry) || retry < 0 || retry > MAX_NODE_RETRY) {
+    throw new Error(`Retry count must be between 0 and ${MAX_NODE_RETRY}`);
+  }
+  if ((errorPolicy.backoff ?? 0) < 0) {
+    throw new Error("Retry backoff cannot be negative");
+  }
+  if (errorPolicy.timeout !== undefined && errorPolicy.timeout <= 0) {
+    throw new Error("Timeout must be greater than 0");
+  }
+  if (
+    hasErrorBranch(node) &&
+    !edges.some(
+      (e) => e.source === node.id && e.sourceHandle === NODE_ERROR_HANDLE,
+    )
+  ) {
+    throw new Error("Error branch must be connected");
+  }
 };
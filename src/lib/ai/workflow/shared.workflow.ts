@@ -8,12 +8,14 @@ import {
   UINode,
   OutputSchemaSourceKey,
   WorkflowNodeData,
+  NodeKind,
 } from "./workflow.interface";
 import { exclude, isString } from "lib/utils";
 import { DBEdge, DBNode } from "app-types/workflow";
 import { Edge } from "@xyflow/react";
 import { GraphEvent } from "ts-edge";
 import { UIMessage } from "ai";
+import { safe } from "ts-safe";
 
 export const defaultObjectJsonSchema: ObjectJsonSchema7 = {
   type: "object",
@@ -62,6 +64,29 @@ export function findJsonSchemaByPath(
   );
 }
 
+/**
+ * Builds the result schema of a workflow from its Output nodes.
+ * Each output key takes the schema of the field it is mapped from.
+ */
+export function getWorkflowOutputSchema(
+  nodes: WorkflowNodeData[],
+): ObjectJsonSchema7 {
+  const schema = structuredClone(defaultObjectJsonSchema);
+  nodes.forEach((node) => {
+    if (node.kind !== NodeKind.Output) return;
+    node.outputData.forEach(({ key, source }) => {
+      const sourceNode = nodes.find((n) => n.id === source?.nodeId);
+      const fieldSchema =
+        sourceNode &&
+        safe(() =>
+          findJsonSchemaByPath(sourceNode.outputSchema, source!.path),
+        ).orElse(undefined);
+      schema.properties[key] = fieldSchema ?? {};
+    });
+  });
+  return schema;
+}
+
 export function findAvailableSchemaBySource({
   nodeId,
   source,
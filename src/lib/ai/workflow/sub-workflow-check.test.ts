@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NodeKind } from "./workflow.interface";
+
+vi.mock("lib/db/repository", () => ({
+  workflowRepository: {
+    checkAccess: vi.fn(),
+    selectStructureById: vi.fn(),
+  },
+}));
+
+import { workflowRepository } from "lib/db/repository";
+import { checkSubWorkflows } from "./sub-workflow-check";
+
+const subWorkflowNode = (id: string) => ({
+  kind: NodeKind.SubWorkflow,
+  nodeConfig: { workflow: { id } },
+});
+
+describe("checkSubWorkflows", () => {
+  // Drafts and published versions of each workflow, as sub-workflow targets
+  const structures: Record<string, { draft: string[]; published?: string[] }> =
+    {};
+
+  beforeEach(() => {
+    vi.mocked(workflowRepository.checkAccess).mockResolvedValue(true);
+    vi.mocked(workflowRepository.selectStructureById).mockImplementation(
+      async (id, opt) => {
+        const structure = structures[id];
+        const targets = opt?.snapshot ? structure?.published : structure?.draft;
+        if (!targets) return null;
+        return { id, nodes: targets.map(subWorkflowNode) } as any;
+      },
+    );
+  });
+
+  it("should follow the published versions that callers run", async () => {
+    // b only calls back into a once its draft is published
+    structures.b = { draft: ["a"], published: [] };
+    expect(
+      await checkSubWorkflows("a", [subWorkflowNode("b")], "user"),
+    ).toBeUndefined();
+
+    structures.b = { draft: [], published: ["a"] };
+    expect(await checkSubWorkflows("a", [subWorkflowNode("b")], "user")).toBe(
+      "Sub-workflow would call itself recursively",
+    );
+  });
+
+  it("should reject sub-workflows the user cannot access", async () => {
+    vi.mocked(workflowRepository.checkAccess).mockResolvedValue(false);
+    expect(await checkSubWorkflows("a", [subWorkflowNode("c")], "user")).toBe(
+      "Sub-workflow is not accessible",
+    );
+  });
+
+  it("should reject workflow tools the user cannot access", async () => {
+    vi.mocked(workflowRepository.checkAccess).mockImplementation(
+      async (id) => id != "private",
+    );
+    const llmNode = (workflowId: string) => ({
+      kind: NodeKind.LLM,
+      nodeConfig: {
+        tools: [{ type: "workflow", name: workflowId, workflowId }],
+      },
+    });
+
+    expect(
+      await checkSubWorkflows("a", [llmNode("shared")], "user"),
+    ).toBeUndefined();
+    expect(await checkSubWorkflows("a", [llmNode("private")], "user")).toBe(
+      "Workflow tool is not accessible",
+    );
+    expect(workflowRepository.checkAccess).toHaveBeenCalledWith(
+      "private",
+      "user",
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { DBNode } from "app-types/workflow";
+import { workflowRepository } from "lib/db/repository";
+import { findSubWorkflowCycle, findSubWorkflowIds } from "./sub-workflow-cycle";
+import { findToolWorkflowIds } from "./llm-node-tools";
+
+/**
+ * Sub-workflows called by the latest published version of a workflow,
+ * which is what runs when another workflow calls it.
+ */
+async function loadPublishedSubWorkflowIds(workflowId: string) {
+  const workflow = await workflowRepository.selectStructureById(workflowId, {
+    ignoreNote: true,
+    snapshot: "latest",
+  });
+  return findSubWorkflowIds(workflow?.nodes ?? []);
+}
+
+/**
+ * Checks the Sub-workflow nodes a workflow is about to be saved, published or rolled back with.
+ * Every target, and every workflow attached as a tool to an LLM node, must be accessible to the user.
+ * The published versions Sub-workflow nodes call must never lead back into the workflow.
+ *
+ * @returns Why the nodes are rejected, if they are
+ */
+export async function checkSubWorkflows(
+  workflowId: string,
+  nodes: Pick<DBNode, "kind" | "nodeConfig">[],
+  userId: string,
+): Promise<string | undefined> {
+  const subWorkflowIds = findSubWorkflowIds(nodes);
+  for (const subWorkflowId of subWorkflowIds) {
+    const canAccess = await workflowRepository.checkAccess(
+      subWorkflowId,
+      userId,
+    );
+    if (!canAccess) return "Sub-workflow is not accessible";
+  }
+  for (const toolWorkflowId of findToolWorkflowIds(nodes)) {
+    const canAccess = await workflowRepository.checkAccess(
+      toolWorkflowId,
+      userId,
+    );
+    if (!canAccess) return "Workflow tool is not accessible";
+  }
+  const cycle = await findSubWorkflowCycle(
+    workflowId,
+    subWorkflowIds,
+    loadPublishedSubWorkflowIds,
+  );
+  if (cycle) return "Sub-workflow would call itself recursively";
+}
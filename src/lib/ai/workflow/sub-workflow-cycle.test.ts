@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { findSubWorkflowCycle, findSubWorkflowIds } from "./sub-workflow-cycle";
+import { NodeKind } from "./workflow.interface";
+
+describe("findSubWorkflowIds", () => {
+  it("should collect unique sub-workflow targets", () => {
+    expect(
+      findSubWorkflowIds([
+        { kind: NodeKind.SubWorkflow, nodeConfig: { workflow: { id: "b" } } },
+        { kind: NodeKind.SubWorkflow, nodeConfig: { workflow: { id: "b" } } },
+        { kind: NodeKind.SubWorkflow, nodeConfig: {} },
+        { kind: NodeKind.LLM, nodeConfig: { workflow: { id: "c" } } },
+      ]),
+    ).toEqual(["b"]);
+  });
+});
+
+describe("findSubWorkflowCycle", () => {
+  const createLoader =
+    (graph: Record<string, string[]>) => async (id: string) =>
+      graph[id] ?? [];
+
+  it("should detect a workflow calling itself", async () => {
+    expect(await findSubWorkflowCycle("a", ["a"], createLoader({}))).toBe("a");
+  });
+
+  it("should detect an indirect cycle", async () => {
+    const loader = createLoader({ b: ["c"], c: ["a"] });
+    expect(await findSubWorkflowCycle("a", ["b"], loader)).toBe("b");
+  });
+
+  it("should allow shared sub-workflows without cycles", async () => {
+    const loader = createLoader({ b: ["d"], c: ["d"], d: [] });
+    expect(await findSubWorkflowCycle("a", ["b", "c"], loader)).toBeUndefined();
+  });
+
+  it("should detect cycles reachable from the saved workflow", async () => {
+    // Calling b would never return even though a itself is not in the cycle
+    const loader = createLoader({ b: ["c"], c: ["b"] });
+    expect(await findSubWorkflowCycle("a", ["b"], loader)).toBe("b");
+  });
+});
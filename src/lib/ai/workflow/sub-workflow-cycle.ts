@@ -0,0 +1,56 @@
+import { DBNode } from "app-types/workflow";
+import { NodeKind } from "./workflow.interface";
+import { wouldCreateCycle } from "./would-create-cycle";
+
+// Nested runs stop at this depth, even when a cycle slipped past the checks
+export const MAX_SUB_WORKFLOW_DEPTH = 10;
+
+/**
+ * Collects the ids of the workflows called by SubWorkflow nodes.
+ */
+export function findSubWorkflowIds(
+  nodes: Pick<DBNode, "kind" | "nodeConfig">[],
+): string[] {
+  const ids = nodes
+    .filter((node) => node.kind === NodeKind.SubWorkflow)
+    .map((node) => node.nodeConfig.workflow?.id as string | undefined)
+    .filter(Boolean) as string[];
+  return [...new Set(ids)];
+}
+
+/**
+ * Checks whether calling the given sub-workflows could recurse forever,
+ * either back into the workflow itself or through a cycle further down.
+ * Workflow calls are treated as graph edges, walked through `loadSubWorkflowIds`.
+ *
+ * @returns The id of the first sub-workflow that closes a cycle, if any
+ */
+export async function findSubWorkflowCycle(
+  workflowId: string,
+  subWorkflowIds: string[],
+  loadSubWorkflowIds: (workflowId: string) => Promise<string[]>,
+): Promise<string | undefined> {
+  const edges: { source: string; target: string }[] = [];
+  const visited = new Set<string>([workflowId]);
+  const queue = [...subWorkflowIds];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    const targets = await loadSubWorkflowIds(id);
+    targets.forEach((target) => {
+      edges.push({ source: id, target });
+      queue.push(target);
+    });
+  }
+  return subWorkflowIds.find((target) =>
+    wouldCreateCycle(
+      { source: workflowId, target, sourceHandle: null, targetHandle: null },
+      edges.map((edge) => ({
+        ...edge,
+        sourceHandle: null,
+        targetHandle: null,
+      })),
+    ),
+  );
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import {
+  collectTemplateVariables,
+  findUnknownTemplateVariables,
+  renderJsonTemplate,
+  renderTemplate,
+  toTemplateVariable,
+} from "./template-engine";
+
+const context = {
+  Start: {
+    name: "ada",
+    tags: ["math", "code"],
+    createdAt: "2024-03-05T10:00:00Z",
+  },
+  Search: {
+    results: [
+      { title: "First", score: 2 },
+      { title: "Second", score: 1 },
+    ],
+    total: 2,
+  },
+  "My Node": { answer: "hi" },
+};
+
+describe("template-engine", () => {
+  it("should render variables with filters", () => {
+    expect(
+      renderTemplate(
+        '{{ Start.name | upper }} / {{ Start.tags | join " + " }} / {{ Start.createdAt | date "yyyy/MM/dd" }}',
+        context,
+      ),
+    ).toBe("ADA / math + code / 2024/03/05");
+    expect(renderTemplate("{{ Start.missing | default 'n/a' }}", context)).toBe(
+      "n/a",
+    );
+    expect(renderTemplate("{{ Search.results | first | json }}", context)).toBe(
+      '{"title":"First","score":2}',
+    );
+    expect(renderTemplate('{{ ["My Node"].answer }}', context)).toBe("hi");
+  });
+
+  it("should render loops and conditionals", () => {
+    expect(
+      renderTemplate(
+        "{{#each Search.results}}{{@index}}. {{title}}{{#if score}} ({{ this.score }}){{/if}}\n{{/each}}",
+        context,
+      ),
+    ).toBe("0. First (2)\n1. Second (1)\n");
+    expect(
+      renderTemplate(
+        "{{#each Start.none}}x{{else}}empty{{/each}} {{#unless Search.total}}no{{else}}yes{{/unless}}",
+        context,
+      ),
+    ).toBe("empty yes");
+  });
+
+  it("should throw syntax errors with the line", () => {
+    expect(() => renderTemplate("a\n{{#if Start.name}}b", context)).toThrow(
+      "Unclosed {{#if}} (line 2)",
+    );
+    expect(() => renderTemplate("{{ Start.name | shout }}", context)).toThrow(
+      "Unknown filter shout",
+    );
+    expect(() => renderTemplate("{{#each x}}{{/if}}", context)).toThrow(
+      "Unexpected {{/if}}",
+    );
+    expect(() => renderTemplate("{{ Start.name ", context)).toThrow(
+      "Unclosed tag",
+    );
+  });
+
+  it("should render JSON templates keeping value types", () => {
+    expect(
+      renderJsonTemplate(
+        JSON.stringify({
+          name: "{{ Start.name }}",
+          greeting: "Hello {{ Start.name | upper }}",
+          tags: "{{ Start.tags }}",
+          items: {
+            $each: "Search.results",
+            $template: { title: "{{ title }}", rank: "{{ @index }}" },
+          },
+          extra: { $if: "Start.missing", $then: "yes" },
+          status: { $if: "Search.total", $then: "found", $else: "none" },
+        }),
+        context,
+      ),
+    ).toEqual({
+      name: "ada",
+      greeting: "Hello ADA",
+      tags: ["math", "code"],
+      items: [
+        { title: "First", rank: 0 },
+        { title: "Second", rank: 1 },
+      ],
+      status: "found",
+    });
+    expect(() => renderJsonTemplate("{ name: }", context)).toThrow(
+      "Invalid JSON",
+    );
+  });
+
+  it("should find variables missing from upstream output schemas", () => {
+    const variables = collectTemplateVariables(
+      "handlebars",
+      "{{ Start.name }} {{ Start.age }} {{ Other.x }} {{#each Search.results}}{{ title }}{{/each}} {{ Search.results.0.title }}",
+    );
+    expect(
+      findUnknownTemplateVariables(variables, [
+        {
+          name: "Start",
+          outputSchema: {
+            type: "object",
+            properties: { name: { type: "string" } },
+          },
+        },
+        {
+          name: "Search",
+          outputSchema: {
+            type: "object",
+            properties: {
+              results: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: { title: { type: "string" } },
+                },
+              },
+            },
+          },
+        },
+      ]),
+    ).toEqual(["Start.age", "Other.x"]);
+  });
+
+  it("should quote keys that cannot follow a dot", () => {
+    expect(toTemplateVariable(["My Node", "answer"])).toBe(
+      '["My Node"].answer',
+    );
+    expect(toTemplateVariable(["LLM", "answer"])).toBe("LLM.answer");
+  });
+});
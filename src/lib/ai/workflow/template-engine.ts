@@ -0,0 +1,507 @@
+import { format, isValid } from "date-fns";
+import { JSONSchema7 } from "json-schema";
+import { parseJsonPath } from "./condition";
+
+/**
+ * Template engines of the Template node besides TipTap mentions.
+ *
+ * - handlebars: text with `{{ path | filter }}` expressions and
+ *   `{{#if}}`, `{{#unless}}` and `{{#each}}` blocks
+ * - json: a JSON document whose strings are handlebars templates.
+ *   A string holding only one expression keeps the type of its value, and
+ *   `{ "$each": path, "$template": value }` and
+ *   `{ "$if": path, "$then": value, "$else": value }` build arrays and branches.
+ *
+ * Paths start with the name of an upstream node, e.g. `{{ LLM.answer }}`.
+ * Inside `{{#each}}`, `this`, `@index` and `@key` refer to the current item,
+ * and the fields of the item can be used directly.
+ */
+export type TemplateEngine = "handlebars" | "json";
+
+export class TemplateSyntaxError extends Error {
+  constructor(
+    message: string,
+    public line?: number,
+  ) {
+    super(line ? `${message} (line ${line})` : message);
+    this.name = "TemplateSyntaxError";
+  }
+}
+
+type TemplateFilter = { name: string; args: unknown[] };
+
+type TemplateExpression = {
+  path: (string | number)[];
+  filters: TemplateFilter[];
+};
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "expression"; expression: TemplateExpression }
+  | {
+      type: "if" | "unless" | "each";
+      expression: TemplateExpression;
+      children: TemplateNode[];
+      alternate: TemplateNode[];
+    };
+
+type TemplateScope = {
+  root: Record<string, unknown>;
+  frames: { item: unknown; index: number; key?: string }[];
+};
+
+const toText = (value: unknown): string => {
+  if (value == null) return "";
+  if (typeof value == "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const isTruthy = (value: unknown) =>
+  Array.isArray(value) ? value.length > 0 : Boolean(value);
+
+const FILTERS: Record<string, (value: unknown, ...args: any[]) => unknown> = {
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  trim: (value) => toText(value).trim(),
+  join: (value, separator = ", ") =>
+    Array.isArray(value)
+      ? value.map(toText).join(String(separator))
+      : toText(value),
+  json: (value, indent?: number) => JSON.stringify(value ?? null, null, indent),
+  date: (value, pattern = "yyyy-MM-dd") => {
+    if (value == null || value === "") return "";
+    const date = new Date(value as string | number);
+    return isValid(date) ? format(date, String(pattern)) : toText(value);
+  },
+  default: (value, fallback = "") =>
+    value == null || value === "" ? fallback : value,
+  length: (value) => {
+    if (Array.isArray(value) || typeof value == "string") return value.length;
+    if (value && typeof value == "object") return Object.keys(value).length;
+    return 0;
+  },
+  first: (value) => (Array.isArray(value) ? value[0] : value),
+  last: (value) => (Array.isArray(value) ? value.at(-1) : value),
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+function parseFilterArg(token: string, line: number): unknown {
+  if (/^(['"])[\s\S]*\1$/.test(token)) {
+    return token.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  if (/^-?\d+(\.\d+)?$/.test(token)) return Number(token);
+  if (token == "true" || token == "false") return token == "true";
+  throw new TemplateSyntaxError(`Invalid filter argument ${token}`, line);
+}
+
+function parseExpression(source: string, line = 0): TemplateExpression {
+  const [head, ...filterSources] =
+    source.match(/(?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[^|])+/g) ?? [];
+  const pathSource = head?.trim() ?? "";
+  if (!pathSource) throw new TemplateSyntaxError("Empty expression", line);
+
+  let path: (string | number)[];
+  try {
+    path = parseJsonPath(
+      pathSource.startsWith("[") ? pathSource : `.${pathSource}`,
+    );
+  } catch {
+    throw new TemplateSyntaxError(`Invalid path ${pathSource}`, line);
+  }
+  if (path.includes("*")) {
+    throw new TemplateSyntaxError(`Wildcards are not supported`, line);
+  }
+
+  const filters = filterSources.map((filterSource) => {
+    const [name, ...args] =
+      filterSource.trim().match(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\S+/g) ??
+      [];
+    if (!name || !FILTERS[name]) {
+      throw new TemplateSyntaxError(`Unknown filter ${name ?? ""}`, line);
+    }
+    return { name, args: args.map((arg) => parseFilterArg(arg, line)) };
+  });
+  return { path, filters };
+}
+
+/**
+ * Parses a handlebars template, throwing a TemplateSyntaxError on
+ * unknown filters, invalid paths and unbalanced blocks.
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: {
+    node: Extract<TemplateNode, { children: TemplateNode[] }>;
+    line: number;
+    inAlternate: boolean;
+  }[] = [];
+  const current = () => {
+    const top = stack.at(-1);
+    if (!top) return root;
+    return top.inAlternate ? top.node.alternate : top.node.children;
+  };
+
+  const tagPattern = /\{\{([\s\S]*?)\}\}/g;
+  let index = 0;
+  for (const match of source.matchAll(tagPattern)) {
+    const line = source.slice(0, match.index).split("\n").length;
+    const text = source.slice(index, match.index);
+    if (text.includes("{{")) {
+      throw new TemplateSyntaxError("Unclosed tag", line);
+    }
+    if (text) current().push({ type: "text", value: text });
+    index = match.index + match[0].length;
+
+    const tag = match[1].trim();
+    if (tag.startsWith("!")) continue;
+    const block = tag.match(/^#(if|unless|each)\b\s*([\s\S]*)$/);
+    if (block) {
+      const node = {
+        type: block[1] as "if" | "unless" | "each",
+        expression: parseExpression(block[2], line),
+        children: [],
+        alternate: [],
+      };
+      current().push(node);
+      stack.push({ node, line, inAlternate: false });
+      continue;
+    }
+    if (tag == "else") {
+      const top = stack.at(-1);
+      if (!top || top.inAlternate) {
+        throw new TemplateSyntaxError("Unexpected {{else}}", line);
+      }
+      top.inAlternate = true;
+      continue;
+    }
+    const close = tag.match(/^\/(\w+)$/);
+    if (close) {
+      const top = stack.pop();
+      if (!top || top.node.type != close[1]) {
+        throw new TemplateSyntaxError(`Unexpected {{/${close[1]}}}`, line);
+      }
+      continue;
+    }
+    if (tag.startsWith("#") || tag.startsWith("/")) {
+      throw new TemplateSyntaxError(`Unknown block {{${tag}}}`, line);
+    }
+    current().push({
+      type: "expression",
+      expression: parseExpression(tag, line),
+    });
+  }
+
+  const rest = source.slice(index);
+  if (rest.includes("{{")) {
+    throw new TemplateSyntaxError(
+      "Unclosed tag",
+      source.slice(0, index + rest.indexOf("{{")).split("\n").length,
+    );
+  }
+  if (rest) current().push({ type: "text", value: rest });
+  const unclosed = stack.at(-1);
+  if (unclosed) {
+    throw new TemplateSyntaxError(
+      `Unclosed {{#${unclosed.node.type}}}`,
+      unclosed.line,
+    );
+  }
+  return root;
+}
+
+function resolvePath(path: (string | number)[], scope: TemplateScope) {
+  const [head, ...rest] = path;
+  const frame = scope.frames.at(-1);
+  let value: unknown;
+  if (head == "this") {
+    value = frame ? frame.item : scope.root;
+  } else if (head == "@index") {
+    value = frame?.index;
+  } else if (head == "@key") {
+    value = frame?.key;
+  } else {
+    const owner = [...scope.frames]
+      .reverse()
+      .map((frame) => frame.item)
+      .find(
+        (item) =>
+          item != null &&
+          typeof item == "object" &&
+          Object.hasOwn(item, head as string),
+      );
+    value = ((owner ?? scope.root) as Record<string | number, unknown>)[head];
+  }
+  return rest.reduce<unknown>(
+    (acc, key) =>
+      acc != null && typeof acc == "object"
+        ? (acc as Record<string | number, unknown>)[key]
+        : undefined,
+    value,
+  );
+}
+
+function evaluateExpression(
+  expression: TemplateExpression,
+  scope: TemplateScope,
+): unknown {
+  return expression.filters.reduce(
+    (value, filter) => FILTERS[filter.name](value, ...filter.args),
+    resolvePath(expression.path, scope),
+  );
+}
+
+function eachItems(value: unknown) {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => ({ item, index }));
+  }
+  if (value && typeof value == "object") {
+    return Object.entries(value).map(([key, item], index) => ({
+      item,
+      index,
+      key,
+    }));
+  }
+  return [];
+}
+
+function renderNodes(nodes: TemplateNode[], scope: TemplateScope): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "expression":
+          return toText(evaluateExpression(node.expression, scope));
+        case "if":
+        case "unless": {
+          const truthy = isTruthy(evaluateExpression(node.expression, scope));
+          return renderNodes(
+            truthy == (node.type == "if") ? node.children : node.alternate,
+            scope,
+          );
+        }
+        case "each": {
+          const items = eachItems(evaluateExpression(node.expression, scope));
+          if (!items.length) return renderNodes(node.alternate, scope);
+          return items
+            .map((frame) =>
+              renderNodes(node.children, {
+                ...scope,
+                frames: [...scope.frames, frame],
+              }),
+            )
+            .join("");
+        }
+      }
+    })
+    .join("");
+}
+
+export function renderTemplate(
+  source: string,
+  context: Record<string, unknown>,
+): string {
+  return renderNodes(parseTemplate(source), { root: context, frames: [] });
+}
+
+function parseJsonSource(source: string): unknown {
+  try {
+    return JSON.parse(source);
+  } catch (error) {
+    throw new TemplateSyntaxError(
+      `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+const SINGLE_EXPRESSION = /^\{\{\s*([^#/!\s][^{}]*?)\s*\}\}$/;
+
+const isDirective = (value: unknown, key: string) =>
+  value != null &&
+  typeof value == "object" &&
+  !Array.isArray(value) &&
+  Object.hasOwn(value, key);
+
+function renderJsonValue(value: unknown, scope: TemplateScope): unknown {
+  if (typeof value == "string") {
+    const single = value.match(SINGLE_EXPRESSION);
+    if (single && single[1].trim() != "else") {
+      return evaluateExpression(parseExpression(single[1]), scope);
+    }
+    return renderNodes(parseTemplate(value), scope);
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => renderJsonValue(item, scope))
+      .filter((item) => item !== undefined);
+  }
+  if (value && typeof value == "object") {
+    const object = value as Record<string, unknown>;
+    if (isDirective(object, "$each")) {
+      const items = eachItems(
+        evaluateExpression(parseExpression(String(object.$each)), scope),
+      );
+      return items
+        .map((frame) =>
+          renderJsonValue(object.$template ?? null, {
+            ...scope,
+            frames: [...scope.frames, frame],
+          }),
+        )
+        .filter((item) => item !== undefined);
+    }
+    if (isDirective(object, "$if")) {
+      const truthy = isTruthy(
+        evaluateExpression(parseExpression(String(object.$if)), scope),
+      );
+      const branch = truthy ? object.$then : object.$else;
+      return branch === undefined ? undefined : renderJsonValue(branch, scope);
+    }
+    return Object.fromEntries(
+      Object.entries(object)
+        .map(([key, item]) => [key, renderJsonValue(item, scope)])
+        .filter(([, item]) => item !== undefined),
+    );
+  }
+  return value;
+}
+
+export function renderJsonTemplate(
+  source: string,
+  context: Record<string, unknown>,
+): unknown {
+  return renderJsonValue(parseJsonSource(source), {
+    root: context,
+    frames: [],
+  });
+}
+
+function collectNodeVariables(
+  nodes: TemplateNode[],
+  variables: (string | number)[][],
+) {
+  for (const node of nodes) {
+    if (node.type == "expression") variables.push(node.expression.path);
+    if (node.type == "if" || node.type == "unless" || node.type == "each") {
+      variables.push(node.expression.path);
+      // fields inside a loop may belong to the current item
+      if (node.type != "each") collectNodeVariables(node.children, variables);
+      collectNodeVariables(node.alternate, variables);
+    }
+  }
+}
+
+function collectJsonVariables(
+  value: unknown,
+  variables: (string | number)[][],
+) {
+  if (typeof value == "string") {
+    const single = value.match(SINGLE_EXPRESSION);
+    if (single && single[1].trim() != "else") {
+      variables.push(parseExpression(single[1]).path);
+    } else {
+      collectNodeVariables(parseTemplate(value), variables);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectJsonVariables(item, variables));
+  } else if (value && typeof value == "object") {
+    const object = value as Record<string, unknown>;
+    if (isDirective(object, "$each")) {
+      variables.push(parseExpression(String(object.$each)).path);
+      return;
+    }
+    if (isDirective(object, "$if")) {
+      variables.push(parseExpression(String(object.$if)).path);
+    }
+    Object.entries(object)
+      .filter(([key]) => key != "$if")
+      .forEach(([, item]) => collectJsonVariables(item, variables));
+  }
+}
+
+/**
+ * Checks the syntax of a template and returns the variable paths it reads
+ * outside of loops, where every path starts with an upstream node name.
+ * Throws a TemplateSyntaxError when the template is invalid.
+ */
+export function collectTemplateVariables(
+  engine: TemplateEngine,
+  source: string,
+): (string | number)[][] {
+  const variables: (string | number)[][] = [];
+  if (engine == "json") {
+    collectJsonVariables(parseJsonSource(source), variables);
+  } else {
+    collectNodeVariables(parseTemplate(source), variables);
+  }
+  return variables.filter(
+    ([head]) => head != "this" && !String(head).startsWith("@"),
+  );
+}
+
+/**
+ * Builds the values templates read, keyed by node name.
+ */
+export function createTemplateContext(
+  nodes: { id: string; name: string }[],
+  outputs: Record<string, unknown>,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    nodes
+      .filter((node) => outputs[node.id] !== undefined)
+      .map((node) => [node.name, outputs[node.id]]),
+  );
+}
+
+function hasSchemaPath(
+  schema: JSONSchema7,
+  path: (string | number)[],
+): boolean {
+  const [key, ...rest] = path;
+  if (key === undefined) return true;
+  if (schema.type == "array" || schema.items) {
+    if (key == "length") return rest.length == 0;
+    const items = Array.isArray(schema.items) ? undefined : schema.items;
+    if (!/^\d+$/.test(String(key))) return false;
+    return !items || typeof items == "boolean" || hasSchemaPath(items, rest);
+  }
+  if (schema.type == "object" || schema.properties) {
+    const property = schema.properties?.[key];
+    if (!property) return !schema.properties || !!schema.additionalProperties;
+    return typeof property == "boolean" || hasSchemaPath(property, rest);
+  }
+  // a schema without a type accepts any value
+  return !schema.type;
+}
+
+/**
+ * Finds the variable paths that no upstream output schema declares.
+ * Schemas without declared fields accept any path below them.
+ */
+export function findUnknownTemplateVariables(
+  variables: (string | number)[][],
+  nodes: { name: string; outputSchema: JSONSchema7 }[],
+): string[] {
+  return variables
+    .filter(([head, ...rest]) => {
+      const node = nodes.find((node) => node.name == head);
+      return !node || !hasSchemaPath(node.outputSchema, rest);
+    })
+    .map(toTemplateVariable);
+}
+
+/**
+ * Writes a variable path the way templates read it,
+ * quoting keys that cannot follow a dot.
+ */
+export function toTemplateVariable(path: (string | number)[]): string {
+  return path
+    .map((key, index) => {
+      if (!/^[^.[\]|{}'"\s]+$/.test(String(key))) {
+        return `[${JSON.stringify(String(key))}]`;
+      }
+      return index ? `.${key}` : String(key);
+    })
+    .join("");
+}
@@ -0,0 +1,253 @@
+import { describe, it, expect } from "vitest";
+import { DBEdge, DBNode, DBWorkflow } from "app-types/workflow";
+import {
+  WORKFLOW_BUNDLE_VERSION,
+  WorkflowBundleSchema,
+  createWorkflowBundle,
+  getWorkflowRequirements,
+  remapWorkflowBundle,
+} from "./workflow-bundle";
+import { NodeKind } from "./workflow.interface";
+
+describe("workflow bundle", () => {
+  const inputId = "11111111-1111-1111-1111-111111111111";
+  const toolId = "22222222-2222-2222-2222-222222222222";
+  const subId = "33333333-3333-3333-3333-333333333333";
+
+  const createNode = (
+    id: string,
+    kind: NodeKind,
+    nodeConfig: Record<string, any> = {},
+  ): DBNode => ({
+    id,
+    workflowId: "source",
+    kind,
+    name: kind.toUpperCase(),
+    nodeConfig: { kind, ...nodeConfig },
+    uiConfig: { position: { x: 0, y: 0 }, type: "default" },
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  });
+
+  const nodes = [
+    createNode(inputId, NodeKind.Input),
+    createNode(toolId, NodeKind.Tool, {
+      model: { provider: "openai", model: "gpt-4.1" },
+      tool: {
+        id: "search",
+        description: "",
+        type: "mcp-tool",
+        serverId: "staging-server",
+        serverName: "search-server",
+      },
+      message: {
+        type: "doc",
+        content: [
+          {
+            type: "mention",
+            attrs: { label: JSON.stringify({ nodeId: inputId, path: ["q"] }) },
+          },
+        ],
+      },
+    }),
+    createNode(subId, NodeKind.SubWorkflow, {
+      workflow: { id: "staging-workflow", name: "Child" },
+      inputs: [{ key: "q", source: { nodeId: inputId, path: ["q"] } }],
+    }),
+  ];
+  const edges: DBEdge[] = [
+    {
+      id: "e1",
+      workflowId: "source",
+      source: inputId,
+      target: toolId,
+      uiConfig: {},
+      createdAt: new Date(0),
+    },
+    {
+      id: "e2",
+      workflowId: "source",
+      source: toolId,
+      target: "deleted-node",
+      uiConfig: {},
+      createdAt: new Date(0),
+    },
+  ];
+
+  const remap = (mcpServers: { id: string; name: string }[] = []) =>
+    remapWorkflowBundle(
+      { nodes, edges },
+      {
+        workflowId: "target",
+        mcpServers,
+        hasModel: (model) => model.model == "gpt-4.1",
+        hasWorkflow: () => false,
+      },
+    );
+
+  it("should export a versioned bundle that passes validation", () => {
+    const bundle = createWorkflowBundle({
+      ...({ id: "source", name: "Flow" } as DBWorkflow),
+      nodes,
+      edges,
+    });
+
+    expect(bundle.version).toBe(WORKFLOW_BUNDLE_VERSION);
+    expect(bundle.workflow).not.toHaveProperty("nodes");
+    expect(
+      WorkflowBundleSchema.safeParse(JSON.parse(JSON.stringify(bundle)))
+        .success,
+    ).toBe(true);
+  });
+
+  it("should reject bundles of an unknown version", () => {
+    expect(
+      WorkflowBundleSchema.safeParse({
+        version: 99,
+        workflow: { name: "Flow" },
+        nodes: [],
+        edges: [],
+      }).success,
+    ).toBe(false);
+  });
+
+  it("should give nodes and edges new ids and update references", () => {
+    const result = remap();
+    const [input, tool, sub] = result.nodes;
+
+    expect(result.nodes.map((node) => node.id)).not.toContain(inputId);
+    expect(result.nodes.every((node) => node.workflowId == "target")).toBe(
+      true,
+    );
+    expect(JSON.stringify(tool.nodeConfig.message)).toContain(input.id);
+    expect(sub.nodeConfig.inputs[0].source.nodeId).toBe(input.id);
+
+    // Edges to nodes outside the bundle are dropped
+    expect(result.edges).toHaveLength(1);
+    expect(result.edges[0]).toMatchObject({
+      source: input.id,
+      target: tool.id,
+      workflowId: "target",
+    });
+    expect(result.edges[0].id).not.toBe("e1");
+  });
+
+  it("should re-link MCP tools by server name", () => {
+    const result = remap([{ id: "prod-server", name: "search-server" }]);
+
+    expect(result.nodes[1].nodeConfig.tool.serverId).toBe("prod-server");
+    expect(result.warnings.map((w) => w.type)).toEqual(["workflow"]);
+  });
+
+  it("should re-link MCP tools attached to LLM nodes", () => {
+    const llmId = "44444444-4444-4444-4444-444444444444";
+    const result = remapWorkflowBundle(
+      {
+        nodes: [
+          createNode(llmId, NodeKind.LLM, {
+            tools: [
+              {
+                type: "mcpTool",
+                name: "search",
+                serverId: "staging-server",
+                serverName: "search-server",
+              },
+              { type: "mcpServer", name: "files", serverId: "staging-files" },
+              { type: "defaultTool", name: "http", label: "http" },
+            ],
+          }),
+        ],
+        edges: [],
+      },
+      {
+        workflowId: "target",
+        mcpServers: [{ id: "prod-server", name: "search-server" }],
+        hasModel: () => true,
+        hasWorkflow: () => true,
+      },
+    );
+
+    const [search, files, http] = result.nodes[0].nodeConfig.tools;
+    expect(search.serverId).toBe("prod-server");
+    expect(files.serverId).toBe("staging-files");
+    expect(http).toEqual({ type: "defaultTool", name: "http", label: "http" });
+    expect(result.warnings).toEqual([
+      { type: "mcp-server", nodeName: "LLM", name: "files" },
+    ]);
+  });
+
+  it("should report missing servers, models and workflows", () => {
+    const result = remapWorkflowBundle(
+      { nodes, edges },
+      {
+        workflowId: "target",
+        mcpServers: [],
+        hasModel: () => false,
+        hasWorkflow: () => false,
+      },
+    );
+
+    expect(result.warnings).toEqual([
+      { type: "model", nodeName: "TOOL", name: "openai/gpt-4.1" },
+      { type: "mcp-server", nodeName: "TOOL", name: "search-server" },
+      { type: "workflow", nodeName: "SUB-WORKFLOW", name: "Child" },
+    ]);
+  });
+
+  it("should clear workflows the importing user cannot access", () => {
+    const llmId = "44444444-4444-4444-4444-444444444444";
+    const result = remapWorkflowBundle(
+      {
+        nodes: [
+          nodes[2],
+          createNode(llmId, NodeKind.LLM, {
+            tools: [
+              { type: "workflow", name: "Private", workflowId: "private" },
+              { type: "workflow", name: "Shared", workflowId: "shared" },
+            ],
+          }),
+        ],
+        edges: [],
+      },
+      {
+        workflowId: "target",
+        mcpServers: [],
+        hasModel: () => true,
+        hasWorkflow: (id) => id == "shared",
+      },
+    );
+
+    const [sub, llm] = result.nodes;
+    expect(sub.nodeConfig.workflow).toBeUndefined();
+    expect(llm.nodeConfig.tools).toEqual([
+      { type: "workflow", name: "Shared", workflowId: "shared" },
+    ]);
+    expect(result.warnings).toEqual([
+      { type: "workflow", nodeName: "SUB-WORKFLOW", name: "Child" },
+      { type: "workflow", nodeName: "LLM", name: "Private" },
+    ]);
+  });
+
+  it("should list each requirement once with its availability", () => {
+    const requirements = getWorkflowRequirements(
+      {
+        nodes: [
+          ...nodes,
+          createNode(toolId, NodeKind.Tool, nodes[1].nodeConfig),
+        ],
+        edges,
+      },
+      {
+        mcpServers: [{ id: "prod-server", name: "search-server" }],
+        hasModel: () => false,
+        hasWorkflow: () => true,
+      },
+    );
+
+    expect(requirements).toEqual([
+      { type: "model", name: "openai/gpt-4.1", available: false },
+      { type: "mcp-server", name: "search-server", available: true },
+      { type: "workflow", name: "Child", available: true },
+    ]);
+  });
+});
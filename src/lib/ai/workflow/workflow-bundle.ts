@@ -0,0 +1,260 @@
+import { DBEdge, DBNode, DBWorkflow } from "app-types/workflow";
+import { ChatMention, ChatModel } from "app-types/chat";
+import { generateUUID } from "lib/utils";
+import { z } from "zod";
+import { NodeKind, WorkflowToolKey } from "./workflow.interface";
+
+/**
+ * Format version of exported workflow files.
+ * Bump it when the bundle shape changes and keep reading the older versions.
+ */
+export const WORKFLOW_BUNDLE_VERSION = 1;
+
+export type WorkflowBundle = {
+  version: typeof WORKFLOW_BUNDLE_VERSION;
+  exportedAt: string;
+  workflow: DBWorkflow;
+  nodes: DBNode[];
+  edges: DBEdge[];
+};
+
+export const WorkflowBundleSchema = z.object({
+  version: z.literal(WORKFLOW_BUNDLE_VERSION),
+  exportedAt: z.string().optional(),
+  workflow: z
+    .object({
+      name: z.string().min(1),
+      description: z.string().nullish(),
+      icon: z.any().optional(),
+    })
+    .passthrough(),
+  nodes: z.array(
+    z
+      .object({
+        id: z.string(),
+        kind: z.string(),
+        name: z.string(),
+        description: z.string().nullish(),
+        nodeConfig: z.record(z.string(), z.any()),
+        uiConfig: z.record(z.string(), z.any()),
+      })
+      .passthrough(),
+  ),
+  edges: z.array(
+    z
+      .object({
+        id: z.string(),
+        source: z.string(),
+        target: z.string(),
+        uiConfig: z.record(z.string(), z.any()),
+      })
+      .passthrough(),
+  ),
+});
+
+/**
+ * Something the imported workflow refers to that this server does not have.
+ * The workflow is still imported, and the node has to be fixed in the editor.
+ * Workflows the importing user can not access are cleared from the node.
+ */
+export type WorkflowImportWarning = {
+  type: "mcp-server" | "model" | "workflow";
+  nodeName: string;
+  name: string;
+};
+
+/**
+ * A model, MCP server or workflow a bundle refers to.
+ * `available` tells whether the server it is imported into has it.
+ */
+export type WorkflowRequirement = Omit<WorkflowImportWarning, "nodeName"> & {
+  available: boolean;
+};
+
+export function createWorkflowBundle(
+  workflow: DBWorkflow & { nodes: DBNode[]; edges: DBEdge[] },
+): WorkflowBundle {
+  const { nodes, edges, ...rest } = workflow;
+  return {
+    version: WORKFLOW_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    workflow: rest,
+    nodes,
+    edges,
+  };
+}
+
+/**
+ * Prepares the structure of a bundle to be saved as a new workflow.
+ *
+ * - Node and edge ids are replaced, including every reference to a node inside node configs
+ * - MCP tools, also those attached to LLM nodes, are linked to the server with the same name on this server
+ * - Missing MCP servers, models and workflows are reported as warnings
+ * - Sub-workflows and workflow tools that are not accessible are cleared, so the import never calls them
+ */
+export function remapWorkflowBundle(
+  bundle: {
+    nodes: (Pick<DBNode, "id" | "kind" | "name" | "nodeConfig" | "uiConfig"> & {
+      description?: string | null;
+    })[];
+    edges: Pick<DBEdge, "id" | "source" | "target" | "uiConfig">[];
+  },
+  target: {
+    workflowId: string;
+    mcpServers: { id: string; name: string }[];
+    hasModel: (model: ChatModel) => boolean;
+    hasWorkflow: (workflowId: string) => boolean;
+  },
+): { nodes: DBNode[]; edges: DBEdge[]; warnings: WorkflowImportWarning[] } {
+  const ids = new Map(bundle.nodes.map((node) => [node.id, generateUUID()]));
+  const warnings: WorkflowImportWarning[] = [];
+  const now = new Date();
+
+  // Node ids are uuids, so they only ever match as whole strings
+  const replaceIds = <T>(value: T): T => {
+    let json = JSON.stringify(value ?? {});
+    ids.forEach((newId, oldId) => {
+      json = json.replaceAll(oldId, newId);
+    });
+    return JSON.parse(json);
+  };
+
+  const nodes = bundle.nodes.map((node) => {
+    const nodeConfig = replaceIds(node.nodeConfig);
+
+    const model = nodeConfig.model as ChatModel | undefined;
+    if (model && !target.hasModel(model)) {
+      warnings.push({
+        type: "model",
+        nodeName: node.name,
+        name: `${model.provider}/${model.model}`,
+      });
+    }
+
+    const tool = nodeConfig.tool as WorkflowToolKey | undefined;
+    if (node.kind == NodeKind.Tool && tool?.type == "mcp-tool") {
+      const server = target.mcpServers.find(
+        (server) => server.name == tool.serverName,
+      );
+      if (server) {
+        nodeConfig.tool = { ...tool, serverId: server.id };
+      } else {
+        warnings.push({
+          type: "mcp-server",
+          nodeName: node.name,
+          name: tool.serverName,
+        });
+      }
+    }
+
+    // Tools attached to LLM nodes refer to servers and workflows the same way
+    const mentions = (nodeConfig.tools ?? []) as ChatMention[];
+    if (node.kind == NodeKind.LLM && mentions.length) {
+      nodeConfig.tools = mentions.flatMap((mention) => {
+        if (
+          mention.type == "workflow" &&
+          !target.hasWorkflow(mention.workflowId)
+        ) {
+          warnings.push({
+            type: "workflow",
+            nodeName: node.name,
+            name: mention.name,
+          });
+          return [];
+        }
+        if (mention.type != "mcpTool" && mention.type != "mcpServer") {
+          return mention;
+        }
+        const serverName =
+          mention.type == "mcpServer" ? mention.name : mention.serverName;
+        const server = target.mcpServers.find(
+          (server) => server.name == serverName,
+        );
+        if (server) return { ...mention, serverId: server.id };
+        warnings.push({
+          type: "mcp-server",
+          nodeName: node.name,
+          name: serverName ?? mention.name,
+        });
+        return mention;
+      });
+    }
+
+    const workflow = nodeConfig.workflow as { id: string; name: string };
+    if (
+      node.kind == NodeKind.SubWorkflow &&
+      workflow &&
+      !target.hasWorkflow(workflow.id)
+    ) {
+      warnings.push({
+        type: "workflow",
+        nodeName: node.name,
+        name: workflow.name,
+      });
+      delete nodeConfig.workflow;
+    }
+
+    return {
+      id: ids.get(node.id)!,
+      workflowId: target.workflowId,
+      kind: node.kind,
+      name: node.name,
+      description: node.description ?? "",
+      nodeConfig,
+      uiConfig: replaceIds(node.uiConfig),
+      createdAt: now,
+      updatedAt: now,
+    } satisfies DBNode;
+  });
+
+  const edges = bundle.edges
+    .filter((edge) => ids.has(edge.source) && ids.has(edge.target))
+    .map(
+      (edge) =>
+        ({
+          id: generateUUID(),
+          workflowId: target.workflowId,
+          source: ids.get(edge.source)!,
+          target: ids.get(edge.target)!,
+          uiConfig: replaceIds(edge.uiConfig),
+          createdAt: now,
+        }) satisfies DBEdge,
+    );
+
+  return { nodes, edges, warnings };
+}
+
+/**
+ * Lists what a bundle refers to, each model, MCP server and workflow once.
+ * Availability is matched the same way as on import,
+ * so the missing ones are exactly what an import would warn about.
+ */
+export function getWorkflowRequirements(
+  bundle: Parameters<typeof remapWorkflowBundle>[0],
+  target: Omit<Parameters<typeof remapWorkflowBundle>[1], "workflowId">,
+): WorkflowRequirement[] {
+  const key = (warning: WorkflowImportWarning) =>
+    `${warning.type}:${warning.name}`;
+  const referenced = remapWorkflowBundle(bundle, {
+    workflowId: "",
+    mcpServers: [],
+    hasModel: () => false,
+    hasWorkflow: () => false,
+  }).warnings;
+  const missing = new Set(
+    remapWorkflowBundle(bundle, { ...target, workflowId: "" }).warnings.map(
+      key,
+    ),
+  );
+
+  const requirements = new Map<string, WorkflowRequirement>();
+  referenced.forEach((warning) => {
+    if (requirements.has(key(warning))) return;
+    requirements.set(key(warning), {
+      type: warning.type,
+      name: warning.name,
+      available: !missing.has(key(warning)),
+    });
+  });
+  return Array.from(requirements.values());
+}
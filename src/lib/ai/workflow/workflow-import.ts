@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { ChatModel } from "app-types/chat";
+import { mcpRepository, workflowRepository } from "lib/db/repository";
+import { customModelProvider } from "lib/ai/models";
+import { WorkflowBundleSchema, remapWorkflowBundle } from "./workflow-bundle";
+import { findSubWorkflowIds } from "./sub-workflow-cycle";
+import { findToolWorkflowIds } from "./llm-node-tools";
+
+export type ImportableBundle = z.infer<typeof WorkflowBundleSchema>;
+
+/**
+ * The MCP servers, models and workflows of this server a bundle is matched against.
+ * Sub-workflows and workflow tools only match when the importing user can access them.
+ */
+export async function loadImportTarget(
+  bundle: Pick<ImportableBundle, "nodes">,
+  userId: string,
+) {
+  const accessibleWorkflowIds = new Set<string>();
+  const workflowIds = new Set([
+    ...findSubWorkflowIds(bundle.nodes),
+    ...findToolWorkflowIds(bundle.nodes),
+  ]);
+  for (const workflowId of workflowIds) {
+    const canAccess = await workflowRepository
+      .checkAccess(workflowId, userId)
+      .catch(() => false);
+    if (canAccess) accessibleWorkflowIds.add(workflowId);
+  }
+  const mcpServers = await mcpRepository.selectAll();
+  return {
+    mcpServers,
+    hasModel: (model: ChatModel) =>
+      customModelProvider.modelsInfo.some(
+        (info) =>
+          info.provider == model.provider &&
+          info.models.some((m) => m.name == model.model),
+      ),
+    hasWorkflow: (id: string) => accessibleWorkflowIds.has(id),
+  };
+}
+
+/**
+ * Saves a bundle as a new private draft of the user.
+ */
+export async function importWorkflowBundle(
+  bundle: ImportableBundle,
+  userId: string,
+) {
+  const target = await loadImportTarget(bundle, userId);
+
+  const workflow = await workflowRepository.save(
+    {
+      name: bundle.workflow.name,
+      description: bundle.workflow.description ?? undefined,
+      icon: bundle.workflow.icon,
+      isPublished: false,
+      visibility: "private",
+      userId,
+    },
+    true,
+  );
+
+  const { nodes, edges, warnings } = remapWorkflowBundle(bundle, {
+    ...target,
+    workflowId: workflow.id,
+  });
+  await workflowRepository
+    .saveStructure({
+      workflowId: workflow.id,
+      nodes,
+      edges,
+    })
+    .catch(async (error) => {
+      await workflowRepository.delete(workflow.id);
+      throw error;
+    });
+
+  return { workflow, warnings };
+}
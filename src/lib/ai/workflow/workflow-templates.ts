@@ -0,0 +1,91 @@
+import { WorkflowTemplate } from "app-types/workflow";
+import { workflowRepository } from "lib/db/repository";
+import { WORKFLOW_EXAMPLES } from "./examples";
+import {
+  WORKFLOW_BUNDLE_VERSION,
+  WorkflowBundleSchema,
+  createWorkflowBundle,
+  getWorkflowRequirements,
+} from "./workflow-bundle";
+import { ImportableBundle, loadImportTarget } from "./workflow-import";
+
+type TemplateBundle = {
+  source: WorkflowTemplate["source"];
+  id: string;
+  userName?: string;
+  bundle: ImportableBundle;
+};
+
+function loadExampleBundle(id: string): ImportableBundle | null {
+  const example = WORKFLOW_EXAMPLES[id];
+  if (!example) return null;
+  return WorkflowBundleSchema.parse({
+    version: WORKFLOW_BUNDLE_VERSION,
+    ...example(),
+  });
+}
+
+/**
+ * Templates are copied from the latest published version, not the draft.
+ */
+async function loadWorkflowBundle(
+  id: string,
+): Promise<ImportableBundle | null> {
+  const workflow = await workflowRepository.selectStructureById(id, {
+    snapshot: "latest",
+  });
+  if (!workflow) return null;
+  return createWorkflowBundle(workflow);
+}
+
+/**
+ * Lists the built-in examples followed by the workflow templates the user can see,
+ * each with what it needs checked against this server.
+ */
+export async function selectWorkflowTemplates(
+  userId: string,
+): Promise<WorkflowTemplate[]> {
+  const templates: TemplateBundle[] = Object.keys(WORKFLOW_EXAMPLES).map(
+    (id) => ({ source: "example", id, bundle: loadExampleBundle(id)! }),
+  );
+  for (const workflow of await workflowRepository.selectTemplates(userId)) {
+    const bundle = await loadWorkflowBundle(workflow.id);
+    if (!bundle) continue;
+    templates.push({
+      source: "workflow",
+      id: workflow.id,
+      userName: workflow.userName,
+      bundle,
+    });
+  }
+
+  const target = await loadImportTarget(
+    { nodes: templates.flatMap((template) => template.bundle.nodes) },
+    userId,
+  );
+  return templates.map(({ source, id, userName, bundle }) => ({
+    id,
+    source,
+    name: bundle.workflow.name,
+    description: bundle.workflow.description ?? undefined,
+    icon: bundle.workflow.icon,
+    userName,
+    nodes: bundle.nodes,
+    edges: bundle.edges,
+    requirements: getWorkflowRequirements(bundle, target),
+  }));
+}
+
+/**
+ * Bundle of a template to copy, or null when the user cannot see it.
+ */
+export async function loadWorkflowTemplateBundle(
+  source: WorkflowTemplate["source"],
+  id: string,
+  userId: string,
+): Promise<ImportableBundle | null> {
+  if (source == "example") return loadExampleBundle(id);
+  const templates = await workflowRepository.selectTemplates(userId);
+  if (!templates.some((template) => template.id == id)) return null;
+  return loadWorkflowBundle(id);
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkAssertion,
+  getAssertionValue,
+  WorkflowTestAssertion,
+} from "./workflow-test";
+
+const assertion = (
+  value: Partial<WorkflowTestAssertion>,
+): WorkflowTestAssertion => ({
+  id: "a1",
+  path: [],
+  type: "equals",
+  ...value,
+});
+
+describe("workflow-test", () => {
+  it("should compare values deeply for equals", () => {
+    const check = assertion({ expected: { a: [1, { b: "x" }] } });
+    expect(checkAssertion(check, { a: [1, { b: "x" }] }).passed).toBe(true);
+    expect(checkAssertion(check, { a: [1, { b: "y" }] }).passed).toBe(false);
+    expect(checkAssertion(check, { a: [1, { b: "x" }], c: 1 }).passed).toBe(
+      false,
+    );
+  });
+
+  it("should check strings, arrays and objects for contains", () => {
+    expect(
+      checkAssertion(
+        assertion({ type: "contains", expected: "lo w" }),
+        "hello world",
+      ).passed,
+    ).toBe(true);
+    expect(
+      checkAssertion(assertion({ type: "contains", expected: { id: 2 } }), [
+        { id: 1 },
+        { id: 2 },
+      ]).passed,
+    ).toBe(true);
+    expect(
+      checkAssertion(assertion({ type: "contains", expected: { id: 1 } }), {
+        id: 1,
+        name: "a",
+      }).passed,
+    ).toBe(true);
+    expect(
+      checkAssertion(assertion({ type: "contains", expected: 3 }), [1, 2])
+        .passed,
+    ).toBe(false);
+  });
+
+  it("should validate values against a schema", () => {
+    const check = assertion({
+      type: "schema",
+      schema: {
+        type: "object",
+        properties: { title: { type: "string" } },
+        required: ["title"],
+      },
+    });
+    expect(checkAssertion(check, { title: "ok" }).passed).toBe(true);
+    const result = checkAssertion(check, { title: 1 });
+    expect(result.passed).toBe(false);
+    expect(result.message).toBeTruthy();
+  });
+
+  it("should read the run output or a node output at a path", () => {
+    const result = {
+      outputs: { llm: { answer: { title: "Hi" } } },
+      output: { result: "done" },
+    };
+    expect(getAssertionValue({ path: ["result"] }, result)).toBe("done");
+    expect(
+      getAssertionValue({ nodeId: "llm", path: ["answer", "title"] }, result),
+    ).toBe("Hi");
+    expect(
+      getAssertionValue({ nodeId: "missing", path: ["answer"] }, result),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+import { JSONSchema7 } from "json-schema";
+import { jsonSchemaToZod } from "lib/json-schema-to-zod";
+import { z } from "zod";
+
+/**
+ * An expectation on the result of a test case.
+ * Without a node id it checks the run output, the value of its Output nodes.
+ *
+ * - equals: the value is deeply equal to `expected`
+ * - contains: a string contains, an array has an item equal to, or an object has the fields of `expected`
+ * - schema: the value is valid against `schema`
+ * - llm: a model judges whether the value meets `criteria`
+ */
+export const WorkflowTestAssertionSchema = z.object({
+  id: z.string(),
+  nodeId: z.string().optional(),
+  path: z.array(z.string()).default([]),
+  type: z.enum(["equals", "contains", "schema", "llm"]),
+  expected: z.any().optional(),
+  schema: z.record(z.string(), z.any()).optional(),
+  criteria: z.string().optional(),
+  model: z.object({ provider: z.string(), model: z.string() }).optional(),
+});
+
+export type WorkflowTestAssertion = z.infer<typeof WorkflowTestAssertionSchema>;
+
+export type WorkflowTestAssertionResult = {
+  assertionId: string;
+  passed: boolean;
+  actual?: any;
+  message?: string;
+};
+
+export type WorkflowTestCaseResult = {
+  testCaseId: string;
+  name: string;
+  passed: boolean;
+  duration: number;
+  error?: string; // the run itself failed, so no assertion was checked
+  assertions: WorkflowTestAssertionResult[];
+};
+
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a != "object" || typeof b != "object" || !a || !b) return false;
+  if (Array.isArray(a) != Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  if (aKeys.length != bKeys.length) return false;
+  return aKeys.every((key) =>
+    isDeepEqual(
+      (a as Record<string, unknown>)[key],
+      (b as Record<string, unknown>)[key],
+    ),
+  );
+}
+
+function containsValue(actual: unknown, expected: unknown): boolean {
+  if (typeof actual == "string") return actual.includes(String(expected));
+  if (Array.isArray(actual)) {
+    return actual.some((item) => isDeepEqual(item, expected));
+  }
+  if (actual && typeof actual == "object") {
+    if (!expected || typeof expected != "object") return false;
+    return Object.entries(expected).every(([key, value]) =>
+      isDeepEqual((actual as Record<string, unknown>)[key], value),
+    );
+  }
+  return false;
+}
+
+/**
+ * Checks the assertions that need no model.
+ * LLM-judged assertions are checked by the test runner.
+ */
+export function checkAssertion(
+  assertion: WorkflowTestAssertion,
+  actual: unknown,
+): Omit<WorkflowTestAssertionResult, "assertionId" | "actual"> {
+  switch (assertion.type) {
+    case "equals":
+      return isDeepEqual(actual, assertion.expected)
+        ? { passed: true }
+        : {
+            passed: false,
+            message: `Expected ${JSON.stringify(assertion.expected)}`,
+          };
+    case "contains":
+      return containsValue(actual, assertion.expected)
+        ? { passed: true }
+        : {
+            passed: false,
+            message: `Expected to contain ${JSON.stringify(assertion.expected)}`,
+          };
+    case "schema": {
+      const result = jsonSchemaToZod(
+        (assertion.schema ?? {}) as JSONSchema7,
+      ).safeParse(actual);
+      return result.success
+        ? { passed: true }
+        : { passed: false, message: result.error.message };
+    }
+    case "llm":
+      throw new Error("LLM-judged assertions are checked by the test runner");
+  }
+}
+
+/**
+ * Reads the value an assertion checks from the outputs of a finished run.
+ */
+export function getAssertionValue(
+  assertion: Pick<WorkflowTestAssertion, "nodeId" | "path">,
+  result: { outputs: Record<string, any>; output: any },
+) {
+  const value = assertion.nodeId
+    ? result.outputs[assertion.nodeId]
+    : result.output;
+  return assertion.path.reduce((acc, key) => acc?.[key], value);
+}
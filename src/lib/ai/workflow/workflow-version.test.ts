@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { DBEdge, DBNode } from "app-types/workflow";
+import {
+  diffWorkflowVersions,
+  isEmptyVersionDiff,
+  toUIStructure,
+} from "./workflow-version";
+import { NodeKind } from "./workflow.interface";
+
+describe("diffWorkflowVersions", () => {
+  const createNode = (
+    id: string,
+    name: string,
+    nodeConfig: Record<string, any> = {},
+    position = { x: 0, y: 0 },
+  ): DBNode => ({
+    id,
+    workflowId: "wf",
+    kind: NodeKind.Template,
+    name,
+    nodeConfig: { kind: NodeKind.Template, ...nodeConfig },
+    uiConfig: { position, type: "default" },
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  });
+
+  const createEdge = (id: string, source: string, target: string): DBEdge => ({
+    id,
+    workflowId: "wf",
+    source,
+    target,
+    uiConfig: {},
+    createdAt: new Date(0),
+  });
+
+  const v1 = toUIStructure({
+    nodes: [createNode("a", "A"), createNode("b", "B", { value: 1 })],
+    edges: [createEdge("e1", "a", "b")],
+  });
+
+  it("should report nothing for the same structure", () => {
+    expect(isEmptyVersionDiff(diffWorkflowVersions(v1, v1))).toBe(true);
+  });
+
+  it("should split added, removed and changed nodes", () => {
+    const v2 = toUIStructure({
+      nodes: [createNode("b", "B", { value: 2 }), createNode("c", "C")],
+      edges: [createEdge("e2", "b", "c")],
+    });
+
+    const diff = diffWorkflowVersions(v1, v2);
+
+    expect(diff.addedNodes.map((node) => node.data.name)).toEqual(["C"]);
+    expect(diff.removedNodes.map((node) => node.data.name)).toEqual(["A"]);
+    expect(diff.changedNodes.map((node) => node.data.name)).toEqual(["B"]);
+    expect(diff.addedEdges.map((edge) => edge.id)).toEqual(["e2"]);
+    expect(diff.removedEdges.map((edge) => edge.id)).toEqual(["e1"]);
+  });
+
+  it("should ignore nodes that were only moved", () => {
+    const v2 = toUIStructure({
+      nodes: [
+        createNode("a", "A", {}, { x: 100, y: 50 }),
+        createNode("b", "B", { value: 1 }),
+      ],
+      edges: [createEdge("e1", "a", "b")],
+    });
+
+    expect(isEmptyVersionDiff(diffWorkflowVersions(v1, v2))).toBe(true);
+  });
+
+  it("should return the changed node as it is in the newer version", () => {
+    const v2 = toUIStructure({
+      nodes: [createNode("a", "Renamed", {}, { x: 10, y: 10 })],
+      edges: [],
+    });
+
+    const [changed] = diffWorkflowVersions(v1, v2).changedNodes;
+
+    expect(changed.data.name).toBe("Renamed");
+    expect(changed.position).toEqual({ x: 10, y: 10 });
+  });
+});
@@ -0,0 +1,62 @@
+import { Edge } from "@xyflow/react";
+import { DBEdge, DBNode } from "app-types/workflow";
+import { UINode } from "./workflow.interface";
+import { extractWorkflowDiff } from "./extract-workflow-diff";
+import {
+  convertDBEdgeToUIEdge,
+  convertDBNodeToUINode,
+} from "./shared.workflow";
+
+type Structure = { nodes: UINode[]; edges: Edge[] };
+
+export type WorkflowVersionDiff = {
+  addedNodes: UINode[];
+  removedNodes: UINode[];
+  changedNodes: UINode[];
+  addedEdges: Edge[];
+  removedEdges: Edge[];
+};
+
+export function toUIStructure(version: {
+  nodes: DBNode[];
+  edges: DBEdge[];
+}): Structure {
+  return {
+    nodes: version.nodes.map(convertDBNodeToUINode),
+    edges: version.edges.map(convertDBEdgeToUIEdge),
+  };
+}
+
+/**
+ * Lists what changed from one version of a workflow to another.
+ * Nodes that were only moved are not listed, since that does not change what runs.
+ */
+export function diffWorkflowVersions(
+  from: Structure,
+  to: Structure,
+): WorkflowVersionDiff {
+  const withoutLayout = ({ nodes, edges }: Structure): Structure => ({
+    nodes: nodes.map((node) => ({ ...node, position: { x: 0, y: 0 } })),
+    edges,
+  });
+  const diff = extractWorkflowDiff(withoutLayout(from), withoutLayout(to));
+  const fromNodeIds = new Set(from.nodes.map((node) => node.id));
+  const toNodes = new Map(to.nodes.map((node) => [node.id, node]));
+  const fromEdgeIds = new Set(from.edges.map((edge) => edge.id));
+
+  return {
+    addedNodes: diff.updateNodes
+      .filter((node) => !fromNodeIds.has(node.id))
+      .map((node) => toNodes.get(node.id)!),
+    removedNodes: diff.deleteNodes,
+    changedNodes: diff.updateNodes
+      .filter((node) => fromNodeIds.has(node.id))
+      .map((node) => toNodes.get(node.id)!),
+    addedEdges: diff.updateEdges.filter((edge) => !fromEdgeIds.has(edge.id)),
+    removedEdges: diff.deleteEdges,
+  };
+}
+
+export function isEmptyVersionDiff(diff: WorkflowVersionDiff): boolean {
+  return Object.values(diff).every((items) => items.length === 0);
+}
@@ -1,8 +1,10 @@
 import { Node } from "@xyflow/react";
-import { ChatModel } from "app-types/chat";
+import { ChatMention, ChatModel } from "app-types/chat";
 import { ObjectJsonSchema7, TipTapMentionJsonContent } from "app-types/util";
 import { ConditionBranches } from "./condition";
 import { JSONSchema7 } from "json-schema";
+import { TemplateEngine } from "./template-engine";
+import { LanguageModelUsage } from "ai";
 
 /**
  * Enum defining all available node types in the workflow system.
@@ -21,7 +23,11 @@ export enum NodeKind {
   Tool = "tool", // MCP tool execution node
   Http = "http", // HTTP request node
   Template = "template", // Template processing node
-  Code = "code", // Code execution node (future implementation)
+  Code = "code", // Runs JavaScript or Python code
+  Loop = "loop", // Iterates a body sub-chain once per array item
+  SubWorkflow = "sub-workflow", // Runs another published workflow
+  Approval = "approval", // Pauses the run until a person approves or rejects
+  Merge = "merge", // Joins parallel branches into one output
   Output = "output", // Exit point of workflow - produces final result
 }
 
@@ -43,8 +49,56 @@ export type BaseWorkflowNodeDataData<
    * This enables data flow between connected nodes.
    */
   outputSchema: ObjectJsonSchema7;
+  /**
+   * How failures of this node are handled.
+   * Without a policy the first error fails the whole run.
+   */
+  errorPolicy?: NodeErrorPolicy;
+  /**
+   * Output pinned for dry runs.
+   * A dry run uses it instead of executing the node.
+   */
+  mockOutput?: Record<string, any>;
 } & T;
 
+/**
+ * Retry, timeout and fallback settings of a node.
+ */
+export type NodeErrorPolicy = {
+  retry?: number; // Extra attempts after a failure (default: 0)
+  backoff?: number; // Delay before the first retry in milliseconds, doubled for each next retry
+  timeout?: number; // Time limit of a single attempt in milliseconds
+  onError?: "fail" | "branch"; // "branch" continues on the error handle with the error as output
+};
+
+/**
+ * A tool called by an LLM node, recorded when the node runs.
+ */
+export type NodeToolCall = {
+  step: number; // Model call of the tool loop that made the call, starting at 1
+  toolName: string;
+  input: unknown;
+  output?: unknown;
+  error?: string;
+};
+
+/**
+ * Tokens used by the model calls of a node, recorded when the node runs.
+ * Nodes that run other workflows record one entry per model call inside them.
+ */
+export type NodeUsage = LanguageModelUsage & {
+  model?: ChatModel; // Unset when the default model was used
+};
+
+/**
+ * One execution attempt of a node, recorded when the node runs.
+ */
+export type NodeAttempt = {
+  startedAt: number;
+  endedAt: number;
+  error?: { name: string; message: string };
+};
+
 /**
  * Reference to a field from another node's output.
  * Used to create data dependencies between nodes.
@@ -123,6 +177,7 @@ export type ToolNodeData = BaseWorkflowNodeDataData<{
 /**
  * LLM node: Interacts with Large Language Models
  * Supports multiple messages and can reference outputs from previous nodes
+ * With tools attached, the model calls them in a loop until it answers or reaches maxSteps.
  */
 export type LLMNodeData = BaseWorkflowNodeDataData<{
   kind: NodeKind.LLM;
@@ -132,6 +187,8 @@ export type LLMNodeData = BaseWorkflowNodeDataData<{
     role: "user" | "assistant" | "system";
     content?: TipTapMentionJsonContent; // Can reference other node outputs via mentions
   }[];
+  tools?: ChatMention[]; // MCP tools, app default tools and workflows the model can call
+  maxSteps?: number; // Limit of model calls in the tool loop (default: 5)
 };
 
 /**
@@ -172,20 +229,101 @@ export type HttpNodeData = BaseWorkflowNodeDataData<{
     value?: HttpValue; // Query parameter value (can reference other node outputs)
   }[]; // Query parameters
   body?: HttpValue; // Request body (can reference other node outputs)
+  auth?: string; // Name of an auth profile of the user running the workflow
   timeout?: number; // Request timeout in milliseconds (default: 30000)
 };
 
 /**
  * Template node: Processes text templates with variable substitution
  * Supports different template engines for flexible content generation
+ * Handlebars and JSON sources read upstream outputs by node name (see template-engine.ts)
  */
 export type TemplateNodeData = BaseWorkflowNodeDataData<{
   kind: NodeKind.Template;
 }> & {
-  template: {
-    type: "tiptap";
-    tiptap: TipTapMentionJsonContent;
+  template:
+    | {
+        type: "tiptap";
+        tiptap: TipTapMentionJsonContent;
+      }
+    | {
+        type: TemplateEngine;
+        source: string;
+      };
+};
+
+/**
+ * Code node: Runs user code through the sandboxed code runner
+ * Each input is exposed to the code as a variable named after its key.
+ * The returned value becomes the node output and must match the outputSchema.
+ */
+export type CodeNodeData = BaseWorkflowNodeDataData<{
+  kind: NodeKind.Code;
+}> & {
+  language: "javascript" | "python";
+  code: string;
+  inputs: {
+    key: string; // Variable name available to the code
+    source?: OutputSchemaSourceKey; // Reference to source node's output
+  }[];
+};
+
+/**
+ * Loop node: Runs its body once per item of an array
+ * The body is the chain connected to the "loop" source handle.
+ * Body nodes read the current element through this node's `item` and `index` outputs.
+ */
+export type LoopNodeData = BaseWorkflowNodeDataData<{
+  kind: NodeKind.Loop;
+}> & {
+  items?: OutputSchemaSourceKey; // Array to iterate over
+  result?: OutputSchemaSourceKey; // Body node output collected for each item
+  concurrency?: number; // Number of items processed at the same time (default: 1)
+};
+
+/**
+ * SubWorkflow node: Runs another published workflow as a single step
+ * Inputs are mapped onto the target's Input schema fields.
+ * The target's Output node results become this node's output.
+ */
+export type SubWorkflowNodeData = BaseWorkflowNodeDataData<{
+  kind: NodeKind.SubWorkflow;
+}> & {
+  workflow?: {
+    id: string;
+    name: string;
   };
+  inputSchema?: ObjectJsonSchema7; // Target Input schema when it was selected
+  inputs: {
+    key: string; // Field of the target Input schema
+    source?: OutputSchemaSourceKey; // Reference to source node's output
+  }[];
+};
+
+/**
+ * Approval node: Pauses the workflow until a person approves or rejects it
+ * The run is saved while waiting and resumes on the approve or reject branch.
+ */
+export type ApprovalNodeData = BaseWorkflowNodeDataData<{
+  kind: NodeKind.Approval;
+}> & {
+  message?: TipTapMentionJsonContent; // Shown to the approver, can reference other node outputs
+};
+
+/**
+ * Merge node: Joins parallel branches back into one path
+ * Runs once every incoming branch arrived, or as soon as the first `count` did.
+ * Each input is stored under its key, branches that did not finish yet are left out.
+ */
+export type MergeNodeData = BaseWorkflowNodeDataData<{
+  kind: NodeKind.Merge;
+}> & {
+  mode: "all" | "first";
+  count?: number; // Branches to wait for when mode is "first" (default: 1)
+  inputs: {
+    key: string; // Key name in the merged output
+    source?: OutputSchemaSourceKey; // Reference to source node's output
+  }[];
 };
 
 /**
@@ -200,14 +338,19 @@ export type WorkflowNodeData =
   | ToolNodeData
   | ConditionNodeData
   | HttpNodeData
-  | TemplateNodeData;
+  | TemplateNodeData
+  | CodeNodeData
+  | LoopNodeData
+  | SubWorkflowNodeData
+  | ApprovalNodeData
+  | MergeNodeData;
 
 /**
  * Runtime fields added during workflow execution
  */
 export type NodeRuntimeField = {
   isNew?: boolean; // Flag for newly created nodes
-  status?: "fail" | "running" | "success"; // Execution status
+  status?: "fail" | "running" | "success" | "waiting" | "cancelled"; // Execution status
 };
 
 /**
@@ -229,7 +372,10 @@ export type NodeRuntimeHistory = {
   endedAt?: number;
   kind: NodeKind;
   error?: string;
-  status: "fail" | "running" | "success";
+  status: "fail" | "running" | "success" | "waiting" | "cancelled";
+  attempts?: NodeAttempt[]; // Every attempt when the node was retried
+  toolCalls?: NodeToolCall[]; // Tools called by an LLM node
+  usage?: NodeUsage[]; // Tokens used by the model calls of the node
   result?: {
     input?: any; // Input data passed to the node
     output?: any; // Output data produced by the node
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { getAuthConfig } from "./config";
+import { canChangeTemplate, getAuthConfig, isAdminEmail } from "./config";
 
 // Mock experimental_taintUniqueValue since it's not available in test environment
 vi.mock("react", async () => {
@@ -265,4 +265,43 @@ describe("Auth Config", () => {
       expect(config.signUpEnabled).toBe(true);
     });
   });
+
+  describe("isAdminEmail", () => {
+    it("should match emails listed in ADMIN_EMAILS", () => {
+      vi.stubEnv("ADMIN_EMAILS", "admin@example.com, Owner@Example.com");
+
+      expect(isAdminEmail("admin@example.com")).toBe(true);
+      expect(isAdminEmail("owner@example.com")).toBe(true);
+      expect(isAdminEmail("user@example.com")).toBe(false);
+      expect(isAdminEmail(undefined)).toBe(false);
+    });
+
+    it("should have no admins without ADMIN_EMAILS", () => {
+      vi.stubEnv("ADMIN_EMAILS", "");
+
+      expect(isAdminEmail("admin@example.com")).toBe(false);
+    });
+  });
+
+  describe("canChangeTemplate", () => {
+    beforeEach(() => {
+      vi.stubEnv("ADMIN_EMAILS", "admin@example.com");
+    });
+
+    it("should forbid non-admins to list or unlist a workflow as a template", () => {
+      expect(canChangeTemplate("user@example.com", true, false)).toBe(false);
+      expect(canChangeTemplate("user@example.com", false, true)).toBe(false);
+      expect(canChangeTemplate(undefined, true, false)).toBe(false);
+    });
+
+    it("should let non-admins save other fields", () => {
+      expect(canChangeTemplate("user@example.com", undefined, true)).toBe(true);
+      expect(canChangeTemplate("user@example.com", false, false)).toBe(true);
+    });
+
+    it("should let admins list a workflow as a template", () => {
+      expect(canChangeTemplate("admin@example.com", true, false)).toBe(true);
+      expect(canChangeTemplate("admin@example.com", false, true)).toBe(true);
+    });
+  });
 });
@@ -101,3 +101,28 @@ export function getAuthConfig(): AuthConfig {
 
   return result.data;
 }
+
+/**
+ * Admins are listed by email in ADMIN_EMAILS, separated by commas.
+ * Users have no role of their own, so this is the only admin check.
+ */
+export function isAdminEmail(email?: string | null): boolean {
+  if (!email) return false;
+  return (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .some((admin) => admin.trim().toLowerCase() == email.toLowerCase());
+}
+
+/**
+ * Only admins list workflows in the template gallery or take them out of it.
+ * Leaving `isTemplate` unset or unchanged is allowed for everyone.
+ */
+export function canChangeTemplate(
+  email: string | null | undefined,
+  isTemplate: boolean | undefined,
+  current: boolean,
+): boolean {
+  return (
+    isTemplate === undefined || isTemplate === current || isAdminEmail(email)
+  );
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  copyMessageTree,
+  getLatestLeaf,
+  getMessageBranches,
+  getMessagePath,
+} from "./chat-branch";
+
+// user1 -> answer1 -> user2 -> answer2
+//                  \-> user2-edit -> answer2-edit
+//       \-> answer1-retry
+const message = (id: string, parentId: string | null, time: number) => ({
+  id,
+  parentId,
+  createdAt: new Date(time),
+});
+const messages = [
+  message("user1", null, 1),
+  message("answer1", "user1", 2),
+  message("user2", "answer1", 3),
+  message("answer2", "user2", 4),
+  message("user2-edit", "answer1", 5),
+  message("answer2-edit", "user2-edit", 6),
+  message("answer1-retry", "user1", 7),
+];
+const ids = (list: { id: string }[]) => list.map((m) => m.id);
+
+describe("getMessagePath", () => {
+  it("should follow parents up from the leaf", () => {
+    expect(ids(getMessagePath(messages, "answer2"))).toEqual([
+      "user1",
+      "answer1",
+      "user2",
+      "answer2",
+    ]);
+  });
+
+  it("should end at the latest message without a known leaf", () => {
+    expect(ids(getMessagePath(messages))).toEqual(["user1", "answer1-retry"]);
+    expect(ids(getMessagePath(messages, "deleted"))).toEqual([
+      "user1",
+      "answer1-retry",
+    ]);
+  });
+});
+
+describe("getLatestLeaf", () => {
+  it("should continue a branch at its latest reply", () => {
+    expect(getLatestLeaf(messages, "answer1")?.id).toBe("answer2-edit");
+    expect(getLatestLeaf(messages, "user2")?.id).toBe("answer2");
+    expect(getLatestLeaf(messages, "answer1-retry")?.id).toBe("answer1-retry");
+  });
+});
+
+describe("getMessageBranches", () => {
+  it("should list siblings of the messages on the path", () => {
+    const path = getMessagePath(messages, "answer2");
+
+    expect(getMessageBranches(messages, path)).toEqual({
+      answer1: ["answer1", "answer1-retry"],
+      user2: ["user2", "user2-edit"],
+    });
+  });
+});
+
+describe("copyMessageTree", () => {
+  it("should give new ids and keep replies on their parents", () => {
+    let next = 0;
+    const path = getMessagePath(messages, "answer2");
+    const copy = copyMessageTree(path.slice(1), () => `copy${++next}`);
+
+    expect(copy.messages.map(({ id, parentId }) => ({ id, parentId }))).toEqual(
+      [
+        { id: "copy1", parentId: null },
+        { id: "copy2", parentId: "copy1" },
+        { id: "copy3", parentId: "copy2" },
+      ],
+    );
+    expect(copy.ids.get("answer2")).toBe("copy3");
+  });
+});
@@ -0,0 +1,93 @@
+import { ChatMessage, MessageBranches } from "app-types/chat";
+
+type TreeMessage = Pick<ChatMessage, "id" | "parentId" | "createdAt">;
+
+const createdTime = (message: TreeMessage) =>
+  new Date(message.createdAt).getTime();
+
+const latest = <T extends TreeMessage>(messages: T[]): T | undefined =>
+  messages.reduce<T | undefined>(
+    (prev, message) =>
+      !prev || createdTime(message) >= createdTime(prev) ? message : prev,
+    undefined,
+  );
+
+/**
+ * Messages from the first message down to `leafId`.
+ * Without a known leaf the path ends at the latest message.
+ */
+export function getMessagePath<T extends TreeMessage>(
+  messages: T[],
+  leafId?: string | null,
+): T[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const path: T[] = [];
+  let current = (leafId && byId.get(leafId)) || latest(messages);
+  while (current && !path.includes(current)) {
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+/**
+ * Last message reached from a message by always following its latest reply.
+ */
+export function getLatestLeaf<T extends TreeMessage>(
+  messages: T[],
+  messageId: string,
+): T | undefined {
+  let current = messages.find((message) => message.id == messageId);
+  const visited = new Set<string>();
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    const parentId = current.id;
+    const reply = latest(
+      messages.filter((message) => message.parentId == parentId),
+    );
+    if (!reply) break;
+    current = reply;
+  }
+  return current;
+}
+
+/**
+ * Alternatives of the messages on a path.
+ * Messages with the same parent are siblings, first messages of a thread included.
+ */
+export function getMessageBranches(
+  messages: TreeMessage[],
+  path: TreeMessage[],
+): MessageBranches {
+  const branches: MessageBranches = {};
+  for (const message of path) {
+    const siblings = messages
+      .filter(
+        (sibling) => (sibling.parentId ?? null) == (message.parentId ?? null),
+      )
+      .sort((a, b) => createdTime(a) - createdTime(b));
+    if (siblings.length > 1) {
+      branches[message.id] = siblings.map((sibling) => sibling.id);
+    }
+  }
+  return branches;
+}
+
+/**
+ * Copies messages under new ids, replies stay attached to their copied parents.
+ * Parents that are not copied are dropped, so the copy starts a new tree.
+ */
+export function copyMessageTree<T extends Pick<TreeMessage, "id" | "parentId">>(
+  messages: T[],
+  createId: () => string,
+): { messages: T[]; ids: Map<string, string> } {
+  const ids = new Map(messages.map((message) => [message.id, createId()]));
+  return {
+    ids,
+    messages: messages.map((message) => ({
+      ...message,
+      id: ids.get(message.id)!,
+      parentId: message.parentId ? (ids.get(message.parentId) ?? null) : null,
+    })),
+  };
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { renderThreadHtml } from "./chat-export-html";
+
+const tool = (type: string, input: unknown) =>
+  ({
+    type,
+    toolCallId: "call",
+    state: "output-available",
+    input,
+    output: "Success",
+  }) as any;
+
+describe("renderThreadHtml", () => {
+  it("should escape message text", () => {
+    const html = renderThreadHtml("<b>Title</b>", [
+      {
+        role: "user",
+        parts: [{ type: "text", text: "<script>alert(1)</script>" }],
+      },
+    ]);
+
+    expect(html).toContain("<title>&lt;b&gt;Title&lt;/b&gt;</title>");
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+    expect(html).not.toContain("<script>");
+  });
+
+  it("should draw charts and tables of the visualization tools", () => {
+    const html = renderThreadHtml("Charts", [
+      {
+        role: "assistant",
+        parts: [
+          tool("tool-createPieChart", {
+            title: "Share",
+            data: [
+              { label: "A", value: 1 },
+              { label: "B", value: 3 },
+            ],
+            unit: "kg",
+          }),
+          tool("tool-createBarChart", {
+            title: "Sales",
+            data: [
+              {
+                xAxisLabel: "Jan",
+                series: [
+                  { seriesName: "2024", value: 2 },
+                  { seriesName: "2025", value: 4 },
+                ],
+              },
+            ],
+          }),
+          tool("tool-createLineChart", {
+            title: "Trend",
+            data: [
+              {
+                xAxisLabel: "Mon",
+                series: [{ seriesName: "Visits", value: 1 }],
+              },
+              {
+                xAxisLabel: "Tue",
+                series: [{ seriesName: "Visits", value: 5 }],
+              },
+            ],
+          }),
+          tool("tool-createTable", {
+            title: "People",
+            columns: [{ key: "name", label: "Name" }],
+            data: [{ name: "<Ada>" }],
+          }),
+        ],
+      },
+    ]);
+
+    expect(html.match(/<path /g)).toHaveLength(2);
+    expect(html).toContain("B: 3 kg (75%)");
+    expect(html.match(/<rect /g)).toHaveLength(2);
+    expect(html).toContain("<polyline ");
+    expect(html).toContain("<th>Name</th>");
+    expect(html).toContain("<td>&lt;Ada&gt;</td>");
+  });
+
+  it("should list other tool calls with their input and output", () => {
+    const html = renderThreadHtml("Tools", [
+      {
+        role: "assistant",
+        parts: [tool("tool-webSearch", { query: "weather" })],
+      },
+    ]);
+
+    expect(html).toContain("<summary>webSearch</summary>");
+    expect(html).toContain("&quot;query&quot;: &quot;weather&quot;");
+  });
+
+  it("should not link to script urls", () => {
+    const html = renderThreadHtml("Files", [
+      {
+        role: "user",
+        parts: [
+          {
+            type: "file",
+            mediaType: "text/plain",
+            filename: "notes.txt",
+            url: "javascript:alert(1)",
+          },
+        ],
+      },
+    ]);
+
+    expect(html).toContain('<a href="#">notes.txt</a>');
+  });
+});
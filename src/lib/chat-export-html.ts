@@ -0,0 +1,316 @@
+import { getToolName, isToolUIPart, UIMessage } from "ai";
+import { ChatMessage } from "app-types/chat";
+import { DefaultToolName } from "lib/ai/tools";
+
+type HtmlMessage = Pick<ChatMessage, "role" | "parts" | "metadata">;
+
+type ChartSeries = {
+  xAxisLabel: string;
+  series: { seriesName: string; value: number }[];
+}[];
+
+const COLORS = [
+  "#2563eb",
+  "#f97316",
+  "#16a34a",
+  "#dc2626",
+  "#9333ea",
+  "#0891b2",
+  "#ca8a04",
+  "#db2777",
+];
+
+const STYLE = `
+body { margin: 0; font: 15px/1.6 system-ui, sans-serif; color: #18181b; background: #fafafa; }
+main { max-width: 820px; margin: 0 auto; padding: 32px 16px; }
+h1 { font-size: 24px; margin: 0 0 24px; }
+.message { margin-bottom: 24px; }
+.message > h2 { font-size: 13px; margin: 0 0 8px; color: #71717a; text-transform: capitalize; }
+.message.user .content { background: #f4f4f5; border-radius: 12px; padding: 8px 12px; }
+.text { white-space: pre-wrap; word-break: break-word; margin: 0 0 8px; }
+.reasoning { color: #71717a; border-left: 2px solid #e4e4e7; padding-left: 12px; }
+details { border: 1px solid #e4e4e7; border-radius: 8px; padding: 8px 12px; margin: 0 0 8px; background: #fff; }
+summary { cursor: pointer; font-size: 13px; }
+pre { overflow-x: auto; font-size: 12px; background: #f4f4f5; padding: 8px; border-radius: 6px; }
+figure { margin: 0 0 8px; border: 1px solid #e4e4e7; border-radius: 8px; padding: 12px; background: #fff; overflow-x: auto; }
+figcaption p { margin: 0; color: #71717a; font-size: 13px; }
+svg { display: block; max-width: 100%; height: auto; }
+svg text { font-size: 11px; fill: #71717a; }
+.legend { display: flex; flex-wrap: wrap; gap: 4px 16px; list-style: none; padding: 0; margin: 8px 0 0; font-size: 13px; }
+.swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 6px; }
+table { border-collapse: collapse; width: 100%; font-size: 13px; margin-top: 8px; }
+th, td { border-bottom: 1px solid #e4e4e7; padding: 6px 8px; text-align: left; }
+img { max-width: 100%; border-radius: 8px; }
+`;
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Links of the standalone file must not run script
+const safeUrl = (url: string) =>
+  /^(https?:|data:image\/)/i.test(url) ? escapeHtml(url) : "#";
+
+const color = (index: number) => COLORS[index % COLORS.length];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const formatNumber = (value: number) =>
+  value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+
+const toNumber = (value: unknown) => {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : 0;
+};
+
+function figure(
+  input: { title?: string; description?: string | null },
+  body: string,
+) {
+  const description = input.description
+    ? `<p>${escapeHtml(input.description)}</p>`
+    : "";
+  return `<figure><figcaption><strong>${escapeHtml(input.title)}</strong>${description}</figcaption>${body}</figure>`;
+}
+
+function legend(items: { label: string; color: string }[]) {
+  return `<ul class="legend">${items
+    .map(
+      (item) =>
+        `<li><span class="swatch" style="background:${item.color}"></span>${escapeHtml(item.label)}</li>`,
+    )
+    .join("")}</ul>`;
+}
+
+function renderPieChart(input: any): string {
+  const data: { label: string; value: number }[] = (input?.data ?? []).map(
+    (item: any) => ({
+      label: String(item?.label ?? ""),
+      value: Math.max(toNumber(item?.value), 0),
+    }),
+  );
+  const total = data.reduce((sum, item) => sum + item.value, 0);
+  const unit = input?.unit ? ` ${input.unit}` : "";
+  const point = (angle: number) =>
+    `${round(100 + 90 * Math.cos(angle))} ${round(100 + 90 * Math.sin(angle))}`;
+
+  let angle = -Math.PI / 2;
+  const slices = data.map((item, index) => {
+    const sweep = total ? (item.value / total) * Math.PI * 2 : 0;
+    const start = angle;
+    angle += sweep;
+    if (!sweep) return "";
+    if (sweep >= Math.PI * 2 - 1e-6) {
+      return `<circle cx="100" cy="100" r="90" fill="${color(index)}"/>`;
+    }
+    const largeArc = sweep > Math.PI ? 1 : 0;
+    return `<path d="M100 100 L${point(start)} A90 90 0 ${largeArc} 1 ${point(angle)} Z" fill="${color(index)}"/>`;
+  });
+
+  return figure(
+    input,
+    `<svg viewBox="0 0 200 200" width="200" height="200" role="img">${slices.join("")}</svg>${legend(
+      data.map((item, index) => ({
+        label: `${item.label}: ${formatNumber(item.value)}${unit} (${formatNumber(
+          total ? (item.value / total) * 100 : 0,
+        )}%)`,
+        color: color(index),
+      })),
+    )}`,
+  );
+}
+
+/**
+ * Bar and line charts share the axes, only the marks differ.
+ */
+function renderSeriesChart(input: any, kind: "bar" | "line"): string {
+  const data: ChartSeries = input?.data ?? [];
+  const names = [
+    ...new Set(
+      data.flatMap((group) =>
+        (group?.series ?? []).map((item) => String(item?.seriesName)),
+      ),
+    ),
+  ];
+  const valueOf = (index: number, name: string) =>
+    toNumber(
+      data[index]?.series?.find((item) => String(item?.seriesName) == name)
+        ?.value,
+    );
+  const values = data.flatMap((_, index) =>
+    names.map((name) => valueOf(index, name)),
+  );
+  const max = Math.max(0, ...values);
+  const min = Math.min(0, ...values);
+  const range = max - min || 1;
+
+  const width = 640;
+  const height = 300;
+  const left = 56;
+  const right = 12;
+  const top = 12;
+  const bottom = 40;
+  const plotWidth = width - left - right;
+  const plotHeight = height - top - bottom;
+  const groupWidth = plotWidth / Math.max(data.length, 1);
+  const y = (value: number) =>
+    round(top + ((max - value) / range) * plotHeight);
+
+  const grid = Array.from({ length: 5 }, (_, index) => {
+    const value = min + (range * index) / 4;
+    return `<line x1="${left}" x2="${width - right}" y1="${y(value)}" y2="${y(value)}" stroke="#e4e4e7"/><text x="${left - 6}" y="${y(value) + 4}" text-anchor="end">${formatNumber(value)}</text>`;
+  });
+  const labels = data.map(
+    (group, index) =>
+      `<text x="${round(left + groupWidth * (index + 0.5))}" y="${height - bottom + 16}" text-anchor="middle">${escapeHtml(group?.xAxisLabel)}</text>`,
+  );
+
+  const marks =
+    kind == "bar"
+      ? data.flatMap((_, index) => {
+          const barWidth = (groupWidth * 0.8) / Math.max(names.length, 1);
+          return names.map((name, seriesIndex) => {
+            const value = valueOf(index, name);
+            const x = round(
+              left +
+                groupWidth * index +
+                groupWidth * 0.1 +
+                barWidth * seriesIndex,
+            );
+            return `<rect x="${x}" y="${Math.min(y(value), y(0))}" width="${round(barWidth)}" height="${round(Math.abs(y(value) - y(0)))}" fill="${color(seriesIndex)}"/>`;
+          });
+        })
+      : names.map((name, seriesIndex) => {
+          const points = data.map(
+            (_, index) =>
+              `${round(left + groupWidth * (index + 0.5))},${y(valueOf(index, name))}`,
+          );
+          return `<polyline points="${points.join(" ")}" fill="none" stroke="${color(seriesIndex)}" stroke-width="2"/>${points
+            .map((point) => {
+              const [cx, cy] = point.split(",");
+              return `<circle cx="${cx}" cy="${cy}" r="3" fill="${color(seriesIndex)}"/>`;
+            })
+            .join("")}`;
+        });
+
+  const axisLabel = input?.yAxisLabel
+    ? `<text x="12" y="${top + plotHeight / 2}" transform="rotate(-90 12 ${top + plotHeight / 2})" text-anchor="middle">${escapeHtml(input.yAxisLabel)}</text>`
+    : "";
+
+  return figure(
+    input,
+    `<svg viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" role="img">${grid.join("")}${marks.join("")}${labels.join("")}${axisLabel}</svg>${legend(
+      names.map((name, index) => ({ label: name, color: color(index) })),
+    )}`,
+  );
+}
+
+function renderTable(input: any): string {
+  const columns: { key: string; label: string }[] = input?.columns ?? [];
+  const rows: Record<string, unknown>[] = input?.data ?? [];
+  const cell = (value: unknown) =>
+    escapeHtml(
+      value != null && typeof value == "object" ? JSON.stringify(value) : value,
+    );
+  return figure(
+    input,
+    `<table><thead><tr>${columns
+      .map((column) => `<th>${escapeHtml(column.label)}</th>`)
+      .join("")}</tr></thead><tbody>${rows
+      .map(
+        (row) =>
+          `<tr>${columns.map((column) => `<td>${cell(row?.[column.key])}</td>`).join("")}</tr>`,
+      )
+      .join("")}</tbody></table>`,
+  );
+}
+
+const json = (value: unknown) =>
+  `<pre>${escapeHtml(JSON.stringify(value ?? null, null, 2))}</pre>`;
+
+function renderToolPart(part: UIMessage["parts"][number]): string {
+  if (!isToolUIPart(part)) return "";
+  const name = getToolName(part);
+  if (part.state == "output-available") {
+    switch (name) {
+      case DefaultToolName.CreatePieChart:
+        return renderPieChart(part.input);
+      case DefaultToolName.CreateBarChart:
+        return renderSeriesChart(part.input, "bar");
+      case DefaultToolName.CreateLineChart:
+        return renderSeriesChart(part.input, "line");
+      case DefaultToolName.CreateTable:
+        return renderTable(part.input);
+    }
+  }
+  const output =
+    part.state == "output-error"
+      ? `<pre>${escapeHtml(part.errorText)}</pre>`
+      : part.state == "output-available"
+        ? json(part.output)
+        : "";
+  return `<details><summary>${escapeHtml(name)}</summary>${json(part.input)}${output}</details>`;
+}
+
+function renderPart(part: UIMessage["parts"][number]): string {
+  if (part.type == "text") {
+    return part.text.trim()
+      ? `<div class="text">${escapeHtml(part.text)}</div>`
+      : "";
+  }
+  if (part.type == "reasoning") {
+    return part.text.trim()
+      ? `<div class="text reasoning">${escapeHtml(part.text)}</div>`
+      : "";
+  }
+  if (part.type == "file") {
+    const name = escapeHtml(part.filename || part.mediaType);
+    return part.mediaType.startsWith("image/")
+      ? `<img src="${safeUrl(part.url)}" alt="${name}"/>`
+      : `<p><a href="${safeUrl(part.url)}">${name}</a></p>`;
+  }
+  if (part.type == "source-url") {
+    return `<p><a href="${safeUrl(part.url)}">${escapeHtml(part.title || part.url)}</a></p>`;
+  }
+  return renderToolPart(part);
+}
+
+/**
+ * Standalone HTML page of a conversation.
+ * Charts and tables of the visualization tools are drawn without scripts or external files.
+ */
+export function renderThreadHtml(
+  title: string,
+  messages: HtmlMessage[],
+): string {
+  const body = messages
+    .map((message) => {
+      const model = message.metadata?.chatModel;
+      const heading = `${message.role}${model ? ` · ${model.provider}/${model.model}` : ""}`;
+      return `<section class="message ${message.role}"><h2>${escapeHtml(heading)}</h2><div class="content">${message.parts
+        .map(renderPart)
+        .join("")}</div></section>`;
+    })
+    .join("\n");
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { ChatThreadExportSchema } from "app-types/chat";
+import {
+  exportThreadToJson,
+  exportThreadToMarkdown,
+  getAttachmentHeaders,
+  getExportFileName,
+} from "./chat-export";
+
+const thread = {
+  id: "thread",
+  title: "Sales report",
+  activeLeafId: "answer",
+  createdAt: new Date("2025-01-01T00:00:00Z"),
+};
+
+const messages = [
+  {
+    id: "question",
+    role: "user" as const,
+    parts: [{ type: "text" as const, text: "How did we do?" }],
+    parentId: null,
+    createdAt: new Date(1),
+  },
+  {
+    id: "answer",
+    role: "assistant" as const,
+    parts: [
+      { type: "text" as const, text: "Here is the query:" },
+      {
+        type: "tool-runQuery",
+        toolCallId: "call",
+        state: "output-available",
+        input: { sql: "select ```" },
+        output: { rows: 3 },
+      } as any,
+    ],
+    metadata: { chatModel: { provider: "openai", model: "gpt-4.1" } },
+    parentId: "question",
+    createdAt: new Date(2),
+  },
+  {
+    id: "retry",
+    role: "assistant" as const,
+    parts: [{ type: "text" as const, text: "Another answer" }],
+    parentId: "question",
+    createdAt: new Date(3),
+  },
+];
+
+describe("exportThreadToMarkdown", () => {
+  it("should write the shown branch with fenced tool calls", () => {
+    const markdown = exportThreadToMarkdown(thread, messages);
+
+    expect(markdown).toContain("# Sales report");
+    expect(markdown).toContain("## User\n\nHow did we do?");
+    expect(markdown).toContain("## Assistant (openai/gpt-4.1)");
+    expect(markdown).toContain("**Tool call:** `runQuery`");
+    expect(markdown).toContain('````json\n{\n  "sql": "select ```"\n}\n````');
+    expect(markdown).toContain('"rows": 3');
+    expect(markdown).not.toContain("Another answer");
+  });
+});
+
+describe("exportThreadToJson", () => {
+  it("should keep every branch and parse back", () => {
+    const exported = JSON.parse(
+      JSON.stringify(exportThreadToJson(thread, messages)),
+    );
+    const parsed = ChatThreadExportSchema.parse(exported);
+
+    expect(parsed.thread.activeLeafId).toBe("answer");
+    expect(parsed.messages.map((message) => message.id)).toEqual([
+      "question",
+      "answer",
+      "retry",
+    ]);
+    expect(parsed.messages[1].parts[1]).toMatchObject({
+      input: { sql: "select ```" },
+    });
+    expect(parsed.messages[1].metadata?.chatModel?.model).toBe("gpt-4.1");
+    expect(parsed.messages[2].createdAt).toEqual(new Date(3));
+  });
+});
+
+describe("getExportFileName", () => {
+  it("should derive a safe name from the title", () => {
+    expect(getExportFileName("Q1 / Sales: report?", "md")).toBe(
+      "Q1-Sales-report.md",
+    );
+    expect(getExportFileName("売上レポート", "html")).toBe("売上レポート.html");
+    expect(getExportFileName("  ", "json")).toBe("chat.json");
+  });
+
+  it("should keep an ASCII fallback in the download headers", () => {
+    expect(
+      getAttachmentHeaders("売上.md", "text/markdown")["Content-Disposition"],
+    ).toBe(
+      `attachment; filename="__.md"; filename*=UTF-8''${encodeURIComponent("売上.md")}`,
+    );
+  });
+});
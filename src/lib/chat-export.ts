@@ -0,0 +1,170 @@
+import { getToolName, isToolUIPart, UIMessage } from "ai";
+import {
+  ChatExportFormat,
+  ChatMessage,
+  ChatThread,
+  ChatThreadExport,
+} from "app-types/chat";
+import { getMessagePath } from "./chat-branch";
+import { renderThreadHtml } from "./chat-export-html";
+
+export type ExportedThread = Pick<
+  ChatThread,
+  "id" | "title" | "activeLeafId" | "createdAt"
+>;
+
+export type ExportedMessage = Pick<
+  ChatMessage,
+  "id" | "role" | "parts" | "metadata" | "parentId" | "createdAt"
+>;
+
+export const CHAT_EXPORT_FILE_TYPES: Record<
+  ChatExportFormat,
+  { extension: string; contentType: string }
+> = {
+  markdown: { extension: "md", contentType: "text/markdown; charset=utf-8" },
+  json: { extension: "json", contentType: "application/json; charset=utf-8" },
+  html: { extension: "html", contentType: "text/html; charset=utf-8" },
+};
+
+export const threadTitle = (thread: Pick<ChatThread, "title">) =>
+  thread.title.trim() || "New Chat";
+
+const roleLabel = (role: UIMessage["role"]) =>
+  role.charAt(0).toUpperCase() + role.slice(1);
+
+// Markdown and HTML follow the branch shown in the app, JSON keeps every branch
+const getShownPath = (thread: ExportedThread, messages: ExportedMessage[]) =>
+  getMessagePath(messages, thread.activeLeafId);
+
+/**
+ * File name of an export, derived from the thread or archive title.
+ */
+export function getExportFileName(title: string, extension: string) {
+  const name =
+    title
+      .trim()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 80) || "chat";
+  return `${name}.${extension}`;
+}
+
+/**
+ * Headers of a file download, with an ASCII fallback for older clients.
+ */
+export function getAttachmentHeaders(fileName: string, contentType: string) {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return {
+    "Content-Type": contentType,
+    "Content-Disposition": `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+  };
+}
+
+// The fence is longer than any backtick run inside, so the content can not close it
+function fence(content: string, language = "") {
+  const longest = Math.max(
+    2,
+    ...(content.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const marker = "`".repeat(longest + 1);
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+const toJson = (value: unknown) => JSON.stringify(value ?? null, null, 2);
+
+function partToMarkdown(part: UIMessage["parts"][number]): string | undefined {
+  if (part.type == "text") return part.text;
+  if (part.type == "reasoning") {
+    return part.text
+      .split("\n")
+      .map((line) => `> ${line}`)
+      .join("\n");
+  }
+  if (part.type == "file") {
+    const name = part.filename || part.mediaType;
+    return part.mediaType.startsWith("image/")
+      ? `![${name}](${part.url})`
+      : `[${name}](${part.url})`;
+  }
+  if (part.type == "source-url")
+    return `[${part.title || part.url}](${part.url})`;
+  if (isToolUIPart(part)) {
+    const sections = [
+      `**Tool call:** \`${getToolName(part)}\``,
+      fence(toJson(part.input), "json"),
+    ];
+    if (part.state == "output-available" || part.state == "output-error") {
+      const output =
+        part.state == "output-error" ? { error: part.errorText } : part.output;
+      sections.push("**Result:**", fence(toJson(output), "json"));
+    }
+    return sections.join("\n\n");
+  }
+  return undefined;
+}
+
+/**
+ * Markdown of the shown branch, tool calls become fenced JSON blocks.
+ */
+export function exportThreadToMarkdown(
+  thread: ExportedThread,
+  messages: ExportedMessage[],
+): string {
+  const sections = [`# ${threadTitle(thread)}`];
+  for (const message of getShownPath(thread, messages)) {
+    const model = message.metadata?.chatModel;
+    sections.push(
+      `## ${roleLabel(message.role)}${model ? ` (${model.provider}/${model.model})` : ""}`,
+    );
+    for (const part of message.parts) {
+      const content = partToMarkdown(part);
+      if (content?.trim()) sections.push(content);
+    }
+  }
+  return `${sections.join("\n\n")}\n`;
+}
+
+/**
+ * Lossless export with every branch, parts and metadata.
+ */
+export function exportThreadToJson(
+  thread: ExportedThread,
+  messages: ExportedMessage[],
+): ChatThreadExport {
+  return {
+    version: 1,
+    thread: {
+      id: thread.id,
+      title: thread.title,
+      activeLeafId: thread.activeLeafId ?? null,
+      createdAt: thread.createdAt,
+    },
+    messages: messages.map((message) => ({
+      id: message.id,
+      role: message.role,
+      parts: message.parts,
+      metadata: message.metadata,
+      parentId: message.parentId ?? null,
+      createdAt: message.createdAt,
+    })),
+  };
+}
+
+export function exportThread(
+  thread: ExportedThread,
+  messages: ExportedMessage[],
+  format: ChatExportFormat,
+): string {
+  switch (format) {
+    case "markdown":
+      return exportThreadToMarkdown(thread, messages);
+    case "json":
+      return JSON.stringify(exportThreadToJson(thread, messages), null, 2);
+    case "html":
+      return renderThreadHtml(
+        threadTitle(thread),
+        getShownPath(thread, messages),
+      );
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { parseSearchHeadline } from "./chat-search";
+
+describe("parseSearchHeadline", () => {
+  it("should split highlighted terms from plain text", () => {
+    expect(
+      parseSearchHeadline(
+        "deploy the <mark>worker</mark> to <mark>prod</mark>",
+      ),
+    ).toEqual([
+      { text: "deploy the ", highlight: false },
+      { text: "worker", highlight: true },
+      { text: " to ", highlight: false },
+      { text: "prod", highlight: true },
+    ]);
+  });
+
+  it("should keep text without highlights as one plain segment", () => {
+    expect(parseSearchHeadline("no matches here")).toEqual([
+      { text: "no matches here", highlight: false },
+    ]);
+  });
+
+  it("should treat an unclosed highlight as plain text", () => {
+    expect(parseSearchHeadline("<mark>open")).toEqual([
+      { text: "<mark>open", highlight: false },
+    ]);
+  });
+
+  it("should return no segments for an empty headline", () => {
+    expect(parseSearchHeadline("")).toEqual([]);
+  });
+});
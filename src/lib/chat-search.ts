@@ -0,0 +1,41 @@
+import { ChatSearchSnippet } from "app-types/chat";
+
+const HIGHLIGHT_START = "<mark>";
+const HIGHLIGHT_STOP = "</mark>";
+
+/**
+ * Options of Postgres `ts_headline` for search result snippets.
+ */
+export const SEARCH_HEADLINE_OPTIONS = [
+  `StartSel=${HIGHLIGHT_START}`,
+  `StopSel=${HIGHLIGHT_STOP}`,
+  "MinWords=15",
+  "MaxWords=35",
+  "MaxFragments=2",
+  'FragmentDelimiter=" … "',
+].join(", ");
+
+/**
+ * Splits a `ts_headline` result into plain and highlighted text.
+ */
+export function parseSearchHeadline(headline: string): ChatSearchSnippet {
+  const snippet: ChatSearchSnippet = [];
+  let rest = headline;
+  while (rest) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    const stop = rest.indexOf(HIGHLIGHT_STOP, start + HIGHLIGHT_START.length);
+    if (start == -1 || stop == -1) {
+      snippet.push({ text: rest, highlight: false });
+      break;
+    }
+    if (start > 0) {
+      snippet.push({ text: rest.slice(0, start), highlight: false });
+    }
+    snippet.push({
+      text: rest.slice(start + HIGHLIGHT_START.length, stop),
+      highlight: true,
+    });
+    rest = rest.slice(stop + HIGHLIGHT_STOP.length);
+  }
+  return snippet;
+}
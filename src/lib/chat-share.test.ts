@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { UIMessage } from "ai";
+import { VercelAIWorkflowToolStreamingResultTag } from "app-types/workflow";
+import { redactToolInputs } from "./chat-share";
+
+const message = (parts: any[]): UIMessage => ({
+  id: "message",
+  role: "assistant",
+  parts,
+});
+
+describe("redactToolInputs", () => {
+  it("should remove tool inputs and keep outputs", () => {
+    const [redacted] = redactToolInputs([
+      message([
+        { type: "text", text: "Looking it up" },
+        {
+          type: "tool-search",
+          toolCallId: "call",
+          state: "output-available",
+          input: { query: "secret" },
+          output: { answer: 42 },
+        },
+      ]),
+    ]);
+    expect(redacted.parts[0]).toEqual({ type: "text", text: "Looking it up" });
+    expect(redacted.parts[1]).toMatchObject({
+      input: {},
+      output: { answer: 42 },
+    });
+  });
+
+  it("should keep the input of visualization tools", () => {
+    const chart = {
+      type: "tool-createPieChart",
+      toolCallId: "call",
+      state: "output-available",
+      input: { title: "Share", data: [] },
+      output: "Success",
+    };
+    const [redacted] = redactToolInputs([message([chart])]);
+    expect(redacted.parts[0]).toEqual(chart);
+  });
+
+  it("should remove the node inputs of workflow results", () => {
+    const output = VercelAIWorkflowToolStreamingResultTag.create({
+      toolCallId: "call",
+      workflowName: "flow",
+      startedAt: 1,
+      endedAt: 2,
+      status: "success",
+      history: [
+        {
+          id: "node",
+          name: "LLM",
+          kind: "llm" as any,
+          startedAt: 1,
+          status: "success",
+          result: { input: { prompt: "secret" }, output: { answer: "ok" } },
+        },
+      ],
+    });
+    const [redacted] = redactToolInputs([
+      message([
+        {
+          type: "tool-flow",
+          toolCallId: "call",
+          state: "output-available",
+          input: { topic: "secret" },
+          output,
+        },
+      ]),
+    ]);
+    const part = redacted.parts[0] as any;
+    expect(part.input).toEqual({});
+    expect(part.output.history[0].result).toEqual({ output: { answer: "ok" } });
+    expect(VercelAIWorkflowToolStreamingResultTag.isMaybe(part.output)).toBe(
+      true,
+    );
+  });
+});
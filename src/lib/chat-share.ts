@@ -0,0 +1,35 @@
+import { getToolName, isToolUIPart, UIMessage } from "ai";
+import { VercelAIWorkflowToolStreamingResultTag } from "app-types/workflow";
+import { DefaultToolName } from "lib/ai/tools";
+
+// These tools draw their input, so the input is what the reader came to see
+const VISUALIZATION_TOOLS: string[] = [
+  DefaultToolName.CreatePieChart,
+  DefaultToolName.CreateBarChart,
+  DefaultToolName.CreateLineChart,
+  DefaultToolName.CreateTable,
+];
+
+/**
+ * Removes the arguments of tool calls before a thread is shown through a share link.
+ * Workflow results also lose the inputs of their nodes.
+ */
+export function redactToolInputs(messages: UIMessage[]): UIMessage[] {
+  return messages.map((message) => ({
+    ...message,
+    parts: message.parts.map((part) => {
+      if (!isToolUIPart(part)) return part;
+      if (VISUALIZATION_TOOLS.includes(getToolName(part))) return part;
+      const output = VercelAIWorkflowToolStreamingResultTag.isMaybe(part.output)
+        ? {
+            ...part.output,
+            history: part.output.history.map(({ result, ...node }) => ({
+              ...node,
+              result: result && { output: result.output },
+            })),
+          }
+        : part.output;
+      return { ...part, input: {}, output } as typeof part;
+    }),
+  }));
+}
@@ -15,6 +15,8 @@ export type CodeRunnerOptions = {
   code: string;
   timeout?: number;
   onLog?: (entry: LogEntry) => void;
+  globals?: Record<string, any>; // Values exposed as top-level variables to the code
+  signal?: AbortSignal; // Stops the run when aborted
 };
 
 export type CodeWorkerRequest = {
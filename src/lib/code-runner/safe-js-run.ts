@@ -1,4 +1,3 @@
-"use client";
 // Core JavaScript execution engine with security sandbox
 
 import { safe } from "ts-safe";
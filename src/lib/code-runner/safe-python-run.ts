@@ -1,5 +1,3 @@
-"use client";
-
 import { safe } from "ts-safe";
 import {
   CodeRunnerOptions,
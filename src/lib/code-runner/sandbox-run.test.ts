@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+import { sandboxCodeRun } from "./sandbox-run";
+
+describe("sandboxCodeRun", () => {
+  it("should expose globals as variables and return the result", async () => {
+    const result = await sandboxCodeRun("javascript", {
+      code: "console.log('sum', a + b.value); return { total: a + b.value };",
+      globals: { a: 1, b: { value: 2 } },
+    });
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({ total: 3 });
+    expect(result.logs[0].args[0].value).toEqual(["sum", 3]);
+  });
+
+  it("should not let globals shadow built-ins", async () => {
+    const result = await sandboxCodeRun("javascript", {
+      code: "return Math.max(1, 2);",
+      globals: { Math: { max: () => 0 } },
+    });
+    expect(result.result).toBe(2);
+  });
+
+  it("should not reach Node.js modules or the process", async () => {
+    const imported = await sandboxCodeRun("javascript", {
+      code: "return (await import('node:os')).hostname();",
+    });
+    expect(imported.success).toBe(false);
+
+    const global = await sandboxCodeRun("javascript", {
+      code: "return typeof Reflect.get(globalThis, 'proc'.concat('ess'));",
+    });
+    expect(global.result).toBe("undefined");
+
+    const constructor = await sandboxCodeRun("javascript", {
+      code: "return console.log.constructor('return process')().env;",
+    });
+    expect(constructor.success).toBe(false);
+
+    const importError = await sandboxCodeRun("javascript", {
+      code: "try { await import('fs'); } catch (e) { return e.constructor.constructor('return process')().env; }",
+    });
+    expect(importError.success).toBe(false);
+  });
+
+  it("should stop synchronous infinite loops", async () => {
+    const result = await sandboxCodeRun("javascript", {
+      code: "let i = 0; for (;;) { i++; }",
+      timeout: 1000,
+    });
+    expect(result.success).toBe(false);
+
+    const asyncLoop = await sandboxCodeRun("javascript", {
+      code: "await null; while (1) {}",
+      timeout: 1000,
+    });
+    expect(asyncLoop.success).toBe(false);
+    expect(asyncLoop.error).toContain("timeout");
+  });
+
+  it("should stop when aborted", async () => {
+    const controller = new AbortController();
+    const run = sandboxCodeRun("javascript", {
+      code: "await new Promise((resolve) => setTimeout(resolve, 10000));",
+      signal: controller.signal,
+    });
+    controller.abort();
+    await expect(run).resolves.toMatchObject({
+      success: false,
+      error: "Execution aborted",
+    });
+  });
+
+  it("should run Python without reaching the process or the network", async () => {
+    // Pyodide loads once per run, so every check shares one
+    const code = [
+      "import js",
+      "from pyodide.http import pyfetch",
+      "names = ['process', 'require', 'module', 'fetch', 'WebSocket']",
+      "reachable = [name for name in names if hasattr(js, name)]",
+      "try:",
+      "    js.Function('return import(\"node:process\")')()",
+      "    compiled = True",
+      "except Exception:",
+      "    compiled = False",
+      "try:",
+      "    await pyfetch('http://127.0.0.1')",
+      "    fetched = True",
+      "except Exception:",
+      "    fetched = False",
+      "{'total': a + b, 'reachable': reachable, 'compiled': compiled, 'fetched': fetched}",
+    ].join("\n");
+    const result = await sandboxCodeRun("python", {
+      code,
+      globals: { a: 1, b: 2 },
+    });
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({
+      total: 3,
+      reachable: [],
+      compiled: false,
+      fetched: false,
+    });
+  }, 40000);
+});
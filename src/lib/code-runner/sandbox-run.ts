@@ -0,0 +1,259 @@
+import "server-only";
+
+import { spawn } from "node:child_process";
+import { realpathSync } from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import {
+  CodeRunnerOptions,
+  CodeRunnerResult,
+  LogEntry,
+} from "./code-runner.interface";
+
+const DEFAULT_TIMEOUT = {
+  javascript: 5000,
+  python: 30000, // Includes loading Pyodide
+};
+
+const MEMORY_LIMIT_MB = 256;
+
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Script of the sandbox process.
+ * JavaScript runs in a vm context with only the language built-ins, strings can not be compiled
+ * and host functions are wrapped so that no host object reaches the code.
+ * Python runs in Pyodide, which needs `process.binding("constants")` for its file system flags.
+ * Its js module reaches the global scope, so Node.js globals are removed once Pyodide is loaded.
+ * Messages are written to stdout as JSON lines.
+ */
+const SANDBOX_SCRIPT = `
+"use strict";
+const vm = require("node:vm");
+const stdout = process.stdout;
+const send = (message) => stdout.write(JSON.stringify(message) + "\\n");
+const log = (type, text) => {
+  let value = text;
+  try { value = JSON.parse(text); } catch {}
+  send({ type: "log", entry: { type, args: [{ type: "data", value }] } });
+};
+
+async function runJavaScript(code, globals, timeout) {
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+  });
+  const timers = new Map();
+  let nextTimer = 1;
+  const install = vm.runInContext(
+    "(function (hostLog, hostSetTimeout, hostClearTimeout) {" +
+    "  const format = (value) => { try { return JSON.stringify(value) ?? String(value); } catch { return String(value); } };" +
+    "  const write = (type) => (...args) => { hostLog(type, args.length == 1 ? format(args[0]) : format(args)); };" +
+    "  globalThis.console = { log: write('log'), info: write('info'), warn: write('warn'), error: write('error'), debug: write('debug') };" +
+    "  globalThis.setTimeout = (fn, ms) => typeof fn == 'function' ? hostSetTimeout(() => fn(), Number(ms) || 0) : 0;" +
+    "  globalThis.clearTimeout = (id) => { hostClearTimeout(Number(id)); };" +
+    "  return { fail: (message) => new Error(String(message)), serialize: (value) => JSON.stringify(value === undefined ? null : value) };" +
+    "})",
+    context,
+  );
+  const helpers = install(
+    (type, text) => { try { log(String(type), String(text)); } catch {} },
+    (fn, ms) => {
+      const id = nextTimer++;
+      timers.set(id, setTimeout(() => { timers.delete(id); try { fn(); } catch {} }, ms));
+      return id;
+    },
+    (id) => { clearTimeout(timers.get(id)); timers.delete(id); },
+  );
+  // Inputs never shadow the built-ins, reserved words are left out
+  const names = Object.keys(globals).filter((name) => {
+    if (!/^[A-Za-z_$][\\w$]*$/.test(name)) return false;
+    try {
+      return vm.runInContext("typeof " + name + " == 'undefined'", context);
+    } catch {
+      return false;
+    }
+  });
+  context.__input = JSON.stringify(names.map((name) => globals[name]));
+  const script = new vm.Script(
+    '"use strict"; (async (' + names.join(", ") + ') => {\\n' + code + '\\n})(...JSON.parse(__input))',
+    { importModuleDynamically: () => { throw helpers.fail("import is not allowed"); } },
+  );
+  const value = await script.runInContext(context, { timeout });
+  return JSON.parse(helpers.serialize(value));
+}
+
+async function runPython(code, globals, pyodidePath) {
+  const binding = process.binding;
+  process.binding = (name) => name == "constants" ? { fs: require("node:fs").constants } : binding(name);
+  const { loadPyodide } = require(pyodidePath + "/pyodide.js");
+  const pyodide = await loadPyodide({ indexURL: pyodidePath + "/" });
+  pyodide.setStdout({ batched: (text) => log("log", text) });
+  pyodide.setStderr({ batched: (text) => log("error", text) });
+  for (const [key, value] of Object.entries(globals)) {
+    pyodide.globals.set(key, pyodide.toPy(value));
+  }
+  // The js module sees this global scope, so the process and network go before the code runs
+  for (const name of ["process", "require", "module", "exports", "__filename", "__dirname", "fetch", "WebSocket", "EventSource"]) {
+    delete globalThis[name];
+  }
+  const value = await pyodide.runPythonAsync(code);
+  const result = value && value.toJs ? value.toJs({ dict_converter: Object.fromEntries }) : value;
+  return result === undefined ? null : JSON.parse(JSON.stringify(result));
+}
+
+const chunks = [];
+process.stdin.on("data", (chunk) => chunks.push(chunk));
+process.stdin.on("end", async () => {
+  const { language, code, globals, timeout, pyodidePath } = JSON.parse(Buffer.concat(chunks).toString());
+  try {
+    const result = language == "python"
+      ? await runPython(code, globals, pyodidePath)
+      : await runJavaScript(code, globals, timeout);
+    send({ type: "result", result });
+  } catch (error) {
+    send({ type: "error", error: String((error && error.message) || error) });
+  }
+});
+`;
+
+// Older Node.js versions only know the experimental flag
+function getPermissionFlag() {
+  const flags = process.allowedNodeEnvironmentFlags;
+  if (flags.has("--permission")) return "--permission";
+  if (flags.has("--experimental-permission"))
+    return "--experimental-permission";
+  return undefined;
+}
+
+function resolvePyodidePath() {
+  const require = createRequire(path.join(process.cwd(), "package.json"));
+  return realpathSync(path.dirname(require.resolve("pyodide/package.json")));
+}
+
+/**
+ * Runs JavaScript or Python code in a separate Node.js process.
+ * The process starts without environment variables, under the permission model
+ * (no file system, child processes or workers) and is killed on timeout or abort.
+ * Code never reaches `process`, `require` or `fetch`, so it can not signal other processes or use the network.
+ */
+export async function sandboxCodeRun(
+  language: "javascript" | "python",
+  {
+    code,
+    timeout = DEFAULT_TIMEOUT[language],
+    onLog,
+    globals = {},
+    signal,
+  }: CodeRunnerOptions,
+): Promise<CodeRunnerResult> {
+  const startTime = Date.now();
+  const logs: LogEntry[] = [];
+  const failure = (error: string): CodeRunnerResult => ({
+    success: false,
+    error,
+    logs,
+    executionTimeMs: Date.now() - startTime,
+  });
+
+  const permissionFlag = getPermissionFlag();
+  if (!permissionFlag) {
+    return failure("Code nodes require Node.js 20 or later on the server");
+  }
+
+  let pyodidePath: string | undefined;
+  if (language == "python") {
+    try {
+      pyodidePath = resolvePyodidePath();
+    } catch {
+      return failure("Python runtime (pyodide) is not installed on the server");
+    }
+  }
+
+  return new Promise<CodeRunnerResult>((resolve) => {
+    const child = spawn(
+      process.execPath,
+      [
+        permissionFlag,
+        ...(pyodidePath ? [`--allow-fs-read=${pyodidePath}/`] : []),
+        "--experimental-vm-modules",
+        // Host functions reached from Python can not compile code, such as an import()
+        "--disallow-code-generation-from-strings",
+        "--no-warnings",
+        `--max-old-space-size=${MEMORY_LIMIT_MB}`,
+        "-e",
+        SANDBOX_SCRIPT,
+      ],
+      // No environment variables, so no server secret reaches the code
+      { env: {} as NodeJS.ProcessEnv },
+    );
+
+    let settled = false;
+    let output = "";
+    let outputBytes = 0;
+    let stderr = "";
+
+    const finish = (result: CodeRunnerResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+      child.kill("SIGKILL");
+      resolve(result);
+    };
+
+    const timer = setTimeout(
+      () => finish(failure(`Execution timeout: ${timeout}ms limit exceeded`)),
+      timeout,
+    );
+    const abort = () => finish(failure("Execution aborted"));
+    if (signal?.aborted) return abort();
+    signal?.addEventListener("abort", abort, { once: true });
+
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+      let message: any;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        return;
+      }
+      if (message.type == "log") {
+        logs.push(message.entry);
+        onLog?.(message.entry);
+      } else if (message.type == "result") {
+        finish({
+          success: true,
+          logs,
+          result: message.result,
+          executionTimeMs: Date.now() - startTime,
+        });
+      } else if (message.type == "error") {
+        finish(failure(String(message.error)));
+      }
+    };
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      outputBytes += chunk.length;
+      if (outputBytes > MAX_OUTPUT_BYTES) {
+        return finish(failure("Output limit exceeded"));
+      }
+      output += chunk.toString();
+      const lines = output.split("\n");
+      output = lines.pop() ?? "";
+      lines.forEach(handleLine);
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+    child.on("error", (error) => finish(failure(error.message)));
+    child.on("close", () => {
+      handleLine(output);
+      finish(failure(stderr.trim() || "Code process exited without a result"));
+    });
+
+    child.stdin.on("error", () => {});
+    child.stdin.end(
+      JSON.stringify({ language, code, globals, timeout, pyodidePath }),
+    );
+  });
+}
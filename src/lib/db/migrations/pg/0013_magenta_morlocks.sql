@@ -0,0 +1,33 @@
+CREATE TABLE "workflow_run_node" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"run_id" uuid NOT NULL,
+	"node_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"kind" text NOT NULL,
+	"status" varchar NOT NULL,
+	"input" json,
+	"output" json,
+	"error" json,
+	"started_at" timestamp NOT NULL,
+	"ended_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "workflow_run" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workflow_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"status" varchar DEFAULT 'running' NOT NULL,
+	"input" json,
+	"output" json,
+	"error" json,
+	"start_node_id" uuid,
+	"replay_of_run_id" uuid,
+	"started_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"ended_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_run_node" ADD CONSTRAINT "workflow_run_node_run_id_workflow_run_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."workflow_run"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_run" ADD CONSTRAINT "workflow_run_workflow_id_workflow_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflow"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_run" ADD CONSTRAINT "workflow_run_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workflow_run_node_run_id_idx" ON "workflow_run_node" USING btree ("run_id");--> statement-breakpoint
+CREATE INDEX "workflow_run_workflow_id_idx" ON "workflow_run" USING btree ("workflow_id","user_id");
\ No newline at end of file
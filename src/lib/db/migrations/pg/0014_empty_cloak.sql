@@ -0,0 +1,17 @@
+CREATE TABLE "workflow_schedule" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workflow_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"cron" text NOT NULL,
+	"input" json DEFAULT '{}'::json,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"last_run_id" uuid,
+	"last_run_at" timestamp,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_run" ADD COLUMN "trigger" varchar DEFAULT 'manual' NOT NULL;--> statement-breakpoint
+ALTER TABLE "workflow_schedule" ADD CONSTRAINT "workflow_schedule_workflow_id_workflow_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflow"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_schedule" ADD CONSTRAINT "workflow_schedule_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workflow_schedule_workflow_id_idx" ON "workflow_schedule" USING btree ("workflow_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "workflow_run_node" ADD COLUMN "attempts" json;
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TABLE "workflow_version" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workflow_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"nodes" json NOT NULL,
+	"edges" json NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "workflow_version_workflow_id_version_unique" UNIQUE("workflow_id","version")
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_run" ADD COLUMN "version" integer;--> statement-breakpoint
+ALTER TABLE "workflow_version" ADD CONSTRAINT "workflow_version_workflow_id_workflow_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflow"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_version" ADD CONSTRAINT "workflow_version_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Workflows published before versioning keep running what they run today
+INSERT INTO "workflow_version" ("workflow_id", "version", "nodes", "edges", "user_id")
+SELECT
+	w."id",
+	1,
+	COALESCE((
+		SELECT json_agg(json_build_object(
+			'id', n."id", 'workflowId', n."workflow_id", 'kind', n."kind", 'name', n."name",
+			'description', n."description", 'nodeConfig', n."node_config", 'uiConfig', n."ui_config",
+			'createdAt', n."created_at", 'updatedAt', n."updated_at"
+		))
+		FROM "workflow_node" n WHERE n."workflow_id" = w."id"
+	), '[]'::json),
+	COALESCE((
+		SELECT json_agg(json_build_object(
+			'id', e."id", 'workflowId', e."workflow_id", 'source', e."source", 'target', e."target",
+			'uiConfig', e."ui_config", 'createdAt', e."created_at"
+		))
+		FROM "workflow_edge" e WHERE e."workflow_id" = w."id"
+	), '[]'::json),
+	w."user_id"
+FROM "workflow" w
+WHERE w."is_published" = true;
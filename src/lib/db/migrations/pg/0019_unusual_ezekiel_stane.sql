@@ -0,0 +1 @@
+ALTER TABLE "workflow_run" ADD COLUMN "dry_run" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "workflow_test_case" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workflow_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"input" json DEFAULT '{}'::json,
+	"assertions" json DEFAULT '[]'::json NOT NULL,
+	"dry_run" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_test_case" ADD CONSTRAINT "workflow_test_case_workflow_id_workflow_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflow"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_test_case" ADD CONSTRAINT "workflow_test_case_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workflow_test_case_workflow_id_idx" ON "workflow_test_case" USING btree ("workflow_id");
\ No newline at end of file
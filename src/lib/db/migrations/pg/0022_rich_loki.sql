@@ -0,0 +1 @@
+ALTER TABLE "workflow_run_node" ADD COLUMN "usage" json;
\ No newline at end of file
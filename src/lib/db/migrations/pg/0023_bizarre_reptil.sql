@@ -0,0 +1 @@
+ALTER TABLE "workflow" ADD COLUMN "is_template" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "chat_message" ADD COLUMN "parent_id" text;--> statement-breakpoint
+ALTER TABLE "chat_thread" ADD COLUMN "active_leaf_id" text;--> statement-breakpoint
+UPDATE "chat_message" AS "message" SET "parent_id" = "previous"."parent_id" FROM (SELECT "id", LAG("id") OVER (PARTITION BY "thread_id" ORDER BY "created_at", "id") AS "parent_id" FROM "chat_message") AS "previous" WHERE "message"."id" = "previous"."id";
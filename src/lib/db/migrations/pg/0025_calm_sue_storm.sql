@@ -0,0 +1 @@
+ALTER TABLE "chat_thread" ADD COLUMN "forked_from_thread_id" uuid;
\ No newline at end of file
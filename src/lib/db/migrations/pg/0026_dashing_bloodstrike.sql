@@ -0,0 +1,8 @@
+CREATE OR REPLACE FUNCTION chat_message_search_text(parts json[]) RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT coalesce(string_agg(part->>'text', ' '), '')
+  FROM unnest(parts) AS part
+  WHERE part->>'type' = 'text'
+$$;--> statement-breakpoint
+ALTER TABLE "chat_message" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('simple', chat_message_search_text(parts))) STORED;--> statement-breakpoint
+CREATE INDEX "chat_message_search_idx" ON "chat_message" USING gin ("search_vector");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "chat_thread_share" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"thread_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"token" text NOT NULL,
+	"redact_tool_inputs" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "chat_thread_share_thread_id_unique" UNIQUE("thread_id"),
+	CONSTRAINT "chat_thread_share_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+ALTER TABLE "chat_thread_share" ADD CONSTRAINT "chat_thread_share_thread_id_chat_thread_id_fk" FOREIGN KEY ("thread_id") REFERENCES "public"."chat_thread"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_thread_share" ADD CONSTRAINT "chat_thread_share_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -1,4 +1,15 @@
-import { ChatMessage, ChatRepository, ChatThread } from "app-types/chat";
+import {
+  ChatMessage,
+  ChatMetadata,
+  ChatRepository,
+  ChatThread,
+} from "app-types/chat";
+import {
+  getLatestLeaf,
+  getMessageBranches,
+  getMessagePath,
+} from "lib/chat-branch";
+import { parseSearchHeadline, SEARCH_HEADLINE_OPTIONS } from "lib/chat-search";
 
 import { pgDb as db } from "../db.pg";
 import {
@@ -8,7 +19,19 @@ import {
   ArchiveItemSchema,
 } from "../schema.pg";
 
-import { and, desc, eq, gte, sql } from "drizzle-orm";
+import { and, desc, eq, gte, lte, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+// Every column except the search vector, which stays in the database
+const messageColumns = {
+  id: ChatMessageSchema.id,
+  threadId: ChatMessageSchema.threadId,
+  role: ChatMessageSchema.role,
+  parts: ChatMessageSchema.parts,
+  metadata: ChatMessageSchema.metadata,
+  parentId: ChatMessageSchema.parentId,
+  createdAt: ChatMessageSchema.createdAt,
+};
 
 export const pgChatRepository: ChatRepository = {
   insertThread: async (
@@ -20,12 +43,32 @@ export const pgChatRepository: ChatRepository = {
         title: thread.title,
         userId: thread.userId,
         id: thread.id,
+        forkedFromThreadId: thread.forkedFromThreadId,
       })
       .returning();
     return result;
   },
 
   deleteChatMessage: async (id: string): Promise<void> => {
+    const [message] = await db
+      .select()
+      .from(ChatMessageSchema)
+      .where(eq(ChatMessageSchema.id, id));
+    if (!message) return;
+    // Replies move up to the parent, so the branch stays connected
+    await db
+      .update(ChatMessageSchema)
+      .set({ parentId: message.parentId })
+      .where(eq(ChatMessageSchema.parentId, id));
+    await db
+      .update(ChatThreadSchema)
+      .set({ activeLeafId: message.parentId })
+      .where(
+        and(
+          eq(ChatThreadSchema.id, message.threadId),
+          eq(ChatThreadSchema.activeLeafId, id),
+        ),
+      );
     await db.delete(ChatMessageSchema).where(eq(ChatMessageSchema.id, id));
   },
 
@@ -51,11 +94,12 @@ export const pgChatRepository: ChatRepository = {
       return null;
     }
 
-    const messages = await pgChatRepository.selectMessagesByThreadId(id);
+    const { messages } = await pgChatRepository.selectActivePath(id);
     return {
       id: thread.chat_thread.id,
       title: thread.chat_thread.title,
       userId: thread.chat_thread.userId,
+      forkedFromThreadId: thread.chat_thread.forkedFromThreadId,
       createdAt: thread.chat_thread.createdAt,
       userPreferences: thread.user?.preferences ?? undefined,
       messages,
@@ -66,13 +110,50 @@ export const pgChatRepository: ChatRepository = {
     threadId: string,
   ): Promise<ChatMessage[]> => {
     const result = await db
-      .select()
+      .select(messageColumns)
       .from(ChatMessageSchema)
       .where(eq(ChatMessageSchema.threadId, threadId))
       .orderBy(ChatMessageSchema.createdAt);
     return result as ChatMessage[];
   },
 
+  selectActivePath: async (threadId) => {
+    const [thread] = await db
+      .select({ activeLeafId: ChatThreadSchema.activeLeafId })
+      .from(ChatThreadSchema)
+      .where(eq(ChatThreadSchema.id, threadId));
+    const messages = await pgChatRepository.selectMessagesByThreadId(threadId);
+    const path = getMessagePath(messages, thread?.activeLeafId);
+    return {
+      messages: path,
+      branches: getMessageBranches(messages, path),
+    };
+  },
+
+  selectMessagePath: async (threadId, messageId) => {
+    const messages = await pgChatRepository.selectMessagesByThreadId(threadId);
+    if (!messages.some((message) => message.id == messageId)) return [];
+    return getMessagePath(messages, messageId);
+  },
+
+  updateActiveLeaf: async (threadId, messageId) => {
+    await db
+      .update(ChatThreadSchema)
+      .set({ activeLeafId: messageId })
+      .where(eq(ChatThreadSchema.id, threadId));
+  },
+
+  switchBranch: async (threadId, messageId) => {
+    const messages = await pgChatRepository.selectMessagesByThreadId(threadId);
+    const leaf = getLatestLeaf(messages, messageId);
+    if (leaf) await pgChatRepository.updateActiveLeaf(threadId, leaf.id);
+    const path = getMessagePath(messages, leaf?.id);
+    return {
+      messages: path,
+      branches: getMessageBranches(messages, path),
+    };
+  },
+
   selectThreadsByUserId: async (
     userId: string,
   ): Promise<
@@ -86,6 +167,7 @@ export const pgChatRepository: ChatRepository = {
         title: ChatThreadSchema.title,
         createdAt: ChatThreadSchema.createdAt,
         userId: ChatThreadSchema.userId,
+        forkedFromThreadId: ChatThreadSchema.forkedFromThreadId,
         lastMessageAt: sql<string>`MAX(${ChatMessageSchema.createdAt})`.as(
           "last_message_at",
         ),
@@ -104,6 +186,7 @@ export const pgChatRepository: ChatRepository = {
         id: row.threadId,
         title: row.title,
         userId: row.userId,
+        forkedFromThreadId: row.forkedFromThreadId,
         createdAt: row.createdAt,
         lastMessageAt: row.lastMessageAt
           ? new Date(row.lastMessageAt).getTime()
@@ -164,7 +247,7 @@ export const pgChatRepository: ChatRepository = {
     const [result] = await db
       .insert(ChatMessageSchema)
       .values(entity)
-      .returning();
+      .returning(messageColumns);
     return result as ChatMessage;
   },
 
@@ -181,31 +264,10 @@ export const pgChatRepository: ChatRepository = {
           metadata: message.metadata,
         },
       })
-      .returning();
+      .returning(messageColumns);
     return result[0] as ChatMessage;
   },
 
-  deleteMessagesByChatIdAfterTimestamp: async (
-    messageId: string,
-  ): Promise<void> => {
-    const [message] = await db
-      .select()
-      .from(ChatMessageSchema)
-      .where(eq(ChatMessageSchema.id, messageId));
-    if (!message) {
-      return;
-    }
-    // Delete messages that are in the same thread AND created before or at the same time as the target message
-    await db
-      .delete(ChatMessageSchema)
-      .where(
-        and(
-          eq(ChatMessageSchema.threadId, message.threadId),
-          gte(ChatMessageSchema.createdAt, message.createdAt),
-        ),
-      );
-  },
-
   deleteAllThreads: async (userId: string): Promise<void> => {
     const threadIds = await db
       .select({ id: ChatThreadSchema.id })
@@ -244,7 +306,63 @@ export const pgChatRepository: ChatRepository = {
     const result = await db
       .insert(ChatMessageSchema)
       .values(messages)
-      .returning();
+      .returning(messageColumns);
     return result as ChatMessage[];
   },
+
+  searchMessages: async (
+    userId,
+    { q, agentId, provider, model, from, to, limit },
+  ) => {
+    const query = sql`websearch_to_tsquery('simple', ${q})`;
+    const reply = alias(ChatMessageSchema, "reply");
+    // User messages have no metadata, the agent and model are on the reply
+    const metadata = sql<ChatMetadata | null>`coalesce(${ChatMessageSchema.metadata}, (${db
+      .select({ metadata: reply.metadata })
+      .from(reply)
+      .where(eq(reply.parentId, ChatMessageSchema.id))
+      .orderBy(reply.createdAt)
+      .limit(1)}))`;
+
+    const rows = await db
+      .select({
+        threadId: ChatThreadSchema.id,
+        threadTitle: ChatThreadSchema.title,
+        messageId: ChatMessageSchema.id,
+        role: ChatMessageSchema.role,
+        metadata,
+        createdAt: ChatMessageSchema.createdAt,
+        headline: sql<string>`ts_headline('simple', chat_message_search_text(${ChatMessageSchema.parts}), ${query}, ${SEARCH_HEADLINE_OPTIONS})`,
+      })
+      .from(ChatMessageSchema)
+      .innerJoin(
+        ChatThreadSchema,
+        eq(ChatMessageSchema.threadId, ChatThreadSchema.id),
+      )
+      .where(
+        and(
+          eq(ChatThreadSchema.userId, userId),
+          sql`${ChatMessageSchema.searchVector} @@ ${query}`,
+          agentId ? sql`${metadata}->>'agentId' = ${agentId}` : undefined,
+          provider
+            ? sql`${metadata}->'chatModel'->>'provider' = ${provider}`
+            : undefined,
+          model
+            ? sql`${metadata}->'chatModel'->>'model' = ${model}`
+            : undefined,
+          from ? gte(ChatMessageSchema.createdAt, from) : undefined,
+          to ? lte(ChatMessageSchema.createdAt, to) : undefined,
+        ),
+      )
+      .orderBy(
+        desc(sql`ts_rank(${ChatMessageSchema.searchVector}, ${query})`),
+        desc(ChatMessageSchema.createdAt),
+      )
+      .limit(limit);
+
+    return rows.map(({ headline, ...row }) => ({
+      ...row,
+      snippet: parseSearchHeadline(headline),
+    }));
+  },
 };
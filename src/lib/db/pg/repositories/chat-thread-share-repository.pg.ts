@@ -0,0 +1,43 @@
+import { eq } from "drizzle-orm";
+import { pgDb as db } from "../db.pg";
+import { ChatThreadShareSchema } from "../schema.pg";
+import { ChatThreadShare, ChatThreadShareRepository } from "app-types/chat";
+
+export const pgChatThreadShareRepository: ChatThreadShareRepository = {
+  async selectByThreadId(threadId) {
+    const [row] = await db
+      .select()
+      .from(ChatThreadShareSchema)
+      .where(eq(ChatThreadShareSchema.threadId, threadId));
+    return (row as ChatThreadShare) ?? null;
+  },
+
+  async selectByToken(token) {
+    const [row] = await db
+      .select()
+      .from(ChatThreadShareSchema)
+      .where(eq(ChatThreadShareSchema.token, token));
+    return (row as ChatThreadShare) ?? null;
+  },
+
+  async upsert(share) {
+    const [row] = await db
+      .insert(ChatThreadShareSchema)
+      .values(share)
+      .onConflictDoUpdate({
+        target: [ChatThreadShareSchema.threadId],
+        set: {
+          redactToolInputs: share.redactToolInputs,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return row as ChatThreadShare;
+  },
+
+  async delete(threadId) {
+    await db
+      .delete(ChatThreadShareSchema)
+      .where(eq(ChatThreadShareSchema.threadId, threadId));
+  },
+};
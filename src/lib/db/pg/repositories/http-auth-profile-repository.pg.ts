@@ -0,0 +1,58 @@
+import { and, asc, eq } from "drizzle-orm";
+import { pgDb as db } from "../db.pg";
+import { HttpAuthProfileSchema } from "../schema.pg";
+import { DBHttpAuthProfile, HttpAuthProfileRepository } from "app-types/secret";
+
+export const pgHttpAuthProfileRepository: HttpAuthProfileRepository = {
+  async selectByUserId(userId) {
+    const rows = await db
+      .select()
+      .from(HttpAuthProfileSchema)
+      .where(eq(HttpAuthProfileSchema.userId, userId))
+      .orderBy(asc(HttpAuthProfileSchema.name));
+    return rows as DBHttpAuthProfile[];
+  },
+
+  async selectByName(userId, name) {
+    const [row] = await db
+      .select()
+      .from(HttpAuthProfileSchema)
+      .where(
+        and(
+          eq(HttpAuthProfileSchema.userId, userId),
+          eq(HttpAuthProfileSchema.name, name),
+        ),
+      );
+    return (row as DBHttpAuthProfile) ?? null;
+  },
+
+  async selectById(id) {
+    const [row] = await db
+      .select()
+      .from(HttpAuthProfileSchema)
+      .where(eq(HttpAuthProfileSchema.id, id));
+    return (row as DBHttpAuthProfile) ?? null;
+  },
+
+  async save(profile) {
+    const [row] = await db
+      .insert(HttpAuthProfileSchema)
+      .values(profile)
+      .onConflictDoUpdate({
+        target: [HttpAuthProfileSchema.id],
+        set: {
+          name: profile.name,
+          config: profile.config,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return row as DBHttpAuthProfile;
+  },
+
+  async delete(id) {
+    await db
+      .delete(HttpAuthProfileSchema)
+      .where(eq(HttpAuthProfileSchema.id, id));
+  },
+};
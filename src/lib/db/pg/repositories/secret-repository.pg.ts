@@ -0,0 +1,48 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { pgDb as db } from "../db.pg";
+import { SecretSchema } from "../schema.pg";
+import { SecretRepository } from "app-types/secret";
+
+export const pgSecretRepository: SecretRepository = {
+  async selectByUserId(userId) {
+    return db
+      .select({
+        id: SecretSchema.id,
+        name: SecretSchema.name,
+        createdAt: SecretSchema.createdAt,
+        updatedAt: SecretSchema.updatedAt,
+      })
+      .from(SecretSchema)
+      .where(eq(SecretSchema.userId, userId))
+      .orderBy(asc(SecretSchema.name));
+  },
+
+  async selectValues(userId, names) {
+    if (!names.length) return [];
+    return db
+      .select({ name: SecretSchema.name, value: SecretSchema.value })
+      .from(SecretSchema)
+      .where(
+        and(eq(SecretSchema.userId, userId), inArray(SecretSchema.name, names)),
+      );
+  },
+
+  async save(secret) {
+    await db
+      .insert(SecretSchema)
+      .values(secret)
+      .onConflictDoUpdate({
+        target: [SecretSchema.userId, SecretSchema.name],
+        set: {
+          value: secret.value,
+          updatedAt: new Date(),
+        },
+      });
+  },
+
+  async delete(userId, name) {
+    await db
+      .delete(SecretSchema)
+      .where(and(eq(SecretSchema.userId, userId), eq(SecretSchema.name, name)));
+  },
+};
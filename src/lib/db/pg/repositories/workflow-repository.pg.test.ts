@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../db.pg", () => ({
+  pgDb: { transaction: vi.fn() },
+}));
+
+import { pgDb } from "../db.pg";
+import { WorkflowSchema, WorkflowVersionSchema } from "../schema.pg";
+import { pgWorkflowRepository } from "./workflow-repository.pg";
+
+/**
+ * An in-memory stand-in for Postgres transactions: `FOR UPDATE` holds a row lock
+ * until the transaction ends, and version numbers are unique per workflow.
+ */
+function createFakeDb() {
+  const versions: { workflowId: string; version: number }[] = [];
+  const locks = new Map<string, Promise<void>>();
+
+  const transaction = async (fn: (tx: any) => Promise<unknown>) => {
+    const releases: (() => void)[] = [];
+
+    const query = (op: "select" | "insert" | "update") => {
+      let table: unknown;
+      let forUpdate = false;
+      let values: any;
+      const run = async () => {
+        if (op == "select" && table == WorkflowSchema && forUpdate) {
+          const held = locks.get("workflow");
+          let release!: () => void;
+          locks.set("workflow", new Promise((resolve) => (release = resolve)));
+          releases.push(release);
+          await held;
+          return [{ id: "workflow" }];
+        }
+        if (op == "select" && table == WorkflowVersionSchema) {
+          const latest = Math.max(0, ...versions.map((v) => v.version));
+          return latest ? [{ version: latest }] : [];
+        }
+        if (op == "insert" && table == WorkflowVersionSchema) {
+          // The round trip that lets another transaction read the same latest version
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          if (versions.some((v) => v.version == values.version)) {
+            throw new Error(
+              'duplicate key value violates unique constraint "workflow_version_workflow_id_version_unique"',
+            );
+          }
+          versions.push(values);
+          return [values];
+        }
+        return [];
+      };
+      const builder: any = {
+        from: (t: unknown) => ((table = t), builder),
+        into: (t: unknown) => ((table = t), builder),
+        where: () => builder,
+        orderBy: () => builder,
+        limit: () => builder,
+        for: () => ((forUpdate = true), builder),
+        values: (v: unknown) => ((values = v), builder),
+        set: () => builder,
+        returning: () => builder,
+        then: (resolve: any, reject: any) => run().then(resolve, reject),
+      };
+      return builder;
+    };
+
+    const tx = {
+      select: () => query("select"),
+      insert: (table: unknown) => query("insert").into(table),
+      update: () => query("update"),
+    };
+    try {
+      return await fn(tx);
+    } finally {
+      releases.forEach((release) => release());
+    }
+  };
+
+  return { versions, transaction };
+}
+
+describe("pgWorkflowRepository.publish", () => {
+  let db: ReturnType<typeof createFakeDb>;
+
+  beforeEach(() => {
+    db = createFakeDb();
+    vi.mocked(pgDb.transaction).mockImplementation(db.transaction as any);
+  });
+
+  it("should number concurrent publishes one after another", async () => {
+    const published = await Promise.all([
+      pgWorkflowRepository.publish("workflow", "user-1"),
+      pgWorkflowRepository.publish("workflow", "user-2"),
+    ]);
+
+    expect(published.map((version) => version.version)).toEqual([1, 2]);
+    expect(db.versions.map((version) => version.version)).toEqual([1, 2]);
+  });
+});
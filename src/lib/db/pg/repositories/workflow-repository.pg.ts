@@ -5,13 +5,16 @@ import {
   WorkflowEdgeSchema,
   WorkflowNodeDataSchema,
   WorkflowSchema,
+  WorkflowVersionSchema,
 } from "../schema.pg";
 import {
   DBWorkflow,
   DBEdge,
   DBNode,
+  DBWorkflowVersion,
   WorkflowRepository,
   WorkflowSummary,
+  WorkflowVersionSummary,
 } from "app-types/workflow";
 import { NodeKind } from "lib/ai/workflow/workflow.interface";
 import { createUINode } from "lib/ai/workflow/create-ui-node";
@@ -22,36 +25,42 @@ import {
 import { ObjectJsonSchema7 } from "app-types/util";
 
 export const pgWorkflowRepository: WorkflowRepository = {
-  async selectToolByIds(ids) {
+  async selectToolByIds(ids, userId) {
     if (!ids.length) return [];
+    // Tools take the input schema of the latest published version
     const rows = await pgDb
-      .select({
+      .selectDistinctOn([WorkflowVersionSchema.workflowId], {
         id: WorkflowSchema.id,
         name: WorkflowSchema.name,
         description: WorkflowSchema.description,
-        schema: WorkflowNodeDataSchema.nodeConfig,
+        nodes: WorkflowVersionSchema.nodes,
       })
       .from(WorkflowSchema)
       .innerJoin(
-        WorkflowNodeDataSchema,
-        and(
-          eq(WorkflowNodeDataSchema.workflowId, WorkflowSchema.id),
-          eq(WorkflowNodeDataSchema.kind, NodeKind.Input),
-        ),
+        WorkflowVersionSchema,
+        eq(WorkflowVersionSchema.workflowId, WorkflowSchema.id),
       )
       .where(
         and(
           inArray(WorkflowSchema.id, ids),
           eq(WorkflowSchema.isPublished, true),
+          or(
+            eq(WorkflowSchema.userId, userId),
+            not(eq(WorkflowSchema.visibility, "private")),
+          ),
         ),
+      )
+      .orderBy(
+        WorkflowVersionSchema.workflowId,
+        desc(WorkflowVersionSchema.version),
       );
     return rows.map(
-      (data) =>
+      ({ nodes, ...data }) =>
         ({
           ...data,
           schema:
-            data.schema?.outputSchema ||
-            structuredClone(defaultObjectJsonSchema),
+            nodes.find((node) => node.kind == NodeKind.Input)?.nodeConfig
+              .outputSchema || structuredClone(defaultObjectJsonSchema),
         }) as {
           id: string;
           name: string;
@@ -70,6 +79,7 @@ export const pgWorkflowRepository: WorkflowRepository = {
         icon: WorkflowSchema.icon,
         visibility: WorkflowSchema.visibility,
         isPublished: WorkflowSchema.isPublished,
+        isTemplate: WorkflowSchema.isTemplate,
         userId: WorkflowSchema.userId,
         userName: UserSchema.name,
         userAvatar: UserSchema.image,
@@ -97,6 +107,7 @@ export const pgWorkflowRepository: WorkflowRepository = {
         icon: WorkflowSchema.icon,
         visibility: WorkflowSchema.visibility,
         isPublished: WorkflowSchema.isPublished,
+        isTemplate: WorkflowSchema.isTemplate,
         userId: WorkflowSchema.userId,
         userName: UserSchema.name,
         userAvatar: UserSchema.image,
@@ -113,6 +124,36 @@ export const pgWorkflowRepository: WorkflowRepository = {
       .orderBy(desc(WorkflowSchema.createdAt));
     return rows as WorkflowSummary[];
   },
+  async selectTemplates(userId) {
+    const rows = await pgDb
+      .select({
+        id: WorkflowSchema.id,
+        name: WorkflowSchema.name,
+        description: WorkflowSchema.description,
+        icon: WorkflowSchema.icon,
+        visibility: WorkflowSchema.visibility,
+        isPublished: WorkflowSchema.isPublished,
+        isTemplate: WorkflowSchema.isTemplate,
+        userId: WorkflowSchema.userId,
+        userName: UserSchema.name,
+        userAvatar: UserSchema.image,
+        updatedAt: WorkflowSchema.updatedAt,
+      })
+      .from(WorkflowSchema)
+      .innerJoin(UserSchema, eq(WorkflowSchema.userId, UserSchema.id))
+      .where(
+        and(
+          eq(WorkflowSchema.isTemplate, true),
+          eq(WorkflowSchema.isPublished, true),
+          or(
+            eq(WorkflowSchema.userId, userId),
+            not(eq(WorkflowSchema.visibility, "private")),
+          ),
+        ),
+      )
+      .orderBy(desc(WorkflowSchema.updatedAt));
+    return rows as WorkflowSummary[];
+  },
   async selectById(id) {
     const [workflow] = await pgDb
       .select()
@@ -246,6 +287,31 @@ export const pgWorkflowRepository: WorkflowRepository = {
 
     if (!workflow) return null;
 
+    if (opt?.snapshot) {
+      const [version] = await pgDb
+        .select()
+        .from(WorkflowVersionSchema)
+        .where(
+          and(
+            eq(WorkflowVersionSchema.workflowId, id),
+            opt.snapshot == "latest"
+              ? undefined
+              : eq(WorkflowVersionSchema.version, opt.snapshot),
+          ),
+        )
+        .orderBy(desc(WorkflowVersionSchema.version))
+        .limit(1);
+      if (!version) return null;
+      return {
+        ...(workflow as DBWorkflow),
+        nodes: opt.ignoreNote
+          ? version.nodes.filter((node) => node.kind != NodeKind.Note)
+          : version.nodes,
+        edges: version.edges,
+        snapshot: version.version,
+      };
+    }
+
     const nodeWhere = opt?.ignoreNote
       ? and(
           eq(WorkflowNodeDataSchema.workflowId, id),
@@ -268,4 +334,106 @@ export const pgWorkflowRepository: WorkflowRepository = {
       edges: edges as DBEdge[],
     };
   },
+  async publish(workflowId, userId) {
+    return pgDb.transaction(async (tx) => {
+      // Lock the workflow so concurrent publishes number their versions one after another
+      await tx
+        .select({ id: WorkflowSchema.id })
+        .from(WorkflowSchema)
+        .where(eq(WorkflowSchema.id, workflowId))
+        .for("update");
+      const [nodes, edges, [latest]] = await Promise.all([
+        tx
+          .select()
+          .from(WorkflowNodeDataSchema)
+          .where(eq(WorkflowNodeDataSchema.workflowId, workflowId)),
+        tx
+          .select()
+          .from(WorkflowEdgeSchema)
+          .where(eq(WorkflowEdgeSchema.workflowId, workflowId)),
+        tx
+          .select({ version: WorkflowVersionSchema.version })
+          .from(WorkflowVersionSchema)
+          .where(eq(WorkflowVersionSchema.workflowId, workflowId))
+          .orderBy(desc(WorkflowVersionSchema.version))
+          .limit(1),
+      ]);
+      const [version] = await tx
+        .insert(WorkflowVersionSchema)
+        .values({
+          workflowId,
+          userId,
+          version: (latest?.version ?? 0) + 1,
+          nodes: nodes as DBNode[],
+          edges: edges as DBEdge[],
+        })
+        .returning();
+      await tx
+        .update(WorkflowSchema)
+        .set({ isPublished: true, updatedAt: new Date() })
+        .where(eq(WorkflowSchema.id, workflowId));
+      return version as DBWorkflowVersion;
+    });
+  },
+  async selectVersions(workflowId) {
+    const rows = await pgDb
+      .select({
+        id: WorkflowVersionSchema.id,
+        workflowId: WorkflowVersionSchema.workflowId,
+        version: WorkflowVersionSchema.version,
+        userId: WorkflowVersionSchema.userId,
+        userName: UserSchema.name,
+        createdAt: WorkflowVersionSchema.createdAt,
+      })
+      .from(WorkflowVersionSchema)
+      .innerJoin(UserSchema, eq(WorkflowVersionSchema.userId, UserSchema.id))
+      .where(eq(WorkflowVersionSchema.workflowId, workflowId))
+      .orderBy(desc(WorkflowVersionSchema.version));
+    return rows as WorkflowVersionSummary[];
+  },
+  async selectVersion(workflowId, version) {
+    const [row] = await pgDb
+      .select()
+      .from(WorkflowVersionSchema)
+      .where(
+        and(
+          eq(WorkflowVersionSchema.workflowId, workflowId),
+          eq(WorkflowVersionSchema.version, version),
+        ),
+      );
+    return (row as DBWorkflowVersion) ?? null;
+  },
+  async rollback(workflowId, version) {
+    const snapshot = await this.selectVersion(workflowId, version);
+    if (!snapshot) {
+      throw new Error("Workflow version not found");
+    }
+    await pgDb.transaction(async (tx) => {
+      // Edges go with their nodes through the cascade
+      await tx
+        .delete(WorkflowNodeDataSchema)
+        .where(eq(WorkflowNodeDataSchema.workflowId, workflowId));
+      if (snapshot.nodes.length) {
+        await tx.insert(WorkflowNodeDataSchema).values(
+          snapshot.nodes.map((node) => ({
+            ...node,
+            createdAt: new Date(node.createdAt),
+            updatedAt: new Date(),
+          })),
+        );
+      }
+      if (snapshot.edges.length) {
+        await tx.insert(WorkflowEdgeSchema).values(
+          snapshot.edges.map((edge) => ({
+            ...edge,
+            createdAt: new Date(edge.createdAt),
+          })),
+        );
+      }
+      await tx
+        .update(WorkflowSchema)
+        .set({ updatedAt: new Date() })
+        .where(eq(WorkflowSchema.id, workflowId));
+    });
+  },
 };
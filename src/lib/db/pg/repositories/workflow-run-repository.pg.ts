@@ -0,0 +1,111 @@
+import { and, asc, desc, eq, inArray, ne } from "drizzle-orm";
+import { pgDb as db } from "../db.pg";
+import { WorkflowRunNodeSchema, WorkflowRunSchema } from "../schema.pg";
+import {
+  DBWorkflowRun,
+  DBWorkflowRunNode,
+  WorkflowRunRepository,
+} from "app-types/workflow";
+
+export const pgWorkflowRunRepository: WorkflowRunRepository = {
+  async insertRun(run) {
+    const [result] = await db
+      .insert(WorkflowRunSchema)
+      .values({
+        workflowId: run.workflowId,
+        userId: run.userId,
+        input: run.input,
+        startNodeId: run.startNodeId,
+        replayOfRunId: run.replayOfRunId,
+        trigger: run.trigger ?? "manual",
+        version: run.version,
+        dryRun: run.dryRun ?? false,
+        status: "running",
+        startedAt: new Date(),
+      })
+      .returning();
+    return result as DBWorkflowRun;
+  },
+
+  async finishRun(id, result) {
+    await db
+      .update(WorkflowRunSchema)
+      .set({
+        status: result.status,
+        output: result.output,
+        error: result.error,
+        endedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(WorkflowRunSchema.id, id),
+          // A run cancelled while it kept executing elsewhere stays cancelled
+          ne(WorkflowRunSchema.status, "cancelled"),
+        ),
+      );
+  },
+
+  async cancelRun(id) {
+    const rows = await db
+      .update(WorkflowRunSchema)
+      .set({ status: "cancelled", endedAt: new Date() })
+      .where(
+        and(
+          eq(WorkflowRunSchema.id, id),
+          inArray(WorkflowRunSchema.status, ["running", "waiting"]),
+        ),
+      )
+      .returning({ id: WorkflowRunSchema.id });
+    return rows.length > 0;
+  },
+
+  async resumeRun(id) {
+    const rows = await db
+      .update(WorkflowRunSchema)
+      .set({ status: "running", endedAt: null })
+      .where(
+        and(
+          eq(WorkflowRunSchema.id, id),
+          eq(WorkflowRunSchema.status, "waiting"),
+        ),
+      )
+      .returning({ id: WorkflowRunSchema.id });
+    return rows.length > 0;
+  },
+
+  async insertRunNode(node) {
+    await db.insert(WorkflowRunNodeSchema).values(node);
+  },
+
+  async selectRunsByWorkflowId(workflowId, userId, limit = 50) {
+    const rows = await db
+      .select()
+      .from(WorkflowRunSchema)
+      .where(
+        and(
+          eq(WorkflowRunSchema.workflowId, workflowId),
+          eq(WorkflowRunSchema.userId, userId),
+        ),
+      )
+      .orderBy(desc(WorkflowRunSchema.startedAt))
+      .limit(limit);
+    return rows as DBWorkflowRun[];
+  },
+
+  async selectRunById(id) {
+    const [run] = await db
+      .select()
+      .from(WorkflowRunSchema)
+      .where(eq(WorkflowRunSchema.id, id));
+    if (!run) return null;
+    const nodes = await db
+      .select()
+      .from(WorkflowRunNodeSchema)
+      .where(eq(WorkflowRunNodeSchema.runId, id))
+      .orderBy(asc(WorkflowRunNodeSchema.startedAt));
+    return {
+      ...(run as DBWorkflowRun),
+      nodes: nodes as DBWorkflowRunNode[],
+    };
+  },
+};
@@ -0,0 +1,64 @@
+import { asc, eq } from "drizzle-orm";
+import { pgDb as db } from "../db.pg";
+import { WorkflowScheduleSchema } from "../schema.pg";
+import {
+  DBWorkflowSchedule,
+  WorkflowScheduleRepository,
+} from "app-types/workflow";
+
+export const pgWorkflowScheduleRepository: WorkflowScheduleRepository = {
+  async selectByWorkflowId(workflowId) {
+    const rows = await db
+      .select()
+      .from(WorkflowScheduleSchema)
+      .where(eq(WorkflowScheduleSchema.workflowId, workflowId))
+      .orderBy(asc(WorkflowScheduleSchema.createdAt));
+    return rows as DBWorkflowSchedule[];
+  },
+
+  async selectById(id) {
+    const [row] = await db
+      .select()
+      .from(WorkflowScheduleSchema)
+      .where(eq(WorkflowScheduleSchema.id, id));
+    return (row as DBWorkflowSchedule) ?? null;
+  },
+
+  async selectEnabled() {
+    const rows = await db
+      .select()
+      .from(WorkflowScheduleSchema)
+      .where(eq(WorkflowScheduleSchema.enabled, true));
+    return rows as DBWorkflowSchedule[];
+  },
+
+  async save(schedule) {
+    const [row] = await db
+      .insert(WorkflowScheduleSchema)
+      .values(schedule)
+      .onConflictDoUpdate({
+        target: [WorkflowScheduleSchema.id],
+        set: {
+          cron: schedule.cron,
+          input: schedule.input,
+          enabled: schedule.enabled,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return row as DBWorkflowSchedule;
+  },
+
+  async updateLastRun(id, lastRunId, lastRunAt) {
+    await db
+      .update(WorkflowScheduleSchema)
+      .set({ lastRunId, lastRunAt })
+      .where(eq(WorkflowScheduleSchema.id, id));
+  },
+
+  async delete(id) {
+    await db
+      .delete(WorkflowScheduleSchema)
+      .where(eq(WorkflowScheduleSchema.id, id));
+  },
+};
@@ -0,0 +1,50 @@
+import { asc, eq } from "drizzle-orm";
+import { pgDb as db } from "../db.pg";
+import { WorkflowTestCaseSchema } from "../schema.pg";
+import {
+  DBWorkflowTestCase,
+  WorkflowTestCaseRepository,
+} from "app-types/workflow";
+
+export const pgWorkflowTestCaseRepository: WorkflowTestCaseRepository = {
+  async selectByWorkflowId(workflowId) {
+    const rows = await db
+      .select()
+      .from(WorkflowTestCaseSchema)
+      .where(eq(WorkflowTestCaseSchema.workflowId, workflowId))
+      .orderBy(asc(WorkflowTestCaseSchema.createdAt));
+    return rows as DBWorkflowTestCase[];
+  },
+
+  async selectById(id) {
+    const [row] = await db
+      .select()
+      .from(WorkflowTestCaseSchema)
+      .where(eq(WorkflowTestCaseSchema.id, id));
+    return (row as DBWorkflowTestCase) ?? null;
+  },
+
+  async save(testCase) {
+    const [row] = await db
+      .insert(WorkflowTestCaseSchema)
+      .values(testCase)
+      .onConflictDoUpdate({
+        target: [WorkflowTestCaseSchema.id],
+        set: {
+          name: testCase.name,
+          input: testCase.input,
+          assertions: testCase.assertions,
+          dryRun: testCase.dryRun,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return row as DBWorkflowTestCase;
+  },
+
+  async delete(id) {
+    await db
+      .delete(WorkflowTestCaseSchema)
+      .where(eq(WorkflowTestCaseSchema.id, id));
+  },
+};
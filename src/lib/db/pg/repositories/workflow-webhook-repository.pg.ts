@@ -0,0 +1,39 @@
+import { eq } from "drizzle-orm";
+import { pgDb as db } from "../db.pg";
+import { WorkflowWebhookSchema } from "../schema.pg";
+import {
+  DBWorkflowWebhook,
+  WorkflowWebhookRepository,
+} from "app-types/workflow";
+
+export const pgWorkflowWebhookRepository: WorkflowWebhookRepository = {
+  async selectByWorkflowId(workflowId) {
+    const [row] = await db
+      .select()
+      .from(WorkflowWebhookSchema)
+      .where(eq(WorkflowWebhookSchema.workflowId, workflowId));
+    return (row as DBWorkflowWebhook) ?? null;
+  },
+
+  async rotateToken(workflowId, userId, token) {
+    const [row] = await db
+      .insert(WorkflowWebhookSchema)
+      .values({ workflowId, userId, token })
+      .onConflictDoUpdate({
+        target: [WorkflowWebhookSchema.workflowId],
+        set: {
+          userId,
+          token,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return row as DBWorkflowWebhook;
+  },
+
+  async delete(workflowId) {
+    await db
+      .delete(WorkflowWebhookSchema)
+      .where(eq(WorkflowWebhookSchema.workflowId, workflowId));
+  },
+};
@@ -12,9 +12,20 @@ import {
   unique,
   varchar,
   index,
+  integer,
+  customType,
 } from "drizzle-orm/pg-core";
 import { isNotNull } from "drizzle-orm";
-import { DBWorkflow, DBEdge, DBNode } from "app-types/workflow";
+import {
+  DBWorkflow,
+  DBEdge,
+  DBNode,
+  DBWorkflowRun,
+  DBWorkflowRunNode,
+  DBWorkflowSchedule,
+  DBWorkflowTestCase,
+} from "app-types/workflow";
+import { HttpAuthConfig } from "app-types/secret";
 import { UIMessage } from "ai";
 import { ChatMetadata } from "app-types/chat";
 
@@ -24,18 +35,52 @@ export const ChatThreadSchema = pgTable("chat_thread", {
   userId: uuid("user_id")
     .notNull()
     .references(() => UserSchema.id),
+  activeLeafId: text("active_leaf_id"), // Last message of the branch that is shown
+  forkedFromThreadId: uuid("forked_from_thread_id"), // Thread this one was forked from
   createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
 });
 
-export const ChatMessageSchema = pgTable("chat_message", {
-  id: text("id").primaryKey().notNull(),
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+export const ChatMessageSchema = pgTable(
+  "chat_message",
+  {
+    id: text("id").primaryKey().notNull(),
+    threadId: uuid("thread_id")
+      .notNull()
+      .references(() => ChatThreadSchema.id),
+    role: text("role").notNull().$type<UIMessage["role"]>(),
+    parts: json("parts").notNull().array().$type<UIMessage["parts"]>(),
+    metadata: json("metadata").$type<ChatMetadata>(),
+    parentId: text("parent_id"),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    // Words of the text parts, chat_message_search_text is defined in the migrations
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      sql`to_tsvector('simple', chat_message_search_text(parts))`,
+    ),
+  },
+  (t) => [index("chat_message_search_idx").using("gin", t.searchVector)],
+);
+
+export const ChatThreadShareSchema = pgTable("chat_thread_share", {
+  id: uuid("id").primaryKey().notNull().defaultRandom(),
   threadId: uuid("thread_id")
     .notNull()
-    .references(() => ChatThreadSchema.id),
-  role: text("role").notNull().$type<UIMessage["role"]>(),
-  parts: json("parts").notNull().array().$type<UIMessage["parts"]>(),
-  metadata: json("metadata").$type<ChatMetadata>(),
+    .unique()
+    .references(() => ChatThreadSchema.id, { onDelete: "cascade" }),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => UserSchema.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  redactToolInputs: boolean("redact_tool_inputs").notNull().default(false),
   createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
 });
 
 export const AgentSchema = pgTable("agent", {
@@ -194,6 +239,7 @@ export const WorkflowSchema = pgTable("workflow", {
   icon: json("icon").$type<DBWorkflow["icon"]>(),
   description: text("description"),
   isPublished: boolean("is_published").notNull().default(false),
+  isTemplate: boolean("is_template").notNull().default(false),
   visibility: varchar("visibility", {
     enum: ["public", "private", "readonly"],
   })
@@ -247,6 +293,152 @@ export const WorkflowEdgeSchema = pgTable("workflow_edge", {
   createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
 });
 
+export const WorkflowVersionSchema = pgTable(
+  "workflow_version",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    workflowId: uuid("workflow_id")
+      .notNull()
+      .references(() => WorkflowSchema.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    nodes: json("nodes").$type<DBNode[]>().notNull(),
+    edges: json("edges").$type<DBEdge[]>().notNull(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => UserSchema.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (t) => [unique().on(t.workflowId, t.version)],
+);
+
+export const WorkflowRunSchema = pgTable(
+  "workflow_run",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    workflowId: uuid("workflow_id")
+      .notNull()
+      .references(() => WorkflowSchema.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => UserSchema.id, { onDelete: "cascade" }),
+    status: varchar("status", {
+      enum: ["running", "success", "fail", "waiting", "cancelled"],
+    })
+      .notNull()
+      .default("running"),
+    trigger: varchar("trigger", {
+      enum: ["manual", "schedule", "webhook", "chat"],
+    })
+      .notNull()
+      .default("manual"),
+    input: json("input").$type<DBWorkflowRun["input"]>(),
+    output: json("output").$type<DBWorkflowRun["output"]>(),
+    error: json("error").$type<DBWorkflowRun["error"]>(),
+    startNodeId: uuid("start_node_id"),
+    replayOfRunId: uuid("replay_of_run_id"),
+    version: integer("version"),
+    dryRun: boolean("dry_run").notNull().default(false),
+    startedAt: timestamp("started_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    endedAt: timestamp("ended_at"),
+  },
+  (t) => [index("workflow_run_workflow_id_idx").on(t.workflowId, t.userId)],
+);
+
+export const WorkflowRunNodeSchema = pgTable(
+  "workflow_run_node",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    runId: uuid("run_id")
+      .notNull()
+      .references(() => WorkflowRunSchema.id, { onDelete: "cascade" }),
+    nodeId: uuid("node_id").notNull(),
+    name: text("name").notNull(),
+    kind: text("kind").notNull(),
+    status: varchar("status", {
+      enum: ["success", "fail", "waiting", "cancelled"],
+    }).notNull(),
+    input: json("input").$type<DBWorkflowRunNode["input"]>(),
+    output: json("output").$type<DBWorkflowRunNode["output"]>(),
+    error: json("error").$type<DBWorkflowRunNode["error"]>(),
+    attempts: json("attempts").$type<DBWorkflowRunNode["attempts"]>(),
+    toolCalls: json("tool_calls").$type<DBWorkflowRunNode["toolCalls"]>(),
+    usage: json("usage").$type<DBWorkflowRunNode["usage"]>(),
+    startedAt: timestamp("started_at").notNull(),
+    endedAt: timestamp("ended_at").notNull(),
+  },
+  (t) => [index("workflow_run_node_run_id_idx").on(t.runId)],
+);
+
+export const WorkflowScheduleSchema = pgTable(
+  "workflow_schedule",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    workflowId: uuid("workflow_id")
+      .notNull()
+      .references(() => WorkflowSchema.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => UserSchema.id, { onDelete: "cascade" }),
+    cron: text("cron").notNull(),
+    input: json("input").$type<DBWorkflowSchedule["input"]>().default({}),
+    enabled: boolean("enabled").notNull().default(true),
+    lastRunId: uuid("last_run_id"),
+    lastRunAt: timestamp("last_run_at"),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (t) => [index("workflow_schedule_workflow_id_idx").on(t.workflowId)],
+);
+
+export const WorkflowTestCaseSchema = pgTable(
+  "workflow_test_case",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    workflowId: uuid("workflow_id")
+      .notNull()
+      .references(() => WorkflowSchema.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => UserSchema.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    input: json("input").$type<DBWorkflowTestCase["input"]>().default({}),
+    assertions: json("assertions")
+      .$type<DBWorkflowTestCase["assertions"]>()
+      .notNull()
+      .default([]),
+    dryRun: boolean("dry_run").notNull().default(false),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (t) => [index("workflow_test_case_workflow_id_idx").on(t.workflowId)],
+);
+
+export const WorkflowWebhookSchema = pgTable("workflow_webhook", {
+  id: uuid("id").primaryKey().notNull().defaultRandom(),
+  workflowId: uuid("workflow_id")
+    .notNull()
+    .unique()
+    .references(() => WorkflowSchema.id, { onDelete: "cascade" }),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => UserSchema.id, { onDelete: "cascade" }),
+  token: text("token").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
 export const ArchiveSchema = pgTable("archive", {
   id: uuid("id").primaryKey().notNull().defaultRandom(),
   name: text("name").notNull(),
@@ -303,9 +495,48 @@ export const McpOAuthSessionSchema = pgTable(
   ],
 );
 
+export const SecretSchema = pgTable(
+  "secret",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => UserSchema.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    value: text("value").notNull(), // encrypted
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (t) => [unique().on(t.userId, t.name)],
+);
+
+export const HttpAuthProfileSchema = pgTable(
+  "http_auth_profile",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => UserSchema.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    config: json("config").$type<HttpAuthConfig>().notNull(),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (t) => [unique().on(t.userId, t.name)],
+);
+
 export type McpServerEntity = typeof McpServerSchema.$inferSelect;
 export type ChatThreadEntity = typeof ChatThreadSchema.$inferSelect;
 export type ChatMessageEntity = typeof ChatMessageSchema.$inferSelect;
+export type ChatThreadShareEntity = typeof ChatThreadShareSchema.$inferSelect;
 
 export type AgentEntity = typeof AgentSchema.$inferSelect;
 export type UserEntity = typeof UserSchema.$inferSelect;
@@ -314,6 +545,12 @@ export type ToolCustomizationEntity =
 export type McpServerCustomizationEntity =
   typeof McpServerCustomizationSchema.$inferSelect;
 
+export type WorkflowRunEntity = typeof WorkflowRunSchema.$inferSelect;
+export type WorkflowRunNodeEntity = typeof WorkflowRunNodeSchema.$inferSelect;
+export type WorkflowWebhookEntity = typeof WorkflowWebhookSchema.$inferSelect;
+export type WorkflowScheduleEntity = typeof WorkflowScheduleSchema.$inferSelect;
+export type WorkflowVersionEntity = typeof WorkflowVersionSchema.$inferSelect;
+
 export type ArchiveEntity = typeof ArchiveSchema.$inferSelect;
 export type ArchiveItemEntity = typeof ArchiveItemSchema.$inferSelect;
 export type BookmarkEntity = typeof BookmarkSchema.$inferSelect;
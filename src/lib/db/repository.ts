@@ -1,15 +1,23 @@
 import { pgChatRepository } from "./pg/repositories/chat-repository.pg";
+import { pgChatThreadShareRepository } from "./pg/repositories/chat-thread-share-repository.pg";
 import { pgUserRepository } from "./pg/repositories/user-repository.pg";
 import { pgMcpRepository } from "./pg/repositories/mcp-repository.pg";
 import { pgMcpMcpToolCustomizationRepository } from "./pg/repositories/mcp-tool-customization-repository.pg";
 import { pgMcpServerCustomizationRepository } from "./pg/repositories/mcp-server-customization-repository.pg";
 import { pgWorkflowRepository } from "./pg/repositories/workflow-repository.pg";
+import { pgWorkflowRunRepository } from "./pg/repositories/workflow-run-repository.pg";
+import { pgWorkflowScheduleRepository } from "./pg/repositories/workflow-schedule-repository.pg";
+import { pgWorkflowWebhookRepository } from "./pg/repositories/workflow-webhook-repository.pg";
+import { pgWorkflowTestCaseRepository } from "./pg/repositories/workflow-test-case-repository.pg";
 import { pgAgentRepository } from "./pg/repositories/agent-repository.pg";
 import { pgArchiveRepository } from "./pg/repositories/archive-repository.pg";
 import { pgMcpOAuthRepository } from "./pg/repositories/mcp-oauth-repository.pg";
 import { pgBookmarkRepository } from "./pg/repositories/bookmark-repository.pg";
+import { pgSecretRepository } from "./pg/repositories/secret-repository.pg";
+import { pgHttpAuthProfileRepository } from "./pg/repositories/http-auth-profile-repository.pg";
 
 export const chatRepository = pgChatRepository;
+export const chatThreadShareRepository = pgChatThreadShareRepository;
 export const userRepository = pgUserRepository;
 export const mcpRepository = pgMcpRepository;
 export const mcpMcpToolCustomizationRepository =
@@ -19,6 +27,12 @@ export const mcpServerCustomizationRepository =
 export const mcpOAuthRepository = pgMcpOAuthRepository;
 
 export const workflowRepository = pgWorkflowRepository;
+export const workflowRunRepository = pgWorkflowRunRepository;
+export const workflowScheduleRepository = pgWorkflowScheduleRepository;
+export const workflowWebhookRepository = pgWorkflowWebhookRepository;
+export const workflowTestCaseRepository = pgWorkflowTestCaseRepository;
 export const agentRepository = pgAgentRepository;
 export const archiveRepository = pgArchiveRepository;
 export const bookmarkRepository = pgBookmarkRepository;
+export const secretRepository = pgSecretRepository;
+export const httpAuthProfileRepository = pgHttpAuthProfileRepository;
@@ -71,6 +71,15 @@ const openChatPreferencesShortcut: Shortcut = {
   },
 };
 
+const openChatSearchShortcut: Shortcut = {
+  description: "openChatSearch",
+  shortcut: {
+    key: "F",
+    command: true,
+    shift: true,
+  },
+};
+
 const deleteThreadShortcut: Shortcut = {
   description: "deleteThread",
   shortcut: {
@@ -90,6 +99,7 @@ const openShortcutsPopupShortcut: Shortcut = {
 export const Shortcuts = {
   openNewChat: openNewChatShortcut,
   openChatPreferences: openChatPreferencesShortcut,
+  openChatSearch: openChatSearchShortcut,
   toggleTemporaryChat: toggleTemporaryChatShortcut,
   toggleVoiceChat: toggleVoiceChatShortcut,
   toggleSidebar: toggleSidebarShortcut,
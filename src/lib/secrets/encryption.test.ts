@@ -0,0 +1,33 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { decryptSecret, encryptSecret } from "./encryption";
+
+describe("secret encryption", () => {
+  beforeEach(() => {
+    vi.stubEnv("SECRETS_ENCRYPTION_KEY", "test-key");
+  });
+
+  it("should decrypt what it encrypts with a fresh iv each time", () => {
+    const first = encryptSecret("sk-123");
+    const second = encryptSecret("sk-123");
+    expect(first).not.toBe(second);
+    expect(first).not.toContain("sk-123");
+    expect(decryptSecret(first)).toBe("sk-123");
+    expect(decryptSecret(second)).toBe("sk-123");
+  });
+
+  it("should reject tampered payloads and other keys", () => {
+    const payload = encryptSecret("sk-123");
+    const [version, iv, tag, encrypted] = payload.split(":");
+    const tampered = Buffer.from(encrypted, "base64");
+    tampered[0] ^= 1;
+    expect(() =>
+      decryptSecret([version, iv, tag, tampered.toString("base64")].join(":")),
+    ).toThrow();
+    expect(() => decryptSecret("not-a-secret")).toThrow(
+      "Invalid encrypted secret",
+    );
+
+    vi.stubEnv("SECRETS_ENCRYPTION_KEY", "other-key");
+    expect(() => decryptSecret(payload)).toThrow();
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "node:crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+
+function getKey(): Buffer {
+  const source =
+    process.env.SECRETS_ENCRYPTION_KEY || process.env.BETTER_AUTH_SECRET;
+  if (!source) {
+    throw new Error(
+      "SECRETS_ENCRYPTION_KEY or BETTER_AUTH_SECRET must be set to store secrets",
+    );
+  }
+  return createHash("sha256").update(source).digest();
+}
+
+/**
+ * Encrypts a secret value as `v1:<iv>:<auth tag>:<ciphertext>` in base64.
+ */
+export function encryptSecret(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(value, "utf8"),
+    cipher.final(),
+  ]);
+  return [
+    VERSION,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    encrypted.toString("base64"),
+  ].join(":");
+}
+
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, encrypted] = payload.split(":");
+  if (version !== VERSION || !iv || !tag || encrypted === undefined) {
+    throw new Error("Invalid encrypted secret");
+  }
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    getKey(),
+    Buffer.from(iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
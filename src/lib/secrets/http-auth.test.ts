@@ -0,0 +1,160 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  applyHttpAuth,
+  isHttpAuthAllowedUrl,
+  REDACTED,
+  redactSecrets,
+  resolveHttpAuth,
+} from "./http-auth";
+
+const getSecret = async (name: string) => `${name}-value`;
+
+describe("resolveHttpAuth", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should resolve bearer, basic and api key profiles", async () => {
+    await expect(
+      resolveHttpAuth(
+        { type: "bearer", secret: "token", allowedHosts: ["example.com"] },
+        getSecret,
+      ),
+    ).resolves.toEqual({
+      headers: { Authorization: "Bearer token-value" },
+      query: {},
+      secrets: ["token-value"],
+    });
+
+    const basic = await resolveHttpAuth(
+      {
+        type: "basic",
+        username: "ada",
+        secret: "password",
+        allowedHosts: ["example.com"],
+      },
+      getSecret,
+    );
+    expect(basic.headers.Authorization).toBe(
+      `Basic ${Buffer.from("ada:password-value").toString("base64")}`,
+    );
+
+    await expect(
+      resolveHttpAuth(
+        {
+          type: "api-key",
+          in: "query",
+          key: "api_key",
+          secret: "key",
+          allowedHosts: ["example.com"],
+        },
+        getSecret,
+      ),
+    ).resolves.toEqual({
+      headers: {},
+      query: { api_key: "key-value" },
+      secrets: ["key-value"],
+    });
+  });
+
+  it("should request and cache oauth2 client credentials tokens", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(
+        new Response(
+          JSON.stringify({ access_token: "access", expires_in: 3600 }),
+          { status: 200 },
+        ),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+    const config = {
+      type: "oauth2" as const,
+      tokenUrl: "https://auth.example.com/token",
+      clientId: "client",
+      scope: "read",
+      secret: "client-secret",
+      allowedHosts: ["api.example.com"],
+    };
+
+    const auth = await resolveHttpAuth(config, getSecret);
+    await resolveHttpAuth(config, getSecret);
+
+    expect(auth.headers).toEqual({ Authorization: "Bearer access" });
+    expect(auth.secrets).toEqual(["client-secret-value", "access"]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const body = new URLSearchParams(fetchMock.mock.calls[0][1].body);
+    expect(body.get("grant_type")).toBe("client_credentials");
+    expect(body.get("client_secret")).toBe("client-secret-value");
+    expect(body.get("scope")).toBe("read");
+  });
+});
+
+describe("isHttpAuthAllowedUrl", () => {
+  it("should only allow the profile's hosts and their listed subdomains", () => {
+    const hosts = ["api.github.com", "*.example.com"];
+    expect(isHttpAuthAllowedUrl("https://api.github.com/user", hosts)).toBe(
+      true,
+    );
+    expect(isHttpAuthAllowedUrl("https://API.GitHub.com:443/", hosts)).toBe(
+      true,
+    );
+    expect(isHttpAuthAllowedUrl("https://a.b.example.com/x", hosts)).toBe(true);
+
+    expect(isHttpAuthAllowedUrl("https://evil.com/api.github.com", hosts)).toBe(
+      false,
+    );
+    expect(isHttpAuthAllowedUrl("https://api.github.com.evil.com", hosts)).toBe(
+      false,
+    );
+    expect(
+      isHttpAuthAllowedUrl("https://api.github.com@evil.com/", hosts),
+    ).toBe(false);
+    expect(isHttpAuthAllowedUrl("https://example.com", hosts)).toBe(false);
+    expect(isHttpAuthAllowedUrl("https://notexample.com", hosts)).toBe(false);
+    expect(isHttpAuthAllowedUrl("not a url", hosts)).toBe(false);
+    // Profiles saved before hosts were required
+    expect(isHttpAuthAllowedUrl("https://api.github.com", undefined)).toBe(
+      false,
+    );
+  });
+});
+
+describe("applyHttpAuth", () => {
+  it("should replace headers of the same name and append query parameters", () => {
+    expect(
+      applyHttpAuth(
+        {
+          url: "https://api.example.com/items?page=1",
+          headers: { authorization: "old", Accept: "application/json" },
+        },
+        {
+          headers: { Authorization: "Bearer new" },
+          query: { key: "a b" },
+          secrets: [],
+        },
+      ),
+    ).toEqual({
+      url: "https://api.example.com/items?page=1&key=a+b",
+      headers: { Accept: "application/json", Authorization: "Bearer new" },
+    });
+  });
+});
+
+describe("redactSecrets", () => {
+  it("should redact raw and url encoded secrets in nested values", () => {
+    expect(
+      redactSecrets(
+        {
+          url: "https://api.example.com?key=s%2Fcret",
+          headers: { Authorization: "Bearer s/cret" },
+          list: ["s/cret", 1, null],
+        },
+        ["s/cret"],
+      ),
+    ).toEqual({
+      url: `https://api.example.com?key=${REDACTED}`,
+      headers: { Authorization: `Bearer ${REDACTED}` },
+      list: [REDACTED, 1, null],
+    });
+  });
+});
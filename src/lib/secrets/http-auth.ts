@@ -0,0 +1,177 @@
+import { HttpAuthConfig } from "app-types/secret";
+
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Headers and query parameters that authenticate a request,
+ * and the secret values to redact wherever the request is recorded.
+ */
+export type ResolvedHttpAuth = {
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  secrets: string[];
+};
+
+/**
+ * Whether a profile bound to `allowedHosts` may authenticate a request to `url`.
+ * Profiles saved without hosts authenticate nothing until they are edited.
+ */
+export function isHttpAuthAllowedUrl(
+  url: string,
+  allowedHosts: string[] = [],
+): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return allowedHosts.some((pattern) => {
+    const host = pattern.toLowerCase();
+    return host.startsWith("*.")
+      ? hostname.endsWith(host.slice(1))
+      : hostname == host;
+  });
+}
+
+type OAuthToken = { accessToken: string; expiresAt: number };
+
+// Client credentials tokens are reused until shortly before they expire
+const oauthTokenCache = new Map<string, OAuthToken>();
+
+async function fetchOAuthToken(
+  config: Extract<HttpAuthConfig, { type: "oauth2" }>,
+  clientSecret: string,
+): Promise<string> {
+  const cacheKey = JSON.stringify([
+    config.tokenUrl,
+    config.clientId,
+    config.scope,
+    clientSecret,
+  ]);
+  const cached = oauthTokenCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.accessToken;
+
+  const response = await fetch(config.tokenUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: new URLSearchParams({
+      grant_type: "client_credentials",
+      client_id: config.clientId,
+      client_secret: clientSecret,
+      ...(config.scope ? { scope: config.scope } : {}),
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `OAuth2 token request failed: ${response.status} ${response.statusText}`,
+    );
+  }
+  const token = (await response.json()) as {
+    access_token?: string;
+    expires_in?: number;
+  };
+  if (!token.access_token) {
+    throw new Error("OAuth2 token response has no access_token");
+  }
+  const expiresIn = token.expires_in ?? 3600;
+  oauthTokenCache.set(cacheKey, {
+    accessToken: token.access_token,
+    expiresAt: Date.now() + Math.max(expiresIn - 60, 0) * 1000,
+  });
+  return token.access_token;
+}
+
+export async function resolveHttpAuth(
+  config: HttpAuthConfig,
+  getSecret: (name: string) => Promise<string>,
+): Promise<ResolvedHttpAuth> {
+  const secret = await getSecret(config.secret);
+  switch (config.type) {
+    case "bearer":
+      return {
+        headers: { Authorization: `Bearer ${secret}` },
+        query: {},
+        secrets: [secret],
+      };
+    case "basic": {
+      const credentials = Buffer.from(`${config.username}:${secret}`).toString(
+        "base64",
+      );
+      return {
+        headers: { Authorization: `Basic ${credentials}` },
+        query: {},
+        secrets: [secret, credentials],
+      };
+    }
+    case "api-key":
+      return config.in == "header"
+        ? { headers: { [config.key]: secret }, query: {}, secrets: [secret] }
+        : { headers: {}, query: { [config.key]: secret }, secrets: [secret] };
+    case "oauth2": {
+      const accessToken = await fetchOAuthToken(config, secret);
+      return {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        query: {},
+        secrets: [secret, accessToken],
+      };
+    }
+  }
+}
+
+/**
+ * Adds the auth headers and query parameters to a request.
+ * Auth headers replace headers of the same name, ignoring case.
+ */
+export function applyHttpAuth(
+  request: { url: string; headers: Record<string, string> },
+  auth: ResolvedHttpAuth,
+): { url: string; headers: Record<string, string> } {
+  const authHeaderNames = Object.keys(auth.headers).map((key) =>
+    key.toLowerCase(),
+  );
+  const headers = Object.fromEntries(
+    Object.entries(request.headers).filter(
+      ([key]) => !authHeaderNames.includes(key.toLowerCase()),
+    ),
+  );
+  const query = new URLSearchParams(auth.query).toString();
+  return {
+    url: query
+      ? `${request.url}${request.url.includes("?") ? "&" : "?"}${query}`
+      : request.url,
+    headers: { ...headers, ...auth.headers },
+  };
+}
+
+/**
+ * Replaces every occurrence of the secret values, raw or URL encoded,
+ * in the strings of a value.
+ */
+export function redactSecrets<T>(value: T, secrets: string[]): T {
+  const patterns = secrets
+    .filter(Boolean)
+    .flatMap((secret) => [secret, encodeURIComponent(secret)])
+    .sort((a, b) => b.length - a.length);
+  if (!patterns.length) return value;
+
+  const redact = (item: unknown): unknown => {
+    if (typeof item == "string") {
+      return patterns.reduce(
+        (text, pattern) => text.split(pattern).join(REDACTED),
+        item,
+      );
+    }
+    if (Array.isArray(item)) return item.map(redact);
+    if (item && typeof item == "object") {
+      return Object.fromEntries(
+        Object.entries(item).map(([key, v]) => [key, redact(v)]),
+      );
+    }
+    return item;
+  };
+  return redact(value) as T;
+}
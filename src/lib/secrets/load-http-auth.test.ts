@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("lib/db/repository", () => ({
+  httpAuthProfileRepository: {
+    selectByName: vi.fn(),
+  },
+  secretRepository: {
+    selectValues: vi.fn(),
+  },
+}));
+
+import { httpAuthProfileRepository, secretRepository } from "lib/db/repository";
+import { encryptSecret } from "./encryption";
+import { loadHttpAuth } from "./load-http-auth";
+
+describe("loadHttpAuth", () => {
+  beforeEach(() => {
+    vi.stubEnv("SECRETS_ENCRYPTION_KEY", "test-key");
+    vi.mocked(secretRepository.selectValues).mockReset();
+    vi.mocked(secretRepository.selectValues).mockResolvedValue([
+      { name: "github-token", value: encryptSecret("ghp-123") },
+    ]);
+    vi.mocked(httpAuthProfileRepository.selectByName).mockResolvedValue({
+      name: "github",
+      config: {
+        type: "bearer",
+        secret: "github-token",
+        allowedHosts: ["api.github.com"],
+      },
+    } as any);
+  });
+
+  it("should resolve the profile for its allowed hosts", async () => {
+    const auth = await loadHttpAuth(
+      "runner",
+      "github",
+      "https://api.github.com/user",
+    );
+    expect(auth.headers.Authorization).toBe("Bearer ghp-123");
+    expect(httpAuthProfileRepository.selectByName).toHaveBeenCalledWith(
+      "runner",
+      "github",
+    );
+  });
+
+  it("should reject other hosts before reading any secret", async () => {
+    // The URL comes from the workflow author or the model, not the profile owner
+    await expect(
+      loadHttpAuth("runner", "github", "https://attacker.example/collect"),
+    ).rejects.toThrow(
+      "Auth profile 'github' is not allowed to send requests to https://attacker.example/collect",
+    );
+
+    vi.mocked(httpAuthProfileRepository.selectByName).mockResolvedValue({
+      name: "github",
+      config: { type: "bearer", secret: "github-token" },
+    } as any);
+    await expect(
+      loadHttpAuth("runner", "github", "https://api.github.com/user"),
+    ).rejects.toThrow("is not allowed");
+    expect(secretRepository.selectValues).not.toHaveBeenCalled();
+  });
+});
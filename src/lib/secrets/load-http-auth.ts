@@ -0,0 +1,35 @@
+import { httpAuthProfileRepository, secretRepository } from "lib/db/repository";
+import { decryptSecret } from "./encryption";
+import {
+  isHttpAuthAllowedUrl,
+  resolveHttpAuth,
+  ResolvedHttpAuth,
+} from "./http-auth";
+
+/**
+ * Loads an auth profile of a user by name and resolves it with their secrets
+ * to authenticate a request to `url`, which must be one of the profile's hosts.
+ */
+export async function loadHttpAuth(
+  userId: string,
+  profileName: string,
+  url: string,
+): Promise<ResolvedHttpAuth> {
+  const profile = await httpAuthProfileRepository.selectByName(
+    userId,
+    profileName,
+  );
+  if (!profile) {
+    throw new Error(`Auth profile '${profileName}' not found`);
+  }
+  if (!isHttpAuthAllowedUrl(url, profile.config.allowedHosts)) {
+    throw new Error(
+      `Auth profile '${profileName}' is not allowed to send requests to ${url}`,
+    );
+  }
+  return resolveHttpAuth(profile.config, async (name) => {
+    const [secret] = await secretRepository.selectValues(userId, [name]);
+    if (!secret) throw new Error(`Secret '${name}' not found`);
+    return decryptSecret(secret.value);
+  });
+}
@@ -11,6 +11,14 @@ export async function middleware(request: NextRequest) {
   if (pathname.startsWith("/ping")) {
     return new Response("pong", { status: 200 });
   }
+  // Workflow webhooks authenticate with the token in their URL
+  if (/^\/api\/workflow\/[^/]+\/webhook\/[^/]+/.test(pathname)) {
+    return NextResponse.next();
+  }
+  // Shared threads are public, the token in the URL grants read access
+  if (pathname.startsWith("/share/")) {
+    return NextResponse.next();
+  }
   const sessionCookie = getSessionCookie(request);
 
   if (!sessionCookie) {
@@ -33,18 +33,38 @@ export type ChatThread = {
   id: string;
   title: string;
   userId: string;
+  forkedFromThreadId?: string | null;
+  activeLeafId?: string | null; // Last message of the branch that is shown
   createdAt: Date;
 };
 
+export type ChatThreadShare = {
+  id: string;
+  threadId: string;
+  userId: string;
+  token: string; // Unguessable part of the public link
+  redactToolInputs: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
 export type ChatMessage = {
   id: string;
   threadId: string;
   role: UIMessage["role"];
   parts: UIMessage["parts"];
   metadata?: ChatMetadata;
+  parentId?: string | null; // Message this one follows, null for the first message
   createdAt: Date;
 };
 
+/**
+ * Alternatives of the messages on a path, by message id.
+ * Each entry lists the message and its siblings, oldest first.
+ * Messages without alternatives are left out.
+ */
+export type MessageBranches = Record<string, string[]>;
+
 export const ChatMentionSchema = z.discriminatedUnion("type", [
   z.object({
     type: z.literal("mcpTool"),
@@ -99,6 +119,7 @@ export type ChatMention = z.infer<typeof ChatMentionSchema>;
 export const chatApiSchemaRequestBodySchema = z.object({
   id: z.string(),
   message: z.any() as z.ZodType<UIMessage>,
+  parentMessageId: z.string().optional(), // Message the new message follows
   chatModel: z
     .object({
       provider: z.string(),
@@ -115,6 +136,70 @@ export type ChatApiSchemaRequestBody = z.infer<
   typeof chatApiSchemaRequestBodySchema
 >;
 
+export const ChatThreadShareUpdateSchema = z.object({
+  redactToolInputs: z.boolean().default(false),
+});
+
+export const ChatSearchQuerySchema = z.object({
+  q: z.string().trim().min(1),
+  agentId: z.string().optional(),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+export type ChatSearchQuery = z.infer<typeof ChatSearchQuerySchema>;
+
+export const ChatExportFormatSchema = z.enum(["markdown", "json", "html"]);
+
+export type ChatExportFormat = z.infer<typeof ChatExportFormatSchema>;
+
+/**
+ * Lossless JSON export of a thread.
+ * Keeps every branch, so importing it restores the thread as it was.
+ */
+export const ChatThreadExportSchema = z.object({
+  version: z.literal(1),
+  thread: z.object({
+    id: z.string(),
+    title: z.string(),
+    activeLeafId: z.string().nullish(),
+    createdAt: z.coerce.date(),
+  }),
+  messages: z.array(
+    z.object({
+      id: z.string(),
+      role: z.enum(["system", "user", "assistant"]),
+      parts: z.array(z.any()) as z.ZodType<UIMessage["parts"]>,
+      metadata: z.any().optional() as z.ZodType<ChatMetadata | undefined>,
+      parentId: z.string().nullish(),
+      createdAt: z.coerce.date(),
+    }),
+  ),
+});
+
+export type ChatThreadExport = z.infer<typeof ChatThreadExportSchema>;
+
+/**
+ * Excerpt of a matching message, split where the search terms start and end.
+ */
+export type ChatSearchSnippet = {
+  text: string;
+  highlight: boolean;
+}[];
+
+export type ChatSearchResult = {
+  threadId: string;
+  threadTitle: string;
+  messageId: string;
+  role: UIMessage["role"];
+  metadata: ChatMetadata | null; // User messages take the metadata of their reply
+  createdAt: Date;
+  snippet: ChatSearchSnippet;
+};
+
 export type ChatRepository = {
   insertThread(thread: Omit<ChatThread, "createdAt">): Promise<ChatThread>;
 
@@ -132,6 +217,35 @@ export type ChatRepository = {
 
   selectMessagesByThreadId(threadId: string): Promise<ChatMessage[]>;
 
+  /**
+   * Messages of the branch that is currently shown, from the first message down.
+   */
+  selectActivePath(threadId: string): Promise<{
+    messages: ChatMessage[];
+    branches: MessageBranches;
+  }>;
+
+  /**
+   * Messages from the first message down to the given one, empty when it is not in the thread.
+   */
+  selectMessagePath(
+    threadId: string,
+    messageId: string,
+  ): Promise<ChatMessage[]>;
+
+  updateActiveLeaf(threadId: string, messageId: string): Promise<void>;
+
+  /**
+   * Shows the branch of a message, continued at its latest reply.
+   */
+  switchBranch(
+    threadId: string,
+    messageId: string,
+  ): Promise<{
+    messages: ChatMessage[];
+    branches: MessageBranches;
+  }>;
+
   selectThreadsByUserId(userId: string): Promise<
     (ChatThread & {
       lastMessageAt: number;
@@ -152,8 +266,6 @@ export type ChatRepository = {
   insertMessage(message: Omit<ChatMessage, "createdAt">): Promise<ChatMessage>;
   upsertMessage(message: Omit<ChatMessage, "createdAt">): Promise<ChatMessage>;
 
-  deleteMessagesByChatIdAfterTimestamp(messageId: string): Promise<void>;
-
   deleteAllThreads(userId: string): Promise<void>;
 
   deleteUnarchivedThreads(userId: string): Promise<void>;
@@ -161,6 +273,29 @@ export type ChatRepository = {
   insertMessages(
     messages: PartialBy<ChatMessage, "createdAt">[],
   ): Promise<ChatMessage[]>;
+
+  /**
+   * Full-text search over the text parts of the user's messages, best matches first.
+   */
+  searchMessages(
+    userId: string,
+    query: ChatSearchQuery,
+  ): Promise<ChatSearchResult[]>;
+};
+
+export type ChatThreadShareRepository = {
+  selectByThreadId(threadId: string): Promise<ChatThreadShare | null>;
+  selectByToken(token: string): Promise<ChatThreadShare | null>;
+  /**
+   * Creates the share link of a thread, or updates its options and keeps the token.
+   */
+  upsert(
+    share: Pick<
+      ChatThreadShare,
+      "threadId" | "userId" | "token" | "redactToolInputs"
+    >,
+  ): Promise<ChatThreadShare>;
+  delete(threadId: string): Promise<void>;
 };
 
 export const ManualToolConfirmTag = tag<{
@@ -0,0 +1,111 @@
+import { z } from "zod";
+
+const SecretNameSchema = z
+  .string()
+  .min(1)
+  .max(100)
+  .regex(/^[A-Za-z0-9_.-]+$/, "Use letters, numbers, '_', '-' and '.'");
+
+export const SecretSaveSchema = z.object({
+  name: SecretNameSchema,
+  value: z.string().min(1),
+});
+
+/**
+ * A secret of a user. The value is encrypted at rest and never sent to the client.
+ */
+export type DBSecret = {
+  id: string;
+  userId: string;
+  name: string;
+  value: string; // encrypted, see lib/secrets/encryption
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type SecretSummary = Omit<DBSecret, "value" | "userId">;
+
+export type SecretRepository = {
+  selectByUserId(userId: string): Promise<SecretSummary[]>;
+  selectValues(
+    userId: string,
+    names: string[],
+  ): Promise<Pick<DBSecret, "name" | "value">[]>;
+  save(secret: Pick<DBSecret, "userId" | "name" | "value">): Promise<void>;
+  delete(userId: string, name: string): Promise<void>;
+};
+
+// A host name such as "api.github.com", or "*.example.com" for its subdomains
+const HostPatternSchema = z
+  .string()
+  .regex(
+    /^(\*\.)?[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)*$/,
+    "Use a host name such as api.example.com or *.example.com",
+  );
+
+const HttpAuthHostsSchema = z.object({
+  allowedHosts: z.array(HostPatternSchema).min(1),
+});
+
+/**
+ * How an auth profile authenticates a request.
+ * `secret` is the name of the secret holding the token, password, API key
+ * or client secret. The profile only authenticates requests to `allowedHosts`,
+ * since workflow authors and the model choose the URLs it is applied to.
+ */
+export const HttpAuthConfigSchema = z.discriminatedUnion("type", [
+  HttpAuthHostsSchema.extend({
+    type: z.literal("bearer"),
+    secret: SecretNameSchema,
+  }),
+  HttpAuthHostsSchema.extend({
+    type: z.literal("basic"),
+    username: z.string().min(1),
+    secret: SecretNameSchema,
+  }),
+  HttpAuthHostsSchema.extend({
+    type: z.literal("api-key"),
+    in: z.enum(["header", "query"]),
+    key: z.string().min(1), // header or query parameter name
+    secret: SecretNameSchema,
+  }),
+  HttpAuthHostsSchema.extend({
+    type: z.literal("oauth2"),
+    tokenUrl: z.string().url(),
+    clientId: z.string().min(1),
+    scope: z.string().optional(),
+    secret: SecretNameSchema,
+  }),
+]);
+
+export type HttpAuthConfig = z.infer<typeof HttpAuthConfigSchema>;
+
+export const HttpAuthProfileSaveSchema = z.object({
+  name: SecretNameSchema,
+  config: HttpAuthConfigSchema,
+});
+
+/**
+ * Reusable authentication for HTTP nodes and the HTTP tool,
+ * which reference it by name.
+ */
+export type DBHttpAuthProfile = {
+  id: string;
+  userId: string;
+  name: string;
+  config: HttpAuthConfig;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type HttpAuthProfileRepository = {
+  selectByUserId(userId: string): Promise<DBHttpAuthProfile[]>;
+  selectByName(userId: string, name: string): Promise<DBHttpAuthProfile | null>;
+  selectById(id: string): Promise<DBHttpAuthProfile | null>;
+  save(
+    profile: Pick<DBHttpAuthProfile, "userId" | "name" | "config"> & {
+      id?: string;
+    },
+  ): Promise<DBHttpAuthProfile>;
+  delete(id: string): Promise<void>;
+};
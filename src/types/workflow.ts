@@ -1,7 +1,20 @@
 import { Tool } from "ai";
 import { ObjectJsonSchema7, Visibility } from "./util";
-import { NodeKind } from "lib/ai/workflow/workflow.interface";
+import {
+  NodeAttempt,
+  NodeKind,
+  NodeToolCall,
+  NodeUsage,
+} from "lib/ai/workflow/workflow.interface";
 import { tag } from "lib/tag";
+import { isValidCron } from "lib/ai/workflow/cron";
+import { ApprovalDecision } from "lib/ai/workflow/approval";
+import {
+  WorkflowTestAssertion,
+  WorkflowTestAssertionSchema,
+} from "lib/ai/workflow/workflow-test";
+import { WorkflowRequirement } from "lib/ai/workflow/workflow-bundle";
+import { z } from "zod";
 
 export type WorkflowIcon = {
   type: "emoji";
@@ -16,6 +29,7 @@ export type DBWorkflow = {
   name: string;
   description?: string;
   isPublished: boolean;
+  isTemplate: boolean; // Listed in the template gallery, set by admins
   visibility: Visibility;
   userId: string;
   createdAt: Date;
@@ -59,17 +73,68 @@ export type WorkflowSummary = {
   icon?: WorkflowIcon;
   visibility: Visibility;
   isPublished: boolean;
+  isTemplate: boolean;
   userId: string;
   userName: string;
   userAvatar?: string;
   updatedAt: Date;
 };
+
+/**
+ * Entry of the workflow template gallery.
+ * Built-in examples and published workflows marked as templates are listed the same way.
+ */
+export type WorkflowTemplate = {
+  id: string; // Example key or workflow id
+  source: "example" | "workflow";
+  name: string;
+  description?: string;
+  icon?: WorkflowIcon;
+  userName?: string; // Author of a workflow template
+  nodes: (Pick<DBNode, "id" | "kind" | "name" | "nodeConfig" | "uiConfig"> & {
+    description?: string | null;
+  })[];
+  edges: Pick<DBEdge, "id" | "source" | "target" | "uiConfig">[];
+  requirements: WorkflowRequirement[];
+};
+
+/**
+ * Immutable copy of a workflow structure, taken when the workflow is published.
+ * Runs outside the editor execute the latest one while the editor changes the draft.
+ */
+export type DBWorkflowVersion = {
+  id: string;
+  workflowId: string;
+  version: number; // 1, 2, 3... per workflow
+  nodes: DBNode[];
+  edges: DBEdge[];
+  userId: string; // who published it
+  createdAt: Date;
+};
+
+export type WorkflowVersionSummary = Omit<
+  DBWorkflowVersion,
+  "nodes" | "edges"
+> & {
+  userName: string;
+};
+
 export interface WorkflowRepository {
   delete(id: string): Promise<void>;
   selectByUserId(userId: string): Promise<DBWorkflow[]>;
   selectAll(userId: string): Promise<WorkflowSummary[]>;
   selectExecuteAbility(userId: string): Promise<WorkflowSummary[]>;
-  selectToolByIds(ids: string[]): Promise<
+  /**
+   * Published workflows marked as templates that the user can see.
+   */
+  selectTemplates(userId: string): Promise<WorkflowSummary[]>;
+  /**
+   * Published workflows among the ids that the user can see, with the input schema to call them with.
+   */
+  selectToolByIds(
+    ids: string[],
+    userId: string,
+  ): Promise<
     {
       id: string;
       name: string;
@@ -91,6 +156,7 @@ export interface WorkflowRepository {
       | "updatedAt"
       | "visibility"
       | "isPublished"
+      | "isTemplate"
       | "version"
     >,
     noGenerateInputNode?: boolean,
@@ -103,18 +169,218 @@ export interface WorkflowRepository {
     deleteEdges?: string[]; // edge id
   }): Promise<void>;
 
+  /**
+   * Loads the draft structure by default.
+   * With `snapshot`, loads a published version instead and returns null when it does not exist.
+   */
   selectStructureById(
     id: string,
     option?: {
       ignoreNote?: boolean;
+      snapshot?: number | "latest";
     },
   ): Promise<
     | null
     | (DBWorkflow & {
         nodes: DBNode[];
         edges: DBEdge[];
+        snapshot?: number; // version of the loaded snapshot
       })
   >;
+  /**
+   * Saves the draft structure as the next version and marks the workflow as published.
+   */
+  publish(workflowId: string, userId: string): Promise<DBWorkflowVersion>;
+  selectVersions(workflowId: string): Promise<WorkflowVersionSummary[]>;
+  selectVersion(
+    workflowId: string,
+    version: number,
+  ): Promise<DBWorkflowVersion | null>;
+  /**
+   * Replaces the draft structure with a published version.
+   * The published versions themselves are left as they are.
+   */
+  rollback(workflowId: string, version: number): Promise<void>;
+}
+
+export type WorkflowRunStatus =
+  | "running"
+  | "success"
+  | "fail"
+  | "waiting"
+  | "cancelled";
+
+export type WorkflowRunTrigger = "manual" | "schedule" | "webhook" | "chat";
+
+export type DBWorkflowRun = {
+  id: string;
+  workflowId: string;
+  userId: string;
+  status: WorkflowRunStatus;
+  trigger: WorkflowRunTrigger;
+  input?: Record<string, any>;
+  output?: any;
+  error?: { name: string; message: string };
+  startNodeId?: string; // set when the run was replayed from a node
+  replayOfRunId?: string; // run whose saved outputs seeded the replay
+  version?: number; // published version it ran, unset for draft runs
+  dryRun?: boolean; // pinned node outputs replaced their executors
+  startedAt: Date;
+  endedAt?: Date;
+};
+
+export type DBWorkflowRunNode = {
+  id: string;
+  runId: string;
+  nodeId: string;
+  name: string;
+  kind: string;
+  status: Exclude<WorkflowRunStatus, "running">;
+  input?: any;
+  output?: any;
+  error?: { name: string; message: string };
+  attempts?: NodeAttempt[]; // set when the node was retried
+  toolCalls?: NodeToolCall[]; // set when an LLM node called tools
+  usage?: NodeUsage[]; // set when the node called models
+  startedAt: Date;
+  endedAt: Date;
+};
+
+export interface WorkflowRunRepository {
+  insertRun(
+    run: Pick<
+      DBWorkflowRun,
+      "workflowId" | "userId" | "input" | "startNodeId" | "replayOfRunId"
+    > &
+      Partial<Pick<DBWorkflowRun, "trigger" | "version" | "dryRun">>,
+  ): Promise<DBWorkflowRun>;
+  finishRun(
+    id: string,
+    result: Pick<DBWorkflowRun, "status" | "output" | "error">,
+  ): Promise<void>;
+  /**
+   * Sets a waiting run back to running.
+   * Returns false when the run is not waiting, e.g. it was already resumed.
+   */
+  resumeRun(id: string): Promise<boolean>;
+  /**
+   * Sets a running or waiting run to cancelled.
+   * Returns false when the run already finished.
+   */
+  cancelRun(id: string): Promise<boolean>;
+  insertRunNode(node: Omit<DBWorkflowRunNode, "id">): Promise<void>;
+  selectRunsByWorkflowId(
+    workflowId: string,
+    userId: string,
+    limit?: number,
+  ): Promise<DBWorkflowRun[]>;
+  selectRunById(
+    id: string,
+  ): Promise<null | (DBWorkflowRun & { nodes: DBWorkflowRunNode[] })>;
+}
+
+export type DBWorkflowSchedule = {
+  id: string;
+  workflowId: string;
+  userId: string;
+  cron: string; // 5-field cron expression, evaluated in server local time
+  input: Record<string, any>;
+  enabled: boolean;
+  lastRunId?: string;
+  lastRunAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export const WorkflowScheduleCreateSchema = z
+  .object({
+    cron: z.string().refine(isValidCron, "Invalid cron expression"),
+    input: z.record(z.string(), z.any()).optional().default({}),
+    enabled: z.boolean().optional().default(true),
+  })
+  .strip();
+
+export const WorkflowScheduleUpdateSchema = z
+  .object({
+    cron: z.string().refine(isValidCron, "Invalid cron expression").optional(),
+    input: z.record(z.string(), z.any()).optional(),
+    enabled: z.boolean().optional(),
+  })
+  .strip();
+
+export interface WorkflowScheduleRepository {
+  selectByWorkflowId(workflowId: string): Promise<DBWorkflowSchedule[]>;
+  selectById(id: string): Promise<DBWorkflowSchedule | null>;
+  selectEnabled(): Promise<DBWorkflowSchedule[]>;
+  save(
+    schedule: PartialBy<
+      DBWorkflowSchedule,
+      "id" | "createdAt" | "updatedAt" | "lastRunId" | "lastRunAt"
+    >,
+  ): Promise<DBWorkflowSchedule>;
+  updateLastRun(id: string, lastRunId: string, lastRunAt: Date): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export type DBWorkflowTestCase = {
+  id: string;
+  workflowId: string;
+  userId: string;
+  name: string;
+  input: Record<string, any>;
+  assertions: WorkflowTestAssertion[];
+  dryRun: boolean; // pinned node outputs replace their executors
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export const WorkflowTestCaseCreateSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    input: z.record(z.string(), z.any()).optional().default({}),
+    assertions: z.array(WorkflowTestAssertionSchema).optional().default([]),
+    dryRun: z.boolean().optional().default(false),
+  })
+  .strip();
+
+export const WorkflowTestCaseUpdateSchema = z
+  .object({
+    name: z.string().min(1).max(100).optional(),
+    input: z.record(z.string(), z.any()).optional(),
+    assertions: z.array(WorkflowTestAssertionSchema).optional(),
+    dryRun: z.boolean().optional(),
+  })
+  .strip();
+
+export interface WorkflowTestCaseRepository {
+  selectByWorkflowId(workflowId: string): Promise<DBWorkflowTestCase[]>;
+  selectById(id: string): Promise<DBWorkflowTestCase | null>;
+  save(
+    testCase: PartialBy<DBWorkflowTestCase, "id" | "createdAt" | "updatedAt">,
+  ): Promise<DBWorkflowTestCase>;
+  delete(id: string): Promise<void>;
+}
+
+export type DBWorkflowWebhook = {
+  id: string;
+  workflowId: string;
+  userId: string; // runs started by the webhook are recorded for this user
+  token: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export interface WorkflowWebhookRepository {
+  selectByWorkflowId(workflowId: string): Promise<DBWorkflowWebhook | null>;
+  /**
+   * Creates the webhook of a workflow or replaces its token.
+   */
+  rotateToken(
+    workflowId: string,
+    userId: string,
+    token: string,
+  ): Promise<DBWorkflowWebhook>;
+  delete(workflowId: string): Promise<void>;
 }
 
 export type VercelAIWorkflowTool = Tool & {
@@ -131,8 +397,9 @@ export type VercelAIWorkflowToolStreaming = {
   kind: NodeKind;
   endedAt?: number;
   id: string;
-  status: "running" | "success" | "fail";
+  status: WorkflowRunStatus;
   error?: { name: string; message: string };
+  usage?: NodeUsage[]; // kept when the result is dropped to save tokens
   result?: { input?: any; output?: any };
 };
 
@@ -146,7 +413,19 @@ export type VercelAIWorkflowToolStreamingResult = {
   history: VercelAIWorkflowToolStreaming[];
   error?: { name: string; message: string };
   result?: any;
-  status: "running" | "success" | "fail";
+  status: WorkflowRunStatus;
+  /**
+   * Set while the run waits at an Approval node.
+   * The client fills in `decision`, and the next chat request resumes the run.
+   */
+  approval?: {
+    workflowId: string;
+    runId: string;
+    nodeId: string;
+    nodeName: string;
+    message?: string;
+    decision?: ApprovalDecision;
+  };
 };
 
 export const VercelAIWorkflowToolStreamingResultTag =